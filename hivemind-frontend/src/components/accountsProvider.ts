@@ -0,0 +1,439 @@
+import * as vscode from 'vscode';
+import { Hbar, PrivateKey, PublicKey } from '@hashgraph/sdk';
+import { HederaService } from '../services/hederaService';
+import { AccountKeyType, AccountService, ManagedAccount } from '../services/accountService';
+import { ProfileService } from '../services/profileService';
+import { MirrorAccount, MirrorTokenRelationship } from '../services/mirrorNodeService';
+import { TokenUtils } from '../utils/tokenUtils';
+
+/**
+ * Tree item representing an account created from the Accounts view
+ */
+export class AccountTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly account: ManagedAccount,
+    public readonly mirrorAccount: MirrorAccount | undefined
+  ) {
+    super(account.name, vscode.TreeItemCollapsibleState.Collapsed);
+
+    const balance = mirrorAccount ? Hbar.fromTinybars(mirrorAccount.balance.balance).toString() : 'not on the mirror node yet';
+    this.description = `${account.accountId} · ${balance}`;
+    this.tooltip = `${account.accountId} (${account.keyType})`;
+    this.iconPath = new vscode.ThemeIcon(mirrorAccount?.deleted ? 'trash' : 'account');
+    this.contextValue = 'account';
+  }
+}
+
+/**
+ * Tree data provider for the Accounts view: accounts created on the current network with
+ * their balances and token holdings from the mirror node
+ */
+export class AccountsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  // The mirror node lags consensus by a few seconds
+  private static readonly MIRROR_LAG_MS = 5000;
+  private static readonly TOKEN_LIMIT = 100;
+  private static readonly DEFAULT_INITIAL_BALANCE = '10';
+
+  private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  constructor(
+    private hederaService: HederaService,
+    private accountService: AccountService,
+    private profileService: ProfileService
+  ) {
+    vscode.commands.registerCommand('hivemindAccounts.refresh', () => {
+      this.refresh();
+    });
+
+    vscode.commands.registerCommand('hivemindAccounts.createAccount', () => this.createAccount());
+    vscode.commands.registerCommand('hivemindAccounts.fund', (item: AccountTreeItem) => this.fund(item.account));
+    vscode.commands.registerCommand('hivemindAccounts.rotateKey', (item: AccountTreeItem) => this.rotateKey(item.account));
+    vscode.commands.registerCommand('hivemindAccounts.exportProfile', (item: AccountTreeItem) => this.exportProfile(item.account));
+    vscode.commands.registerCommand('hivemindAccounts.remove', (item: AccountTreeItem) => this.remove(item.account));
+
+    vscode.commands.registerCommand('hivemindAccounts.copyAccountId', async (item: AccountTreeItem) => {
+      await vscode.env.clipboard.writeText(item.account.accountId);
+      vscode.window.showInformationMessage(`Copied ${item.account.accountId}`);
+    });
+
+    this.hederaService.onDidChangeConnection(() => this.refresh());
+    this.accountService.onDidChangeAccounts(() => this.refresh());
+  }
+
+  /**
+   * Refresh the tree view
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get tree item for a given element
+   */
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Get children of a given element
+   */
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (element instanceof AccountTreeItem) {
+      return this.getAccountDetails(element);
+    }
+    if (element) {
+      return [];
+    }
+
+    const accounts = this.accountService.getAccounts(this.hederaService.getCurrentNetwork());
+    const mirrorNode = this.hederaService.getMirrorNode();
+
+    return Promise.all(accounts.map(async account => {
+      // A new account takes a few seconds to reach the mirror node
+      const mirrorAccount = await mirrorNode.getAccount(account.accountId).catch(error => {
+        console.error(`Failed to load account ${account.accountId}:`, error);
+        return undefined;
+      });
+      if (mirrorAccount) {
+        await this.resolvePendingKey(account, mirrorAccount);
+      }
+      return new AccountTreeItem(account, mirrorAccount);
+    }));
+  }
+
+  private async getAccountDetails(item: AccountTreeItem): Promise<vscode.TreeItem[]> {
+    const { account, mirrorAccount } = item;
+    const rows: [string, string][] = [
+      ['Account ID', account.accountId],
+      ['Key', `${account.keyType} ${PublicKey.fromString(account.publicKey).toStringRaw()}`]
+    ];
+    if (account.evmAddress) {
+      rows.push(['EVM address', account.evmAddress]);
+    }
+
+    if (!mirrorAccount) {
+      rows.push(['Balance', 'not on the mirror node yet']);
+      return rows.map(([label, value]) => AccountsProvider.detailRow(label, value));
+    }
+
+    rows.push(['Balance', Hbar.fromTinybars(mirrorAccount.balance.balance).toString()]);
+    if (!AccountsProvider.hasKey(mirrorAccount, account.publicKey)) {
+      rows.push(['Warning', 'The account key was changed outside HiveMind']);
+    }
+    if (mirrorAccount.memo) {
+      rows.push(['Memo', mirrorAccount.memo]);
+    }
+
+    let tokens: vscode.TreeItem[] = [];
+    try {
+      const mirrorNode = this.hederaService.getMirrorNode();
+      const relationships = await mirrorNode.getAccountTokens(account.accountId, { limit: AccountsProvider.TOKEN_LIMIT });
+      tokens = await Promise.all(relationships.map(async relationship => this.tokenRow(relationship)));
+    } catch (error) {
+      console.error(`Failed to load the tokens of ${account.accountId}:`, error);
+      tokens = [AccountsProvider.detailRow('Tokens', 'failed to load')];
+    }
+
+    return [
+      ...rows.map(([label, value]) => AccountsProvider.detailRow(label, value)),
+      ...(tokens.length ? tokens : [AccountsProvider.detailRow('Tokens', 'none')])
+    ];
+  }
+
+  private async tokenRow(relationship: MirrorTokenRelationship): Promise<vscode.TreeItem> {
+    const token = await this.hederaService.getMirrorNode().getToken(relationship.token_id);
+    const nft = token.type === 'NON_FUNGIBLE_UNIQUE';
+    const row = new vscode.TreeItem(token.symbol || token.token_id, vscode.TreeItemCollapsibleState.None);
+    row.description = nft
+      ? `${relationship.balance} NFT${relationship.balance === 1 ? '' : 's'} · ${token.token_id}`
+      : `${TokenUtils.formatAmount(relationship.balance, relationship.decimals)} · ${token.token_id}`;
+    row.tooltip = token.name;
+    row.iconPath = new vscode.ThemeIcon(nft ? 'symbol-misc' : 'symbol-constant');
+    row.contextValue = 'accountToken';
+    return row;
+  }
+
+  private static detailRow(label: string, value: string): vscode.TreeItem {
+    const row = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    row.description = value;
+    row.tooltip = value;
+    row.contextValue = 'accountDetail';
+    return row;
+  }
+
+  /**
+   * Whether the mirror node shows a public key as the account key
+   */
+  private static hasKey(mirrorAccount: MirrorAccount, publicKey: string): boolean {
+    return mirrorAccount.key?.key.toLowerCase() === PublicKey.fromString(publicKey).toStringRaw().toLowerCase();
+  }
+
+  /**
+   * Keep the key of an unconfirmed rotation once the mirror node shows it on the account
+   */
+  private async resolvePendingKey(account: ManagedAccount, mirrorAccount: MirrorAccount): Promise<void> {
+    try {
+      const pendingKey = await this.accountService.getPendingKey(account.network, account.accountId);
+      if (pendingKey && AccountsProvider.hasKey(mirrorAccount, pendingKey.publicKey.toStringDer())) {
+        await this.accountService.setKey(account, pendingKey);
+        await this.updateProfileKeys(account, pendingKey);
+      }
+    } catch (error) {
+      console.error(`Failed to resolve the pending key of ${account.accountId}:`, error);
+    }
+  }
+
+  private async createAccount(): Promise<void> {
+    if (!this.hederaService.isConnected()) {
+      vscode.window.showErrorMessage('Connect to Hedera to create accounts');
+      return;
+    }
+
+    const network = this.hederaService.getCurrentNetwork();
+    const name = (await vscode.window.showInputBox({
+      prompt: 'Account name',
+      value: `account-${this.accountService.getAccounts(network).length + 1}`,
+      validateInput: value => value.trim() ? null : 'Account name is required'
+    }))?.trim();
+    if (!name) {
+      return;
+    }
+
+    const keyType = await this.pickKeyType('Key for the new account');
+    if (!keyType) {
+      return;
+    }
+
+    const initialBalance = await vscode.window.showInputBox({
+      prompt: `Initial balance in HBAR, paid by ${this.hederaService.getAccountId()}`,
+      value: AccountsProvider.DEFAULT_INITIAL_BALANCE,
+      validateInput: value => value.trim() !== '' && Number(value) >= 0 ? null : 'Enter a number of HBAR'
+    });
+    if (initialBalance === undefined) {
+      return;
+    }
+
+    await this.run(`create ${name}`, async () => {
+      // The key only ever leaves memory for SecretStorage
+      const key = AccountService.generateKey(keyType);
+      const created = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Creating ${name}...`
+      }, () => this.runTransaction(
+        'ACCOUNT_CREATE',
+        { name, keyType, initialBalance: `${Number(initialBalance)} ℏ` },
+        () => this.hederaService.createAccount(key, { initialBalanceHbar: Number(initialBalance) }),
+        result => ({ accountId: result.accountId })
+      ));
+
+      const account: ManagedAccount = {
+        name,
+        network,
+        accountId: created.accountId,
+        keyType,
+        publicKey: key.publicKey.toStringDer(),
+        evmAddress: created.evmAddress,
+        createdAt: new Date().toISOString()
+      };
+      await this.accountService.addAccount(account, key);
+
+      const action = await vscode.window.showInformationMessage(
+        `Created ${name} (${created.accountId})`,
+        'Export as Profile',
+        'Copy Account ID'
+      );
+      if (action === 'Export as Profile') {
+        await this.exportProfile(account);
+      } else if (action === 'Copy Account ID') {
+        await vscode.env.clipboard.writeText(created.accountId);
+      }
+    });
+  }
+
+  private async fund(account: ManagedAccount): Promise<void> {
+    if (!this.hederaService.isConnected()) {
+      vscode.window.showErrorMessage('Connect to Hedera to fund accounts');
+      return;
+    }
+
+    const amount = await vscode.window.showInputBox({
+      prompt: `HBAR to send from ${this.hederaService.getAccountId()} to ${account.name} (${account.accountId})`,
+      placeHolder: '10',
+      validateInput: value => Number(value) > 0 ? null : 'Enter a positive number of HBAR'
+    });
+    if (!amount) {
+      return;
+    }
+
+    await this.run(`fund ${account.name}`, () => this.runTransaction(
+      'CRYPTO_TRANSFER',
+      { accountId: account.accountId, amount: `${Number(amount)} ℏ` },
+      async () => ({ transactionId: await this.hederaService.transferHbar(account.accountId, Number(amount)) })
+    ));
+  }
+
+  private async rotateKey(account: ManagedAccount): Promise<void> {
+    if (!this.hederaService.isConnected()) {
+      vscode.window.showErrorMessage('Connect to Hedera to rotate keys');
+      return;
+    }
+
+    const keyType = await this.pickKeyType(`New key for ${account.name}`, account.keyType);
+    if (!keyType) {
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Replace the key of ${account.name} (${account.accountId}) with a new ${keyType} key? ` +
+      'Operator profiles exported from this account are updated to the new key.',
+      { modal: true },
+      'Rotate Key'
+    );
+    if (choice !== 'Rotate Key') {
+      return;
+    }
+
+    await this.run(`rotate the key of ${account.name}`, async () => {
+      const currentKey = await this.accountService.getPrivateKey(account.network, account.accountId);
+      const newKey = AccountService.generateKey(keyType);
+
+      await this.accountService.rotateKey(account, newKey, () => this.runTransaction(
+        'ACCOUNT_UPDATE',
+        { accountId: account.accountId, keyType },
+        async () => ({ transactionId: await this.hederaService.rotateAccountKey(account.accountId, currentKey, newKey) })
+      ));
+      await this.updateProfileKeys(account, newKey);
+      vscode.window.showInformationMessage(`Rotated the key of ${account.name}`);
+    });
+  }
+
+  /**
+   * Give operator profiles of an account its new key, reconnecting if one of them is in use
+   */
+  private async updateProfileKeys(account: ManagedAccount, key: PrivateKey): Promise<void> {
+    const profiles = this.profileService.getProfiles().filter(profile =>
+      profile.network === account.network && profile.accountId === account.accountId && profile.keySource === 'secretStorage');
+
+    for (const profile of profiles) {
+      await this.profileService.saveProfile(profile, key.toStringDer());
+    }
+
+    const active = this.hederaService.getActiveProfileName();
+    if (this.hederaService.isConnected() && profiles.some(profile => profile.name === active)) {
+      await this.hederaService.connectProfile(active!);
+    }
+  }
+
+  private async exportProfile(account: ManagedAccount): Promise<void> {
+    const existing = this.profileService.getProfiles().map(profile => profile.name);
+    const name = (await vscode.window.showInputBox({
+      prompt: `Operator profile name for ${account.accountId}`,
+      value: existing.includes(account.name) ? `${account.name}-${account.network}` : account.name,
+      validateInput: value => {
+        if (!value.trim()) {
+          return 'Profile name is required';
+        }
+        return existing.includes(value.trim()) ? `A profile named ${value.trim()} already exists` : null;
+      }
+    }))?.trim();
+    if (!name) {
+      return;
+    }
+
+    await this.run(`export ${account.name}`, async () => {
+      const key = await this.accountService.getPrivateKey(account.network, account.accountId);
+      await this.profileService.saveProfile({
+        name,
+        network: account.network,
+        accountId: account.accountId,
+        keySource: 'secretStorage',
+        maxTransactionFee: ProfileService.DEFAULT_MAX_TRANSACTION_FEE
+      }, key.toStringDer());
+
+      const action = await vscode.window.showInformationMessage(`Operator profile ${name} saved`, 'Switch Now');
+      if (action === 'Switch Now') {
+        await this.profileService.setActiveProfile(name);
+        await vscode.window.withProgress({
+          location: vscode.ProgressLocation.Window,
+          title: `Connecting as ${name}...`
+        }, () => this.hederaService.connectProfile(name));
+      }
+    });
+  }
+
+  private async remove(account: ManagedAccount): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `Remove ${account.name} (${account.accountId})? Its private key is deleted from secret storage, so ` +
+      'the account and its balance can no longer be used unless it was exported as an operator profile.',
+      { modal: true },
+      'Remove'
+    );
+    if (choice !== 'Remove') {
+      return;
+    }
+
+    await this.run(`remove ${account.name}`, () => this.accountService.removeAccount(account.network, account.accountId));
+  }
+
+  private async pickKeyType(placeHolder: string, current?: AccountKeyType): Promise<AccountKeyType | undefined> {
+    const items: { label: string; description: string; keyType: AccountKeyType }[] = [
+      { label: 'ED25519', description: 'Hedera native key', keyType: 'ED25519' },
+      { label: 'ECDSA (secp256k1)', description: 'EVM compatible, with an EVM address alias on creation', keyType: 'ECDSA' }
+    ];
+    if (current === 'ECDSA') {
+      items.reverse();
+    }
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder });
+    return picked?.keyType;
+  }
+
+  /**
+   * Run a transaction and record it in the Transaction Center, including failed transactions;
+   * the tree is refreshed once the mirror node has caught up
+   */
+  private async runTransaction<T extends { transactionId: string }>(
+    type: string,
+    details: any,
+    transaction: () => Promise<T>,
+    getResultDetails: (result: T) => any = () => ({})
+  ): Promise<T> {
+    try {
+      const result = await transaction();
+      vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+        id: result.transactionId,
+        type,
+        timestamp: new Date(),
+        status: 'SUCCESS',
+        details: { ...details, ...getResultDetails(result) }
+      });
+      setTimeout(() => this.refresh(), AccountsProvider.MIRROR_LAG_MS);
+      return result;
+    } catch (error: any) {
+      // Receipt errors carry the transaction ID; policy blocks are recorded by the policy
+      const transactionId = error?.transactionId?.toString();
+      if (transactionId) {
+        vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+          id: transactionId,
+          type,
+          timestamp: new Date(),
+          status: 'FAILED',
+          details: { ...details, error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run an action and show its error, if any
+   */
+  private async run(description: string, action: () => Promise<unknown>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to ${description}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -1,5 +1,67 @@
 import * as vscode from 'vscode';
 import { HederaService } from '../services/hederaService';
+import { RegistryAgent } from '../services/agentRegistryService';
+import { CollaborationService } from '../services/collaborationService';
+import { CollaborationJob, CollaborationMessage } from '../services/collaborationProtocol';
+import { PublishAgentPanel } from './publishAgentPanel';
+import { CollaborationPanel } from './collaborationPanel';
+import { AgentPaymentUtils } from '../utils/agentPaymentUtils';
+
+/**
+ * Top-level group in the Agent Explorer
+ */
+export class AgentGroupItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly group: 'mine' | 'marketplace' | 'collaborations'
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+
+    this.contextValue = `agentGroup.${group}`;
+    this.iconPath = new vscode.ThemeIcon(
+      group === 'mine' ? 'account' : group === 'marketplace' ? 'globe' : 'organization'
+    );
+  }
+}
+
+/**
+ * Tree item representing a collaboration job; its children are the topic messages
+ */
+export class CollaborationTreeItem extends vscode.TreeItem {
+  constructor(public readonly job: CollaborationJob) {
+    super(job.request?.title || job.jobId, vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.description = job.claimant ? `${job.status} by ${job.claimant.agentId}` : job.status;
+    this.tooltip = `Topic ${job.topicId}, job ${job.jobId}`;
+    this.contextValue = 'collaboration';
+    this.iconPath = new vscode.ThemeIcon(
+      job.status === 'completed' ? 'pass' : job.status === 'disputed' ? 'warning' : 'sync'
+    );
+    this.command = {
+      command: 'hivemindAgentExplorer.openCollaboration',
+      title: 'Open Collaboration',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Tree item representing one message of a collaboration topic
+ */
+export class CollaborationMessageItem extends vscode.TreeItem {
+  constructor(public readonly message: CollaborationMessage) {
+    super(`#${message.sequenceNumber} ${message.envelope.type}`, vscode.TreeItemCollapsibleState.None);
+
+    this.description = message.envelope.sender.accountId;
+    this.tooltip = message.rejected
+      ? `Not applied: ${message.rejected}`
+      : `Signed by ${message.envelope.sender.accountId}`;
+    this.contextValue = 'collaborationMessage';
+    this.iconPath = message.rejected
+      ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('errorForeground'))
+      : new vscode.ThemeIcon('verified');
+  }
+}
 
 /**
  * Tree item representing an agent in the Agent Explorer
@@ -10,15 +72,17 @@ export class AgentTreeItem extends vscode.TreeItem {
     public readonly agentId: string,
     public readonly capabilities: string[],
     public readonly fee: string,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly owned: boolean = false,
+    public readonly active: boolean = true
   ) {
     super(label, collapsibleState);
     
     this.tooltip = `${label} (${agentId})`;
-    this.description = fee;
+    this.description = active ? fee : `${fee} (inactive)`;
     
     // Set context value for when clause in package.json
-    this.contextValue = 'agent';
+    this.contextValue = owned ? (active ? 'myAgent' : 'myAgent.inactive') : 'agent';
     
     // Set icon based on capabilities
     if (capabilities.includes('audit')) {
@@ -33,23 +97,66 @@ export class AgentTreeItem extends vscode.TreeItem {
   }
 }
 
+type AgentExplorerItem = AgentGroupItem | AgentTreeItem | CollaborationTreeItem | CollaborationMessageItem;
+
 /**
  * Tree data provider for the Agent Explorer view
  */
-export class AgentExplorerProvider implements vscode.TreeDataProvider<AgentTreeItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<AgentTreeItem | undefined | null | void> = new vscode.EventEmitter<AgentTreeItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<AgentTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+export class AgentExplorerProvider implements vscode.TreeDataProvider<AgentExplorerItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<AgentExplorerItem | undefined | null | void> = new vscode.EventEmitter<AgentExplorerItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<AgentExplorerItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
-  constructor(private hederaService: HederaService) {
+  constructor(
+    private hederaService: HederaService,
+    private collaborationService: CollaborationService
+  ) {
     // Register refresh command
     vscode.commands.registerCommand('hivemindAgentExplorer.refresh', () => {
+      // A manual refresh skips the registry cache
+      this.hederaService.getAgentRegistry()?.invalidate();
       this.refresh();
     });
+
+    // Registry events and registry setting changes
+    this.hederaService.onDidChangeAgents(() => this.refresh());
+
+    // New messages on collaboration topics
+    this.collaborationService.onDidChangeJobs(() => this.refresh());
     
     // Register use agent command
     vscode.commands.registerCommand('hivemindAgentExplorer.useAgent', (agentId: string) => {
       this.useAgent(agentId);
     });
+
+    // Register commands for the operator's own agents
+    vscode.commands.registerCommand('hivemind.publishAgent', () => {
+      PublishAgentPanel.createOrShow(this.hederaService);
+    });
+
+    vscode.commands.registerCommand('hivemindAgentExplorer.editAgent', (item?: AgentTreeItem) => {
+      this.editAgent(item);
+    });
+
+    vscode.commands.registerCommand('hivemindAgentExplorer.deactivateAgent', (item?: AgentTreeItem) => {
+      this.deactivateAgent(item);
+    });
+
+    // Register collaboration commands
+    vscode.commands.registerCommand('hivemind.startCollaboration', (item?: AgentTreeItem) => {
+      this.startCollaboration(item);
+    });
+
+    vscode.commands.registerCommand('hivemind.joinCollaboration', () => {
+      this.joinCollaboration();
+    });
+
+    vscode.commands.registerCommand('hivemindAgentExplorer.openCollaboration', (item: CollaborationTreeItem) => {
+      CollaborationPanel.createOrShow(this.hederaService, this.collaborationService, item.job.topicId);
+    });
+
+    vscode.commands.registerCommand('hivemindAgentExplorer.stopFollowingCollaboration', (item: CollaborationTreeItem) => {
+      this.collaborationService.stopFollowing(item.job.topicId);
+    });
   }
 
   /**
@@ -62,38 +169,50 @@ export class AgentExplorerProvider implements vscode.TreeDataProvider<AgentTreeI
   /**
    * Get tree item for a given element
    */
-  getTreeItem(element: AgentTreeItem): vscode.TreeItem {
+  getTreeItem(element: AgentExplorerItem): vscode.TreeItem {
     return element;
   }
 
   /**
    * Get children of a given element
    */
-  async getChildren(element?: AgentTreeItem): Promise<AgentTreeItem[]> {
-    // If element is provided, it means we're getting children of a specific node
-    // In this case, we don't have nested items, so return empty array
-    if (element) {
+  async getChildren(element?: AgentExplorerItem): Promise<AgentExplorerItem[]> {
+    // Agents and messages have no children
+    if (element instanceof AgentTreeItem || element instanceof CollaborationMessageItem) {
       return [];
     }
+
+    if (element instanceof CollaborationTreeItem) {
+      return element.job.messages.map(message => new CollaborationMessageItem(message));
+    }
     
     // Check if connected to Hedera
     if (!this.hederaService.isConnected()) {
       // Not connected, return empty array
       return [];
     }
+
+    if (!element) {
+      return [
+        new AgentGroupItem('My Agents', 'mine'),
+        new AgentGroupItem('Marketplace', 'marketplace'),
+        new AgentGroupItem('Active Collaborations', 'collaborations')
+      ];
+    }
+
+    if (element.group === 'collaborations') {
+      return this.collaborationService.getJobs().map(job => new CollaborationTreeItem(job));
+    }
     
     try {
       // Get agents from Hedera
-      const agents = await this.hederaService.getAgents();
+      const owned = element.group === 'mine';
+      const agents = owned
+        ? await this.hederaService.getMyAgents()
+        : await this.hederaService.getAgents();
       
       // Convert to tree items
-      return agents.map(agent => new AgentTreeItem(
-        agent.name,
-        agent.id,
-        agent.capabilities,
-        agent.fee,
-        vscode.TreeItemCollapsibleState.None
-      ));
+      return agents.map(agent => this.toTreeItem(agent, owned));
     } catch (error) {
       console.error('Failed to get agents:', error);
       vscode.window.showErrorMessage(`Failed to get agents: ${error}`);
@@ -101,6 +220,182 @@ export class AgentExplorerProvider implements vscode.TreeDataProvider<AgentTreeI
     }
   }
 
+  private toTreeItem(agent: RegistryAgent, owned: boolean): AgentTreeItem {
+    return new AgentTreeItem(
+      agent.name,
+      agent.id,
+      agent.capabilities,
+      agent.fee,
+      vscode.TreeItemCollapsibleState.None,
+      owned,
+      agent.active
+    );
+  }
+
+  /**
+   * Pick one of the operator's agents when a command is run from the palette
+   */
+  private async pickMyAgent(item: AgentTreeItem | undefined, activeOnly: boolean): Promise<RegistryAgent | undefined> {
+    const agents = (await this.hederaService.getMyAgents()).filter(agent => agent.active || !activeOnly);
+
+    if (item) {
+      return agents.find(agent => agent.id === item.agentId);
+    }
+
+    if (agents.length === 0) {
+      vscode.window.showInformationMessage('The operator account has not published any agents');
+      return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      agents.map(agent => ({ label: agent.name, description: agent.id, agent })),
+      { placeHolder: 'Select an agent' }
+    );
+    return picked?.agent;
+  }
+
+  /**
+   * Open the publish form for one of the operator's agents
+   */
+  private async editAgent(item?: AgentTreeItem): Promise<void> {
+    try {
+      const agent = await this.pickMyAgent(item, false);
+      if (agent) {
+        PublishAgentPanel.createOrShow(this.hederaService, agent);
+      }
+    } catch (error) {
+      console.error('Failed to edit agent:', error);
+      vscode.window.showErrorMessage(`Failed to edit agent: ${error}`);
+    }
+  }
+
+  /**
+   * Deactivate one of the operator's agents in the registry
+   */
+  private async deactivateAgent(item?: AgentTreeItem): Promise<void> {
+    try {
+      const agent = await this.pickMyAgent(item, true);
+      if (!agent) {
+        return;
+      }
+
+      const confirmation = await vscode.window.showWarningMessage(
+        `Deactivate ${agent.name} (${agent.id})?`,
+        { modal: true, detail: 'The agent is removed from the marketplace. The registry has no way to reactivate it.' },
+        'Deactivate'
+      );
+      if (confirmation !== 'Deactivate') {
+        return;
+      }
+
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Deactivating ${agent.name}...`,
+        cancellable: false
+      }, () => PublishAgentPanel.sendRegistryTransaction(this.hederaService, 'deactivateAgent', [agent.id]));
+
+      vscode.window.showInformationMessage(`Agent ${agent.id} deactivated`);
+    } catch (error) {
+      console.error('Failed to deactivate agent:', error);
+      vscode.window.showErrorMessage(`Failed to deactivate agent: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Post a job to a new collaboration topic, inviting the given agent or any agent with the capability
+   */
+  private async startCollaboration(item?: AgentTreeItem): Promise<void> {
+    try {
+      const agents = await this.hederaService.getAgents();
+      const capabilities = Array.from(new Set(agents.flatMap(agent => agent.capabilities)));
+
+      const title = await vscode.window.showInputBox({
+        prompt: 'Job title',
+        placeHolder: 'Audit the vault contract',
+        validateInput: value => value.trim() ? null : 'A title is required'
+      });
+      if (!title) {
+        return;
+      }
+
+      const capability = item
+        ? await vscode.window.showQuickPick(item.capabilities, { placeHolder: `What should ${item.label} do?` })
+        : await vscode.window.showQuickPick(capabilities.length > 0 ? capabilities : ['audit', 'test-generation'], {
+          placeHolder: 'Capability the job needs'
+        });
+      if (!capability) {
+        return;
+      }
+
+      const description = await vscode.window.showInputBox({ prompt: 'Describe the job for the agents', value: title });
+      if (description === undefined) {
+        return;
+      }
+
+      const contractAddress = await vscode.window.showInputBox({
+        prompt: 'Contract ID or EVM address to work on (optional)',
+        placeHolder: '0.0.1234'
+      });
+      if (contractAddress === undefined) {
+        return;
+      }
+
+      let agentIds: string[] = [];
+      if (item) {
+        agentIds = [item.agentId];
+      } else {
+        const invited = await vscode.window.showQuickPick(
+          agents.filter(agent => agent.capabilities.includes(capability))
+            .map(agent => ({ label: agent.name, description: agent.id, agentId: agent.id })),
+          { canPickMany: true, placeHolder: 'Invite agents (pick none to let any agent claim the job)' }
+        );
+        if (!invited) {
+          return;
+        }
+        agentIds = invited.map(agent => agent.agentId);
+      }
+
+      const job = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Creating collaboration topic...',
+        cancellable: false
+      }, () => this.collaborationService.startCollaboration({
+        title: title.trim(),
+        capability,
+        description: description.trim(),
+        contractAddress: contractAddress.trim() || undefined,
+        agentIds: agentIds.length > 0 ? agentIds : undefined
+      }));
+
+      CollaborationPanel.createOrShow(this.hederaService, this.collaborationService, job.topicId);
+    } catch (error) {
+      console.error('Failed to start collaboration:', error);
+      vscode.window.showErrorMessage(`Failed to start collaboration: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Follow a collaboration topic shared by another participant
+   */
+  private async joinCollaboration(): Promise<void> {
+    try {
+      const topicId = await vscode.window.showInputBox({
+        prompt: 'Collaboration topic ID',
+        placeHolder: '0.0.1234',
+        validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter a topic ID (0.0.x)'
+      });
+      if (!topicId) {
+        return;
+      }
+
+      const job = await this.collaborationService.joinCollaboration(topicId.trim());
+      CollaborationPanel.createOrShow(this.hederaService, this.collaborationService, job.topicId);
+    } catch (error) {
+      console.error('Failed to join collaboration:', error);
+      vscode.window.showErrorMessage(`Failed to join collaboration: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   /**
    * Use an agent
    */
@@ -134,13 +429,21 @@ export class AgentExplorerProvider implements vscode.TreeDataProvider<AgentTreeI
       const capability = (action as any)?.label || '';
       switch (capability) {
         case 'audit':
-          vscode.commands.executeCommand('hivemind.auditContract');
-          break;
-          
         case 'test-generation':
-        case 'fuzzing':
-          vscode.commands.executeCommand('hivemind.generateTests');
+        case 'fuzzing': {
+          // Check the request can be sent before charging the fee
+          const editor = vscode.window.activeTextEditor;
+          if (!editor || editor.document.languageId !== 'solidity') {
+            vscode.window.showInformationMessage(`Please open a Solidity file to use ${agent.name} for ${capability}.`);
+            return;
+          }
+
+          const command = capability === 'audit' ? 'hivemind.auditContract' : 'hivemind.generateTests';
+          await AgentPaymentUtils.invoke(this.hederaService, agent, capability, payment =>
+            vscode.commands.executeCommand<boolean>(command, payment)
+          );
           break;
+        }
           
         case 'optimization':
         case 'gas-analysis':
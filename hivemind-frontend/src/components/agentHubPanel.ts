@@ -107,6 +107,11 @@ export class AgentHubPanel {
             }
             break;
 
+          case 'useAgent':
+            // The Agent Explorer asks for the capability and handles the fee payment
+            vscode.commands.executeCommand('hivemindAgentExplorer.useAgent', message.agentId);
+            break;
+
           case 'connectHedera':
             vscode.commands.executeCommand('hivemind.connectHedera');
             break;
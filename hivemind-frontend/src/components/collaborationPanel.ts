@@ -0,0 +1,492 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { CollaborationService } from '../services/collaborationService';
+import { CollaborationFinding, CollaborationJob, CollaborationProtocol } from '../services/collaborationProtocol';
+import { getNonce } from '../utils/security';
+
+/**
+ * Shows a collaboration job: the request, the message timeline with signature checks,
+ * the results, and the actions open to the operator's role in the job
+ */
+export class CollaborationPanel {
+  public static currentPanel: CollaborationPanel | undefined;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private hederaService: HederaService,
+    private collaborationService: CollaborationService,
+    private topicId: string
+  ) {
+    this._panel = panel;
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this.collaborationService.onDidChangeJobs(() => this.update(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+            await this.update();
+            break;
+
+          case 'claim':
+            await this.claim();
+            break;
+
+          case 'progress':
+            await this.send('progress', message);
+            break;
+
+          case 'result':
+            await this.send('result', message);
+            break;
+
+          case 'dispute':
+            await this.send('dispute', message);
+            break;
+
+          case 'copyTopicId':
+            await vscode.env.clipboard.writeText(this.topicId);
+            vscode.window.showInformationMessage(`Copied ${this.topicId}. Share it so other agents can join the job.`);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the panel for a followed job
+   */
+  public static createOrShow(hederaService: HederaService, collaborationService: CollaborationService, topicId: string): void {
+    const job = collaborationService.getJob(topicId);
+    if (!job) {
+      vscode.window.showErrorMessage(`Collaboration ${topicId} is not followed`);
+      return;
+    }
+
+    if (CollaborationPanel.currentPanel) {
+      CollaborationPanel.currentPanel.dispose();
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindCollaboration',
+      `Collaboration: ${job.request?.title || topicId}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    CollaborationPanel.currentPanel = new CollaborationPanel(panel, hederaService, collaborationService, topicId);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    CollaborationPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private getJob(): CollaborationJob {
+    const job = this.collaborationService.getJob(this.topicId);
+    if (!job) {
+      throw new Error(`Collaboration ${this.topicId} is no longer followed`);
+    }
+    return job;
+  }
+
+  private async update(): Promise<void> {
+    const job = this.collaborationService.getJob(this.topicId);
+    if (!job) {
+      this.dispose();
+      return;
+    }
+
+    this._panel.webview.postMessage({
+      command: 'job',
+      job,
+      role: this.hederaService.isConnected() ? this.collaborationService.getRole(job) : 'observer'
+    });
+  }
+
+  /**
+   * Claim the job for one of the operator's agents
+   */
+  private async claim(): Promise<void> {
+    try {
+      const job = this.getJob();
+      const invited = job.request?.agentIds || [];
+      const agents = (await this.hederaService.getMyAgents())
+        .filter(agent => agent.active && (invited.length === 0 || invited.includes(agent.id)));
+
+      if (agents.length === 0) {
+        vscode.window.showErrorMessage(invited.length > 0
+          ? `Only ${invited.join(', ')} can claim this job`
+          : 'Publish an agent before claiming jobs');
+        return;
+      }
+
+      const picked = agents.length === 1 ? { agent: agents[0] } : await vscode.window.showQuickPick(
+        agents.map(agent => ({ label: agent.name, description: agent.id, agent })),
+        { placeHolder: 'Claim the job for which agent?' }
+      );
+      if (!picked) {
+        return;
+      }
+
+      await this.collaborationService.send(job, 'claim', { agentId: picked.agent.id });
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  private async send(type: 'progress' | 'result' | 'dispute', message: any): Promise<void> {
+    try {
+      const job = this.getJob();
+      const agentId = job.claimant?.agentId || '';
+      const required = { progress: message.note, result: message.summary, dispute: message.reason }[type];
+      if (!String(required || '').trim()) {
+        throw new Error(type === 'progress' ? 'Describe the progress' : type === 'result' ? 'A summary is required' : 'A reason is required');
+      }
+
+      switch (type) {
+        case 'progress':
+          await this.collaborationService.send(job, 'progress', {
+            agentId,
+            note: String(message.note || '').trim(),
+            percent: message.percent === '' || message.percent === undefined ? undefined : Number(message.percent)
+          });
+          break;
+
+        case 'result':
+          await this.collaborationService.send(job, 'result', {
+            agentId,
+            summary: String(message.summary || '').trim(),
+            findings: CollaborationPanel.parseFindings(String(message.findings || ''))
+          });
+          break;
+
+        case 'dispute': {
+          const results = CollaborationProtocol.getResults(job);
+          await this.collaborationService.send(job, 'dispute', {
+            reason: String(message.reason || '').trim(),
+            resultSequenceNumber: results[results.length - 1]?.sequenceNumber
+          });
+          break;
+        }
+      }
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  /**
+   * Parse findings written one per line as "severity: title - description"
+   */
+  private static parseFindings(text: string): CollaborationFinding[] {
+    return text.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+      const match = line.match(/^(\w+):\s*([^-]+?)(?:\s+-\s+(.*))?$/);
+      return match
+        ? { severity: match[1].toLowerCase(), title: match[2].trim(), description: match[3] }
+        : { severity: 'info', title: line };
+    });
+  }
+
+  private showError(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Collaboration action failed:', error);
+    this._panel.webview.postMessage({ command: 'error', message });
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Collaboration</title>
+      <style>
+        body {
+          padding: 20px;
+          max-width: 800px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 4px;
+        }
+
+        h2 {
+          font-size: 15px;
+          margin-top: 24px;
+        }
+
+        .muted {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .status {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 4px;
+          font-size: 12px;
+          font-weight: bold;
+          text-transform: uppercase;
+          background-color: var(--vscode-badge-background);
+          color: var(--vscode-badge-foreground);
+        }
+
+        .status-disputed {
+          background-color: rgba(255, 0, 0, 0.1);
+          color: #f85149;
+        }
+
+        .status-completed {
+          background-color: rgba(0, 255, 0, 0.1);
+          color: #3fb950;
+        }
+
+        .message {
+          border-left: 3px solid var(--vscode-panel-border);
+          padding: 4px 10px;
+          margin: 8px 0;
+        }
+
+        .message.rejected {
+          border-left-color: var(--vscode-errorForeground, #f85149);
+          opacity: 0.75;
+        }
+
+        .message-header {
+          font-size: 12px;
+        }
+
+        .finding {
+          margin: 4px 0 4px 12px;
+        }
+
+        .severity {
+          font-weight: bold;
+          text-transform: uppercase;
+          font-size: 11px;
+        }
+
+        .action {
+          margin: 12px 0;
+        }
+
+        input, textarea {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 4px 6px;
+          margin: 2px 0 6px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        button {
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        .error {
+          color: var(--vscode-errorForeground, #f85149);
+          white-space: pre-wrap;
+        }
+
+        .hidden {
+          display: none;
+        }
+      </style>
+    </head>
+    <body>
+      <h1 id="title">Collaboration</h1>
+      <div class="muted" id="subtitle"></div>
+      <p><span class="status" id="status"></span> <span class="muted" id="claimant"></span></p>
+      <p id="description"></p>
+      <button id="copy-topic">Copy Topic ID</button>
+
+      <div class="error" id="error"></div>
+
+      <div id="actions">
+        <div class="action hidden" id="claim-action">
+          <button id="claim">Claim Job</button>
+        </div>
+        <div class="action hidden" id="progress-action">
+          <h2>Report Progress</h2>
+          <input id="progress-note" type="text" placeholder="What has been done so far">
+          <input id="progress-percent" type="number" min="0" max="100" placeholder="Percent complete (optional)">
+          <button id="progress">Post Progress</button>
+        </div>
+        <div class="action hidden" id="result-action">
+          <h2>Post Result</h2>
+          <textarea id="result-summary" rows="3" placeholder="Summary"></textarea>
+          <textarea id="result-findings" rows="4" placeholder="One finding per line, e.g. high: Reentrancy in withdraw - state is updated after the call"></textarea>
+          <button id="result">Post Result</button>
+        </div>
+        <div class="action hidden" id="dispute-action">
+          <h2>Dispute Result</h2>
+          <textarea id="dispute-reason" rows="3" placeholder="Why the result is not acceptable"></textarea>
+          <button id="dispute">Dispute</button>
+        </div>
+      </div>
+
+      <h2>Results</h2>
+      <div id="results" class="muted">No results yet</div>
+
+      <h2>Messages</h2>
+      <div id="messages"></div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const byId = id => document.getElementById(id);
+
+        function element(tag, className, text) {
+          const node = document.createElement(tag);
+          if (className) {
+            node.className = className;
+          }
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        function show(id, visible) {
+          byId(id).classList.toggle('hidden', !visible);
+        }
+
+        function describe(message) {
+          const payload = message.envelope.payload;
+          switch (message.envelope.type) {
+            case 'request': return payload.title + ' (' + payload.capability + ')';
+            case 'claim': return 'Claimed for ' + payload.agentId;
+            case 'progress': return (payload.percent !== undefined ? payload.percent + '% - ' : '') + payload.note;
+            case 'result': return payload.summary;
+            case 'dispute': return payload.reason;
+            default: return '';
+          }
+        }
+
+        function renderJob(job, role) {
+          const request = job.request || {};
+          byId('title').textContent = request.title || job.jobId;
+          byId('subtitle').textContent = 'Topic ' + job.topicId + ' - job ' + job.jobId
+            + (request.contractAddress ? ' - contract ' + request.contractAddress : '');
+          byId('status').textContent = job.status;
+          byId('status').className = 'status status-' + job.status;
+          byId('claimant').textContent = job.claimant
+            ? 'Claimed by ' + job.claimant.agentId + ' (' + job.claimant.accountId + ')'
+            : (request.agentIds && request.agentIds.length ? 'Open to ' + request.agentIds.join(', ') : 'Open to any agent');
+          byId('description').textContent = request.description || '';
+
+          const working = role === 'claimant' && (job.status === 'claimed' || job.status === 'disputed');
+          show('claim-action', role !== 'requester' && job.status === 'open');
+          show('progress-action', working);
+          show('result-action', working);
+          show('dispute-action', role === 'requester' && job.status === 'completed');
+
+          const results = byId('results');
+          results.innerHTML = '';
+          const applied = job.messages.filter(m => m.envelope.type === 'result' && !m.rejected);
+          if (applied.length === 0) {
+            results.textContent = 'No results yet';
+          }
+          applied.forEach(message => {
+            const container = element('div', 'message');
+            container.appendChild(element('div', 'message-header muted',
+              '#' + message.sequenceNumber + ' from ' + message.envelope.payload.agentId));
+            container.appendChild(element('div', '', message.envelope.payload.summary));
+            (message.envelope.payload.findings || []).forEach(finding => {
+              const row = element('div', 'finding');
+              row.appendChild(element('span', 'severity', finding.severity + ' '));
+              row.appendChild(element('span', '', finding.title + (finding.description ? ' - ' + finding.description : '')));
+              container.appendChild(row);
+            });
+            results.appendChild(container);
+          });
+
+          const messages = byId('messages');
+          messages.innerHTML = '';
+          job.messages.forEach(message => {
+            const container = element('div', 'message' + (message.rejected ? ' rejected' : ''));
+            const check = message.verified ? '✓ signed by ' : '⚠ unverified ';
+            container.appendChild(element('div', 'message-header muted',
+              '#' + message.sequenceNumber + ' ' + message.envelope.type + ' - ' + check
+              + message.envelope.sender.accountId + ' - '
+              + new Date(Number(message.consensusTimestamp) * 1000).toLocaleString()));
+            container.appendChild(element('div', '', describe(message)));
+            if (message.rejected) {
+              container.appendChild(element('div', 'error', 'Not applied: ' + message.rejected));
+            }
+            messages.appendChild(container);
+          });
+        }
+
+        byId('copy-topic').addEventListener('click', () => vscode.postMessage({ command: 'copyTopicId' }));
+        byId('claim').addEventListener('click', () => vscode.postMessage({ command: 'claim' }));
+        byId('progress').addEventListener('click', () => vscode.postMessage({
+          command: 'progress',
+          note: byId('progress-note').value,
+          percent: byId('progress-percent').value
+        }));
+        byId('result').addEventListener('click', () => vscode.postMessage({
+          command: 'result',
+          summary: byId('result-summary').value,
+          findings: byId('result-findings').value
+        }));
+        byId('dispute').addEventListener('click', () => vscode.postMessage({
+          command: 'dispute',
+          reason: byId('dispute-reason').value
+        }));
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'job':
+              byId('error').textContent = '';
+              renderJob(message.job, message.role);
+              break;
+
+            case 'error':
+              byId('error').textContent = message.message;
+              break;
+          }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
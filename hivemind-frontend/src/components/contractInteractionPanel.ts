@@ -0,0 +1,632 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { AbiEntry, AbiUtils, DecodedContractResult } from '../utils/abiUtils';
+import { DeploymentUtils } from '../utils/deploymentUtils';
+import { MultiSigUtils } from '../utils/multiSigUtils';
+import { escapeHtml, getNonce } from '../utils/security';
+
+/**
+ * A call made from the interaction panel
+ */
+interface ContractCallHistoryEntry {
+  signature: string;
+  values: string[];
+  payableAmount?: number;
+  result: DecodedContractResult;
+  timestamp: number;
+}
+
+/**
+ * Panel for calling the functions of a deployed contract through forms generated from its ABI
+ */
+export class ContractInteractionPanel {
+  private static readonly HISTORY_KEY = 'hivemind.contractCallHistory';
+  private static readonly MAX_HISTORY = 50;
+
+  // One panel per contract
+  private static panels = new Map<string, ContractInteractionPanel>();
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+  private functions: AbiEntry[];
+  private readonly network: string;
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private context: vscode.ExtensionContext,
+    private hederaService: HederaService,
+    private contractId: string,
+    private contractName: string,
+    private abi: AbiEntry[]
+  ) {
+    this._panel = panel;
+    this.network = hederaService.getCurrentNetwork();
+    this.functions = abi.filter(item => item.type === 'function');
+
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+            this.postInit();
+            break;
+
+          case 'validate':
+            this._panel.webview.postMessage({
+              command: 'validation',
+              fn: message.fn,
+              input: message.input,
+              error: this.validate(message.fn, message.input, message.value)
+            });
+            break;
+
+          case 'invoke':
+            await this.invoke(message.fn, message.values, message.gas, message.payableAmount);
+            break;
+
+          case 'export':
+            await this.exportCall(message.fn, message.values, message.gas, message.payableAmount, message.schedule);
+            break;
+
+          case 'clearHistory':
+            await this.saveHistory([]);
+            this._panel.webview.postMessage({ command: 'history', history: [] });
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the panel for a contract, or reveal it if already open
+   */
+  public static async createOrShow(
+    context: vscode.ExtensionContext,
+    hederaService: HederaService,
+    contractId: string
+  ): Promise<void> {
+    const key = `${hederaService.getCurrentNetwork()}:${contractId}`;
+    const existing = ContractInteractionPanel.panels.get(key);
+    if (existing) {
+      existing._panel.reveal();
+      return;
+    }
+
+    const contractInfo = await hederaService.getContractInfo(contractId);
+    if (!contractInfo || !contractInfo.abi) {
+      throw new Error(`Contract ${contractId} not found or ABI not available`);
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindContractInteraction',
+      `${contractInfo.name} (${contractId})`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    ContractInteractionPanel.panels.set(
+      key,
+      new ContractInteractionPanel(panel, context, hederaService, contractId, contractInfo.name, contractInfo.abi)
+    );
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    for (const [key, panel] of ContractInteractionPanel.panels) {
+      if (panel === this) {
+        ContractInteractionPanel.panels.delete(key);
+      }
+    }
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Send the functions and call history to the webview
+   */
+  private postInit(): void {
+    this._panel.webview.postMessage({
+      command: 'init',
+      contractId: this.contractId,
+      network: this.network,
+      functions: this.functions.map((entry, index) => ({
+        index,
+        name: entry.name,
+        signature: AbiUtils.getSignature(entry),
+        readOnly: AbiUtils.isReadOnly(entry),
+        payable: entry.stateMutability === 'payable',
+        inputs: (entry.inputs || []).map(input => ({
+          name: input.name,
+          type: AbiUtils.getTypeLabel(input),
+          json: input.type === 'tuple' || input.type.endsWith(']'),
+          bool: input.type === 'bool',
+          placeholder: AbiUtils.getPlaceholder(input)
+        }))
+      })),
+      history: this.getHistory(),
+      defaultGas: DeploymentUtils.DEFAULT_CALL_GAS
+    });
+  }
+
+  /**
+   * Check one input with the same conversion rules used for encoding
+   */
+  private validate(fn: number, input: number, value: string): string | null {
+    const param = this.functions[fn]?.inputs?.[input];
+    if (!param) {
+      return 'Unknown parameter';
+    }
+
+    try {
+      DeploymentUtils.convertParam(value, param);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Encode the inputs, run the call and post the decoded result back
+   */
+  private async invoke(fn: number, values: string[], gas?: number, payableAmount?: number): Promise<void> {
+    const method = this.functions[fn];
+    if (!method) {
+      return;
+    }
+
+    this._panel.webview.postMessage({ command: 'busy', fn, busy: true });
+
+    try {
+      if (!this.hederaService.isConnected()) {
+        throw new Error('Not connected to Hedera network');
+      }
+      if (this.hederaService.getCurrentNetwork() !== this.network) {
+        throw new Error(`Contract ${this.contractId} is on ${this.network}; switch back to that network to call it`);
+      }
+
+      const functionParameters = AbiUtils.encodeFunctionCall(method, values);
+      const result = await DeploymentUtils.invokeContractMethod(
+        this.hederaService,
+        this.contractId,
+        this.abi,
+        method,
+        functionParameters,
+        { gas, payableAmount }
+      );
+
+      const history = [
+        { signature: AbiUtils.getSignature(method), values, payableAmount, result, timestamp: Date.now() },
+        ...this.getHistory()
+      ].slice(0, ContractInteractionPanel.MAX_HISTORY);
+      await this.saveHistory(history);
+
+      this._panel.webview.postMessage({ command: 'result', fn, result });
+      this._panel.webview.postMessage({ command: 'history', history });
+    } catch (error) {
+      console.error('Failed to call contract method:', error);
+      this._panel.webview.postMessage({
+        command: 'result',
+        fn,
+        result: {
+          contractId: this.contractId,
+          method: method.name,
+          status: 'FAILED',
+          outputs: [],
+          events: [],
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+    } finally {
+      this._panel.webview.postMessage({ command: 'busy', fn, busy: false });
+    }
+  }
+
+  /**
+   * Encode the inputs into a call that co-signers sign instead of executing it: offline, or on
+   * the network as a scheduled transaction when `schedule` is set
+   */
+  private async exportCall(fn: number, values: string[], gas?: number, payableAmount?: number, schedule?: boolean): Promise<void> {
+    const method = this.functions[fn];
+    if (!method) {
+      return;
+    }
+
+    try {
+      if (this.hederaService.getCurrentNetwork() !== this.network) {
+        throw new Error(`Contract ${this.contractId} is on ${this.network}; switch back to that network to ${schedule ? 'schedule' : 'export'} a call`);
+      }
+
+      const functionParameters = AbiUtils.encodeFunctionCall(method, values);
+      const transaction = MultiSigUtils.buildContractCall(
+        this.contractId,
+        functionParameters,
+        gas || DeploymentUtils.DEFAULT_CALL_GAS,
+        payableAmount
+      );
+      await vscode.commands.executeCommand(
+        schedule ? 'hivemind.scheduleTransaction' : 'hivemind.exportForSigning',
+        transaction,
+        `${method.name} on ${this.contractName} (${this.contractId})`
+      );
+    } catch (error) {
+      console.error('Failed to export contract call:', error);
+      vscode.window.showErrorMessage(`Failed to ${schedule ? 'schedule' : 'export'} the call: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private getHistoryKey(): string {
+    return `${this.network}:${this.contractId}`;
+  }
+
+  private getHistory(): ContractCallHistoryEntry[] {
+    const all = this.context.workspaceState.get<{ [key: string]: ContractCallHistoryEntry[] }>(ContractInteractionPanel.HISTORY_KEY) || {};
+    return all[this.getHistoryKey()] || [];
+  }
+
+  private async saveHistory(history: ContractCallHistoryEntry[]): Promise<void> {
+    const all = this.context.workspaceState.get<{ [key: string]: ContractCallHistoryEntry[] }>(ContractInteractionPanel.HISTORY_KEY) || {};
+    all[this.getHistoryKey()] = history;
+    await this.context.workspaceState.update(ContractInteractionPanel.HISTORY_KEY, all);
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Contract Interaction</title>
+      <style>
+        body {
+          padding: 20px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 4px;
+        }
+
+        h2 {
+          font-size: 16px;
+          margin-top: 24px;
+        }
+
+        .subtitle {
+          color: var(--vscode-descriptionForeground);
+          margin-bottom: 16px;
+        }
+
+        details.function {
+          border: 1px solid var(--vscode-panel-border);
+          border-radius: 4px;
+          margin-bottom: 8px;
+          padding: 8px 12px;
+        }
+
+        details.function summary {
+          cursor: pointer;
+          font-family: monospace;
+        }
+
+        .badge {
+          display: inline-block;
+          padding: 0 6px;
+          margin-left: 8px;
+          border-radius: 4px;
+          font-size: 11px;
+          font-family: var(--vscode-font-family);
+          background-color: var(--vscode-badge-background);
+          color: var(--vscode-badge-foreground);
+        }
+
+        .field {
+          margin: 8px 0;
+        }
+
+        .field label {
+          display: block;
+          font-size: 12px;
+          margin-bottom: 2px;
+        }
+
+        .field .type {
+          color: var(--vscode-descriptionForeground);
+          font-family: monospace;
+        }
+
+        input, textarea, select {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 4px 6px;
+          font-family: monospace;
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        input.invalid, textarea.invalid {
+          border-color: var(--vscode-inputValidation-errorBorder, #f85149);
+        }
+
+        .error-text {
+          color: var(--vscode-errorForeground, #f85149);
+          font-size: 12px;
+          min-height: 1em;
+        }
+
+        .options {
+          display: flex;
+          gap: 12px;
+        }
+
+        .options .field {
+          flex: 1;
+        }
+
+        button {
+          margin-top: 4px;
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+
+        button.secondary {
+          color: var(--vscode-button-secondaryForeground);
+          background-color: var(--vscode-button-secondaryBackground);
+        }
+
+        .result {
+          margin-top: 8px;
+          padding: 8px;
+          border-left: 3px solid #3fb950;
+          font-family: monospace;
+          white-space: pre-wrap;
+          word-break: break-all;
+        }
+
+        .result.failed {
+          border-left-color: #f85149;
+        }
+
+        .history-entry {
+          border-bottom: 1px solid var(--vscode-panel-border);
+          padding: 6px 0;
+          font-size: 12px;
+        }
+
+        .history-entry .meta {
+          color: var(--vscode-descriptionForeground);
+        }
+      </style>
+    </head>
+    <body>
+      <h1>${escapeHtml(this.contractName)}</h1>
+      <div class="subtitle" id="subtitle"></div>
+
+      <h2>Read</h2>
+      <div id="read-functions"></div>
+
+      <h2>Write</h2>
+      <div id="write-functions"></div>
+
+      <h2>History <button class="secondary" id="clear-history">Clear</button></h2>
+      <div id="history"></div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        let functions = [];
+        let defaultGas = 100000;
+
+        function el(tag, attrs, text) {
+          const node = document.createElement(tag);
+          Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value));
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        function formatResult(result) {
+          const lines = [];
+          lines.push(result.status + (result.transactionId ? ' · ' + result.transactionId : '') + (result.gasUsed !== undefined ? ' · gas used ' + result.gasUsed : ''));
+          if (result.error) {
+            lines.push('Error: ' + result.error);
+          }
+          (result.outputs || []).forEach(output => {
+            const value = typeof output.value === 'string' ? output.value : JSON.stringify(output.value, null, 2);
+            lines.push(output.name + ' (' + output.type + '): ' + value);
+          });
+          (result.events || []).forEach(event => {
+            const args = (event.args || []).map(arg => arg.name + '=' + (typeof arg.value === 'string' ? arg.value : JSON.stringify(arg.value))).join(', ');
+            lines.push('event ' + event.name + '(' + args + ')' + (event.contractId ? ' from ' + event.contractId : ''));
+          });
+          return lines.join('\\n');
+        }
+
+        function readCall(fn, gasInput) {
+          const values = fn.inputs.map((input, inputIndex) =>
+            document.querySelector('[data-fn="' + fn.index + '"][data-input="' + inputIndex + '"]').value
+          );
+          const payable = document.getElementById('value-' + fn.index);
+          return {
+            fn: fn.index,
+            values,
+            gas: Number(gasInput.value) || defaultGas,
+            payableAmount: payable ? Number(payable.value) || 0 : undefined
+          };
+        }
+
+        function renderFunction(fn) {
+          const container = el('details', { class: 'function', id: 'fn-' + fn.index });
+          const summary = el('summary', {}, fn.signature);
+          summary.appendChild(el('span', { class: 'badge' }, fn.readOnly ? 'view' : (fn.payable ? 'payable' : 'write')));
+          container.appendChild(summary);
+
+          fn.inputs.forEach((input, inputIndex) => {
+            const field = el('div', { class: 'field' });
+            const label = el('label', {}, (input.name || 'arg' + inputIndex) + ' ');
+            label.appendChild(el('span', { class: 'type' }, input.type + (input.json ? ' (JSON)' : '')));
+            field.appendChild(label);
+
+            let control;
+            if (input.bool) {
+              control = el('select', {});
+              control.appendChild(el('option', { value: 'true' }, 'true'));
+              control.appendChild(el('option', { value: 'false' }, 'false'));
+            } else if (input.json) {
+              control = el('textarea', { rows: '3', placeholder: input.placeholder });
+            } else {
+              control = el('input', { type: 'text', placeholder: input.placeholder });
+            }
+            control.dataset.fn = fn.index;
+            control.dataset.input = inputIndex;
+            control.addEventListener('input', () => {
+              vscode.postMessage({ command: 'validate', fn: fn.index, input: inputIndex, value: control.value });
+            });
+            field.appendChild(control);
+            field.appendChild(el('div', { class: 'error-text', id: 'err-' + fn.index + '-' + inputIndex }));
+            container.appendChild(field);
+          });
+
+          const options = el('div', { class: 'options' });
+          const gasField = el('div', { class: 'field' });
+          gasField.appendChild(el('label', {}, 'Gas'));
+          const gasInput = el('input', { type: 'number', min: '21000', value: String(defaultGas), id: 'gas-' + fn.index });
+          gasField.appendChild(gasInput);
+          options.appendChild(gasField);
+
+          if (fn.payable) {
+            const valueField = el('div', { class: 'field' });
+            valueField.appendChild(el('label', {}, 'HBAR to send'));
+            valueField.appendChild(el('input', { type: 'number', min: '0', step: 'any', value: '0', id: 'value-' + fn.index }));
+            options.appendChild(valueField);
+          }
+          container.appendChild(options);
+
+          const button = el('button', { id: 'run-' + fn.index }, fn.readOnly ? 'Query' : 'Execute');
+          button.addEventListener('click', () => {
+            vscode.postMessage({ command: 'invoke', ...readCall(fn, gasInput) });
+          });
+          container.appendChild(button);
+
+          // State-changing calls can be signed by several keys instead, offline or as a schedule
+          if (!fn.readOnly) {
+            const exportButton = el('button', { class: 'secondary' }, 'Export for Signing');
+            exportButton.addEventListener('click', () => {
+              vscode.postMessage({ command: 'export', ...readCall(fn, gasInput) });
+            });
+            container.appendChild(exportButton);
+
+            const scheduleButton = el('button', { class: 'secondary' }, 'Schedule');
+            scheduleButton.addEventListener('click', () => {
+              vscode.postMessage({ command: 'export', schedule: true, ...readCall(fn, gasInput) });
+            });
+            container.appendChild(scheduleButton);
+          }
+          container.appendChild(el('div', { id: 'result-' + fn.index }));
+
+          return container;
+        }
+
+        function renderHistory(history) {
+          const container = document.getElementById('history');
+          container.innerHTML = '';
+          if (history.length === 0) {
+            container.appendChild(el('div', { class: 'history-entry meta' }, 'No calls yet'));
+            return;
+          }
+          history.forEach(entry => {
+            const row = el('div', { class: 'history-entry' });
+            row.appendChild(el('div', { class: 'meta' }, new Date(entry.timestamp).toLocaleString() + ' · ' + entry.result.status));
+            row.appendChild(el('div', {}, entry.signature + ' ← ' + JSON.stringify(entry.values)));
+            row.appendChild(el('div', { class: 'result' + (entry.result.error ? ' failed' : '') }, formatResult(entry.result)));
+            container.appendChild(row);
+          });
+        }
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'init':
+              functions = message.functions;
+              defaultGas = message.defaultGas;
+              document.getElementById('subtitle').textContent = message.contractId + ' on ' + message.network;
+              ['read-functions', 'write-functions'].forEach(id => document.getElementById(id).innerHTML = '');
+              functions.forEach(fn => {
+                document.getElementById(fn.readOnly ? 'read-functions' : 'write-functions').appendChild(renderFunction(fn));
+              });
+              renderHistory(message.history);
+              break;
+
+            case 'validation': {
+              const control = document.querySelector('[data-fn="' + message.fn + '"][data-input="' + message.input + '"]');
+              document.getElementById('err-' + message.fn + '-' + message.input).textContent = message.error || '';
+              if (control) {
+                control.classList.toggle('invalid', !!message.error);
+              }
+              break;
+            }
+
+            case 'busy': {
+              const button = document.getElementById('run-' + message.fn);
+              if (button) {
+                button.disabled = message.busy;
+              }
+              break;
+            }
+
+            case 'result': {
+              const container = document.getElementById('result-' + message.fn);
+              container.innerHTML = '';
+              container.appendChild(el('div', { class: 'result' + (message.result.error ? ' failed' : '') }, formatResult(message.result)));
+              break;
+            }
+
+            case 'history':
+              renderHistory(message.history);
+              break;
+          }
+        });
+
+        document.getElementById('clear-history').addEventListener('click', () => {
+          vscode.postMessage({ command: 'clearHistory' });
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
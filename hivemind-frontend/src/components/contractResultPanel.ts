@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import { DecodedContractResult, DecodedEvent, DecodedValue } from '../utils/abiUtils';
+import { escapeHtml } from '../utils/security';
+
+/**
+ * Panel showing the decoded return values, events and revert reason of a contract call
+ */
+export class ContractResultPanel {
+  public static currentPanel: ContractResultPanel | undefined;
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+
+  private constructor(panel: vscode.WebviewPanel) {
+    this._panel = panel;
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+  }
+
+  /**
+   * Show a result, reusing the open panel if there is one
+   */
+  public static show(result: DecodedContractResult): void {
+    if (!ContractResultPanel.currentPanel) {
+      const panel = vscode.window.createWebviewPanel(
+        'hivemindContractResult',
+        'Contract Result',
+        vscode.ViewColumn.Beside,
+        {
+          enableScripts: false
+        }
+      );
+      ContractResultPanel.currentPanel = new ContractResultPanel(panel);
+    }
+
+    const current = ContractResultPanel.currentPanel;
+    current._panel.title = `Result: ${result.method}()`;
+    current._panel.webview.html = current._getHtml(result);
+    current._panel.reveal(undefined, true);
+  }
+
+  /**
+   * Get the HTML for the outputs, events and error of a result.
+   * Shared with the Transaction Center details view.
+   */
+  public static getResultSectionHtml(result: Pick<DecodedContractResult, 'outputs' | 'events' | 'error'>): string {
+    const sections: string[] = [];
+
+    if (result.error) {
+      sections.push(`
+        <h2>Error</h2>
+        <div class="result-error">${escapeHtml(result.error)}</div>
+      `);
+    }
+
+    if (result.outputs && result.outputs.length > 0) {
+      sections.push(`
+        <h2>Return Values</h2>
+        ${this.getValuesTableHtml(result.outputs)}
+      `);
+    }
+
+    if (result.events && result.events.length > 0) {
+      sections.push(`
+        <h2>Events (${result.events.length})</h2>
+        ${result.events.map(event => this.getEventHtml(event)).join('')}
+      `);
+    }
+
+    return sections.join('');
+  }
+
+  /**
+   * Styles used by getResultSectionHtml
+   */
+  public static readonly RESULT_STYLES = `
+    .result-error {
+      padding: 8px 12px;
+      border-left: 3px solid #f85149;
+      background-color: rgba(255, 0, 0, 0.1);
+      font-family: monospace;
+      white-space: pre-wrap;
+    }
+
+    .result-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin-bottom: 12px;
+    }
+
+    .result-table td {
+      padding: 4px 8px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      vertical-align: top;
+    }
+
+    .result-type {
+      color: var(--vscode-descriptionForeground);
+      font-family: monospace;
+    }
+
+    .result-value {
+      font-family: monospace;
+      white-space: pre-wrap;
+      word-break: break-all;
+    }
+
+    .result-event {
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 4px;
+      padding: 8px 12px;
+      margin-bottom: 8px;
+    }
+
+    .result-event-name {
+      font-weight: bold;
+      margin-bottom: 4px;
+    }
+  `;
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    ContractResultPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private static getValuesTableHtml(values: DecodedValue[]): string {
+    const rows = values.map(value => `
+      <tr>
+        <td>${escapeHtml(value.name)}</td>
+        <td class="result-type">${escapeHtml(value.type)}</td>
+        <td class="result-value">${escapeHtml(typeof value.value === 'string' ? value.value : JSON.stringify(value.value, null, 2))}</td>
+      </tr>
+    `).join('');
+
+    return `<table class="result-table">${rows}</table>`;
+  }
+
+  private static getEventHtml(event: DecodedEvent): string {
+    const source = event.contractId ? ` <span class="result-type">from ${escapeHtml(event.contractId)}</span>` : '';
+
+    if (!event.signature) {
+      return `
+        <div class="result-event">
+          <div class="result-event-name">${escapeHtml(event.name)}${source}</div>
+          <div class="result-value">topics: ${escapeHtml((event.topics || []).join(', '))}</div>
+          <div class="result-value">data: ${escapeHtml(event.data || '0x')}</div>
+        </div>
+      `;
+    }
+
+    return `
+      <div class="result-event">
+        <div class="result-event-name">${escapeHtml(event.name)}${source}</div>
+        ${this.getValuesTableHtml(event.args)}
+      </div>
+    `;
+  }
+
+  private _getHtml(result: DecodedContractResult): string {
+    const status = result.error ? 'failed' : 'success';
+    const body = ContractResultPanel.getResultSectionHtml(result)
+      || '<p>The call returned no values and emitted no events.</p>';
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+      <title>Contract Result</title>
+      <style>
+        body {
+          padding: 20px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 8px;
+        }
+
+        h2 {
+          font-size: 16px;
+          margin-top: 20px;
+        }
+
+        .summary {
+          color: var(--vscode-descriptionForeground);
+          margin-bottom: 4px;
+        }
+
+        .status {
+          display: inline-block;
+          padding: 4px 8px;
+          border-radius: 4px;
+          font-size: 12px;
+          font-weight: bold;
+          text-transform: uppercase;
+        }
+
+        .status-success {
+          background-color: rgba(0, 255, 0, 0.1);
+          color: #3fb950;
+        }
+
+        .status-failed {
+          background-color: rgba(255, 0, 0, 0.1);
+          color: #f85149;
+        }
+
+        ${ContractResultPanel.RESULT_STYLES}
+      </style>
+    </head>
+    <body>
+      <h1>${escapeHtml(result.method)}() on ${escapeHtml(result.contractId)}</h1>
+      ${result.transactionId ? `<div class="summary">Transaction: ${escapeHtml(result.transactionId)}</div>` : ''}
+      ${result.gasUsed !== undefined ? `<div class="summary">Gas used: ${result.gasUsed}</div>` : ''}
+      <div class="status status-${status}">${escapeHtml(result.status)}</div>
+      ${body}
+    </body>
+    </html>`;
+  }
+}
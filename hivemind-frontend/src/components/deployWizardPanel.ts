@@ -0,0 +1,731 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ApiService } from '../services/apiService';
+import { DeployOptions, HederaService } from '../services/hederaService';
+import { AbiUtils } from '../utils/abiUtils';
+import { CompiledContract, DeploymentUtils } from '../utils/deploymentUtils';
+import { ManifestUtils } from '../utils/manifestUtils';
+import { SolidityUtils } from '../utils/solidityUtils';
+import { escapeHtml, getNonce } from '../utils/security';
+
+/**
+ * Values entered in the deploy form
+ */
+interface DeployForm {
+  contractName: string;
+  constructorValues: string[];
+  gas: number;
+  initialBalance: number;
+  adminKey: 'none' | 'operator' | 'custom';
+  adminPublicKey?: string;
+  memo?: string;
+  autoRenewDays?: number;
+  autoRenewAccountId?: string;
+}
+
+/**
+ * A saved deploy form for repeat deploys of the same contract
+ */
+interface DeployPreset extends DeployForm {
+  name: string;
+}
+
+/**
+ * Wizard for deploying a contract from a Solidity file: contract picker,
+ * constructor form, deploy settings, pre-flight checks and presets
+ */
+export class DeployWizardPanel {
+  public static currentPanel: DeployWizardPanel | undefined;
+  private static readonly PRESETS_KEY = 'hivemind.deployPresets';
+  private static readonly SECONDS_PER_DAY = 86400;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+  private compiled: CompiledContract | null = null;
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private context: vscode.ExtensionContext,
+    private apiService: ApiService,
+    private hederaService: HederaService,
+    private filePath: string
+  ) {
+    this._panel = panel;
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+            this.postInit();
+            break;
+
+          case 'selectContract':
+            await this.compile(message.contractName);
+            break;
+
+          case 'validate':
+            this._panel.webview.postMessage({
+              command: 'validation',
+              input: message.input,
+              error: this.validate(message.input, message.value)
+            });
+            break;
+
+          case 'preflight':
+            await this.preflight(message.form);
+            break;
+
+          case 'deploy':
+            await this.deploy(message.form);
+            break;
+
+          case 'savePreset':
+            await this.savePreset(message.name, message.form);
+            break;
+
+          case 'deletePreset':
+            await this.deletePreset(message.name);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the wizard for a Solidity file, replacing any open wizard
+   */
+  public static createOrShow(
+    context: vscode.ExtensionContext,
+    apiService: ApiService,
+    hederaService: HederaService,
+    filePath: string
+  ): void {
+    if (DeployWizardPanel.currentPanel) {
+      DeployWizardPanel.currentPanel.dispose();
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindDeployWizard',
+      `Deploy ${path.basename(filePath)}`,
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    DeployWizardPanel.currentPanel = new DeployWizardPanel(panel, context, apiService, hederaService, filePath);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    DeployWizardPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Send the contracts in the file and saved presets to the webview
+   */
+  private postInit(): void {
+    const source = fs.readFileSync(this.filePath, 'utf8');
+    const contracts = SolidityUtils.extractDeployableContractNames(source);
+
+    this._panel.webview.postMessage({
+      command: 'init',
+      file: ManifestUtils.getRelativeSourcePath(this.filePath),
+      network: this.hederaService.getCurrentNetwork(),
+      accountId: this.hederaService.getAccountId(),
+      contracts,
+      presets: this.getPresets(),
+      defaultGas: HederaService.DEFAULT_DEPLOY_GAS
+    });
+
+    if (contracts.length === 1) {
+      this.compile(contracts[0]);
+    }
+  }
+
+  /**
+   * Compile the selected contract and send its constructor inputs
+   */
+  private async compile(contractName: string): Promise<void> {
+    this.compiled = null;
+    this._panel.webview.postMessage({ command: 'compiling', contractName });
+
+    try {
+      this.compiled = await DeploymentUtils.compileContract(this.filePath, contractName, this.apiService);
+      const constructor = this.compiled.abi.find(item => item.type === 'constructor');
+
+      this._panel.webview.postMessage({
+        command: 'compiled',
+        contractName,
+        bytecodeSize: this.compiled.bytecode.length / 2,
+        payable: constructor?.stateMutability === 'payable',
+        inputs: (constructor?.inputs || []).map(input => ({
+          name: input.name,
+          type: AbiUtils.getTypeLabel(input),
+          json: input.type === 'tuple' || input.type.endsWith(']'),
+          placeholder: AbiUtils.getPlaceholder(input)
+        }))
+      });
+    } catch (error) {
+      this._panel.webview.postMessage({
+        command: 'compileError',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Check one constructor input with the same rules used for encoding
+   */
+  private validate(input: number, value: string): string | null {
+    const param = this.compiled?.abi.find(item => item.type === 'constructor')?.inputs?.[input];
+    if (!param) {
+      return 'Unknown parameter';
+    }
+
+    try {
+      DeploymentUtils.convertParam(value, param);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private async preflight(form: DeployForm): Promise<void> {
+    if (!this.compiled) {
+      return;
+    }
+
+    this._panel.webview.postMessage({ command: 'preflightRunning' });
+    const checks = await DeploymentUtils.runPreflightChecks(
+      this.compiled,
+      form.constructorValues,
+      this.toDeployOptions(form),
+      this.hederaService
+    );
+    this._panel.webview.postMessage({ command: 'preflight', checks });
+  }
+
+  private async deploy(form: DeployForm): Promise<void> {
+    if (!this.compiled) {
+      return;
+    }
+
+    this._panel.webview.postMessage({ command: 'deploying' });
+
+    try {
+      const result = await DeploymentUtils.deployContract(
+        this.compiled,
+        form.constructorValues,
+        this.hederaService,
+        {
+          ...this.toDeployOptions(form),
+          onProgress: (message) => this._panel.webview.postMessage({ command: 'progress', message })
+        }
+      );
+      this._panel.webview.postMessage({ command: 'deployed', ...result });
+    } catch (error) {
+      this._panel.webview.postMessage({
+        command: 'deployError',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Convert the form to deploy options
+   */
+  private toDeployOptions(form: DeployForm): DeployOptions {
+    return {
+      gas: form.gas || HederaService.DEFAULT_DEPLOY_GAS,
+      initialBalance: form.initialBalance || 0,
+      adminKey: form.adminKey === 'operator' ? 'operator' : form.adminKey === 'custom' ? form.adminPublicKey : undefined,
+      memo: form.memo || undefined,
+      autoRenewPeriod: form.autoRenewDays ? form.autoRenewDays * DeployWizardPanel.SECONDS_PER_DAY : undefined,
+      autoRenewAccountId: form.autoRenewAccountId || undefined
+    };
+  }
+
+  private getPresetKey(): string {
+    return ManifestUtils.getRelativeSourcePath(this.filePath);
+  }
+
+  private getPresets(): DeployPreset[] {
+    const all = this.context.workspaceState.get<{ [file: string]: DeployPreset[] }>(DeployWizardPanel.PRESETS_KEY) || {};
+    return all[this.getPresetKey()] || [];
+  }
+
+  private async savePresets(presets: DeployPreset[]): Promise<void> {
+    const all = this.context.workspaceState.get<{ [file: string]: DeployPreset[] }>(DeployWizardPanel.PRESETS_KEY) || {};
+    all[this.getPresetKey()] = presets;
+    await this.context.workspaceState.update(DeployWizardPanel.PRESETS_KEY, all);
+    this._panel.webview.postMessage({ command: 'presets', presets });
+  }
+
+  private async savePreset(name: string, form: DeployForm): Promise<void> {
+    if (!name || !name.trim()) {
+      return;
+    }
+    const presets = this.getPresets().filter(preset => preset.name !== name.trim());
+    presets.push({ ...form, name: name.trim() });
+    await this.savePresets(presets);
+  }
+
+  private async deletePreset(name: string): Promise<void> {
+    await this.savePresets(this.getPresets().filter(preset => preset.name !== name));
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Deploy Contract</title>
+      <style>
+        body {
+          padding: 20px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 4px;
+        }
+
+        h2 {
+          font-size: 16px;
+          margin-top: 24px;
+        }
+
+        .subtitle, .hint {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .hint {
+          font-size: 12px;
+        }
+
+        .field {
+          margin: 8px 0;
+        }
+
+        .field label {
+          display: block;
+          font-size: 12px;
+          margin-bottom: 2px;
+        }
+
+        .field .type {
+          color: var(--vscode-descriptionForeground);
+          font-family: monospace;
+        }
+
+        .row {
+          display: flex;
+          gap: 12px;
+        }
+
+        .row .field {
+          flex: 1;
+        }
+
+        input, textarea, select {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 4px 6px;
+          font-family: monospace;
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        input.invalid, textarea.invalid {
+          border-color: var(--vscode-inputValidation-errorBorder, #f85149);
+        }
+
+        .error-text {
+          color: var(--vscode-errorForeground, #f85149);
+          font-size: 12px;
+          min-height: 1em;
+          white-space: pre-wrap;
+        }
+
+        button {
+          margin: 8px 8px 0 0;
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+
+        button.secondary {
+          color: var(--vscode-button-secondaryForeground);
+          background-color: var(--vscode-button-secondaryBackground);
+        }
+
+        .check {
+          padding: 4px 8px;
+          border-left: 3px solid #3fb950;
+          margin-bottom: 4px;
+        }
+
+        .check.warning {
+          border-left-color: #d29922;
+        }
+
+        .check.error {
+          border-left-color: #f85149;
+        }
+
+        .status {
+          margin-top: 12px;
+          font-family: monospace;
+          white-space: pre-wrap;
+        }
+
+        .hidden {
+          display: none;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>Deploy Contract</h1>
+      <div class="subtitle" id="subtitle">${escapeHtml(path.basename(this.filePath))}</div>
+
+      <h2>Contract</h2>
+      <div class="row">
+        <div class="field">
+          <label for="contract">Contract</label>
+          <select id="contract"></select>
+        </div>
+        <div class="field">
+          <label for="preset">Preset</label>
+          <select id="preset"><option value="">(none)</option></select>
+        </div>
+      </div>
+      <div class="hint" id="compile-status"></div>
+
+      <div id="form" class="hidden">
+        <h2>Constructor</h2>
+        <div id="constructor-inputs"></div>
+
+        <h2>Settings</h2>
+        <div class="row">
+          <div class="field">
+            <label for="gas">Gas limit</label>
+            <input id="gas" type="number" min="21000">
+          </div>
+          <div class="field">
+            <label for="initial-balance">Initial balance (HBAR)</label>
+            <input id="initial-balance" type="number" min="0" step="any" value="0">
+          </div>
+        </div>
+        <div class="row">
+          <div class="field">
+            <label for="admin-key">Admin key</label>
+            <select id="admin-key">
+              <option value="none">None (immutable)</option>
+              <option value="operator">Operator key</option>
+              <option value="custom">Other public key</option>
+            </select>
+          </div>
+          <div class="field">
+            <label for="admin-public-key">Admin public key</label>
+            <input id="admin-public-key" type="text" placeholder="302a300506032b6570032100..." disabled>
+          </div>
+        </div>
+        <div class="field">
+          <label for="memo">Memo</label>
+          <input id="memo" type="text" maxlength="100">
+        </div>
+        <div class="row">
+          <div class="field">
+            <label for="auto-renew-days">Auto-renew period (days)</label>
+            <input id="auto-renew-days" type="number" min="30" max="92" placeholder="90">
+          </div>
+          <div class="field">
+            <label for="auto-renew-account">Auto-renew account</label>
+            <input id="auto-renew-account" type="text" placeholder="0.0.1234">
+          </div>
+        </div>
+
+        <button id="preflight">Run Pre-flight Checks</button>
+        <button id="deploy" disabled>Deploy</button>
+        <button id="save-preset" class="secondary">Save as Preset</button>
+        <button id="delete-preset" class="secondary">Delete Preset</button>
+        <div class="field hidden" id="preset-name-field">
+          <label for="preset-name">Preset name</label>
+          <input id="preset-name" type="text">
+          <button id="confirm-preset">Save</button>
+        </div>
+
+        <h2>Pre-flight</h2>
+        <div id="checks" class="hint">Run the checks before deploying.</div>
+        <div class="status" id="status"></div>
+      </div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        let presets = [];
+        let inputs = [];
+        let pendingPreset = null;
+
+        const byId = id => document.getElementById(id);
+
+        function el(tag, attrs, text) {
+          const node = document.createElement(tag);
+          Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value));
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        function readForm() {
+          return {
+            contractName: byId('contract').value,
+            constructorValues: inputs.map((input, index) => byId('arg-' + index).value),
+            gas: Number(byId('gas').value),
+            initialBalance: Number(byId('initial-balance').value) || 0,
+            adminKey: byId('admin-key').value,
+            adminPublicKey: byId('admin-public-key').value.trim(),
+            memo: byId('memo').value,
+            autoRenewDays: Number(byId('auto-renew-days').value) || undefined,
+            autoRenewAccountId: byId('auto-renew-account').value.trim()
+          };
+        }
+
+        function applyPreset(preset) {
+          byId('gas').value = preset.gas;
+          byId('initial-balance').value = preset.initialBalance || 0;
+          byId('admin-key').value = preset.adminKey || 'none';
+          byId('admin-public-key').value = preset.adminPublicKey || '';
+          byId('admin-public-key').disabled = byId('admin-key').value !== 'custom';
+          byId('memo').value = preset.memo || '';
+          byId('auto-renew-days').value = preset.autoRenewDays || '';
+          byId('auto-renew-account').value = preset.autoRenewAccountId || '';
+          (preset.constructorValues || []).forEach((value, index) => {
+            const control = byId('arg-' + index);
+            if (control) {
+              control.value = value;
+              vscode.postMessage({ command: 'validate', input: index, value });
+            }
+          });
+        }
+
+        function renderPresets() {
+          const select = byId('preset');
+          const selected = select.value;
+          select.innerHTML = '';
+          select.appendChild(el('option', { value: '' }, '(none)'));
+          presets.forEach(preset => select.appendChild(el('option', { value: preset.name }, preset.name + ' · ' + preset.contractName)));
+          select.value = presets.some(preset => preset.name === selected) ? selected : '';
+        }
+
+        function invalidateChecks() {
+          byId('deploy').disabled = true;
+          byId('checks').textContent = 'Run the checks before deploying.';
+        }
+
+        function renderInputs(list) {
+          inputs = list;
+          const container = byId('constructor-inputs');
+          container.innerHTML = '';
+          if (list.length === 0) {
+            container.appendChild(el('div', { class: 'hint' }, 'The constructor takes no arguments.'));
+          }
+          list.forEach((input, index) => {
+            const field = el('div', { class: 'field' });
+            const label = el('label', {}, (input.name || 'arg' + index) + ' ');
+            label.appendChild(el('span', { class: 'type' }, input.type + (input.json ? ' (JSON)' : '')));
+            field.appendChild(label);
+            const control = input.json
+              ? el('textarea', { id: 'arg-' + index, rows: '3', placeholder: input.placeholder })
+              : el('input', { id: 'arg-' + index, type: 'text', placeholder: input.placeholder });
+            control.addEventListener('input', () => {
+              invalidateChecks();
+              vscode.postMessage({ command: 'validate', input: index, value: control.value });
+            });
+            field.appendChild(control);
+            field.appendChild(el('div', { class: 'error-text', id: 'err-' + index }));
+            container.appendChild(field);
+          });
+        }
+
+        byId('contract').addEventListener('change', () => {
+          invalidateChecks();
+          vscode.postMessage({ command: 'selectContract', contractName: byId('contract').value });
+        });
+
+        byId('preset').addEventListener('change', () => {
+          const preset = presets.find(p => p.name === byId('preset').value);
+          if (!preset) {
+            return;
+          }
+          invalidateChecks();
+          if (preset.contractName !== byId('contract').value) {
+            pendingPreset = preset;
+            byId('contract').value = preset.contractName;
+            vscode.postMessage({ command: 'selectContract', contractName: preset.contractName });
+          } else {
+            applyPreset(preset);
+          }
+        });
+
+        byId('admin-key').addEventListener('change', () => {
+          byId('admin-public-key').disabled = byId('admin-key').value !== 'custom';
+          invalidateChecks();
+        });
+
+        ['gas', 'initial-balance', 'admin-public-key', 'memo', 'auto-renew-days', 'auto-renew-account'].forEach(id => {
+          byId(id).addEventListener('input', invalidateChecks);
+        });
+
+        byId('preflight').addEventListener('click', () => {
+          vscode.postMessage({ command: 'preflight', form: readForm() });
+        });
+
+        byId('deploy').addEventListener('click', () => {
+          byId('deploy').disabled = true;
+          vscode.postMessage({ command: 'deploy', form: readForm() });
+        });
+
+        byId('save-preset').addEventListener('click', () => {
+          byId('preset-name-field').classList.remove('hidden');
+          byId('preset-name').value = byId('preset').value || byId('contract').value;
+          byId('preset-name').focus();
+        });
+
+        byId('confirm-preset').addEventListener('click', () => {
+          vscode.postMessage({ command: 'savePreset', name: byId('preset-name').value, form: readForm() });
+          byId('preset-name-field').classList.add('hidden');
+        });
+
+        byId('delete-preset').addEventListener('click', () => {
+          if (byId('preset').value) {
+            vscode.postMessage({ command: 'deletePreset', name: byId('preset').value });
+          }
+        });
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'init': {
+              byId('subtitle').textContent = message.file + ' → ' + message.network + (message.accountId ? ' as ' + message.accountId : '');
+              byId('gas').value = message.defaultGas;
+              const select = byId('contract');
+              select.innerHTML = '';
+              if (message.contracts.length !== 1) {
+                select.appendChild(el('option', { value: '' }, message.contracts.length ? 'Select a contract...' : 'No deployable contracts found'));
+              }
+              message.contracts.forEach(name => select.appendChild(el('option', { value: name }, name)));
+              presets = message.presets;
+              renderPresets();
+              break;
+            }
+
+            case 'compiling':
+              byId('compile-status').textContent = 'Compiling ' + message.contractName + '...';
+              byId('form').classList.add('hidden');
+              break;
+
+            case 'compiled':
+              byId('compile-status').textContent = message.contractName + ' compiled, ' + message.bytecodeSize + ' bytes'
+                + (message.payable ? ' (payable constructor)' : '');
+              renderInputs(message.inputs);
+              byId('form').classList.remove('hidden');
+              if (pendingPreset && pendingPreset.contractName === message.contractName) {
+                applyPreset(pendingPreset);
+                pendingPreset = null;
+              }
+              break;
+
+            case 'compileError':
+              byId('compile-status').textContent = message.message;
+              break;
+
+            case 'validation': {
+              byId('err-' + message.input).textContent = message.error || '';
+              byId('arg-' + message.input).classList.toggle('invalid', !!message.error);
+              break;
+            }
+
+            case 'preflightRunning':
+              byId('checks').textContent = 'Checking...';
+              break;
+
+            case 'preflight': {
+              const container = byId('checks');
+              container.innerHTML = '';
+              message.checks.forEach(check => {
+                const row = el('div', { class: 'check ' + check.status });
+                row.appendChild(el('strong', {}, check.label + ': '));
+                row.appendChild(document.createTextNode(check.detail));
+                container.appendChild(row);
+              });
+              byId('deploy').disabled = message.checks.some(check => check.status === 'error');
+              break;
+            }
+
+            case 'deploying':
+              byId('status').textContent = 'Deploying...';
+              break;
+
+            case 'progress':
+              byId('status').textContent = message.message;
+              break;
+
+            case 'deployed':
+              byId('status').textContent = 'Deployed ' + message.contractId + ' (' + message.evmAddress + ')\\nTransaction ' + message.transactionId;
+              break;
+
+            case 'deployError':
+              byId('status').textContent = 'Deploy failed: ' + message.message;
+              byId('deploy').disabled = false;
+              break;
+
+            case 'presets':
+              presets = message.presets;
+              renderPresets();
+              break;
+          }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
@@ -0,0 +1,429 @@
+import * as vscode from 'vscode';
+import { PrivateKey } from '@hashgraph/sdk';
+import { HederaService } from '../services/hederaService';
+import { KeyUtils, RawKeyHint } from '../utils/keyUtils';
+import { getNonce } from '../utils/security';
+
+/**
+ * Toolkit for throwaway keys and address conversions: generates and derives ED25519 and ECDSA
+ * keys, parses DER and raw keys, and converts between 0.0.x IDs and EVM addresses
+ */
+export class KeyToolkitPanel {
+  public static currentPanel: KeyToolkitPanel | undefined;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private hederaService: HederaService,
+    private address: string
+  ) {
+    this._panel = panel;
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+            this.showAddress(this.address);
+            break;
+
+          case 'generateKey':
+            this.run('key', async () => KeyUtils.describeKey(
+              message.keyType === 'ECDSA' ? PrivateKey.generateECDSA() : PrivateKey.generateED25519()
+            ));
+            break;
+
+          case 'parseKey':
+            this.run('key', async () => KeyUtils.describeKey(KeyUtils.parseKey(message.text, message.hint as RawKeyHint || undefined)));
+            break;
+
+          case 'deriveKey':
+            this.run('key', async () => KeyUtils.describeKey(
+              await KeyUtils.fromMnemonic(message.words, message.keyType, Number(message.index) || 0, message.passphrase || '')
+            ));
+            break;
+
+          case 'generateMnemonic':
+            this.run('mnemonic', async () => ({ words: await KeyUtils.generateMnemonic(message.wordCount === 12 ? 12 : 24) }));
+            break;
+
+          case 'convert':
+            this.run('address', async () => KeyUtils.parseAddress(message.text));
+            break;
+
+          case 'lookup':
+            this.run('lookup', () => this.lookup(message.text));
+            break;
+
+          case 'copy':
+            await vscode.env.clipboard.writeText(message.value);
+            vscode.window.showInformationMessage(`Copied ${message.label}`);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the toolkit, converting the given ID or address if any
+   */
+  public static createOrShow(hederaService: HederaService, address: string = ''): void {
+    if (KeyToolkitPanel.currentPanel) {
+      KeyToolkitPanel.currentPanel._panel.reveal();
+      if (address) {
+        KeyToolkitPanel.currentPanel.showAddress(address);
+      }
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindKeyToolkit',
+      'Key & Address Toolkit',
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    KeyToolkitPanel.currentPanel = new KeyToolkitPanel(panel, hederaService, address);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    KeyToolkitPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private showAddress(address: string): void {
+    this._panel.webview.postMessage({ command: 'init', address, connected: this.hederaService.isConnected() });
+    if (address) {
+      this.run('address', async () => KeyUtils.parseAddress(address));
+    }
+  }
+
+  /**
+   * Find the account or contract behind an ID or address, with the EVM address it goes by
+   */
+  private async lookup(text: string): Promise<{ entityId: string; kind: string; evmAddress?: string }> {
+    if (!this.hederaService.isConnected()) {
+      throw new Error('Connect to Hedera to look up addresses on the mirror node');
+    }
+
+    const { entityId, evmAddress } = KeyUtils.parseAddress(text);
+    const id = entityId || evmAddress!;
+    const mirrorNode = this.hederaService.getMirrorNode();
+
+    try {
+      const account = await mirrorNode.getAccount(id);
+      return {
+        entityId: account.account,
+        kind: 'Account',
+        evmAddress: account.evm_address ? KeyUtils.toChecksumAddress(account.evm_address) : undefined
+      };
+    } catch (accountError) {
+      try {
+        const contract = await mirrorNode.getContract(id);
+        return { entityId: contract.contract_id, kind: 'Contract', evmAddress: KeyUtils.toChecksumAddress(contract.evm_address) };
+      } catch (contractError) {
+        throw new Error(`No account or contract ${id} on ${this.hederaService.getCurrentNetwork()}`);
+      }
+    }
+  }
+
+  /**
+   * Run an action and post its result, or its error, to a section of the panel
+   */
+  private async run(section: string, action: () => Promise<object>): Promise<void> {
+    try {
+      this._panel.webview.postMessage({ command: 'result', section, result: await action() });
+    } catch (error) {
+      this._panel.webview.postMessage({ command: 'error', section, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Key &amp; Address Toolkit</title>
+      <style>
+        body {
+          padding: 20px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+        }
+
+        h2 {
+          font-size: 16px;
+          margin-top: 28px;
+        }
+
+        h3 {
+          font-size: 13px;
+          margin: 16px 0 6px;
+        }
+
+        .meta {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .row {
+          display: flex;
+          gap: 8px;
+          flex-wrap: wrap;
+          align-items: center;
+          margin: 6px 0;
+        }
+
+        input, select, textarea {
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+          padding: 4px;
+        }
+
+        input.wide, textarea {
+          flex: 1;
+          min-width: 300px;
+          font-family: monospace;
+        }
+
+        table {
+          border-collapse: collapse;
+          margin-top: 8px;
+        }
+
+        td {
+          padding: 2px 12px 2px 0;
+          vertical-align: top;
+        }
+
+        td.value {
+          font-family: monospace;
+          word-break: break-all;
+        }
+
+        .error-text {
+          color: var(--vscode-errorForeground, #f85149);
+        }
+
+        button {
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        button.secondary, button.copy {
+          color: var(--vscode-button-secondaryForeground);
+          background-color: var(--vscode-button-secondaryBackground);
+        }
+
+        button.copy {
+          padding: 1px 8px;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>Key &amp; Address Toolkit</h1>
+
+      <h2>Keys</h2>
+      <div class="meta">Keys are generated and derived locally and never stored. Copy them somewhere safe before closing the panel.</div>
+
+      <h3>Generate</h3>
+      <div class="row">
+        <button id="generate-ed25519">Generate ED25519</button>
+        <button id="generate-ecdsa">Generate ECDSA</button>
+      </div>
+
+      <h3>Parse</h3>
+      <div class="row">
+        <input class="wide" id="key-text" placeholder="DER or raw hex private or public key">
+        <select id="key-hint">
+          <option value="">32-byte raw key is…</option>
+          <option value="ed25519Private">ED25519 private</option>
+          <option value="ecdsaPrivate">ECDSA private</option>
+          <option value="ed25519Public">ED25519 public</option>
+        </select>
+        <button class="secondary" id="parse-key">Parse</button>
+      </div>
+
+      <h3>Mnemonic</h3>
+      <div class="row">
+        <textarea id="mnemonic" rows="2" placeholder="12 or 24-word recovery phrase"></textarea>
+      </div>
+      <div class="row">
+        <select id="mnemonic-type">
+          <option value="ED25519">ED25519</option>
+          <option value="ECDSA">ECDSA</option>
+        </select>
+        <label>Index <input id="mnemonic-index" type="number" min="0" value="0" style="width: 60px"></label>
+        <input id="mnemonic-passphrase" type="password" placeholder="Passphrase (optional)">
+        <button class="secondary" id="derive-key">Derive Key</button>
+        <button class="secondary" id="generate-mnemonic-12">New 12 Words</button>
+        <button class="secondary" id="generate-mnemonic-24">New 24 Words</button>
+      </div>
+
+      <div class="error-text" id="key-error"></div>
+      <table id="key-result"></table>
+
+      <h2>Addresses</h2>
+      <div class="row">
+        <input class="wide" id="address-text" placeholder="0.0.1234 or 0x… EVM address">
+        <button id="convert">Convert</button>
+        <button class="secondary" id="lookup">Look Up on Mirror Node</button>
+      </div>
+      <div class="error-text" id="address-error"></div>
+      <table id="address-result"></table>
+      <div class="error-text" id="lookup-error"></div>
+      <table id="lookup-result"></table>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        function el(tag, attrs, text) {
+          const node = document.createElement(tag);
+          Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value));
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        function value(id) {
+          return document.getElementById(id).value;
+        }
+
+        // Rows of [label, value, extra copy actions as [label, text]]
+        function renderTable(id, rows) {
+          const table = document.getElementById(id);
+          table.innerHTML = '';
+          rows.filter(([, text]) => text).forEach(([label, text, copyAs]) => {
+            const row = el('tr');
+            row.appendChild(el('td', {}, label));
+            row.appendChild(el('td', { class: 'value' }, text));
+            const actions = el('td');
+            [[label, text], ...(copyAs || [])].forEach(([copyLabel, copyText], index) => {
+              const button = el('button', { class: 'copy' }, index === 0 ? 'Copy' : 'Copy as ' + copyLabel);
+              button.addEventListener('click', () => vscode.postMessage({ command: 'copy', label: copyLabel, value: copyText }));
+              actions.appendChild(button);
+            });
+            row.appendChild(actions);
+            table.appendChild(row);
+          });
+        }
+
+        function addressCopyAs(address) {
+          return address ? [['Solidity', 'address(' + address + ')'], ['lowercase', address.toLowerCase()]] : [];
+        }
+
+        function renderKey(key) {
+          renderTable('key-result', [
+            ['Type', key.keyType],
+            ['Private key (DER)', key.privateKeyDer],
+            ['Private key (raw)', key.privateKeyRaw, key.privateKeyRaw ? [['0x hex', '0x' + key.privateKeyRaw]] : []],
+            ['Public key (DER)', key.publicKeyDer],
+            ['Public key (raw)', key.publicKeyRaw],
+            ['EVM alias address', key.evmAddress, addressCopyAs(key.evmAddress)]
+          ]);
+        }
+
+        function renderAddress(address) {
+          renderTable('address-result', [
+            ['ID', address.entityId],
+            ['Long-zero address', address.longZeroAddress, addressCopyAs(address.longZeroAddress)],
+            ['EVM address', address.evmAddress, addressCopyAs(address.evmAddress)]
+          ]);
+          if (!address.entityId) {
+            const row = el('tr');
+            row.appendChild(el('td', { class: 'meta', colspan: '3' }, 'Not a long-zero address: an ECDSA account alias or a CREATE2 contract. Look it up to find its ID.'));
+            document.getElementById('address-result').appendChild(row);
+          }
+        }
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'init':
+              document.getElementById('address-text').value = message.address;
+              break;
+
+            case 'result':
+              document.getElementById(message.section === 'mnemonic' ? 'key-error' : message.section + '-error').textContent = '';
+              if (message.section === 'key') {
+                renderKey(message.result);
+              } else if (message.section === 'mnemonic') {
+                document.getElementById('mnemonic').value = message.result.words;
+                renderTable('key-result', [['Mnemonic', message.result.words]]);
+              } else if (message.section === 'address') {
+                document.getElementById('lookup-result').innerHTML = '';
+                renderAddress(message.result);
+              } else if (message.section === 'lookup') {
+                renderTable('lookup-result', [
+                  [message.result.kind, message.result.entityId],
+                  ['EVM address', message.result.evmAddress, addressCopyAs(message.result.evmAddress)]
+                ]);
+              }
+              break;
+
+            case 'error': {
+              const section = message.section === 'mnemonic' ? 'key' : message.section;
+              document.getElementById(section + '-error').textContent = message.error;
+              document.getElementById(section + '-result').innerHTML = '';
+              break;
+            }
+          }
+        });
+
+        document.getElementById('generate-ed25519').addEventListener('click', () => vscode.postMessage({ command: 'generateKey', keyType: 'ED25519' }));
+        document.getElementById('generate-ecdsa').addEventListener('click', () => vscode.postMessage({ command: 'generateKey', keyType: 'ECDSA' }));
+        document.getElementById('parse-key').addEventListener('click', () => {
+          vscode.postMessage({ command: 'parseKey', text: value('key-text'), hint: value('key-hint') });
+        });
+        document.getElementById('derive-key').addEventListener('click', () => {
+          vscode.postMessage({
+            command: 'deriveKey',
+            words: value('mnemonic'),
+            keyType: value('mnemonic-type'),
+            index: value('mnemonic-index'),
+            passphrase: value('mnemonic-passphrase')
+          });
+        });
+        document.getElementById('generate-mnemonic-12').addEventListener('click', () => vscode.postMessage({ command: 'generateMnemonic', wordCount: 12 }));
+        document.getElementById('generate-mnemonic-24').addEventListener('click', () => vscode.postMessage({ command: 'generateMnemonic', wordCount: 24 }));
+        document.getElementById('convert').addEventListener('click', () => vscode.postMessage({ command: 'convert', text: value('address-text') }));
+        document.getElementById('lookup').addEventListener('click', () => vscode.postMessage({ command: 'lookup', text: value('address-text') }));
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
@@ -0,0 +1,680 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContractExecuteTransaction, PublicKey, Transaction, TransferTransaction } from '@hashgraph/sdk';
+import { HederaService } from '../services/hederaService';
+import { AccountService } from '../services/accountService';
+import { MirrorNodeService } from '../services/mirrorNodeService';
+import { KeyRequirement, KeyStatus, MultiSigFile, MultiSigUtils } from '../utils/multiSigUtils';
+import { NetworkUtils } from '../utils/networkUtils';
+import { escapeHtml, getNonce } from '../utils/security';
+
+/**
+ * A key status as shown in the webview
+ */
+interface KeyStatusView {
+  label: string;
+  satisfied: boolean;
+  children?: KeyStatusView[];
+}
+
+/**
+ * Panel to review a multi-signature transaction file, add signatures and submit it
+ * once every required key has signed
+ */
+export class MultiSigPanel {
+  // Co-signers need time to sign before the transaction becomes valid
+  private static readonly DEFAULT_START_DELAY_MINUTES = 60;
+
+  // One panel per file
+  private static panels = new Map<string, MultiSigPanel>();
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+  // Account keys come from the file's network, which need not be the one connected
+  private readonly mirrorNode: MirrorNodeService;
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private hederaService: HederaService,
+    private accountService: AccountService,
+    private uri: vscode.Uri,
+    private file: MultiSigFile,
+    private transaction: Transaction
+  ) {
+    this._panel = panel;
+    this.mirrorNode = new MirrorNodeService(NetworkUtils.getMirrorNodeUrl(file.network));
+
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+          case 'refresh':
+            await this.postState();
+            break;
+
+          case 'signWithOperator':
+            await this.run('sign the transaction', () => this.signWithOperator());
+            break;
+
+          case 'signWithAccount':
+            await this.run('sign the transaction', () => this.signWithAccount());
+            break;
+
+          case 'importSignatures':
+            await this.run('import signatures', () => this.importSignatures());
+            break;
+
+          case 'submit':
+            await this.run('submit the transaction', () => this.submit());
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open a multi-sig transaction file, asking for one if none is given, or reveal its panel
+   */
+  public static async open(hederaService: HederaService, accountService: AccountService, uri?: vscode.Uri): Promise<void> {
+    if (!uri) {
+      const picked = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Review',
+        filters: { 'Multi-sig transactions': ['json'] }
+      });
+      uri = picked?.[0];
+      if (!uri) {
+        return;
+      }
+    }
+
+    const existing = MultiSigPanel.panels.get(uri.toString());
+    if (existing) {
+      existing._panel.reveal();
+      return;
+    }
+
+    const { file, transaction } = MultiSigUtils.parseFile(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindMultiSig',
+      `Multi-sig: ${path.basename(uri.fsPath)}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    MultiSigPanel.panels.set(uri.toString(), new MultiSigPanel(panel, hederaService, accountService, uri, file, transaction));
+  }
+
+  /**
+   * Freeze a transaction for offline signing and save it to a file for co-signers: asks for the
+   * fee payer, when the transaction becomes valid and where to save it, then opens the file
+   */
+  public static async exportForSigning(
+    hederaService: HederaService,
+    accountService: AccountService,
+    transaction: Transaction,
+    description: string
+  ): Promise<void> {
+    if (!hederaService.isConnected()) {
+      throw new Error('Not connected to Hedera network');
+    }
+
+    const payerAccountId = await vscode.window.showInputBox({
+      prompt: 'Account that pays the transaction fee',
+      value: hederaService.getAccountId() || '',
+      validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter an account ID, e.g. 0.0.1234'
+    });
+    if (!payerAccountId) {
+      return;
+    }
+
+    const delay = await vscode.window.showInputBox({
+      prompt: `Minutes until the transaction can be submitted. It can be signed until then and submitted within the following ${MultiSigUtils.MAX_VALID_DURATION_SECONDS / 60} minutes.`,
+      value: String(MultiSigPanel.DEFAULT_START_DELAY_MINUTES),
+      validateInput: value => Number(value) > 0 ? null : 'Enter a number of minutes over 0'
+    });
+    if (!delay) {
+      return;
+    }
+
+    description = await vscode.window.showInputBox({
+      prompt: 'Description for co-signers',
+      value: description
+    }) ?? '';
+    if (!description) {
+      return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `${description.replace(/[^\w.-]+/g, '-').toLowerCase()}.${MultiSigUtils.FILE_EXTENSION}`;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+      filters: { 'Multi-sig transactions': ['json'] }
+    });
+    if (!uri) {
+      return;
+    }
+
+    const validStart = new Date(Date.now() + Number(delay) * 60 * 1000);
+    const frozen = hederaService.prepareForSigning(transaction, payerAccountId.trim(), validStart);
+    const file = MultiSigUtils.createFile(frozen, {
+      network: hederaService.getCurrentNetwork(),
+      description,
+      createdBy: hederaService.getAccountId() || ''
+    });
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(file, null, 2)));
+
+    await MultiSigPanel.open(hederaService, accountService, uri);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    MultiSigPanel.panels.delete(this.uri.toString());
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Send the decoded transaction and the state of each required signature to the webview
+   */
+  private async postState(): Promise<void> {
+    const { signed, invalid } = MultiSigUtils.getSignatures(this.transaction);
+    const signedKeys = new Set(signed);
+    const knownKeys = this.getKnownKeys();
+
+    const signers = await Promise.all(MultiSigUtils.getSignerRequirements(this.transaction).map(async requirement => {
+      let key = requirement.key;
+      let error: string | undefined;
+      if (!key && requirement.accountId) {
+        try {
+          const account = await this.mirrorNode.getAccount(requirement.accountId);
+          key = account.key ? MultiSigUtils.fromMirrorKey(account.key) : undefined;
+          if (!key) {
+            error = 'The account has no key';
+          }
+        } catch (fetchError) {
+          console.error(`Failed to load the key of ${requirement.accountId}:`, fetchError);
+          error = 'Failed to load the account key from the mirror node';
+        }
+      }
+
+      const status = key ? MultiSigUtils.evaluate(key, signedKeys) : undefined;
+      return {
+        role: requirement.role,
+        accountId: requirement.accountId,
+        satisfied: !!status?.satisfied,
+        key: status ? this.toView(status, knownKeys) : undefined,
+        error
+      };
+    }));
+
+    const { start, end } = MultiSigUtils.getValidityWindow(this.transaction);
+    this._panel.webview.postMessage({
+      command: 'state',
+      description: this.file.description,
+      network: this.file.network,
+      createdBy: this.file.createdBy,
+      createdAt: this.file.createdAt,
+      fileName: path.basename(this.uri.fsPath),
+      rows: MultiSigUtils.describe(this.transaction),
+      validStart: start.getTime(),
+      validEnd: end.getTime(),
+      signers,
+      signatureCount: signed.length,
+      invalid: invalid.map(raw => knownKeys.get(raw) || raw),
+      canSignWithOperator: this.hederaService.isConnected() && this.hederaService.getCurrentNetwork() === this.file.network,
+      accountCount: this.accountService.getAccounts(this.file.network).length
+    });
+  }
+
+  /**
+   * Name the keys the user can sign with: the operator and the accounts of the Accounts view
+   */
+  private getKnownKeys(): Map<string, string> {
+    const known = new Map<string, string>();
+    for (const account of this.accountService.getAccounts(this.file.network)) {
+      known.set(PublicKey.fromString(account.publicKey).toStringRaw().toLowerCase(), `${account.name} (${account.accountId})`);
+    }
+
+    const operatorKey = this.hederaService.getOperatorPublicKey();
+    if (operatorKey && this.hederaService.getCurrentNetwork() === this.file.network) {
+      known.set(PublicKey.fromString(operatorKey).toStringRaw().toLowerCase(), `operator ${this.hederaService.getAccountId()}`);
+    }
+    return known;
+  }
+
+  private toView(status: KeyStatus, knownKeys: Map<string, string>): KeyStatusView {
+    return {
+      label: this.getKeyLabel(status.requirement, knownKeys),
+      satisfied: status.satisfied,
+      children: status.children?.map(child => this.toView(child, knownKeys))
+    };
+  }
+
+  private getKeyLabel(requirement: KeyRequirement, knownKeys: Map<string, string>): string {
+    switch (requirement.type) {
+      case 'key': {
+        const name = knownKeys.get(requirement.publicKey);
+        return `${requirement.keyType} ${requirement.publicKey}${name ? ` · ${name}` : ''}`;
+      }
+      case 'contract':
+        return `Contract ${requirement.contractId} (can't sign offline)`;
+      case 'threshold':
+        return `${requirement.threshold} of ${requirement.keys.length}`;
+    }
+  }
+
+  private async signWithOperator(): Promise<void> {
+    this.checkNotExpired();
+    await this.hederaService.signWithOperator(this.transaction);
+    await this.save();
+    vscode.window.showInformationMessage(`Signed as ${this.hederaService.getAccountId()}`);
+  }
+
+  private async signWithAccount(): Promise<void> {
+    this.checkNotExpired();
+    const accounts = this.accountService.getAccounts(this.file.network);
+    if (accounts.length === 0) {
+      throw new Error(`No accounts on ${this.file.network} in the Accounts view`);
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      accounts.map(account => ({ label: account.name, description: account.accountId, account })),
+      { placeHolder: 'Account to sign with' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const key = await this.accountService.getPrivateKey(picked.account.network, picked.account.accountId);
+    await this.transaction.sign(key);
+    await this.save();
+    vscode.window.showInformationMessage(`Signed as ${picked.account.name}`);
+  }
+
+  /**
+   * Add the signatures of copies co-signers signed in parallel
+   */
+  private async importSignatures(): Promise<void> {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: true,
+      openLabel: 'Import Signatures',
+      filters: { 'Multi-sig transactions': ['json'] }
+    });
+    if (!uris?.length) {
+      return;
+    }
+
+    let added = 0;
+    for (const uri of uris) {
+      const { transaction } = MultiSigUtils.parseFile(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+      const merged = MultiSigUtils.mergeSignatures(this.transaction, transaction);
+      this.transaction = merged.transaction;
+      added += merged.added;
+    }
+
+    if (added > 0) {
+      await this.save();
+    }
+    vscode.window.showInformationMessage(added === 1 ? 'Imported 1 signature' : `Imported ${added} signatures`);
+  }
+
+  private async submit(): Promise<void> {
+    if (!this.hederaService.isConnected() || this.hederaService.getCurrentNetwork() !== this.file.network) {
+      throw new Error(`Connect to ${this.file.network} to submit this transaction`);
+    }
+
+    const transactionId = this.transaction.transactionId!.toString();
+    const details = { description: this.file.description, ...this.getTransactionDetails() };
+    try {
+      await this.hederaService.submitSignedTransaction(this.transaction);
+      vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+        id: transactionId,
+        type: 'multisig_submit',
+        timestamp: new Date(),
+        status: 'SUCCESS',
+        details
+      });
+      vscode.window.showInformationMessage(`Submitted ${transactionId}`);
+    } catch (error: any) {
+      // Receipt errors carry the transaction ID; policy blocks are recorded by the policy
+      if (error?.transactionId) {
+        vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+          id: transactionId,
+          type: 'multisig_submit',
+          timestamp: new Date(),
+          status: 'FAILED',
+          details: { ...details, error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+      throw error;
+    }
+  }
+
+  private getTransactionDetails(): any {
+    if (this.transaction instanceof ContractExecuteTransaction) {
+      return { contractId: this.transaction.contractId?.toString() };
+    }
+    if (this.transaction instanceof TransferTransaction) {
+      const received = this.transaction.hbarTransfersList.find(transfer => !transfer.amount.isNegative());
+      return received ? { accountId: received.accountId.toString(), amount: received.amount.toString() } : {};
+    }
+    return {};
+  }
+
+  private checkNotExpired(): void {
+    if (Date.now() > MultiSigUtils.getValidityWindow(this.transaction).end.getTime()) {
+      throw new Error('The transaction has expired');
+    }
+  }
+
+  /**
+   * Write the signatures collected so far back to the file
+   */
+  private async save(): Promise<void> {
+    this.file = MultiSigUtils.updateFile(this.file, this.transaction);
+    await vscode.workspace.fs.writeFile(this.uri, Buffer.from(JSON.stringify(this.file, null, 2)));
+    await this.postState();
+  }
+
+  /**
+   * Run an action and show its error, if any
+   */
+  private async run(description: string, action: () => Promise<void>): Promise<void> {
+    this._panel.webview.postMessage({ command: 'busy', busy: true });
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${description}:`, error);
+      vscode.window.showErrorMessage(`Failed to ${description}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this._panel.webview.postMessage({ command: 'busy', busy: false });
+    }
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Multi-sig Transaction</title>
+      <style>
+        body {
+          padding: 20px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 4px;
+        }
+
+        h2 {
+          font-size: 16px;
+          margin-top: 24px;
+        }
+
+        .subtitle, .meta {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .window {
+          margin: 12px 0;
+          padding: 8px;
+          border-left: 3px solid var(--vscode-charts-blue, #3794ff);
+        }
+
+        .window.open {
+          border-left-color: #3fb950;
+        }
+
+        .window.expired {
+          border-left-color: #f85149;
+        }
+
+        table {
+          border-collapse: collapse;
+        }
+
+        td {
+          padding: 2px 16px 2px 0;
+          vertical-align: top;
+        }
+
+        td.value {
+          font-family: monospace;
+          word-break: break-all;
+        }
+
+        .signer {
+          border: 1px solid var(--vscode-panel-border);
+          border-radius: 4px;
+          margin-bottom: 8px;
+          padding: 8px 12px;
+        }
+
+        .key {
+          font-family: monospace;
+          word-break: break-all;
+          margin: 2px 0;
+        }
+
+        .key .children {
+          margin-left: 20px;
+        }
+
+        .ok {
+          color: #3fb950;
+        }
+
+        .missing, .error-text {
+          color: var(--vscode-errorForeground, #f85149);
+        }
+
+        .actions {
+          display: flex;
+          gap: 8px;
+          flex-wrap: wrap;
+        }
+
+        button {
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+
+        button.secondary {
+          color: var(--vscode-button-secondaryForeground);
+          background-color: var(--vscode-button-secondaryBackground);
+        }
+      </style>
+    </head>
+    <body>
+      <h1 id="title">${escapeHtml(this.file.description)}</h1>
+      <div class="subtitle" id="subtitle"></div>
+      <div class="window" id="window"></div>
+
+      <h2>Transaction</h2>
+      <table id="summary"></table>
+
+      <h2>Signatures</h2>
+      <div id="signers"></div>
+      <div class="error-text" id="invalid"></div>
+
+      <div class="actions">
+        <button id="sign-operator">Sign with Operator</button>
+        <button class="secondary" id="sign-account">Sign with Account...</button>
+        <button class="secondary" id="import">Import Signatures...</button>
+        <button class="secondary" id="refresh">Refresh</button>
+        <button id="submit">Submit</button>
+      </div>
+      <div class="meta" id="submit-hint"></div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        let state;
+        let busy = false;
+
+        function el(tag, attrs, text) {
+          const node = document.createElement(tag);
+          Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value));
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        function formatDuration(ms) {
+          const seconds = Math.max(0, Math.floor(ms / 1000));
+          const hours = Math.floor(seconds / 3600);
+          const minutes = Math.floor((seconds % 3600) / 60);
+          return (hours ? hours + 'h ' : '') + (hours || minutes ? minutes + 'm ' : '') + (seconds % 60) + 's';
+        }
+
+        function renderKey(key) {
+          const node = el('div', { class: 'key' });
+          node.appendChild(el('span', { class: key.satisfied ? 'ok' : 'missing' }, key.satisfied ? '✓ ' : '✗ '));
+          node.appendChild(el('span', {}, key.label));
+          if (key.children) {
+            const children = el('div', { class: 'children' });
+            key.children.forEach(child => children.appendChild(renderKey(child)));
+            node.appendChild(children);
+          }
+          return node;
+        }
+
+        function getPhase() {
+          const now = Date.now();
+          if (now > state.validEnd) {
+            return 'expired';
+          }
+          return now >= state.validStart ? 'open' : 'pending';
+        }
+
+        // Keep the countdown and the submit button in step with the clock
+        function renderWindow() {
+          if (!state) {
+            return;
+          }
+          const phase = getPhase();
+          const container = document.getElementById('window');
+          container.className = 'window ' + phase;
+          const range = new Date(state.validStart).toLocaleString() + ' – ' + new Date(state.validEnd).toLocaleTimeString();
+          if (phase === 'expired') {
+            container.textContent = 'Expired. It could be submitted ' + range + '.';
+          } else if (phase === 'open') {
+            container.textContent = 'Can be submitted now, for ' + formatDuration(state.validEnd - Date.now()) + ' (' + range + ').';
+          } else {
+            container.textContent = 'Can be submitted in ' + formatDuration(state.validStart - Date.now()) + ' (' + range + '). Collect signatures until then.';
+          }
+
+          const satisfied = state.signers.every(signer => signer.satisfied);
+          document.getElementById('submit').disabled = busy || phase !== 'open' || !satisfied;
+          document.getElementById('sign-operator').disabled = busy || phase === 'expired' || !state.canSignWithOperator;
+          document.getElementById('sign-account').disabled = busy || phase === 'expired' || state.accountCount === 0;
+          document.getElementById('import').disabled = busy || phase === 'expired';
+          document.getElementById('submit-hint').textContent = satisfied
+            ? (phase === 'open' ? '' : 'All required keys have signed.')
+            : 'Waiting for the missing signatures.';
+        }
+
+        function render() {
+          document.getElementById('title').textContent = state.description;
+          document.getElementById('subtitle').textContent = state.fileName + ' · ' + state.network +
+            ' · created by ' + (state.createdBy || 'unknown') + ' on ' + new Date(state.createdAt).toLocaleString();
+
+          const summary = document.getElementById('summary');
+          summary.innerHTML = '';
+          state.rows.forEach(([label, value]) => {
+            const row = el('tr');
+            row.appendChild(el('td', {}, label));
+            row.appendChild(el('td', { class: 'value' }, value));
+            summary.appendChild(row);
+          });
+
+          const signers = document.getElementById('signers');
+          signers.innerHTML = '';
+          state.signers.forEach(signer => {
+            const container = el('div', { class: 'signer' });
+            const heading = el('div');
+            heading.appendChild(el('strong', { class: signer.satisfied ? 'ok' : 'missing' }, signer.satisfied ? '✓ ' : '✗ '));
+            heading.appendChild(el('strong', {}, signer.role + (signer.accountId ? ' ' + signer.accountId : '')));
+            container.appendChild(heading);
+            if (signer.error) {
+              container.appendChild(el('div', { class: 'error-text' }, signer.error));
+            }
+            if (signer.key) {
+              container.appendChild(renderKey(signer.key));
+            }
+            signers.appendChild(container);
+          });
+          signers.appendChild(el('div', { class: 'meta' }, state.signatureCount + ' signature(s) collected'));
+
+          document.getElementById('invalid').textContent = state.invalid.length
+            ? 'Signatures that do not match the transaction: ' + state.invalid.join(', ')
+            : '';
+
+          renderWindow();
+        }
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'state':
+              state = message;
+              render();
+              break;
+
+            case 'busy':
+              busy = message.busy;
+              renderWindow();
+              break;
+          }
+        });
+
+        [['sign-operator', 'signWithOperator'], ['sign-account', 'signWithAccount'], ['import', 'importSignatures'],
+          ['refresh', 'refresh'], ['submit', 'submit']].forEach(([id, command]) => {
+          document.getElementById(id).addEventListener('click', () => vscode.postMessage({ command }));
+        });
+
+        setInterval(renderWindow, 1000);
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
@@ -40,13 +40,23 @@ export class NetworkStatusBar {
   /**
    * Set status to connected
    */
-  setConnected(network: string, accountId: string): void {
-    this.statusBarItem.text = `$(plug) Hedera: ${network}`;
-    this.statusBarItem.tooltip = `Connected to Hedera ${network}\nAccount: ${accountId}`;
-    this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+  setConnected(network: string, accountId: string, profileName?: string, readOnly?: boolean): void {
+    const icon = readOnly ? '$(lock)' : '$(plug)';
+    this.statusBarItem.text = profileName && profileName !== network
+      ? `${icon} Hedera: ${profileName} (${network})`
+      : `${icon} Hedera: ${network}`;
+    this.statusBarItem.tooltip = `Connected to Hedera ${network}\nAccount: ${accountId}`
+      + (profileName ? `\nProfile: ${profileName}` : '')
+      + (readOnly ? '\nRead-only: transactions are blocked' : '')
+      + (network === 'mainnet' && !readOnly ? '\nTransactions spend real HBAR and need confirmation' : '')
+      + '\nClick to switch operator';
+    // Mainnet stands out unless nothing can be submitted
+    this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+      network === 'mainnet' && !readOnly ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground'
+    );
     
-    // Set command to disconnect
-    this.statusBarItem.command = 'hivemind.disconnectHedera';
+    // Set command to switch operator (which also offers disconnect)
+    this.statusBarItem.command = 'hivemind.switchOperator';
   }
 
   /**
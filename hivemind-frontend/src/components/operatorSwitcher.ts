@@ -0,0 +1,378 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { KeySource, OperatorProfile, ProfileService } from '../services/profileService';
+import { TransactionPolicy, TransactionPolicyService } from '../services/transactionPolicyService';
+import { NetworkUtils } from '../utils/networkUtils';
+
+/**
+ * Quick-pick UI for switching between and managing operator profiles
+ */
+export class OperatorSwitcher {
+  constructor(
+    private context: vscode.ExtensionContext,
+    private profileService: ProfileService,
+    private hederaService: HederaService
+  ) {
+    this.context.subscriptions.push(
+      vscode.commands.registerCommand('hivemind.switchOperator', () => this.showSwitchOperator()),
+      vscode.commands.registerCommand('hivemind.addOperatorProfile', () => this.addProfile()),
+      vscode.commands.registerCommand('hivemind.removeOperatorProfile', () => this.removeProfile()),
+      vscode.commands.registerCommand('hivemind.editTransactionPolicy', () => this.editPolicy())
+    );
+  }
+
+  /**
+   * Show the operator quick pick and switch to the selected profile
+   */
+  public async showSwitchOperator(): Promise<void> {
+    const profiles = this.profileService.getProfiles();
+    const current = this.hederaService.isConnected() ? this.hederaService.getActiveProfileName() : null;
+
+    type OperatorItem = vscode.QuickPickItem & { profile?: OperatorProfile; action?: 'add' | 'remove' | 'policy' | 'disconnect' };
+
+    const items: OperatorItem[] = profiles.map(profile => ({
+      label: `${profile.name === current ? '$(check)' : '$(account)'} ${profile.name}`,
+      description: `${profile.network} · ${profile.accountId}`,
+      detail: `Key: ${this.describeKeySource(profile)} · Max fee: ${profile.maxTransactionFee} HBAR`
+        + (profile.policy?.readOnly ? ' · Read-only' : ''),
+      profile
+    }));
+
+    items.push({ label: '$(add) Add Operator Profile...', action: 'add' });
+
+    if (profiles.length > 0) {
+      items.push({ label: '$(shield) Edit Transaction Policy...', action: 'policy' });
+      items.push({ label: '$(trash) Remove Operator Profile...', action: 'remove' });
+    }
+
+    if (current) {
+      items.push({ label: '$(debug-disconnect) Disconnect', action: 'disconnect' });
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: current ? `Connected as ${current}. Switch operator` : 'Select an operator profile'
+    });
+
+    if (!selected) {
+      return;
+    }
+
+    switch (selected.action) {
+      case 'add':
+        await this.addProfile();
+        return;
+      case 'remove':
+        await this.removeProfile();
+        return;
+      case 'policy':
+        await this.editPolicy();
+        return;
+      case 'disconnect':
+        vscode.commands.executeCommand('hivemind.disconnectHedera');
+        return;
+    }
+
+    if (selected.profile) {
+      await this.switchTo(selected.profile.name);
+    }
+  }
+
+  /**
+   * Make a profile active and reconnect the client with it
+   */
+  public async switchTo(name: string): Promise<void> {
+    try {
+      await this.profileService.setActiveProfile(name);
+
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: `Connecting as ${name}...`
+      }, () => this.hederaService.connectProfile(name));
+
+      vscode.window.showInformationMessage(`Switched Hedera operator to ${name}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to switch operator: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Walk through creating a new operator profile
+   */
+  public async addProfile(): Promise<OperatorProfile | undefined> {
+    const existing = this.profileService.getProfiles().map(p => p.name);
+
+    const name = await vscode.window.showInputBox({
+      prompt: 'Profile name',
+      placeHolder: 'personal-testnet',
+      ignoreFocusOut: true,
+      validateInput: value => {
+        if (!value.trim()) {
+          return 'Profile name is required';
+        }
+        return existing.includes(value.trim()) ? `A profile named ${value.trim()} already exists` : undefined;
+      }
+    });
+
+    if (!name) {
+      return undefined;
+    }
+
+    const network = await vscode.window.showQuickPick(NetworkUtils.getNetworkNames(), {
+      placeHolder: 'Select Hedera network',
+      ignoreFocusOut: true
+    });
+
+    if (!network) {
+      return undefined;
+    }
+
+    const accountId = await vscode.window.showInputBox({
+      prompt: `Operator account ID for ${name}`,
+      placeHolder: '0.0.12345',
+      ignoreFocusOut: true,
+      validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? undefined : 'Enter an account ID like 0.0.12345'
+    });
+
+    if (!accountId) {
+      return undefined;
+    }
+
+    const keySourceItem = await vscode.window.showQuickPick([
+      { label: 'Store key in the OS keychain', keySource: 'secretStorage' as KeySource },
+      { label: 'Read key from an environment variable', keySource: 'environment' as KeySource }
+    ], {
+      placeHolder: 'Where should the private key come from?',
+      ignoreFocusOut: true
+    });
+
+    if (!keySourceItem) {
+      return undefined;
+    }
+
+    let privateKey: string | undefined;
+    let keyEnvVariable: string | undefined;
+
+    if (keySourceItem.keySource === 'secretStorage') {
+      privateKey = await vscode.window.showInputBox({
+        prompt: `Private key for ${accountId} (stored in the OS keychain)`,
+        password: true,
+        ignoreFocusOut: true
+      });
+
+      if (!privateKey) {
+        return undefined;
+      }
+    } else {
+      keyEnvVariable = await vscode.window.showInputBox({
+        prompt: 'Environment variable holding the private key',
+        value: 'HEDERA_PRIVATE_KEY',
+        ignoreFocusOut: true,
+        validateInput: value => /^[A-Za-z_][A-Za-z0-9_]*$/.test(value) ? undefined : 'Enter a valid environment variable name'
+      });
+
+      if (!keyEnvVariable) {
+        return undefined;
+      }
+    }
+
+    const maxFee = await vscode.window.showInputBox({
+      prompt: 'Default max transaction fee (HBAR)',
+      value: String(ProfileService.DEFAULT_MAX_TRANSACTION_FEE),
+      ignoreFocusOut: true,
+      validateInput: value => Number(value) > 0 ? undefined : 'Enter a positive number of HBAR'
+    });
+
+    if (!maxFee) {
+      return undefined;
+    }
+
+    const profile: OperatorProfile = {
+      name: name.trim(),
+      network,
+      accountId: accountId.trim(),
+      keySource: keySourceItem.keySource,
+      keyEnvVariable,
+      maxTransactionFee: Number(maxFee)
+    };
+
+    try {
+      await this.profileService.saveProfile(profile, privateKey);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save operator profile: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+
+    const connect = await vscode.window.showInformationMessage(
+      `Operator profile ${profile.name} saved`,
+      'Switch Now'
+    );
+
+    if (connect === 'Switch Now') {
+      await this.switchTo(profile.name);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Pick a profile and delete it along with its stored key
+   */
+  public async removeProfile(): Promise<void> {
+    const selected = await vscode.window.showQuickPick(
+      this.profileService.getProfiles().map(profile => ({
+        label: profile.name,
+        description: `${profile.network} · ${profile.accountId}`
+      })),
+      { placeHolder: 'Select an operator profile to remove' }
+    );
+
+    if (!selected) {
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Remove operator profile ${selected.label} and its stored key?`,
+      { modal: true },
+      'Remove'
+    );
+
+    if (confirm !== 'Remove') {
+      return;
+    }
+
+    if (this.hederaService.getActiveProfileName() === selected.label) {
+      this.hederaService.disconnect();
+    }
+
+    await this.profileService.deleteProfile(selected.label);
+    vscode.window.showInformationMessage(`Operator profile ${selected.label} removed`);
+  }
+
+  /**
+   * Edit the transaction policy of a profile: read-only mode, allowed types and HBAR caps
+   */
+  public async editPolicy(): Promise<void> {
+    const active = this.hederaService.getActiveProfileName();
+    const profiles = this.profileService.getProfiles();
+    const selected = profiles.length === 1 ? { label: profiles[0].name } : await vscode.window.showQuickPick(
+      profiles.map(profile => ({
+        label: profile.name,
+        description: `${profile.network} · ${profile.accountId}${profile.name === active ? ' · active' : ''}`
+      })),
+      { placeHolder: 'Select an operator profile to edit its transaction policy' }
+    );
+
+    if (!selected) {
+      return;
+    }
+
+    const policyService = this.hederaService.getTransactionPolicy();
+
+    type PolicyItem = vscode.QuickPickItem & { action: 'readOnly' | 'types' | 'maxTransaction' | 'maxSession' | 'reset' | 'defaults' };
+
+    // Keep the menu open until the user dismisses it so several fields can be changed
+    for (;;) {
+      const profile = this.profileService.getProfile(selected.label);
+      if (!profile) {
+        return;
+      }
+
+      const policy = policyService.getEffectivePolicy(profile);
+      const spent = policyService.getSessionSpend(profile.network, profile.accountId);
+      const items: PolicyItem[] = [
+        {
+          label: `$(lock) Read-only: ${policy.readOnly ? 'on' : 'off'}`,
+          description: 'Block all transactions; queries still work',
+          action: 'readOnly'
+        },
+        {
+          label: `$(checklist) Allowed transactions: ${policy.allowedTransactionTypes.length ? policy.allowedTransactionTypes.length : 'all'}`,
+          description: policy.allowedTransactionTypes.join(', '),
+          action: 'types'
+        },
+        {
+          label: `$(credit-card) Per-transaction cap: ${this.describeCap(policy.maxTransactionHbar)}`,
+          description: profile.policy?.maxTransactionHbar === undefined ? 'from settings' : undefined,
+          action: 'maxTransaction'
+        },
+        {
+          label: `$(history) Session cap: ${this.describeCap(policy.maxSessionHbar)}`,
+          description: profile.policy?.maxSessionHbar === undefined ? 'from settings' : undefined,
+          action: 'maxSession'
+        },
+        {
+          label: '$(debug-restart) Reset Session Spending',
+          description: `${spent.toFixed(4)} HBAR spent on ${profile.network}`,
+          action: 'reset'
+        },
+        { label: '$(discard) Use Settings Defaults', action: 'defaults' }
+      ];
+
+      const item = await vscode.window.showQuickPick(items, {
+        placeHolder: `Transaction policy for ${profile.name}`
+      });
+
+      if (!item) {
+        return;
+      }
+
+      let update: TransactionPolicy | undefined = { ...profile.policy };
+
+      switch (item.action) {
+        case 'readOnly':
+          update.readOnly = !policy.readOnly;
+          break;
+
+        case 'types': {
+          const types = await vscode.window.showQuickPick(
+            Object.entries(TransactionPolicyService.TRANSACTION_TYPES).map(([type, info]) => ({
+              label: info.label,
+              description: type,
+              picked: policy.allowedTransactionTypes.includes(type)
+            })),
+            { canPickMany: true, placeHolder: 'Select the allowed transaction types; select none to allow all' }
+          );
+          if (!types) {
+            continue;
+          }
+          update.allowedTransactionTypes = types.length ? types.map(type => type.description!) : undefined;
+          break;
+        }
+
+        case 'maxTransaction':
+        case 'maxSession': {
+          const key = item.action === 'maxTransaction' ? 'maxTransactionHbar' : 'maxSessionHbar';
+          const value = await vscode.window.showInputBox({
+            prompt: `${item.action === 'maxTransaction' ? 'Per-transaction' : 'Session'} cap in HBAR; 0 for no cap, empty to use the setting`,
+            value: profile.policy?.[key] !== undefined ? String(profile.policy[key]) : '',
+            ignoreFocusOut: true,
+            validateInput: input => input.trim() === '' || Number(input) >= 0 ? undefined : 'Enter a number of HBAR'
+          });
+          if (value === undefined) {
+            continue;
+          }
+          update[key] = value.trim() === '' ? undefined : Number(value);
+          break;
+        }
+
+        case 'reset':
+          policyService.resetSessionSpend();
+          continue;
+
+        case 'defaults':
+          update = undefined;
+          break;
+      }
+
+      await this.profileService.saveProfile({ ...profile, policy: update });
+    }
+  }
+
+  private describeCap(value: number): string {
+    return value > 0 ? `${value} HBAR` : 'none';
+  }
+
+  private describeKeySource(profile: OperatorProfile): string {
+    return profile.keySource === 'environment' ? `$${profile.keyEnvVariable}` : 'OS keychain';
+  }
+}
@@ -0,0 +1,449 @@
+import * as vscode from 'vscode';
+import { Hbar, HbarUnit } from '@hashgraph/sdk';
+import { HederaService } from '../services/hederaService';
+import { AgentRegistryService, RegistryAgent } from '../services/agentRegistryService';
+import { AbiUtils, DecodedContractResult } from '../utils/abiUtils';
+import { DeploymentUtils } from '../utils/deploymentUtils';
+import { escapeHtml, getNonce } from '../utils/security';
+
+/**
+ * Fields of the publish form
+ */
+interface AgentForm {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: string[];
+  /** Fee per use in HBAR */
+  fee: string;
+}
+
+/**
+ * Form for registering a new agent in the AgentRegistry or updating one the operator owns
+ */
+export class PublishAgentPanel {
+  public static currentPanel: PublishAgentPanel | undefined;
+
+  // Used when the mirror node can't estimate the gas of a registry transaction
+  private static readonly FALLBACK_GAS = 500000;
+  private static readonly KNOWN_CAPABILITIES = ['audit', 'test-generation', 'fuzzing', 'optimization', 'gas-analysis'];
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private hederaService: HederaService,
+    private agent: RegistryAgent | undefined
+  ) {
+    this._panel = panel;
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+            this._panel.webview.postMessage({
+              command: 'init',
+              agent: this.agent,
+              fee: this.agent ? Hbar.fromTinybars(this.agent.feeTinybars).to(HbarUnit.Hbar).toString() : '0',
+              accountId: this.hederaService.getAccountId(),
+              network: this.hederaService.getCurrentNetwork()
+            });
+            break;
+
+          case 'submit':
+            await this.submit(message.form);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the form to publish a new agent, or to edit an agent when one is given
+   */
+  public static createOrShow(hederaService: HederaService, agent?: RegistryAgent): void {
+    if (!hederaService.getAgentRegistry()) {
+      vscode.window.showErrorMessage('Set hivemind.contractRegistryAddress to the AgentRegistry contract first');
+      return;
+    }
+
+    if (PublishAgentPanel.currentPanel) {
+      PublishAgentPanel.currentPanel.dispose();
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindPublishAgent',
+      agent ? `Edit Agent: ${agent.name}` : 'Publish Agent',
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    PublishAgentPanel.currentPanel = new PublishAgentPanel(panel, hederaService, agent);
+  }
+
+  /**
+   * Send a registerAgent, updateAgent or deactivateAgent transaction from the operator account.
+   * The receipt is recorded in the Transaction Center; reverts are thrown with their reason.
+   *
+   * @param args Arguments as AbiUtils raw values: strings, JSON arrays and decimal integers
+   */
+  public static async sendRegistryTransaction(
+    hederaService: HederaService,
+    method: 'registerAgent' | 'updateAgent' | 'deactivateAgent',
+    args: string[]
+  ): Promise<DecodedContractResult> {
+    const registry = hederaService.getAgentRegistry();
+    if (!registry) {
+      throw new Error('No AgentRegistry contract is configured');
+    }
+
+    const abi = AgentRegistryService.getAbi();
+    const entry = abi.find(item => item.type === 'function' && item.name === method)!;
+    const functionParameters = AbiUtils.encodeFunctionCall(entry, args);
+    const contractId = await registry.getContractId();
+
+    // Storage writes scale with the length of the strings, so ask the mirror node first
+    let gas = PublishAgentPanel.FALLBACK_GAS;
+    try {
+      const accountId = hederaService.getAccountId();
+      const estimate = await hederaService.getMirrorNode().estimateGas(
+        `0x${Buffer.from(functionParameters).toString('hex')}`,
+        registry.getAddress(),
+        accountId ? AbiUtils.toEvmAddress(accountId) : undefined
+      );
+      gas = Math.ceil(estimate * 1.2);
+    } catch (error) {
+      console.error('Failed to estimate registry gas:', error);
+    }
+
+    const result = await DeploymentUtils.invokeContractMethod(hederaService, contractId, abi, entry, functionParameters, { gas });
+    if (result.error) {
+      throw new Error(result.error);
+    }
+
+    hederaService.refreshAgents();
+    return result;
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    PublishAgentPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private async submit(form: AgentForm): Promise<void> {
+    let args: string[];
+    try {
+      args = this.validate(form);
+    } catch (error) {
+      this._panel.webview.postMessage({ command: 'error', message: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    const method = this.agent ? 'updateAgent' : 'registerAgent';
+    this._panel.webview.postMessage({ command: 'submitting' });
+
+    try {
+      // The registry reverts on duplicate IDs; catch it before paying for the transaction
+      if (!this.agent && await this.hederaService.getAgentRegistry()?.getAgent(args[0])) {
+        throw new Error(`Agent ID ${args[0]} is already registered`);
+      }
+
+      const result = await PublishAgentPanel.sendRegistryTransaction(this.hederaService, method, args);
+      vscode.window.showInformationMessage(`Agent ${form.id} ${this.agent ? 'updated' : 'published'}`);
+
+      // Further submits update the agent that was just published
+      const registry = this.hederaService.getAgentRegistry();
+      this.agent = (await registry?.getAgent(form.id)) || this.agent;
+      this._panel.title = `Edit Agent: ${form.name}`;
+      this._panel.webview.postMessage({ command: 'submitted', transactionId: result.transactionId, agent: this.agent });
+    } catch (error) {
+      this._panel.webview.postMessage({ command: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Check the form and convert it to registry arguments
+   */
+  private validate(form: AgentForm): string[] {
+    const id = form.id.trim();
+    const capabilities = form.capabilities.map(capability => capability.trim()).filter(Boolean);
+
+    if (!id) {
+      throw new Error('Agent ID is required');
+    }
+    if (!form.name.trim()) {
+      throw new Error('Name is required');
+    }
+    if (capabilities.length === 0) {
+      throw new Error('Add at least one capability');
+    }
+    if (!/^\d+(\.\d{1,8})?$/.test(form.fee.trim())) {
+      throw new Error('Fee must be a number of HBAR with at most 8 decimals');
+    }
+
+    return [
+      id,
+      form.name.trim(),
+      form.description.trim(),
+      JSON.stringify(capabilities),
+      Hbar.fromString(form.fee.trim()).toTinybars().toString()
+    ];
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+    const capabilityOptions = PublishAgentPanel.KNOWN_CAPABILITIES
+      .map(capability => `<option value="${escapeHtml(capability)}"></option>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Publish Agent</title>
+      <style>
+        body {
+          padding: 20px;
+          max-width: 640px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 4px;
+        }
+
+        .subtitle, .hint {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .hint {
+          font-size: 12px;
+        }
+
+        .field {
+          margin: 12px 0;
+        }
+
+        .field label {
+          display: block;
+          font-size: 12px;
+          margin-bottom: 2px;
+        }
+
+        input, textarea {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 4px 6px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        input:read-only {
+          opacity: 0.7;
+        }
+
+        .capabilities {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin-bottom: 4px;
+        }
+
+        .capability {
+          padding: 2px 8px;
+          border-radius: 10px;
+          background-color: var(--vscode-badge-background);
+          color: var(--vscode-badge-foreground);
+          cursor: pointer;
+        }
+
+        button {
+          margin-top: 8px;
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+
+        .status {
+          margin-top: 12px;
+          white-space: pre-wrap;
+        }
+
+        .status.error {
+          color: var(--vscode-errorForeground, #f85149);
+        }
+      </style>
+    </head>
+    <body>
+      <h1 id="title">Publish Agent</h1>
+      <div class="subtitle" id="subtitle"></div>
+
+      <div class="field">
+        <label for="agent-id">Agent ID</label>
+        <input id="agent-id" type="text" placeholder="acme-auditor">
+        <div class="hint">Unique in the registry and cannot be changed later</div>
+      </div>
+      <div class="field">
+        <label for="name">Name</label>
+        <input id="name" type="text">
+      </div>
+      <div class="field">
+        <label for="description">Description</label>
+        <textarea id="description" rows="4"></textarea>
+      </div>
+      <div class="field">
+        <label for="capability">Capabilities</label>
+        <div class="capabilities" id="capabilities"></div>
+        <input id="capability" type="text" list="known-capabilities" placeholder="Type a capability and press Enter">
+        <datalist id="known-capabilities">${capabilityOptions}</datalist>
+        <div class="hint">Click a capability to remove it</div>
+      </div>
+      <div class="field">
+        <label for="fee">Fee per use (HBAR)</label>
+        <input id="fee" type="text" value="0">
+      </div>
+
+      <button id="submit">Publish</button>
+      <div class="status" id="status"></div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const byId = id => document.getElementById(id);
+        let capabilities = [];
+        let editing = false;
+
+        function renderCapabilities() {
+          const container = byId('capabilities');
+          container.innerHTML = '';
+          capabilities.forEach((capability, index) => {
+            const chip = document.createElement('span');
+            chip.className = 'capability';
+            chip.textContent = capability + ' ×';
+            chip.addEventListener('click', () => {
+              capabilities.splice(index, 1);
+              renderCapabilities();
+            });
+            container.appendChild(chip);
+          });
+        }
+
+        function addCapability() {
+          const value = byId('capability').value.trim();
+          if (value && !capabilities.includes(value)) {
+            capabilities.push(value);
+            renderCapabilities();
+          }
+          byId('capability').value = '';
+        }
+
+        function setEditing(agent, fee) {
+          editing = true;
+          byId('title').textContent = 'Edit Agent';
+          byId('submit').textContent = 'Update';
+          byId('agent-id').value = agent.id;
+          byId('agent-id').readOnly = true;
+          byId('name').value = agent.name;
+          byId('description').value = agent.description;
+          if (fee !== undefined) {
+            byId('fee').value = fee;
+          }
+          capabilities = agent.capabilities.slice();
+          renderCapabilities();
+        }
+
+        byId('capability').addEventListener('keydown', event => {
+          if (event.key === 'Enter' || event.key === ',') {
+            event.preventDefault();
+            addCapability();
+          }
+        });
+
+        byId('submit').addEventListener('click', () => {
+          addCapability();
+          byId('status').className = 'status';
+          byId('status').textContent = '';
+          vscode.postMessage({
+            command: 'submit',
+            form: {
+              id: byId('agent-id').value,
+              name: byId('name').value,
+              description: byId('description').value,
+              capabilities,
+              fee: byId('fee').value
+            }
+          });
+        });
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'init':
+              byId('subtitle').textContent = 'Sent from ' + (message.accountId || 'the operator') + ' on ' + message.network;
+              if (message.agent) {
+                setEditing(message.agent, message.fee);
+              }
+              break;
+
+            case 'submitting':
+              byId('submit').disabled = true;
+              byId('status').textContent = editing ? 'Updating agent...' : 'Publishing agent...';
+              break;
+
+            case 'submitted':
+              byId('submit').disabled = false;
+              byId('status').textContent = 'Done. Transaction ' + message.transactionId;
+              if (message.agent) {
+                setEditing(message.agent);
+              }
+              break;
+
+            case 'error':
+              byId('submit').disabled = false;
+              byId('status').className = 'status error';
+              byId('status').textContent = message.message;
+              break;
+          }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
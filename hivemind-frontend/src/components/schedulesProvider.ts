@@ -0,0 +1,395 @@
+import * as vscode from 'vscode';
+import { PublicKey, ReceiptStatusError, Status, Transaction } from '@hashgraph/sdk';
+import { HederaService } from '../services/hederaService';
+import { MirrorNodeService, MirrorSchedule } from '../services/mirrorNodeService';
+import { TransactionPolicyService } from '../services/transactionPolicyService';
+import { ScheduleUtils } from '../utils/scheduleUtils';
+
+/**
+ * A schedule tracked in this workspace, e.g. one created by another account
+ */
+interface TrackedSchedule {
+  network: string;
+  scheduleId: string;
+}
+
+/**
+ * Tree item representing a schedule.
+ *
+ * The context value is `schedule:<state>`, with `:signed` once the operator has signed
+ * and `:tracked` for schedules tracked by ID, e.g. `schedule:pending:tracked`.
+ */
+export class ScheduleTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly schedule: MirrorSchedule,
+    public readonly signedByOperator: boolean,
+    public readonly tracked: boolean
+  ) {
+    super(schedule.schedule_id, vscode.TreeItemCollapsibleState.Collapsed);
+
+    const state = ScheduleUtils.getState(schedule);
+    const status = state === 'pending'
+      ? `expires in ${ScheduleUtils.formatCountdown(ScheduleUtils.getExpiry(schedule))}`
+      : state;
+    this.description = [ScheduleTreeItem.getTypeLabel(schedule), schedule.memo, status].filter(Boolean).join(' · ');
+    this.tooltip = `${schedule.schedule_id}${schedule.memo ? `: ${schedule.memo}` : ''} (${state})`;
+    this.iconPath = new vscode.ThemeIcon({
+      pending: signedByOperator ? 'pass' : 'watch',
+      executed: 'check',
+      deleted: 'trash',
+      expired: 'circle-slash'
+    }[state]);
+    this.contextValue = [
+      'schedule',
+      state,
+      ...(signedByOperator ? ['signed'] : []),
+      ...(tracked ? ['tracked'] : [])
+    ].join(':');
+  }
+
+  get scheduleId(): string {
+    return this.schedule.schedule_id;
+  }
+
+  /**
+   * Get a label for the scheduled transaction, e.g. `Token mint`
+   */
+  static getTypeLabel(schedule: MirrorSchedule): string | undefined {
+    try {
+      const type = ScheduleUtils.getScheduledType(schedule.transaction_body);
+      return type ? TransactionPolicyService.TRANSACTION_TYPES[type]?.label || type : undefined;
+    } catch (error) {
+      console.error(`Failed to decode schedule ${schedule.schedule_id}:`, error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Tree data provider for the Schedules view: pending schedules created by the operator and
+ * schedules tracked in this workspace, with their signatories and expiry countdowns. Schedules
+ * are created and signed through here so each lands in the Transaction Center.
+ */
+export class SchedulesProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private static readonly TRACKED_KEY = 'hivemind.trackedSchedules';
+  // The mirror node lags consensus by a few seconds
+  private static readonly MIRROR_LAG_MS = 5000;
+  private static readonly COUNTDOWN_INTERVAL_MS = 30000;
+  private static readonly SCHEDULE_LIMIT = 50;
+  private static readonly EXPIRY_CHOICES = [
+    { label: '30 minutes', description: 'Network default', seconds: undefined },
+    { label: '1 day', seconds: 24 * 60 * 60 },
+    { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+    { label: '30 days', seconds: 30 * 24 * 60 * 60 },
+    { label: '62 days', description: 'Longest allowed', seconds: ScheduleUtils.MAX_EXPIRY_SECONDS }
+  ];
+
+  private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  // Schedules loaded from the mirror node; kept between countdown updates
+  private schedules: { schedule: MirrorSchedule; tracked: boolean }[] | undefined;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private hederaService: HederaService
+  ) {
+    vscode.commands.registerCommand('hivemindSchedules.refresh', () => {
+      this.refresh();
+    });
+
+    vscode.commands.registerCommand('hivemindSchedules.sign', (item: ScheduleTreeItem) => this.sign(item));
+    vscode.commands.registerCommand('hivemindSchedules.track', (scheduleId?: string) => this.track(scheduleId));
+    vscode.commands.registerCommand('hivemindSchedules.untrack', (item: ScheduleTreeItem) => this.untrack(item.scheduleId));
+
+    vscode.commands.registerCommand('hivemindSchedules.copyScheduleId', async (item: ScheduleTreeItem) => {
+      await vscode.env.clipboard.writeText(item.scheduleId);
+      vscode.window.showInformationMessage(`Copied ${item.scheduleId}`);
+    });
+
+    // Used by the views and panels that build transactions, such as the contract interaction panel
+    vscode.commands.registerCommand('hivemind.scheduleTransaction', (transaction: Transaction, description: string) =>
+      this.scheduleTransaction(transaction, description));
+
+    // Redraw the countdowns without going back to the mirror node
+    const timer = setInterval(() => {
+      if (this.schedules?.some(({ schedule }) => ScheduleUtils.getState(schedule) === 'pending')) {
+        this._onDidChangeTreeData.fire();
+      }
+    }, SchedulesProvider.COUNTDOWN_INTERVAL_MS);
+    this.context.subscriptions.push({ dispose: () => clearInterval(timer) });
+
+    this.hederaService.onDidChangeConnection(() => this.refresh());
+  }
+
+  /**
+   * Reload the schedules from the mirror node
+   */
+  refresh(): void {
+    this.schedules = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get tree item for a given element
+   */
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Get children of a given element
+   */
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (element instanceof ScheduleTreeItem) {
+      return this.getScheduleDetails(element);
+    }
+    if (element || !this.hederaService.isConnected()) {
+      return [];
+    }
+
+    try {
+      if (!this.schedules) {
+        this.schedules = await this.loadSchedules();
+      }
+    } catch (error) {
+      console.error('Failed to load schedules:', error);
+      vscode.window.showErrorMessage(`Failed to load schedules: ${error}`);
+      return [];
+    }
+
+    const operatorKey = this.getOperatorRawKey();
+    return this.schedules.map(({ schedule, tracked }) => new ScheduleTreeItem(
+      schedule,
+      ScheduleUtils.getSignatories(schedule).some(signatory => signatory.publicKey === operatorKey),
+      tracked
+    ));
+  }
+
+  /**
+   * Wrap a transaction in a schedule: asks for a memo, the payer and the expiry, then creates it
+   * with the operator's signature
+   */
+  public async scheduleTransaction(transaction: Transaction, description: string): Promise<void> {
+    if (!this.hederaService.isConnected()) {
+      vscode.window.showErrorMessage('Connect to Hedera to schedule transactions');
+      return;
+    }
+
+    const memo = await vscode.window.showInputBox({
+      prompt: 'Schedule memo, shown to the other signers',
+      value: description,
+      validateInput: value => Buffer.byteLength(value, 'utf8') > 100 ? 'The memo is limited to 100 bytes' : null
+    });
+    if (memo === undefined) {
+      return;
+    }
+
+    const payerAccountId = await vscode.window.showInputBox({
+      prompt: 'Account that pays the fee when the transaction runs; leave empty for the operator',
+      placeHolder: this.hederaService.getAccountId() || '0.0.1234',
+      validateInput: value => !value.trim() || /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter an account ID (0.0.x)'
+    });
+    if (payerAccountId === undefined) {
+      return;
+    }
+
+    const expiry = await vscode.window.showQuickPick(SchedulesProvider.EXPIRY_CHOICES, {
+      placeHolder: 'When the schedule expires if it has not collected every signature'
+    });
+    if (!expiry) {
+      return;
+    }
+
+    const type = TransactionPolicyService.getTransactionType(transaction);
+    const details = { memo, description, scheduledType: TransactionPolicyService.TRANSACTION_TYPES[type]?.label || type };
+
+    try {
+      const result = await this.runTransaction('schedule_create', details, () => this.hederaService.createSchedule(transaction, {
+        memo,
+        payerAccountId: payerAccountId.trim() || undefined,
+        expirationTime: expiry.seconds ? new Date(Date.now() + expiry.seconds * 1000) : undefined
+      }), result => ({ scheduleId: result.scheduleId, scheduledTransactionId: result.scheduledTransactionId }));
+
+      const action = await vscode.window.showInformationMessage(
+        `Created schedule ${result.scheduleId}. It runs once every required key has signed.`,
+        'Copy Schedule ID'
+      );
+      if (action === 'Copy Schedule ID') {
+        await vscode.env.clipboard.writeText(result.scheduleId);
+      }
+    } catch (error) {
+      // Creating the same schedule twice fails with the ID of the first one
+      if (error instanceof ReceiptStatusError && error.status === Status.IdenticalScheduleAlreadyCreated && error.transactionReceipt.scheduleId) {
+        const scheduleId = error.transactionReceipt.scheduleId.toString();
+        await this.addTracked(scheduleId);
+        vscode.window.showInformationMessage(`An identical schedule already exists: ${scheduleId}. It was added to the Schedules view.`);
+        return;
+      }
+      vscode.window.showErrorMessage(`Failed to schedule the transaction: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async loadSchedules(): Promise<{ schedule: MirrorSchedule; tracked: boolean }[]> {
+    const mirrorNode = this.hederaService.getMirrorNode();
+    const network = this.hederaService.getCurrentNetwork();
+    const accountId = this.hederaService.getAccountId();
+    const trackedIds = this.getTracked().filter(entry => entry.network === network).map(entry => entry.scheduleId);
+
+    const [created, tracked] = await Promise.all([
+      accountId
+        ? mirrorNode.getSchedules({ accountId, order: 'desc', limit: SchedulesProvider.SCHEDULE_LIMIT })
+        : Promise.resolve([]),
+      Promise.all(trackedIds.map(scheduleId => mirrorNode.getSchedule(scheduleId).catch(error => {
+        console.error(`Failed to load schedule ${scheduleId}:`, error);
+        return undefined;
+      })))
+    ]);
+
+    // Tracked schedules stay listed once they have run; the operator's only while pending
+    const trackedIdSet = new Set(trackedIds);
+    return [
+      ...tracked.filter((schedule): schedule is MirrorSchedule => !!schedule).map(schedule => ({ schedule, tracked: true })),
+      ...created
+        .filter(schedule => !trackedIdSet.has(schedule.schedule_id) && ScheduleUtils.getState(schedule) === 'pending')
+        .map(schedule => ({ schedule, tracked: false }))
+    ].sort((a, b) => ScheduleUtils.getExpiry(a.schedule).getTime() - ScheduleUtils.getExpiry(b.schedule).getTime());
+  }
+
+  private getScheduleDetails(item: ScheduleTreeItem): vscode.TreeItem[] {
+    const { schedule } = item;
+    const expiry = ScheduleUtils.getExpiry(schedule);
+    const state = ScheduleUtils.getState(schedule);
+    const operatorKey = this.getOperatorRawKey();
+
+    const rows: [string, string][] = [
+      ['Schedule ID', schedule.schedule_id],
+      ['Transaction', ScheduleTreeItem.getTypeLabel(schedule) || 'unknown']
+    ];
+    if (schedule.memo) {
+      rows.push(['Memo', schedule.memo]);
+    }
+    rows.push(['Created by', schedule.creator_account_id]);
+    rows.push(['Payer', schedule.payer_account_id]);
+    if (schedule.executed_timestamp) {
+      rows.push(['Executed', MirrorNodeService.timestampToDate(schedule.executed_timestamp).toLocaleString()]);
+    } else {
+      rows.push(['Expires', `${expiry.toLocaleString()}${state === 'pending' ? ` (in ${ScheduleUtils.formatCountdown(expiry)})` : ''}`]);
+    }
+    if (schedule.wait_for_expiry) {
+      rows.push(['Runs', 'at expiry, if every required key has signed']);
+    }
+
+    const signatories = ScheduleUtils.getSignatories(schedule);
+    rows.push(['Signatories', `${signatories.length}`]);
+
+    return [
+      ...rows.map(([label, value]) => SchedulesProvider.detailRow(label, value)),
+      ...signatories.map(signatory => SchedulesProvider.detailRow(
+        `  ${signatory.keyType}`,
+        `${signatory.publicKey}${signatory.publicKey === operatorKey ? ' (you)' : ''}`
+      ))
+    ];
+  }
+
+  private static detailRow(label: string, value: string): vscode.TreeItem {
+    const row = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    row.description = value;
+    row.tooltip = value;
+    row.contextValue = 'scheduleDetail';
+    return row;
+  }
+
+  private getOperatorRawKey(): string | undefined {
+    const der = this.hederaService.getOperatorPublicKey();
+    return der ? PublicKey.fromString(der).toStringRaw().toLowerCase() : undefined;
+  }
+
+  private async sign(item: ScheduleTreeItem): Promise<void> {
+    try {
+      await this.runTransaction(
+        'schedule_sign',
+        { scheduleId: item.scheduleId, memo: item.schedule.memo },
+        async () => ({ transactionId: await this.hederaService.signSchedule(item.scheduleId) })
+      );
+      vscode.window.showInformationMessage(`Signed schedule ${item.scheduleId}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to sign ${item.scheduleId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async track(scheduleId?: string): Promise<void> {
+    if (!this.hederaService.isConnected()) {
+      vscode.window.showErrorMessage('Connect to Hedera to track schedules');
+      return;
+    }
+
+    scheduleId = scheduleId || (await vscode.window.showInputBox({
+      prompt: 'Schedule to track, e.g. one waiting for your signature',
+      placeHolder: '0.0.1234',
+      validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter a schedule ID (0.0.x)'
+    }))?.trim();
+    if (!scheduleId) {
+      return;
+    }
+
+    await this.addTracked(scheduleId);
+  }
+
+  private async addTracked(scheduleId: string): Promise<void> {
+    const network = this.hederaService.getCurrentNetwork();
+    const tracked = this.getTracked().filter(entry => !(entry.network === network && entry.scheduleId === scheduleId));
+    await this.context.workspaceState.update(SchedulesProvider.TRACKED_KEY, [...tracked, { network, scheduleId }]);
+    this.refresh();
+  }
+
+  private async untrack(scheduleId: string): Promise<void> {
+    const network = this.hederaService.getCurrentNetwork();
+    await this.context.workspaceState.update(
+      SchedulesProvider.TRACKED_KEY,
+      this.getTracked().filter(entry => !(entry.network === network && entry.scheduleId === scheduleId))
+    );
+    this.refresh();
+  }
+
+  private getTracked(): TrackedSchedule[] {
+    return this.context.workspaceState.get<TrackedSchedule[]>(SchedulesProvider.TRACKED_KEY) || [];
+  }
+
+  /**
+   * Run a transaction and record it in the Transaction Center, including failed transactions;
+   * the tree is refreshed once the mirror node has caught up
+   */
+  private async runTransaction<T extends { transactionId: string }>(
+    type: string,
+    details: any,
+    transaction: () => Promise<T>,
+    getResultDetails: (result: T) => any = () => ({})
+  ): Promise<T> {
+    try {
+      const result = await transaction();
+      vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+        id: result.transactionId,
+        type,
+        timestamp: new Date(),
+        status: 'SUCCESS',
+        details: { ...details, ...getResultDetails(result) }
+      });
+      setTimeout(() => this.refresh(), SchedulesProvider.MIRROR_LAG_MS);
+      return result;
+    } catch (error: any) {
+      // Receipt errors carry the transaction ID; policy blocks are recorded by the policy
+      const transactionId = error?.transactionId?.toString();
+      if (transactionId) {
+        vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+          id: transactionId,
+          type,
+          timestamp: new Date(),
+          status: 'FAILED',
+          details: { ...details, error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,550 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { PublicKey } from '@hashgraph/sdk';
+import { HederaService, TokenOperationResult } from '../services/hederaService';
+import { MirrorToken, MirrorTokenRelationship } from '../services/mirrorNodeService';
+import { TokenKeyName, TokenOperation, TokenUtils } from '../utils/tokenUtils';
+import { TokenStudioPanel } from './tokenStudioPanel';
+
+/**
+ * Tree item representing a token the operator is associated with.
+ *
+ * The context value lists the token type and the keys the operator holds, e.g.
+ * `token:fungible:supply:kyc`, so menus only offer actions the operator can sign.
+ */
+export class TokenTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly token: MirrorToken,
+    public readonly relationship: MirrorTokenRelationship,
+    public readonly operatorKeys: string[]
+  ) {
+    super(token.symbol || token.token_id, vscode.TreeItemCollapsibleState.Collapsed);
+
+    const nft = token.type === 'NON_FUNGIBLE_UNIQUE';
+    const balance = nft
+      ? `${relationship.balance} NFT${relationship.balance === 1 ? '' : 's'}`
+      : TokenUtils.formatAmount(relationship.balance, Number(token.decimals));
+    this.description = `${token.name} · ${balance}`;
+    this.tooltip = `${token.name} (${token.token_id})`;
+    this.iconPath = new vscode.ThemeIcon(nft ? 'symbol-misc' : 'symbol-constant');
+    this.contextValue = [
+      'token',
+      nft ? 'nft' : 'fungible',
+      ...operatorKeys,
+      ...(token.pause_status === 'PAUSED' ? ['paused'] : [])
+    ].join(':');
+  }
+
+  get tokenId(): string {
+    return this.token.token_id;
+  }
+}
+
+/**
+ * Tree data provider for the Tokens view: the operator's tokens with their supply, keys
+ * and fees. Token operations run through here so each lands in the Transaction Center.
+ */
+export class TokenExplorerProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  // The mirror node lags consensus by a few seconds
+  private static readonly MIRROR_LAG_MS = 5000;
+  private static readonly TOKEN_LIMIT = 100;
+  // Mirror node field of each token key
+  private static readonly MIRROR_KEY_FIELDS: {
+    [name in TokenKeyName]: keyof Pick<MirrorToken,
+      'admin_key' | 'kyc_key' | 'freeze_key' | 'wipe_key' | 'supply_key' | 'fee_schedule_key' | 'pause_key' | 'metadata_key'>
+  } = {
+    admin: 'admin_key',
+    kyc: 'kyc_key',
+    freeze: 'freeze_key',
+    wipe: 'wipe_key',
+    supply: 'supply_key',
+    feeSchedule: 'fee_schedule_key',
+    pause: 'pause_key',
+    metadata: 'metadata_key'
+  };
+
+  private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  constructor(private hederaService: HederaService) {
+    vscode.commands.registerCommand('hivemindTokens.refresh', () => {
+      this.refresh();
+    });
+
+    vscode.commands.registerCommand('hivemindTokens.createToken', () => {
+      if (!this.hederaService.isConnected()) {
+        vscode.window.showErrorMessage('Connect to Hedera to create tokens');
+        return;
+      }
+      TokenStudioPanel.createOrShow(this.hederaService, this);
+    });
+
+    vscode.commands.registerCommand('hivemindTokens.associate', (tokenId?: string) => this.associate(tokenId));
+    vscode.commands.registerCommand('hivemindTokens.dissociate', (item: TokenTreeItem) => this.dissociate(item));
+    vscode.commands.registerCommand('hivemindTokens.mint', (item: TokenTreeItem) => this.mint(item));
+    vscode.commands.registerCommand('hivemindTokens.burn', (item: TokenTreeItem) => this.burn(item));
+    vscode.commands.registerCommand('hivemindTokens.grantKyc', (item: TokenTreeItem) => this.setAccountStatus(item, 'grantKyc'));
+    vscode.commands.registerCommand('hivemindTokens.revokeKyc', (item: TokenTreeItem) => this.setAccountStatus(item, 'revokeKyc'));
+    vscode.commands.registerCommand('hivemindTokens.freeze', (item: TokenTreeItem) => this.setAccountStatus(item, 'freeze'));
+    vscode.commands.registerCommand('hivemindTokens.unfreeze', (item: TokenTreeItem) => this.setAccountStatus(item, 'unfreeze'));
+    vscode.commands.registerCommand('hivemindTokens.pause', (item: TokenTreeItem) => this.setPaused(item, true));
+    vscode.commands.registerCommand('hivemindTokens.unpause', (item: TokenTreeItem) => this.setPaused(item, false));
+    vscode.commands.registerCommand('hivemindTokens.schedule', (item: TokenTreeItem) => this.schedule(item));
+
+    vscode.commands.registerCommand('hivemindTokens.copyTokenId', async (item: TokenTreeItem) => {
+      await vscode.env.clipboard.writeText(item.tokenId);
+      vscode.window.showInformationMessage(`Copied ${item.tokenId}`);
+    });
+
+    this.hederaService.onDidChangeConnection(() => this.refresh());
+  }
+
+  /**
+   * Refresh the tree view
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get tree item for a given element
+   */
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Get children of a given element
+   */
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (element instanceof TokenTreeItem) {
+      return this.getTokenDetails(element);
+    }
+
+    const accountId = this.hederaService.getAccountId();
+    if (element || !this.hederaService.isConnected() || !accountId) {
+      return [];
+    }
+
+    try {
+      const mirrorNode = this.hederaService.getMirrorNode();
+      const relationships = await mirrorNode.getAccountTokens(accountId, { limit: TokenExplorerProvider.TOKEN_LIMIT });
+      const tokens = await Promise.all(relationships.map(relationship => mirrorNode.getToken(relationship.token_id)));
+      const operatorKey = this.getOperatorRawKey();
+
+      return tokens.map((token, index) => new TokenTreeItem(token, relationships[index], TokenExplorerProvider.getHeldKeys(token, operatorKey)));
+    } catch (error) {
+      console.error('Failed to load tokens:', error);
+      vscode.window.showErrorMessage(`Failed to load tokens: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Run a token operation and record it in the Transaction Center, including failed
+   * transactions; the tree is refreshed once the mirror node has caught up
+   */
+  public async runOperation(
+    type: string,
+    details: any,
+    operation: () => Promise<TokenOperationResult>
+  ): Promise<TokenOperationResult> {
+    try {
+      const result = await operation();
+      vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+        id: result.transactionIds[0],
+        type,
+        timestamp: new Date(),
+        status: 'SUCCESS',
+        details: {
+          ...details,
+          tokenId: result.tokenId,
+          serials: result.serials,
+          totalSupply: result.totalSupply,
+          transactionIds: result.transactionIds.length > 1 ? result.transactionIds : undefined
+        }
+      });
+      setTimeout(() => this.refresh(), TokenExplorerProvider.MIRROR_LAG_MS);
+      return result;
+    } catch (error: any) {
+      // Receipt errors carry the transaction ID; policy blocks are recorded by the policy
+      const transactionId = error?.transactionId?.toString();
+      if (transactionId) {
+        vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+          id: transactionId,
+          type,
+          timestamp: new Date(),
+          status: 'FAILED',
+          details: { ...details, error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+      throw error;
+    }
+  }
+
+  private getTokenDetails(item: TokenTreeItem): vscode.TreeItem[] {
+    const { token, relationship } = item;
+    const decimals = Number(token.decimals);
+    const nft = token.type === 'NON_FUNGIBLE_UNIQUE';
+    const format = (units: string) => nft ? units : TokenUtils.formatAmount(units, decimals);
+
+    const keys = TokenUtils.TOKEN_KEYS
+      .filter(key => TokenExplorerProvider.getMirrorKey(token, key.name))
+      .map(key => item.operatorKeys.includes(key.name) ? `${key.name} (yours)` : key.name);
+    const fees = token.custom_fees;
+    const feeCount = fees.fixed_fees.length + (fees.fractional_fees?.length || 0) + (fees.royalty_fees?.length || 0);
+
+    const rows: [string, string][] = [
+      ['Token ID', token.token_id],
+      ['Type', nft ? 'NFT' : `Fungible, ${decimals} decimals`],
+      ['Supply', token.supply_type === 'FINITE'
+        ? `${format(token.total_supply)} of ${format(token.max_supply)}`
+        : `${format(token.total_supply)} (infinite)`],
+      ['Treasury', token.treasury_account_id],
+      ['Keys', keys.join(', ') || 'none'],
+      ['Custom fees', feeCount ? `${feeCount}` : 'none']
+    ];
+    if (token.pause_status !== 'NOT_APPLICABLE') {
+      rows.push(['Status', token.pause_status === 'PAUSED' ? 'Paused' : 'Active']);
+    }
+    if (relationship.kyc_status !== 'NOT_APPLICABLE') {
+      rows.push(['Your KYC', relationship.kyc_status.toLowerCase()]);
+    }
+    if (relationship.freeze_status !== 'NOT_APPLICABLE') {
+      rows.push(['Your account', relationship.freeze_status.toLowerCase()]);
+    }
+    if (token.memo) {
+      rows.push(['Memo', token.memo]);
+    }
+
+    return rows.map(([label, value]) => {
+      const row = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+      row.description = value;
+      row.contextValue = 'tokenDetail';
+      return row;
+    });
+  }
+
+  /**
+   * Get the names of the token keys the operator key matches
+   */
+  private static getHeldKeys(token: MirrorToken, operatorKey: string | undefined): string[] {
+    if (!operatorKey) {
+      return [];
+    }
+    return TokenUtils.TOKEN_KEYS
+      .filter(key => TokenExplorerProvider.getMirrorKey(token, key.name)?.key.toLowerCase() === operatorKey)
+      .map(key => key.name);
+  }
+
+  private static getMirrorKey(token: MirrorToken, name: TokenKeyName): { _type: string; key: string } | null | undefined {
+    return token[TokenExplorerProvider.MIRROR_KEY_FIELDS[name]];
+  }
+
+  private getOperatorRawKey(): string | undefined {
+    const der = this.hederaService.getOperatorPublicKey();
+    return der ? PublicKey.fromString(der).toStringRaw().toLowerCase() : undefined;
+  }
+
+  private async associate(tokenId?: string): Promise<void> {
+    if (!this.hederaService.isConnected()) {
+      vscode.window.showErrorMessage('Connect to Hedera to associate tokens');
+      return;
+    }
+
+    tokenId = tokenId || (await vscode.window.showInputBox({
+      prompt: 'Token to associate with the operator account',
+      placeHolder: '0.0.1234',
+      validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter a token ID (0.0.x)'
+    }))?.trim();
+    if (!tokenId) {
+      return;
+    }
+
+    await this.run(`associate ${tokenId}`, () =>
+      this.runOperation('TOKEN_ASSOCIATE', { accountId: this.hederaService.getAccountId() }, () => this.hederaService.associateToken(tokenId!)));
+  }
+
+  private async dissociate(item: TokenTreeItem): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `Dissociate ${item.token.symbol} (${item.tokenId}) from ${this.hederaService.getAccountId()}? The balance must be zero.`,
+      { modal: true },
+      'Dissociate'
+    );
+    if (choice !== 'Dissociate') {
+      return;
+    }
+
+    await this.run(`dissociate ${item.tokenId}`, () =>
+      this.runOperation('TOKEN_DISSOCIATE', { accountId: this.hederaService.getAccountId() }, () => this.hederaService.dissociateToken(item.tokenId)));
+  }
+
+  private async mint(item: TokenTreeItem): Promise<void> {
+    const { token } = item;
+
+    if (token.type === 'FUNGIBLE_COMMON') {
+      const amount = await this.promptAmount(`Amount of ${token.symbol} to mint to the treasury`, token);
+      if (!amount) {
+        return;
+      }
+      await this.run(`mint ${token.symbol}`, async () => {
+        const result = await this.runOperation(
+          'TOKEN_MINT',
+          { amount: `${TokenUtils.formatAmount(amount, Number(token.decimals))} ${token.symbol}` },
+          () => this.hederaService.mintToken(token.token_id, { amount })
+        );
+        vscode.window.showInformationMessage(`Minted ${token.symbol}; supply is now ${TokenUtils.formatAmount(result.totalSupply || '0', Number(token.decimals))}`);
+      });
+      return;
+    }
+
+    const entries = await this.promptNftMetadata(token);
+    if (!entries) {
+      return;
+    }
+
+    await this.run(`mint ${token.symbol}`, async () => {
+      const metadata = TokenUtils.encodeNftMetadata(entries);
+      const result = await this.runOperation(
+        'TOKEN_MINT',
+        { amount: `${metadata.length} ${token.symbol}` },
+        () => this.hederaService.mintToken(token.token_id, { metadata })
+      );
+      vscode.window.showInformationMessage(`Minted ${token.symbol} serials ${result.serials?.join(', ')}`);
+    });
+  }
+
+  private async burn(item: TokenTreeItem): Promise<void> {
+    const { token } = item;
+
+    if (token.type === 'FUNGIBLE_COMMON') {
+      const amount = await this.promptAmount(`Amount of ${token.symbol} to burn from the treasury`, token);
+      if (!amount) {
+        return;
+      }
+      await this.run(`burn ${token.symbol}`, () => this.runOperation(
+        'TOKEN_BURN',
+        { amount: `${TokenUtils.formatAmount(amount, Number(token.decimals))} ${token.symbol}` },
+        () => this.hederaService.burnToken(token.token_id, { amount })
+      ));
+      return;
+    }
+
+    // Only NFTs held by the treasury can be burned
+    const nfts = await this.hederaService.getMirrorNode().getAccountNfts(token.treasury_account_id, {
+      tokenId: token.token_id,
+      limit: TokenExplorerProvider.TOKEN_LIMIT
+    });
+    if (nfts.length === 0) {
+      vscode.window.showInformationMessage(`The treasury holds no ${token.symbol} NFTs to burn`);
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      nfts.map(nft => ({
+        label: `#${nft.serial_number}`,
+        description: Buffer.from(nft.metadata || '', 'base64').toString('utf8'),
+        serial: nft.serial_number
+      })),
+      { canPickMany: true, placeHolder: `${token.symbol} NFTs to burn` }
+    );
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    const serials = picked.map(pick => pick.serial);
+    await this.run(`burn ${token.symbol}`, () => this.runOperation(
+      'TOKEN_BURN',
+      { amount: `${serials.length} ${token.symbol}`, serials: serials.map(String) },
+      () => this.hederaService.burnToken(token.token_id, { serials })
+    ));
+  }
+
+  private async setAccountStatus(item: TokenTreeItem, action: 'grantKyc' | 'revokeKyc' | 'freeze' | 'unfreeze'): Promise<void> {
+    const labels = {
+      grantKyc: { verb: 'Grant KYC for', type: 'TOKEN_GRANT_KYC' },
+      revokeKyc: { verb: 'Revoke KYC for', type: 'TOKEN_REVOKE_KYC' },
+      freeze: { verb: 'Freeze', type: 'TOKEN_FREEZE' },
+      unfreeze: { verb: 'Unfreeze', type: 'TOKEN_UNFREEZE' }
+    };
+    const { verb, type } = labels[action];
+
+    const accountId = (await vscode.window.showInputBox({
+      prompt: `${verb} which account on ${item.token.symbol}?`,
+      placeHolder: '0.0.1234',
+      validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter an account ID (0.0.x)'
+    }))?.trim();
+    if (!accountId) {
+      return;
+    }
+
+    await this.run(`${verb.toLowerCase()} ${accountId}`, () => this.runOperation(type, { accountId }, () =>
+      action === 'grantKyc' || action === 'revokeKyc'
+        ? this.hederaService.setTokenKyc(item.tokenId, accountId, action === 'grantKyc')
+        : this.hederaService.setTokenFrozen(item.tokenId, accountId, action === 'freeze')));
+  }
+
+  private async setPaused(item: TokenTreeItem, paused: boolean): Promise<void> {
+    if (paused) {
+      const choice = await vscode.window.showWarningMessage(
+        `Pause ${item.token.symbol} (${item.tokenId})? Every transfer, mint and burn fails until it is unpaused.`,
+        { modal: true },
+        'Pause'
+      );
+      if (choice !== 'Pause') {
+        return;
+      }
+    }
+
+    await this.run(`${paused ? 'pause' : 'unpause'} ${item.token.symbol}`, () =>
+      this.runOperation(paused ? 'TOKEN_PAUSE' : 'TOKEN_UNPAUSE', {}, () => this.hederaService.setTokenPaused(item.tokenId, paused)));
+  }
+
+  /**
+   * Schedule a token operation so the keys it needs can sign on the network, e.g. a supply
+   * key the operator doesn't hold
+   */
+  private async schedule(item: TokenTreeItem): Promise<void> {
+    const { token } = item;
+    const nft = token.type === 'NON_FUNGIBLE_UNIQUE';
+
+    const picked = await vscode.window.showQuickPick([
+      { label: 'Mint', type: 'mint' as const },
+      { label: 'Burn', type: 'burn' as const },
+      { label: 'Grant KYC', type: 'grantKyc' as const },
+      { label: 'Revoke KYC', type: 'revokeKyc' as const },
+      { label: 'Freeze', type: 'freeze' as const },
+      { label: 'Unfreeze', type: 'unfreeze' as const },
+      { label: 'Pause', type: 'pause' as const },
+      { label: 'Unpause', type: 'unpause' as const }
+    ], { placeHolder: `Operation on ${token.symbol} to schedule` });
+    if (!picked) {
+      return;
+    }
+
+    let operation: TokenOperation;
+    let description = `${picked.label} ${token.symbol}`;
+    switch (picked.type) {
+      case 'mint':
+      case 'burn':
+        if (nft && picked.type === 'mint') {
+          const entries = await this.promptNftMetadata(token);
+          if (!entries) {
+            return;
+          }
+          // A scheduled mint is a single transaction
+          if (entries.length > TokenUtils.MAX_NFT_BATCH) {
+            vscode.window.showErrorMessage(`A scheduled mint is limited to ${TokenUtils.MAX_NFT_BATCH} NFTs`);
+            return;
+          }
+          operation = { type: 'mint', metadata: TokenUtils.encodeNftMetadata(entries) };
+          description = `Mint ${entries.length} ${token.symbol}`;
+        } else if (nft) {
+          const serials = (await vscode.window.showInputBox({
+            prompt: `${token.symbol} serials to burn from the treasury, separated by commas`,
+            placeHolder: '1, 2, 3',
+            validateInput: value => /^\s*\d+(\s*,\s*\d+)*\s*$/.test(value) ? null : 'Enter serial numbers, e.g. 1, 2, 3'
+          }))?.split(',').map(Number);
+          if (!serials) {
+            return;
+          }
+          operation = { type: 'burn', serials };
+          description = `Burn ${token.symbol} serials ${serials.join(', ')}`;
+        } else {
+          const amount = await this.promptAmount(`Amount of ${token.symbol} to ${picked.type} ${picked.type === 'mint' ? 'to' : 'from'} the treasury`, token);
+          if (!amount) {
+            return;
+          }
+          operation = picked.type === 'mint' ? { type: 'mint', amount } : { type: 'burn', amount };
+          description = `${picked.label} ${TokenUtils.formatAmount(amount, Number(token.decimals))} ${token.symbol}`;
+        }
+        break;
+
+      case 'pause':
+      case 'unpause':
+        operation = { type: picked.type };
+        break;
+
+      default: {
+        const accountId = (await vscode.window.showInputBox({
+          prompt: `${picked.label} for which account on ${token.symbol}?`,
+          placeHolder: '0.0.1234',
+          validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter an account ID (0.0.x)'
+        }))?.trim();
+        if (!accountId) {
+          return;
+        }
+        operation = { type: picked.type, accountId };
+        description = `${picked.label} ${accountId} on ${token.symbol}`;
+      }
+    }
+
+    await this.run(`schedule ${description.toLowerCase()}`, async () => {
+      await vscode.commands.executeCommand('hivemind.scheduleTransaction', TokenUtils.buildOperation(item.tokenId, operation), description);
+    });
+  }
+
+  /**
+   * Prompt for an amount in whole tokens and return it in the smallest unit
+   */
+  private async promptAmount(prompt: string, token: MirrorToken): Promise<string | undefined> {
+    const decimals = Number(token.decimals);
+    const validate = (value: string) => {
+      try {
+        return BigInt(TokenUtils.toSmallestUnit(value, decimals)) > BigInt(0) ? null : 'Amount must be over 0';
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    };
+
+    const amount = await vscode.window.showInputBox({ prompt, placeHolder: '100', validateInput: validate });
+    return amount ? TokenUtils.toSmallestUnit(amount, decimals) : undefined;
+  }
+
+  /**
+   * Ask for NFT metadata one entry at a time, or read it from a file with one line per NFT
+   */
+  private async promptNftMetadata(token: MirrorToken): Promise<string[] | undefined> {
+    const source = await vscode.window.showQuickPick([
+      { label: 'Enter metadata', description: 'One NFT at a time', value: 'input' },
+      { label: 'Read metadata from a file', description: 'One line per NFT', value: 'file' }
+    ], { placeHolder: `Metadata for the ${token.symbol} NFTs, e.g. ipfs:// URIs (at most ${TokenUtils.MAX_TEXT_BYTES} bytes each)` });
+    if (!source) {
+      return undefined;
+    }
+
+    if (source.value === 'file') {
+      const [file] = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: 'Mint' }) || [];
+      return file ? fs.readFileSync(file.fsPath, 'utf8').split(/\r?\n/).filter(line => line.trim()) : undefined;
+    }
+
+    const entries: string[] = [];
+    for (;;) {
+      const entry = await vscode.window.showInputBox({
+        prompt: `Metadata for NFT ${entries.length + 1}${entries.length ? '; leave empty to mint' : ''}`,
+        placeHolder: 'ipfs://...',
+        validateInput: value => Buffer.byteLength(value.trim(), 'utf8') > TokenUtils.MAX_TEXT_BYTES
+          ? `Metadata is limited to ${TokenUtils.MAX_TEXT_BYTES} bytes`
+          : null
+      });
+      if (entry === undefined) {
+        return undefined;
+      }
+      if (!entry.trim()) {
+        return entries.length ? entries : undefined;
+      }
+      entries.push(entry.trim());
+    }
+  }
+
+  /**
+   * Run an action and show its error, if any
+   */
+  private async run(description: string, action: () => Promise<unknown>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to ${description}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -0,0 +1,494 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { TokenForm, TokenUtils } from '../utils/tokenUtils';
+import { getNonce } from '../utils/security';
+import type { TokenExplorerProvider } from './tokenExplorerProvider';
+
+/**
+ * Form for creating a fungible token or NFT collection with its keys and custom fees
+ */
+export class TokenStudioPanel {
+  public static currentPanel: TokenStudioPanel | undefined;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private hederaService: HederaService,
+    private provider: TokenExplorerProvider
+  ) {
+    this._panel = panel;
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+            this._panel.webview.postMessage({
+              command: 'init',
+              keys: TokenUtils.TOKEN_KEYS,
+              accountId: this.hederaService.getAccountId(),
+              network: this.hederaService.getCurrentNetwork()
+            });
+            break;
+
+          case 'submit':
+            await this.submit(message.form);
+            break;
+
+          case 'copy':
+            await vscode.env.clipboard.writeText(message.text);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the token studio, or reveal it if it is already open
+   */
+  public static createOrShow(hederaService: HederaService, provider: TokenExplorerProvider): void {
+    if (TokenStudioPanel.currentPanel) {
+      TokenStudioPanel.currentPanel._panel.reveal(vscode.ViewColumn.One);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindTokenStudio',
+      'Token Studio',
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    TokenStudioPanel.currentPanel = new TokenStudioPanel(panel, hederaService, provider);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    TokenStudioPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private async submit(form: TokenForm): Promise<void> {
+    let options;
+    try {
+      options = TokenUtils.parseTokenForm(form);
+    } catch (error) {
+      this._panel.webview.postMessage({ command: 'error', message: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (!this.hederaService.isConnected()) {
+      this._panel.webview.postMessage({ command: 'error', message: 'Connect to Hedera to create tokens' });
+      return;
+    }
+
+    this._panel.webview.postMessage({ command: 'submitting' });
+
+    try {
+      const result = await this.provider.runOperation(
+        'TOKEN_CREATE',
+        { name: options.name, symbol: options.symbol, tokenType: options.type },
+        () => this.hederaService.createToken(options)
+      );
+      vscode.window.showInformationMessage(`Token ${options.symbol} created: ${result.tokenId}`);
+      this._panel.webview.postMessage({ command: 'created', tokenId: result.tokenId, transactionId: result.transactionIds[0] });
+    } catch (error) {
+      this._panel.webview.postMessage({ command: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Token Studio</title>
+      <style>
+        body {
+          padding: 20px;
+          max-width: 760px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 4px;
+        }
+
+        h2 {
+          font-size: 14px;
+          margin: 20px 0 4px;
+        }
+
+        .subtitle, .hint {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .hint {
+          font-size: 12px;
+        }
+
+        .row {
+          display: flex;
+          gap: 12px;
+        }
+
+        .row > .field {
+          flex: 1;
+        }
+
+        .field {
+          margin: 10px 0;
+        }
+
+        .field label {
+          display: block;
+          font-size: 12px;
+          margin-bottom: 2px;
+        }
+
+        input[type="text"], select {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 4px 6px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        .key {
+          display: grid;
+          grid-template-columns: 140px 120px 1fr;
+          gap: 8px;
+          align-items: center;
+          margin: 4px 0;
+        }
+
+        .fee {
+          border: 1px solid var(--vscode-panel-border);
+          border-radius: 4px;
+          padding: 8px 12px;
+          margin: 8px 0;
+        }
+
+        .fee-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        button {
+          margin-top: 8px;
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        button.secondary {
+          color: var(--vscode-button-secondaryForeground);
+          background-color: var(--vscode-button-secondaryBackground);
+        }
+
+        button:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+
+        .hidden {
+          display: none;
+        }
+
+        .status {
+          margin-top: 12px;
+          white-space: pre-wrap;
+        }
+
+        .status.error {
+          color: var(--vscode-errorForeground, #f85149);
+        }
+      </style>
+    </head>
+    <body>
+      <h1>Token Studio</h1>
+      <div class="subtitle" id="subtitle"></div>
+
+      <div class="row">
+        <div class="field">
+          <label for="type">Type</label>
+          <select id="type">
+            <option value="fungible">Fungible token</option>
+            <option value="nft">NFT collection</option>
+          </select>
+        </div>
+        <div class="field">
+          <label for="supply-type">Supply</label>
+          <select id="supply-type">
+            <option value="infinite">Infinite</option>
+            <option value="finite">Finite</option>
+          </select>
+        </div>
+      </div>
+      <div class="row">
+        <div class="field">
+          <label for="name">Name</label>
+          <input id="name" type="text">
+        </div>
+        <div class="field">
+          <label for="symbol">Symbol</label>
+          <input id="symbol" type="text">
+        </div>
+      </div>
+      <div class="field">
+        <label for="memo">Memo</label>
+        <input id="memo" type="text">
+      </div>
+      <div class="row">
+        <div class="field fungible-only">
+          <label for="decimals">Decimals</label>
+          <input id="decimals" type="text" value="2">
+        </div>
+        <div class="field fungible-only">
+          <label for="initial-supply">Initial supply</label>
+          <input id="initial-supply" type="text" value="0">
+          <div class="hint">In whole tokens, sent to the treasury</div>
+        </div>
+        <div class="field hidden" id="max-supply-field">
+          <label for="max-supply">Max supply</label>
+          <input id="max-supply" type="text">
+        </div>
+      </div>
+      <div class="field">
+        <label><input id="freeze-default" type="checkbox"> Accounts start frozen</label>
+      </div>
+
+      <h2>Keys</h2>
+      <div class="hint">The operator is the treasury. The admin key, if set, must be the operator key since it signs the creation.</div>
+      <div id="keys"></div>
+
+      <h2>Custom fees</h2>
+      <div class="hint">Charged on every transfer; at most ${TokenUtils.MAX_CUSTOM_FEES}</div>
+      <div id="fees"></div>
+      <button class="secondary" id="add-fee">Add fee</button>
+
+      <div>
+        <button id="submit">Create token</button>
+      </div>
+      <div class="status" id="status"></div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const byId = id => document.getElementById(id);
+        let keys = [];
+
+        function element(tag, attributes, children) {
+          const node = document.createElement(tag);
+          Object.entries(attributes || {}).forEach(([name, value]) => {
+            if (name === 'text') {
+              node.textContent = value;
+            } else if (name === 'className') {
+              node.className = value;
+            } else {
+              node.setAttribute(name, value);
+            }
+          });
+          (children || []).forEach(child => node.appendChild(child));
+          return node;
+        }
+
+        function field(label, input, hint) {
+          return element('div', { className: 'field' }, [
+            element('label', { text: label }),
+            input,
+            ...(hint ? [element('div', { className: 'hint', text: hint })] : [])
+          ]);
+        }
+
+        function select(options, value) {
+          const node = element('select', {}, options.map(([optionValue, label]) =>
+            element('option', { value: optionValue, text: label })));
+          node.value = value;
+          return node;
+        }
+
+        function renderKeys() {
+          const container = byId('keys');
+          container.innerHTML = '';
+          keys.forEach(key => {
+            const mode = select([['none', 'None'], ['operator', 'Operator key'], ['custom', 'Public key']],
+              key.name === 'supply' || key.name === 'admin' ? 'operator' : 'none');
+            const value = element('input', { type: 'text', placeholder: 'DER or raw public key', className: 'hidden' });
+            mode.dataset.key = key.name;
+            mode.addEventListener('change', () => value.classList.toggle('hidden', mode.value !== 'custom'));
+            container.appendChild(element('div', { className: 'key', title: key.description }, [
+              element('span', { text: key.label }),
+              mode,
+              value
+            ]));
+          });
+        }
+
+        function addFee() {
+          const type = select([['fixed', 'Fixed'], ['fractional', 'Fractional'], ['royalty', 'Royalty']],
+            byId('type').value === 'nft' ? 'royalty' : 'fixed');
+          const inputs = {
+            collectorAccountId: element('input', { type: 'text', placeholder: '0.0.1234' }),
+            amount: element('input', { type: 'text' }),
+            denomination: element('input', { type: 'text', value: 'hbar' }),
+            fractionalPercentage: element('input', { type: 'text', placeholder: '2.5' }),
+            royaltyPercentage: element('input', { type: 'text', placeholder: '5' }),
+            minimum: element('input', { type: 'text' }),
+            maximum: element('input', { type: 'text' }),
+            netOfTransfers: element('input', { type: 'checkbox' }),
+            fallbackHbar: element('input', { type: 'text' })
+          };
+          const groups = {
+            fixed: element('div', {}, [
+              field('Amount', inputs.amount, 'HBAR, whole tokens when paid in this token, else the smallest unit'),
+              field('Paid in', inputs.denomination, 'hbar, self for this token, or a token ID')
+            ]),
+            fractional: element('div', {}, [
+              field('Percentage', inputs.fractionalPercentage),
+              element('div', { className: 'row' }, [
+                field('Minimum', inputs.minimum, 'Whole tokens'),
+                field('Maximum', inputs.maximum, 'Whole tokens; empty for none')
+              ]),
+              element('label', {}, [inputs.netOfTransfers, document.createTextNode(' Charge on top of the amount sent')])
+            ]),
+            royalty: element('div', {}, [
+              field('Percentage', inputs.royaltyPercentage),
+              field('Fallback fee (HBAR)', inputs.fallbackHbar, 'Charged when an NFT is exchanged for nothing fungible')
+            ])
+          };
+          const remove = element('button', { className: 'secondary', text: 'Remove' });
+          const fee = element('div', { className: 'fee' }, [
+            element('div', { className: 'fee-header' }, [type, remove]),
+            field('Collector account', inputs.collectorAccountId),
+            groups.fixed,
+            groups.fractional,
+            groups.royalty
+          ]);
+          const showGroup = () => Object.entries(groups).forEach(([name, group]) => group.classList.toggle('hidden', name !== type.value));
+          type.addEventListener('change', showGroup);
+          remove.addEventListener('click', () => fee.remove());
+          showGroup();
+
+          fee.readFee = () => ({
+            type: type.value,
+            collectorAccountId: inputs.collectorAccountId.value,
+            amount: inputs.amount.value,
+            denomination: inputs.denomination.value,
+            percentage: type.value === 'royalty' ? inputs.royaltyPercentage.value : inputs.fractionalPercentage.value,
+            minimum: inputs.minimum.value,
+            maximum: inputs.maximum.value,
+            netOfTransfers: inputs.netOfTransfers.checked,
+            fallbackHbar: inputs.fallbackHbar.value
+          });
+          byId('fees').appendChild(fee);
+        }
+
+        function updateType() {
+          const nft = byId('type').value === 'nft';
+          document.querySelectorAll('.fungible-only').forEach(node => node.classList.toggle('hidden', nft));
+          byId('max-supply-field').classList.toggle('hidden', byId('supply-type').value !== 'finite');
+          byId('max-supply').placeholder = nft ? 'Number of NFTs' : 'Whole tokens';
+        }
+
+        function readForm() {
+          const formKeys = {};
+          document.querySelectorAll('#keys select').forEach(mode => {
+            formKeys[mode.dataset.key] = mode.value === 'custom' ? mode.nextSibling.value : mode.value;
+          });
+          return {
+            name: byId('name').value,
+            symbol: byId('symbol').value,
+            memo: byId('memo').value,
+            type: byId('type').value,
+            decimals: byId('decimals').value,
+            initialSupply: byId('initial-supply').value,
+            supplyType: byId('supply-type').value,
+            maxSupply: byId('max-supply').value,
+            freezeDefault: byId('freeze-default').checked,
+            keys: formKeys,
+            fees: Array.from(byId('fees').children).map(fee => fee.readFee())
+          };
+        }
+
+        byId('type').addEventListener('change', updateType);
+        byId('supply-type').addEventListener('change', updateType);
+        byId('add-fee').addEventListener('click', addFee);
+
+        byId('submit').addEventListener('click', () => {
+          byId('status').className = 'status';
+          byId('status').textContent = '';
+          vscode.postMessage({ command: 'submit', form: readForm() });
+        });
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'init':
+              keys = message.keys;
+              byId('subtitle').textContent = 'Treasury ' + (message.accountId || 'the operator') + ' on ' + message.network;
+              renderKeys();
+              updateType();
+              break;
+
+            case 'submitting':
+              byId('submit').disabled = true;
+              byId('status').textContent = 'Creating token...';
+              break;
+
+            case 'created': {
+              byId('submit').disabled = false;
+              byId('status').innerHTML = '';
+              const copy = element('button', { className: 'secondary', text: 'Copy token ID' });
+              copy.addEventListener('click', () => vscode.postMessage({ command: 'copy', text: message.tokenId }));
+              byId('status').appendChild(element('div', { text: 'Created ' + message.tokenId + '. Transaction ' + message.transactionId }));
+              byId('status').appendChild(copy);
+              break;
+            }
+
+            case 'error':
+              byId('submit').disabled = false;
+              byId('status').className = 'status error';
+              byId('status').textContent = message.message;
+              break;
+          }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
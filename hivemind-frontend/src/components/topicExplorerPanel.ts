@@ -0,0 +1,578 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { TopicSubscription } from '../services/topicSubscription';
+import { getNonce } from '../utils/security';
+import type { TopicExplorerProvider } from './topicExplorerProvider';
+
+/**
+ * Panel that streams the messages of a topic, with search, filters and a form to submit messages
+ */
+export class TopicExplorerPanel {
+  // One panel per topic
+  private static panels = new Map<string, TopicExplorerPanel>();
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+  private readonly network: string;
+  private subscription: TopicSubscription;
+  private paused = false;
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private hederaService: HederaService,
+    private topicExplorer: TopicExplorerProvider,
+    private topicId: string
+  ) {
+    this._panel = panel;
+    this.network = hederaService.getCurrentNetwork();
+    this.subscription = new TopicSubscription(
+      hederaService.getMirrorNode(),
+      topicId,
+      (messages, incomplete) => this._panel.webview.postMessage({
+        command: 'messages',
+        messages,
+        incomplete,
+        hasOlder: this.subscription.hasOlder()
+      }),
+      error => this.showError(error)
+    );
+
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    // The mirror node client follows the active network, so only poll while it is this topic's network
+    this.hederaService.onDidChangeConnection(() => this.resumeOrSuspend(), null, this._disposables);
+    this.topicExplorer.onDidChangeTreeData(() => this.postState(), null, this._disposables);
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('hivemind.topicPollInterval')) {
+        this.resumeOrSuspend();
+      }
+    }, null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'ready':
+            await this.loadTopic();
+            await this.resumeOrSuspend();
+            break;
+
+          case 'pause':
+            this.paused = true;
+            this.subscription.stop();
+            this.postState();
+            break;
+
+          case 'resume':
+            this.paused = false;
+            await this.resumeOrSuspend();
+            break;
+
+          case 'loadOlder':
+            await this.loadOlder();
+            break;
+
+          case 'submit':
+            await this.submit(String(message.text || ''));
+            break;
+
+          case 'togglePin':
+            if (this.topicExplorer.isPinned(this.topicId)) {
+              await this.topicExplorer.unpin(this.topicId);
+            } else {
+              await vscode.commands.executeCommand('hivemindTopicExplorer.pinTopic', this.topicId);
+            }
+            break;
+
+          case 'copyTopicId':
+            await vscode.env.clipboard.writeText(this.topicId);
+            vscode.window.showInformationMessage(`Copied ${this.topicId}`);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the panel for a topic on the current network, or reveal it if already open
+   */
+  public static createOrShow(hederaService: HederaService, topicExplorer: TopicExplorerProvider, topicId: string): void {
+    const key = `${hederaService.getCurrentNetwork()}:${topicId}`;
+    const existing = TopicExplorerPanel.panels.get(key);
+    if (existing) {
+      existing._panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindTopicExplorer',
+      `Topic ${topicId}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    TopicExplorerPanel.panels.set(key, new TopicExplorerPanel(panel, hederaService, topicExplorer, topicId));
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    for (const [key, panel] of TopicExplorerPanel.panels) {
+      if (panel === this) {
+        TopicExplorerPanel.panels.delete(key);
+      }
+    }
+
+    this.subscription.stop();
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private isOnNetwork(): boolean {
+    return this.hederaService.isConnected() && this.hederaService.getCurrentNetwork() === this.network;
+  }
+
+  /**
+   * Send the topic's memo and keys to the webview
+   */
+  private async loadTopic(): Promise<void> {
+    try {
+      const topic = await this.hederaService.getMirrorNode().getTopic(this.topicId);
+      this._panel.webview.postMessage({ command: 'topic', topic, network: this.network });
+    } catch (error) {
+      this.showError(error);
+    }
+    this.postState();
+  }
+
+  /**
+   * Poll while the panel isn't paused and the client is on the topic's network
+   */
+  private async resumeOrSuspend(): Promise<void> {
+    if (this.paused || !this.isOnNetwork()) {
+      this.subscription.stop();
+      this.postState();
+      return;
+    }
+
+    const interval = vscode.workspace.getConfiguration('hivemind').get<number>('topicPollInterval', 3);
+    try {
+      await this.subscription.start(interval > 0 ? interval * 1000 : 0);
+    } catch (error) {
+      this.showError(error);
+    }
+    this.postState();
+  }
+
+  private postState(): void {
+    this._panel.webview.postMessage({
+      command: 'state',
+      live: this.subscription.isRunning(),
+      paused: this.paused,
+      offNetwork: !this.isOnNetwork(),
+      pinned: this.topicExplorer.isPinned(this.topicId),
+      readOnly: this.hederaService.isReadOnly()
+    });
+  }
+
+  private async loadOlder(): Promise<void> {
+    try {
+      const messages = await this.subscription.loadOlder();
+      this._panel.webview.postMessage({
+        command: 'older',
+        messages,
+        incomplete: this.subscription.getIncomplete(),
+        hasOlder: this.subscription.hasOlder()
+      });
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  /**
+   * Submit a message to the topic; the subscription picks it up from the mirror node
+   */
+  private async submit(text: string): Promise<void> {
+    this._panel.webview.postMessage({ command: 'busy', busy: true });
+
+    try {
+      if (!this.isOnNetwork()) {
+        throw new Error(`Topic ${this.topicId} is on ${this.network}; switch back to that network to submit messages`);
+      }
+      if (!text.trim()) {
+        throw new Error('Enter a message to submit');
+      }
+
+      const transactionId = await this.hederaService.submitMessage(this.topicId, text);
+
+      vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+        id: transactionId,
+        type: 'TOPIC_MESSAGE',
+        timestamp: new Date(),
+        status: 'SUCCESS',
+        details: {
+          topicId: this.topicId,
+          memo: text.length > 100 ? `${text.slice(0, 100)}…` : text
+        }
+      });
+
+      this._panel.webview.postMessage({ command: 'submitted', transactionId });
+      await this.subscription.poll();
+    } catch (error) {
+      this.showError(error);
+    } finally {
+      this._panel.webview.postMessage({ command: 'busy', busy: false });
+      this.postState();
+    }
+  }
+
+  private showError(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Topic ${this.topicId}:`, error);
+    this._panel.webview.postMessage({ command: 'error', message });
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Topic Explorer</title>
+      <style>
+        body {
+          padding: 20px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+          margin-bottom: 4px;
+        }
+
+        h2 {
+          font-size: 15px;
+          margin-top: 24px;
+        }
+
+        .muted {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .toolbar {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          margin: 12px 0;
+        }
+
+        .toolbar input[type="text"] {
+          flex: 1;
+          min-width: 200px;
+        }
+
+        .live {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 4px;
+          font-size: 12px;
+          font-weight: bold;
+          text-transform: uppercase;
+          background-color: var(--vscode-badge-background);
+          color: var(--vscode-badge-foreground);
+        }
+
+        .live.on {
+          background-color: rgba(0, 255, 0, 0.1);
+          color: #3fb950;
+        }
+
+        .message {
+          border-left: 3px solid var(--vscode-panel-border);
+          padding: 4px 10px;
+          margin: 8px 0;
+        }
+
+        .message.new {
+          border-left-color: var(--vscode-focusBorder);
+        }
+
+        .message.incomplete {
+          border-left-color: var(--vscode-editorWarning-foreground, #d29922);
+        }
+
+        .warning {
+          color: var(--vscode-editorWarning-foreground, #d29922);
+          font-size: 12px;
+        }
+
+        .message-header {
+          font-size: 12px;
+        }
+
+        pre {
+          margin: 4px 0;
+          white-space: pre-wrap;
+          word-break: break-word;
+          font-family: var(--vscode-editor-font-family);
+          font-size: var(--vscode-editor-font-size);
+        }
+
+        input[type="text"], textarea {
+          box-sizing: border-box;
+          padding: 4px 6px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        textarea {
+          width: 100%;
+          font-family: var(--vscode-editor-font-family);
+        }
+
+        button {
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .error {
+          color: var(--vscode-errorForeground, #f85149);
+          white-space: pre-wrap;
+        }
+
+        .hidden {
+          display: none;
+        }
+      </style>
+    </head>
+    <body>
+      <h1 id="title">Topic</h1>
+      <div class="muted" id="subtitle"></div>
+      <div class="muted" id="keys"></div>
+
+      <div class="toolbar">
+        <span class="live" id="live">Loading</span>
+        <button id="pause">Pause</button>
+        <button id="pin">Pin</button>
+        <button id="copy-topic">Copy Topic ID</button>
+      </div>
+
+      <div class="error" id="error"></div>
+
+      <h2>Submit Message</h2>
+      <textarea id="text" rows="4" placeholder="Text or JSON"></textarea>
+      <div class="toolbar">
+        <button id="submit">Submit</button>
+        <span class="muted" id="submitted"></span>
+      </div>
+
+      <h2>Messages <span class="muted" id="count"></span></h2>
+      <div class="toolbar">
+        <input id="search" type="text" placeholder="Search contents, payer or sequence number">
+        <label><input id="json-only" type="checkbox"> JSON only</label>
+      </div>
+      <div id="incomplete"></div>
+      <div id="messages"></div>
+      <button id="older" class="hidden">Load Older Messages</button>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const byId = id => document.getElementById(id);
+
+        // Oldest first; rendered newest first
+        let messages = [];
+        // Chunked messages still missing chunks
+        let incomplete = [];
+        const newSequenceNumbers = new Set();
+        let loaded = false;
+
+        function element(tag, className, text) {
+          const node = document.createElement(tag);
+          if (className) {
+            node.className = className;
+          }
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        function formatTimestamp(timestamp) {
+          return new Date(Number(timestamp) * 1000).toLocaleString() + ' (' + timestamp + ')';
+        }
+
+        function matches(message, query, jsonOnly) {
+          if (jsonOnly && message.json === undefined) {
+            return false;
+          }
+          if (!query) {
+            return true;
+          }
+          return message.text.toLowerCase().includes(query)
+            || message.payerAccountId.includes(query)
+            || String(message.sequenceNumber) === query.replace(/^#/, '');
+        }
+
+        function render() {
+          const query = byId('search').value.trim().toLowerCase();
+          const jsonOnly = byId('json-only').checked;
+          const visible = messages.filter(message => matches(message, query, jsonOnly)).reverse();
+
+          byId('count').textContent = visible.length === messages.length
+            ? '(' + messages.length + ')'
+            : '(' + visible.length + ' of ' + messages.length + ')';
+
+          const list = byId('messages');
+          list.innerHTML = '';
+          if (loaded && visible.length === 0) {
+            list.appendChild(element('div', 'muted', messages.length === 0 ? 'No messages yet' : 'No messages match'));
+          }
+
+          visible.forEach(message => list.appendChild(renderMessage(message, newSequenceNumbers.has(message.sequenceNumber) ? 'new' : '')));
+
+          const pending = byId('incomplete');
+          pending.innerHTML = '';
+          incomplete.filter(message => matches(message, query, false)).reverse()
+            .forEach(message => pending.appendChild(renderMessage(message, 'incomplete')));
+        }
+
+        function describeChunks(chunks) {
+          if (!chunks) {
+            return '';
+          }
+          const received = chunks.total - chunks.missing.length;
+          return ' - ' + (chunks.missing.length === 0 ? chunks.total + ' chunks' : received + ' of ' + chunks.total + ' chunks')
+            + ' (#' + chunks.sequenceNumbers.join(', #') + ')';
+        }
+
+        function renderMessage(message, className) {
+          const container = element('div', 'message ' + className);
+          container.appendChild(element('div', 'message-header muted',
+            '#' + message.sequenceNumber + ' - ' + formatTimestamp(message.consensusTimestamp)
+            + ' - payer ' + message.payerAccountId + describeChunks(message.chunks)));
+
+          const chunks = message.chunks;
+          if (chunks && chunks.missing.length > 0) {
+            container.appendChild(element('div', 'warning',
+              'Incomplete: missing chunk ' + chunks.missing.join(', ') + ' of message ' + chunks.initialTransactionId
+              + '. Load older messages if the first chunks came before them, or wait for the rest.'));
+          }
+          if (chunks && chunks.outOfOrder) {
+            container.appendChild(element('div', 'warning',
+              'Chunks reached consensus out of order; they were joined by chunk number.'));
+          }
+
+          container.appendChild(element('pre', '',
+            message.json !== undefined ? JSON.stringify(message.json, null, 2) : message.text));
+          return container;
+        }
+
+        function merge(incoming) {
+          const known = new Set(messages.map(message => message.sequenceNumber));
+          messages = messages.concat(incoming.filter(message => !known.has(message.sequenceNumber)))
+            .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+        }
+
+        byId('search').addEventListener('input', render);
+        byId('json-only').addEventListener('change', render);
+        byId('pause').addEventListener('click', () => {
+          vscode.postMessage({ command: byId('pause').textContent === 'Pause' ? 'pause' : 'resume' });
+        });
+        byId('pin').addEventListener('click', () => vscode.postMessage({ command: 'togglePin' }));
+        byId('copy-topic').addEventListener('click', () => vscode.postMessage({ command: 'copyTopicId' }));
+        byId('older').addEventListener('click', () => vscode.postMessage({ command: 'loadOlder' }));
+        byId('submit').addEventListener('click', () => {
+          byId('error').textContent = '';
+          vscode.postMessage({ command: 'submit', text: byId('text').value });
+        });
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'topic':
+              byId('title').textContent = 'Topic ' + message.topic.topic_id;
+              byId('subtitle').textContent = (message.topic.memo || 'No memo') + ' - ' + message.network
+                + (message.topic.deleted ? ' - deleted' : '');
+              byId('keys').textContent = (message.topic.submit_key ? 'Submit key required' : 'Anyone can submit')
+                + (message.topic.admin_key ? ', has an admin key' : ', immutable');
+              break;
+
+            case 'state':
+              byId('live').textContent = message.offNetwork ? 'Off network' : message.paused ? 'Paused' : message.live ? 'Live' : 'Stopped';
+              byId('live').className = 'live' + (message.live ? ' on' : '');
+              byId('pause').textContent = message.paused ? 'Resume' : 'Pause';
+              byId('pin').textContent = message.pinned ? 'Unpin' : 'Pin';
+              byId('submit').disabled = message.offNetwork || message.readOnly;
+              byId('submitted').textContent = message.readOnly ? 'Read-only mode is on' : byId('submitted').textContent;
+              break;
+
+            case 'messages':
+              if (loaded) {
+                message.messages.forEach(m => newSequenceNumbers.add(m.sequenceNumber));
+              }
+              loaded = true;
+              merge(message.messages);
+              incomplete = message.incomplete;
+              byId('older').classList.toggle('hidden', !message.hasOlder);
+              render();
+              break;
+
+            case 'older':
+              merge(message.messages);
+              incomplete = message.incomplete;
+              byId('older').classList.toggle('hidden', !message.hasOlder);
+              render();
+              break;
+
+            case 'busy':
+              byId('submit').disabled = message.busy;
+              break;
+
+            case 'submitted':
+              byId('text').value = '';
+              byId('submitted').textContent = 'Submitted ' + message.transactionId;
+              break;
+
+            case 'error':
+              byId('error').textContent = message.message;
+              break;
+          }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { TopicExplorerPanel } from './topicExplorerPanel';
+
+/**
+ * A topic pinned in this workspace
+ */
+interface PinnedTopic {
+  network: string;
+  topicId: string;
+  label?: string;
+}
+
+/**
+ * Tree item representing a pinned or recently opened topic
+ */
+export class TopicTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly topicId: string,
+    public readonly pinned: boolean,
+    label?: string
+  ) {
+    super(label || topicId, vscode.TreeItemCollapsibleState.None);
+
+    this.description = label ? topicId : undefined;
+    this.tooltip = pinned ? `Pinned topic ${topicId}` : `Recently opened topic ${topicId}`;
+    this.contextValue = pinned ? 'topic.pinned' : 'topic';
+    this.iconPath = new vscode.ThemeIcon(pinned ? 'pinned' : 'symbol-event');
+    this.command = {
+      command: 'hivemindTopicExplorer.openTopic',
+      title: 'Open Topic',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Tree data provider for the Topic Explorer view: topics pinned in this workspace for the
+ * current network, then the topics opened this session
+ */
+export class TopicExplorerProvider implements vscode.TreeDataProvider<TopicTreeItem> {
+  private static readonly PINNED_KEY = 'hivemind.pinnedTopics';
+
+  private _onDidChangeTreeData: vscode.EventEmitter<TopicTreeItem | undefined | null | void> = new vscode.EventEmitter<TopicTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<TopicTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  // Topics opened this session, most recent first, as network:topicId
+  private recent: string[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private hederaService: HederaService
+  ) {
+    vscode.commands.registerCommand('hivemindTopicExplorer.refresh', () => {
+      this.refresh();
+    });
+
+    // From a tree item, a Transaction Center entry or the command palette
+    vscode.commands.registerCommand('hivemindTopicExplorer.openTopic', (target?: TopicTreeItem | { details?: { topicId?: string } } | string) => {
+      this.openTopic(TopicExplorerProvider.getTopicId(target));
+    });
+
+    vscode.commands.registerCommand('hivemindTopicExplorer.pinTopic', (target?: TopicTreeItem | string) => {
+      this.pinTopic(TopicExplorerProvider.getTopicId(target));
+    });
+
+    vscode.commands.registerCommand('hivemindTopicExplorer.unpinTopic', (item: TopicTreeItem) => {
+      this.unpin(item.topicId);
+    });
+
+    this.hederaService.onDidChangeConnection(() => this.refresh());
+  }
+
+  /**
+   * Refresh the tree view
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get tree item for a given element
+   */
+  getTreeItem(element: TopicTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Get children of a given element
+   */
+  async getChildren(element?: TopicTreeItem): Promise<TopicTreeItem[]> {
+    if (element || !this.hederaService.isConnected()) {
+      return [];
+    }
+
+    const network = this.hederaService.getCurrentNetwork();
+    const pinned = this.getPinned().filter(topic => topic.network === network);
+    const pinnedIds = new Set(pinned.map(topic => topic.topicId));
+    const recent = this.recent
+      .filter(key => key.startsWith(`${network}:`))
+      .map(key => key.slice(network.length + 1))
+      .filter(topicId => !pinnedIds.has(topicId));
+
+    return [
+      ...pinned.map(topic => new TopicTreeItem(topic.topicId, true, topic.label)),
+      ...recent.map(topicId => new TopicTreeItem(topicId, false))
+    ];
+  }
+
+  /**
+   * Whether a topic is pinned for the current network
+   */
+  public isPinned(topicId: string): boolean {
+    const network = this.hederaService.getCurrentNetwork();
+    return this.getPinned().some(topic => topic.network === network && topic.topicId === topicId);
+  }
+
+  /**
+   * Pin a topic for the current network in this workspace
+   */
+  public async pin(topicId: string, label?: string): Promise<void> {
+    const network = this.hederaService.getCurrentNetwork();
+    const pinned = this.getPinned().filter(topic => !(topic.network === network && topic.topicId === topicId));
+    pinned.push({ network, topicId, label: label || undefined });
+    await this.context.workspaceState.update(TopicExplorerProvider.PINNED_KEY, pinned);
+    this.refresh();
+  }
+
+  /**
+   * Unpin a topic for the current network
+   */
+  public async unpin(topicId: string): Promise<void> {
+    const network = this.hederaService.getCurrentNetwork();
+    const pinned = this.getPinned().filter(topic => !(topic.network === network && topic.topicId === topicId));
+    await this.context.workspaceState.update(TopicExplorerProvider.PINNED_KEY, pinned);
+    this.refresh();
+  }
+
+  private getPinned(): PinnedTopic[] {
+    return [...(this.context.workspaceState.get<PinnedTopic[]>(TopicExplorerProvider.PINNED_KEY) || [])];
+  }
+
+  private static getTopicId(target?: TopicTreeItem | { details?: { topicId?: string } } | string): string | undefined {
+    if (typeof target === 'string') {
+      return target;
+    }
+    if (target instanceof TopicTreeItem) {
+      return target.topicId;
+    }
+    return target?.details?.topicId;
+  }
+
+  private async promptTopicId(): Promise<string | undefined> {
+    const topicId = await vscode.window.showInputBox({
+      prompt: 'Topic ID',
+      placeHolder: '0.0.1234',
+      validateInput: value => /^\d+\.\d+\.\d+$/.test(value.trim()) ? null : 'Enter a topic ID (0.0.x)'
+    });
+    return topicId?.trim();
+  }
+
+  /**
+   * Open a topic in the Topic Explorer panel and list it under the recent topics
+   */
+  private async openTopic(topicId?: string): Promise<void> {
+    if (!this.hederaService.isConnected()) {
+      vscode.window.showErrorMessage('Connect to Hedera to explore topics');
+      return;
+    }
+
+    topicId = topicId || await this.promptTopicId();
+    if (!topicId) {
+      return;
+    }
+
+    const key = `${this.hederaService.getCurrentNetwork()}:${topicId}`;
+    this.recent = [key, ...this.recent.filter(recent => recent !== key)];
+    this.refresh();
+
+    TopicExplorerPanel.createOrShow(this.hederaService, this, topicId);
+  }
+
+  /**
+   * Pin a topic, asking for a label
+   */
+  private async pinTopic(topicId?: string): Promise<void> {
+    topicId = topicId || await this.promptTopicId();
+    if (!topicId) {
+      return;
+    }
+
+    const label = await vscode.window.showInputBox({
+      prompt: `Label for topic ${topicId} (optional)`
+    });
+    if (label === undefined) {
+      return;
+    }
+
+    await this.pin(topicId, label.trim());
+  }
+}
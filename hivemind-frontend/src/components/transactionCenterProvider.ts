@@ -1,25 +1,47 @@
 import * as vscode from 'vscode';
+import { Hbar } from '@hashgraph/sdk';
 import { HederaService } from '../services/hederaService';
+import { MirrorNodeService, MirrorTransaction } from '../services/mirrorNodeService';
+import { ContractResultPanel } from './contractResultPanel';
+import { escapeHtml } from '../utils/security';
+import { TransactionHistoryEntry, TransactionHistoryUtils } from '../utils/transactionHistoryUtils';
 
 /**
  * Tree item representing a transaction in the Transaction Center
  */
 export class TransactionTreeItem extends vscode.TreeItem {
+  private static readonly TOKEN_ICONS: { [type: string]: string } = {
+    token_create: 'symbol-constant',
+    token_mint: 'add',
+    token_burn: 'flame',
+    token_associate: 'link',
+    token_dissociate: 'debug-disconnect',
+    token_grant_kyc: 'verified',
+    token_revoke_kyc: 'unverified',
+    token_freeze: 'lock',
+    token_unfreeze: 'unlock',
+    token_pause: 'debug-pause',
+    token_unpause: 'debug-start'
+  };
+
   constructor(
     public readonly label: string,
     public readonly transactionId: string,
     public readonly type: string,
     public readonly timestamp: Date,
     public readonly status: string,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly children: any[] = [],
+    public readonly details: any = {}
   ) {
     super(label, collapsibleState);
     
     this.tooltip = `${type} - ${transactionId}`;
     this.description = new Date(timestamp).toLocaleString();
     
-    // Set context value for when clause in package.json
-    this.contextValue = 'transaction';
+    // Set context value for when clause in package.json; topic transactions can be opened in the Topic Explorer
+    const topicType = type.toLowerCase() === 'topic_create' || type.toLowerCase() === 'topic_message';
+    this.contextValue = topicType && details.topicId ? 'transaction.topic' : 'transaction';
     
     // Set icon based on type
     switch (type.toLowerCase()) {
@@ -29,30 +51,121 @@ export class TransactionTreeItem extends vscode.TreeItem {
       case 'contract_call':
         this.iconPath = new vscode.ThemeIcon('play');
         break;
+      case 'file_create':
+      case 'file_append':
+      case 'file_delete':
+        this.iconPath = new vscode.ThemeIcon('file-binary');
+        break;
       case 'topic_create':
         this.iconPath = new vscode.ThemeIcon('symbol-event');
         break;
       case 'topic_message':
         this.iconPath = new vscode.ThemeIcon('comment');
         break;
+      case 'crypto_transfer':
+        this.iconPath = new vscode.ThemeIcon('credit-card');
+        break;
+      case 'policy_blocked':
+        this.iconPath = new vscode.ThemeIcon('shield', new vscode.ThemeColor('errorForeground'));
+        break;
+      case 'agent_invocation':
+        this.iconPath = new vscode.ThemeIcon('hubot');
+        break;
+      case 'agent_payment':
+        this.iconPath = new vscode.ThemeIcon('credit-card');
+        break;
+      case 'account_create':
+        this.iconPath = new vscode.ThemeIcon('person-add');
+        break;
+      case 'account_update':
+        this.iconPath = new vscode.ThemeIcon('key');
+        break;
+      case 'multisig_submit':
+        this.iconPath = new vscode.ThemeIcon('organization');
+        break;
+      case 'schedule_create':
+        this.iconPath = new vscode.ThemeIcon('calendar');
+        break;
+      case 'schedule_sign':
+        this.iconPath = new vscode.ThemeIcon('pass');
+        break;
       default:
-        this.iconPath = new vscode.ThemeIcon('arrow-both');
+        this.iconPath = new vscode.ThemeIcon(TransactionTreeItem.TOKEN_ICONS[type.toLowerCase()] || 'arrow-both');
     }
   }
 }
 
 /**
- * Tree data provider for the Transaction Center view
+ * Tree data provider for the Transaction Center view. Transactions submitted from HiveMind are
+ * kept in workspace state per network and operator, with the record read from the mirror node.
  */
 export class TransactionCenterProvider implements vscode.TreeDataProvider<TransactionTreeItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<TransactionTreeItem | undefined | null | void> = new vscode.EventEmitter<TransactionTreeItem | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<TransactionTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
   
-  private transactions: any[] = [];
+  // History of the connected network and operator, restored when either changes
+  private transactions: TransactionHistoryEntry[] = [];
+  private scope: string | undefined;
+  private mirrorTransactions: TransactionHistoryEntry[] = [];
+  // Transactions whose record was looked up this session, found or not
+  private recordLookups = new Set<string>();
+  private readonly sessionStart = Date.now();
 
-  constructor(private hederaService: HederaService) {
-    // Register refresh command
+  private static readonly HISTORY_KEY = 'hivemind.transactionHistory';
+  private static readonly MIRROR_TRANSACTION_LIMIT = 25;
+  // Records reach the mirror node a few seconds after consensus
+  private static readonly RECORD_DELAY_MS = 8000;
+  private static readonly RECORD_LOOKUP_LIMIT = 10;
+
+  // Mirror node transaction names mapped to the Transaction Center types
+  private static readonly MIRROR_TYPES: { [name: string]: string } = {
+    CONTRACTCREATEINSTANCE: 'CONTRACT_DEPLOY',
+    CONTRACTCALL: 'CONTRACT_CALL',
+    FILECREATE: 'FILE_CREATE',
+    FILEAPPEND: 'FILE_APPEND',
+    FILEDELETE: 'FILE_DELETE',
+    CONSENSUSCREATETOPIC: 'TOPIC_CREATE',
+    CONSENSUSSUBMITMESSAGE: 'TOPIC_MESSAGE',
+    CRYPTOTRANSFER: 'CRYPTO_TRANSFER',
+    CRYPTOCREATEACCOUNT: 'ACCOUNT_CREATE',
+    CRYPTOUPDATEACCOUNT: 'ACCOUNT_UPDATE',
+    TOKENCREATION: 'TOKEN_CREATE',
+    TOKENMINT: 'TOKEN_MINT',
+    TOKENBURN: 'TOKEN_BURN',
+    TOKENASSOCIATE: 'TOKEN_ASSOCIATE',
+    TOKENDISSOCIATE: 'TOKEN_DISSOCIATE',
+    TOKENGRANTKYC: 'TOKEN_GRANT_KYC',
+    TOKENREVOKEKYC: 'TOKEN_REVOKE_KYC',
+    TOKENFREEZE: 'TOKEN_FREEZE',
+    TOKENUNFREEZE: 'TOKEN_UNFREEZE',
+    TOKENPAUSE: 'TOKEN_PAUSE',
+    TOKENUNPAUSE: 'TOKEN_UNPAUSE',
+    SCHEDULECREATE: 'SCHEDULE_CREATE',
+    SCHEDULESIGN: 'SCHEDULE_SIGN'
+  };
+
+  // Labels of token operations, followed by the token ID
+  private static readonly TOKEN_LABELS: { [type: string]: string } = {
+    token_create: 'Create Token',
+    token_mint: 'Mint',
+    token_burn: 'Burn',
+    token_associate: 'Associate Token',
+    token_dissociate: 'Dissociate Token',
+    token_grant_kyc: 'Grant KYC on',
+    token_revoke_kyc: 'Revoke KYC on',
+    token_freeze: 'Freeze on',
+    token_unfreeze: 'Unfreeze on',
+    token_pause: 'Pause Token',
+    token_unpause: 'Unpause Token'
+  };
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private hederaService: HederaService
+  ) {
+    // Register refresh command; records not found earlier are looked up again
     vscode.commands.registerCommand('hivemindTransactionCenter.refresh', () => {
+      this.recordLookups.clear();
       this.refresh();
     });
     
@@ -65,6 +178,11 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
     vscode.commands.registerCommand('hivemindTransactionCenter.addTransaction', (transaction: any) => {
       this.addTransaction(transaction);
     });
+
+    // Register update transaction command, e.g. to settle a pending agent invocation
+    vscode.commands.registerCommand('hivemindTransactionCenter.updateTransaction', (transactionId: string, changes: any) => {
+      this.updateTransaction(transactionId, changes);
+    });
   }
 
   /**
@@ -75,11 +193,30 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
   }
 
   /**
-   * Add a transaction to the list
+   * Add a transaction to the history of the connected network and operator
    */
-  addTransaction(transaction: any): void {
-    this.transactions.unshift(transaction);
+  addTransaction(transaction: TransactionHistoryEntry): void {
+    this.loadHistory();
+    this.transactions = TransactionHistoryUtils.add(this.transactions, transaction);
+    this.saveHistory();
     this.refresh();
+
+    // Show the fee and result once the record reaches the mirror node
+    if (TransactionHistoryUtils.flatten([transaction]).some(tx => TransactionHistoryUtils.needsRecord(tx))) {
+      setTimeout(() => this.refresh(), TransactionCenterProvider.RECORD_DELAY_MS);
+    }
+  }
+
+  /**
+   * Merge changes into a transaction in the history
+   */
+  updateTransaction(transactionId: string, changes: any): void {
+    const transaction = this.loadHistory().find(tx => tx.id === transactionId);
+    if (transaction) {
+      Object.assign(transaction, changes);
+      this.saveHistory();
+      this.refresh();
+    }
   }
 
   /**
@@ -93,10 +230,9 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
    * Get children of a given element
    */
   async getChildren(element?: TransactionTreeItem): Promise<TransactionTreeItem[]> {
-    // If element is provided, it means we're getting children of a specific node
-    // In this case, we don't have nested items, so return empty array
+    // Only agent invocations have nested items: their payments
     if (element) {
-      return [];
+      return element.children.map(tx => this.toTreeItem(tx));
     }
     
     // Check if connected to Hedera
@@ -106,54 +242,18 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
     }
     
     try {
-      // If transactions array is empty, try to fetch some mock transactions
-      if (this.transactions.length === 0) {
-        // For demo purposes, create some mock transactions
-        this.transactions = [
-          {
-            id: '0.0.12345@1626282282.000000000',
-            type: 'CONTRACT_DEPLOY',
-            timestamp: new Date(),
-            status: 'SUCCESS',
-            details: {
-              contractId: '0.0.12345',
-              gas: 500000,
-              bytecodeSize: 4096
-            }
-          },
-          {
-            id: '0.0.12345@1626282283.000000000',
-            type: 'CONTRACT_CALL',
-            timestamp: new Date(Date.now() - 3600000), // 1 hour ago
-            status: 'SUCCESS',
-            details: {
-              contractId: '0.0.12345',
-              function: 'transfer',
-              gas: 100000
-            }
-          },
-          {
-            id: '0.0.12345@1626282284.000000000',
-            type: 'TOPIC_CREATE',
-            timestamp: new Date(Date.now() - 86400000), // 1 day ago
-            status: 'SUCCESS',
-            details: {
-              topicId: '0.0.56789',
-              memo: 'Agent Collaboration'
-            }
-          }
-        ];
-      }
+      // Recent operator transactions from the mirror node, after the ones submitted from HiveMind
+      this.loadHistory();
+      this.loadRecords();
+      await this.loadMirrorTransactions();
+      const localIds = new Set(this.getLocalTransactions().map(tx => tx.id));
+      const allTransactions = [
+        ...this.transactions,
+        ...this.mirrorTransactions.filter(tx => !localIds.has(tx.id))
+      ];
       
       // Convert to tree items
-      return this.transactions.map(tx => new TransactionTreeItem(
-        this.getTransactionLabel(tx),
-        tx.id,
-        tx.type,
-        tx.timestamp,
-        tx.status,
-        vscode.TreeItemCollapsibleState.None
-      ));
+      return allTransactions.map(tx => this.toTreeItem(tx));
     } catch (error) {
       console.error('Failed to get transactions:', error);
       vscode.window.showErrorMessage(`Failed to get transactions: ${error}`);
@@ -161,21 +261,217 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
     }
   }
 
+  private toTreeItem(tx: TransactionHistoryEntry): TransactionTreeItem {
+    const children = tx.children || [];
+    return new TransactionTreeItem(
+      this.getTransactionLabel(tx),
+      tx.id,
+      tx.type,
+      new Date(tx.timestamp),
+      tx.status,
+      children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None,
+      children,
+      tx.details || {}
+    );
+  }
+
+  /**
+   * Get the transactions submitted from HiveMind, including nested ones
+   */
+  private getLocalTransactions(): TransactionHistoryEntry[] {
+    return TransactionHistoryUtils.flatten(this.transactions);
+  }
+
+  /**
+   * Get the history of the connected network and operator, restoring it from workspace state
+   * when either has changed
+   */
+  private loadHistory(): TransactionHistoryEntry[] {
+    const scope = TransactionHistoryUtils.getScope(this.hederaService.getCurrentNetwork(), this.hederaService.getAccountId());
+    if (scope !== this.scope) {
+      this.scope = scope;
+      this.transactions = this.getHistories()[scope] || [];
+      // Agent requests still pending from an earlier session were cut off when VS Code closed
+      this.transactions
+        .filter(tx => tx.status === 'PENDING' && new Date(tx.timestamp).getTime() < this.sessionStart)
+        .forEach(tx => {
+          tx.status = 'FAILED';
+          tx.details = { ...tx.details, error: tx.details?.error || 'Interrupted when VS Code was closed' };
+        });
+    }
+    return this.transactions;
+  }
+
+  private getHistories(): { [scope: string]: TransactionHistoryEntry[] } {
+    return this.context.workspaceState.get<{ [scope: string]: TransactionHistoryEntry[] }>(TransactionCenterProvider.HISTORY_KEY) || {};
+  }
+
+  private async saveHistory(scope: string = this.scope!, transactions: TransactionHistoryEntry[] = this.transactions): Promise<void> {
+    const all = this.getHistories();
+    all[scope] = transactions;
+    try {
+      await this.context.workspaceState.update(TransactionCenterProvider.HISTORY_KEY, all);
+    } catch (error) {
+      console.error('Failed to save transaction history:', error);
+    }
+  }
+
+  /**
+   * Read the records of submitted transactions from the mirror node: the result, the fee charged
+   * and the gas used by contract transactions. A record not found yet is looked up again on the
+   * next manual refresh or session.
+   */
+  private async loadRecords(): Promise<void> {
+    const scope = this.scope!;
+    const transactions = this.transactions;
+    const pending = TransactionHistoryUtils.flatten(transactions)
+      .filter(tx => TransactionHistoryUtils.needsRecord(tx) && !this.recordLookups.has(tx.id))
+      .filter(tx => Date.now() - new Date(tx.timestamp).getTime() >= TransactionCenterProvider.RECORD_DELAY_MS)
+      .slice(0, TransactionCenterProvider.RECORD_LOOKUP_LIMIT);
+    if (pending.length === 0) {
+      return;
+    }
+
+    const mirrorNode = this.hederaService.getMirrorNode();
+    let loaded = false;
+    for (const tx of pending) {
+      this.recordLookups.add(tx.id);
+      try {
+        const record = TransactionHistoryUtils.getParentRecord(await mirrorNode.getTransaction(tx.id));
+        if (!record) {
+          continue;
+        }
+        const contractResult = TransactionHistoryUtils.hasContractResult(record)
+          ? await mirrorNode.getContractResult(tx.id).catch(() => undefined)
+          : undefined;
+        TransactionHistoryUtils.applyRecord(tx, record, contractResult);
+        loaded = true;
+      } catch (error) {
+        console.error(`Failed to load the record of ${tx.id}:`, error);
+      }
+    }
+
+    if (loaded) {
+      await this.saveHistory(scope, transactions);
+      this.refresh();
+    }
+  }
+
+  /**
+   * Load the operator's recent transactions from the mirror node
+   */
+  private async loadMirrorTransactions(): Promise<void> {
+    const accountId = this.hederaService.getAccountId();
+    if (!accountId) {
+      this.mirrorTransactions = [];
+      return;
+    }
+
+    try {
+      const transactions = await this.hederaService.getMirrorNode().getTransactions({
+        accountId,
+        limit: TransactionCenterProvider.MIRROR_TRANSACTION_LIMIT
+      });
+      this.mirrorTransactions = transactions.map(tx => this.fromMirrorTransaction(tx));
+    } catch (error) {
+      // Keep showing the last successful load if the mirror node is unreachable
+      console.error('Failed to load transactions from mirror node:', error);
+    }
+  }
+
+  /**
+   * Convert a mirror node transaction into a Transaction Center entry
+   */
+  private fromMirrorTransaction(tx: MirrorTransaction): TransactionHistoryEntry {
+    const type = TransactionCenterProvider.MIRROR_TYPES[tx.name] || tx.name;
+    const details: any = {
+      memo: tx.memo_base64 ? Buffer.from(tx.memo_base64, 'base64').toString('utf8') : ''
+    };
+
+    if (type === 'CONTRACT_DEPLOY' || type === 'CONTRACT_CALL') {
+      details.contractId = tx.entity_id;
+    } else if (type.startsWith('FILE_')) {
+      details.fileId = tx.entity_id;
+    } else if (type === 'TOPIC_CREATE' || type === 'TOPIC_MESSAGE') {
+      details.topicId = tx.entity_id;
+    } else if (type === 'CRYPTO_TRANSFER') {
+      details.transfers = tx.transfers;
+    } else if (type === 'ACCOUNT_CREATE' || type === 'ACCOUNT_UPDATE') {
+      details.accountId = tx.entity_id;
+    } else if (type.startsWith('TOKEN_')) {
+      details.tokenId = tx.entity_id;
+    } else if (type === 'SCHEDULE_CREATE' || type === 'SCHEDULE_SIGN') {
+      details.scheduleId = tx.entity_id;
+    }
+
+    return {
+      id: MirrorNodeService.toSdkTransactionId(tx.transaction_id),
+      type,
+      timestamp: MirrorNodeService.timestampToDate(tx.consensus_timestamp),
+      status: tx.result === 'SUCCESS' ? 'SUCCESS' : 'FAILED',
+      result: tx.result,
+      fee: tx.charged_tx_fee,
+      record: tx,
+      source: 'mirror',
+      details
+    };
+  }
+
   /**
    * Get a label for a transaction
    */
-  private getTransactionLabel(transaction: any): string {
+  private getTransactionLabel(transaction: TransactionHistoryEntry): string {
     switch (transaction.type.toLowerCase()) {
       case 'contract_deploy':
-        return `Deploy Contract ${transaction.details.contractId}`;
+        // Failed deploys have no contract ID
+        return `Deploy Contract ${transaction.details.contractId || transaction.details.contractName}`;
       case 'contract_call':
-        return `Call ${transaction.details.function}() on ${transaction.details.contractId}`;
+        return transaction.details.function
+          ? `Call ${transaction.details.function}() on ${transaction.details.contractId}`
+          : `Call Contract ${transaction.details.contractId}`;
+      case 'file_create':
+        return `Create File ${transaction.details.fileId || ''}`.trim();
+      case 'file_append':
+        return `Append to File ${transaction.details.fileId || ''}`.trim();
+      case 'file_delete':
+        return `Delete File ${transaction.details.fileId || ''}`.trim();
       case 'topic_create':
         return `Create Topic ${transaction.details.topicId}`;
       case 'topic_message':
         return `Message to Topic ${transaction.details.topicId}`;
-      default:
+      case 'crypto_transfer':
+        return transaction.details.amount
+          ? `Transfer ${transaction.details.amount} to ${transaction.details.accountId}`
+          : `Transfer ${transaction.id}`;
+      case 'policy_blocked':
+        return `Blocked ${transaction.details.label}: ${transaction.details.reason}`;
+      case 'agent_invocation':
+        return `${transaction.details.agentName}: ${transaction.details.capability}`;
+      case 'agent_payment':
+        return `Pay ${transaction.details.amount} to ${transaction.details.recipient}`;
+      case 'account_create':
+        return `Create Account ${transaction.details.accountId || transaction.details.name}`;
+      case 'account_update':
+        return transaction.details.keyType
+          ? `Rotate Key of ${transaction.details.accountId}`
+          : `Update Account ${transaction.details.accountId}`;
+      case 'multisig_submit':
+        return `Multi-sig: ${transaction.details.description}`;
+      case 'schedule_create':
+        return `Create Schedule ${transaction.details.scheduleId || ''}`.trim();
+      case 'schedule_sign':
+        return `Sign Schedule ${transaction.details.scheduleId}`;
+      default: {
+        const tokenLabel = TransactionCenterProvider.TOKEN_LABELS[transaction.type.toLowerCase()];
+        if (tokenLabel) {
+          const amount = transaction.details.amount ? ` ${transaction.details.amount} of` : '';
+          const account = transaction.details.accountId && /kyc|freeze/.test(transaction.type.toLowerCase())
+            ? ` for ${transaction.details.accountId}`
+            : '';
+          return `${tokenLabel}${amount} ${transaction.details.tokenId || transaction.details.symbol || ''}${account}`;
+        }
         return `Transaction ${transaction.id}`;
+      }
     }
   }
 
@@ -185,7 +481,8 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
   private async viewTransaction(transactionId: string): Promise<void> {
     try {
       // Find transaction
-      const transaction = this.transactions.find(tx => tx.id === transactionId);
+      const transaction = this.getLocalTransactions().find(tx => tx.id === transactionId)
+        || this.mirrorTransactions.find(tx => tx.id === transactionId);
       
       if (!transaction) {
         vscode.window.showErrorMessage(`Transaction ${transactionId} not found`);
@@ -210,10 +507,66 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
     }
   }
 
+  /**
+   * Get the detail rows of a token operation, skipping fields it doesn't have
+   */
+  private getTokenDetailsHtml(details: any): string {
+    return this.getDetailRowsHtml([
+      ['Token ID', details.tokenId],
+      ['Token', details.name && details.symbol ? `${details.name} (${details.symbol})` : undefined],
+      ['Account', details.accountId],
+      ['Amount', details.amount],
+      ['Serials', details.serials?.length ? details.serials.join(', ') : undefined],
+      ['Total Supply', details.totalSupply],
+      ['Transactions', details.transactionIds?.join(', ')],
+      ['Memo', details.memo],
+      ['Error', details.error]
+    ]);
+  }
+
+  /**
+   * Get the rows of the transaction's record once it has reached the mirror node
+   */
+  private getRecordHtml(transaction: TransactionHistoryEntry): string {
+    const record = transaction.record;
+    if (!record) {
+      return TransactionHistoryUtils.needsRecord(transaction)
+        ? '<h2>Record</h2><div class="detail-row"><div class="detail-label">Not on the mirror node yet; refresh the Transaction Center to look it up again</div></div>'
+        : '';
+    }
+
+    // Contract transactions show the gas used with their details
+    const contractType = ['contract_call', 'contract_deploy'].includes(transaction.type.toLowerCase());
+    return `<h2>Record</h2>${this.getDetailRowsHtml([
+      ['Result', record.result],
+      ['Consensus', MirrorNodeService.timestampToDate(record.consensus_timestamp).toLocaleString()],
+      ['Fee Charged', Hbar.fromTinybars(record.charged_tx_fee).toString()],
+      ['Max Fee', Hbar.fromTinybars(record.max_fee).toString()],
+      ['Gas Used', contractType ? undefined : transaction.gasUsed],
+      ['Node', record.node],
+      ['Hash', `0x${Buffer.from(record.transaction_hash, 'base64').toString('hex')}`],
+      ['Transfers', (record.transfers || []).map(transfer => `${transfer.account}: ${Hbar.fromTinybars(transfer.amount)}`).join(', ')]
+    ])}`;
+  }
+
+  /**
+   * Get detail rows, skipping empty values
+   */
+  private getDetailRowsHtml(rows: [string, any][]): string {
+    return rows
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([label, value]) => `
+          <div class="detail-row">
+            <div class="detail-label">${label}:</div>
+            <div class="detail-value">${escapeHtml(String(value))}</div>
+          </div>`)
+      .join('');
+  }
+
   /**
    * Get HTML for transaction details
    */
-  private getTransactionDetailsHtml(transaction: any): string {
+  private getTransactionDetailsHtml(transaction: TransactionHistoryEntry): string {
     // Format details based on transaction type
     let detailsHtml = '';
     
@@ -222,16 +575,25 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
         detailsHtml = `
           <div class="detail-row">
             <div class="detail-label">Contract ID:</div>
-            <div class="detail-value">${transaction.details.contractId}</div>
+            <div class="detail-value">${transaction.details.contractId || '-'}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Gas Limit:</div>
+            <div class="detail-value">${transaction.details.gas ?? '-'}</div>
           </div>
           <div class="detail-row">
             <div class="detail-label">Gas Used:</div>
-            <div class="detail-value">${transaction.details.gas}</div>
+            <div class="detail-value">${transaction.gasUsed ?? '-'}</div>
           </div>
           <div class="detail-row">
             <div class="detail-label">Bytecode Size:</div>
-            <div class="detail-value">${transaction.details.bytecodeSize} bytes</div>
+            <div class="detail-value">${transaction.details.bytecodeSize !== undefined ? `${transaction.details.bytecodeSize} bytes` : '-'}</div>
           </div>
+          ${transaction.details.error ? `
+          <div class="detail-row">
+            <div class="detail-label">Error:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.error)}</div>
+          </div>` : ''}
         `;
         break;
         
@@ -243,12 +605,17 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
           </div>
           <div class="detail-row">
             <div class="detail-label">Function:</div>
-            <div class="detail-value">${transaction.details.function}</div>
+            <div class="detail-value">${transaction.details.function || '-'}</div>
           </div>
           <div class="detail-row">
             <div class="detail-label">Gas Used:</div>
-            <div class="detail-value">${transaction.details.gas}</div>
+            <div class="detail-value">${transaction.gasUsed ?? transaction.details.gas ?? '-'}</div>
           </div>
+          ${ContractResultPanel.getResultSectionHtml({
+            outputs: transaction.details.outputs || [],
+            events: transaction.details.events || [],
+            error: transaction.details.error
+          })}
         `;
         break;
         
@@ -265,8 +632,167 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
         `;
         break;
         
-      default:
+      case 'policy_blocked':
         detailsHtml = `
+          <div class="detail-row">
+            <div class="detail-label">Transaction:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.label)} (${escapeHtml(transaction.details.transactionType)})</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Reason:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.reason)}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Network:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.network)}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Operator:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.accountId)}${transaction.details.profile ? ` (${escapeHtml(transaction.details.profile)})` : ''}</div>
+          </div>
+        `;
+        break;
+        
+      case 'agent_invocation':
+        detailsHtml = `
+          <div class="detail-row">
+            <div class="detail-label">Agent:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.agentName)} (${escapeHtml(transaction.details.agentId)})</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Capability:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.capability)}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Fee:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.fee)}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Payment:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.paymentTransactionId || '-')}</div>
+          </div>
+          ${transaction.details.error ? `
+          <div class="detail-row">
+            <div class="detail-label">Error:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.error)}</div>
+          </div>` : ''}
+        `;
+        break;
+        
+      case 'agent_payment':
+        detailsHtml = `
+          <div class="detail-row">
+            <div class="detail-label">Agent:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.agentId)}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Amount:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.amount)}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Recipient:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.recipient)}</div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Memo:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.memo)}</div>
+          </div>
+          ${transaction.details.error ? `
+          <div class="detail-row">
+            <div class="detail-label">Error:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.error)}</div>
+          </div>` : ''}
+        `;
+        break;
+        
+      case 'multisig_submit':
+        detailsHtml = `
+          <div class="detail-row">
+            <div class="detail-label">Description:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.description)}</div>
+          </div>
+          ${transaction.details.contractId ? `
+          <div class="detail-row">
+            <div class="detail-label">Contract ID:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.contractId)}</div>
+          </div>` : ''}
+          ${transaction.details.amount ? `
+          <div class="detail-row">
+            <div class="detail-label">Transfer:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.amount)} to ${escapeHtml(transaction.details.accountId)}</div>
+          </div>` : ''}
+          ${transaction.details.error ? `
+          <div class="detail-row">
+            <div class="detail-label">Error:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.error)}</div>
+          </div>` : ''}
+        `;
+        break;
+        
+      case 'schedule_create':
+      case 'schedule_sign':
+        detailsHtml = `
+          <div class="detail-row">
+            <div class="detail-label">Schedule ID:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.scheduleId || '-')}</div>
+          </div>
+          ${transaction.details.scheduledType ? `
+          <div class="detail-row">
+            <div class="detail-label">Scheduled:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.scheduledType)}</div>
+          </div>` : ''}
+          ${transaction.details.memo ? `
+          <div class="detail-row">
+            <div class="detail-label">Memo:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.memo)}</div>
+          </div>` : ''}
+          ${transaction.details.scheduledTransactionId ? `
+          <div class="detail-row">
+            <div class="detail-label">Scheduled Transaction:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.scheduledTransactionId)}</div>
+          </div>` : ''}
+          ${transaction.details.error ? `
+          <div class="detail-row">
+            <div class="detail-label">Error:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.error)}</div>
+          </div>` : ''}
+        `;
+        break;
+        
+      case 'account_create':
+      case 'account_update':
+        detailsHtml = `
+          <div class="detail-row">
+            <div class="detail-label">Account ID:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.accountId || '-')}</div>
+          </div>
+          ${transaction.details.name ? `
+          <div class="detail-row">
+            <div class="detail-label">Name:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.name)}</div>
+          </div>` : ''}
+          ${transaction.details.keyType ? `
+          <div class="detail-row">
+            <div class="detail-label">Key Type:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.keyType)}</div>
+          </div>` : ''}
+          ${transaction.details.initialBalance ? `
+          <div class="detail-row">
+            <div class="detail-label">Initial Balance:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.initialBalance)}</div>
+          </div>` : ''}
+          ${transaction.details.error ? `
+          <div class="detail-row">
+            <div class="detail-label">Error:</div>
+            <div class="detail-value">${escapeHtml(transaction.details.error)}</div>
+          </div>` : ''}
+        `;
+        break;
+        
+      default:
+        detailsHtml = TransactionCenterProvider.TOKEN_LABELS[transaction.type.toLowerCase()]
+          ? this.getTokenDetailsHtml(transaction.details)
+          : `
           <div class="detail-row">
             <div class="detail-label">No details available</div>
           </div>
@@ -292,6 +818,11 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
           margin-bottom: 20px;
         }
         
+        h2 {
+          font-size: 16px;
+          margin-top: 20px;
+        }
+        
         .transaction-card {
           border: 1px solid var(--vscode-panel-border);
           border-radius: 4px;
@@ -335,7 +866,7 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
           color: #d29922;
         }
         
-        .status-failed {
+        .status-failed, .status-blocked {
           background-color: rgba(255, 0, 0, 0.1);
           color: #f85149;
         }
@@ -357,6 +888,8 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
         .detail-value {
           flex: 1;
         }
+        
+        ${ContractResultPanel.RESULT_STYLES}
       </style>
     </head>
     <body>
@@ -374,6 +907,7 @@ export class TransactionCenterProvider implements vscode.TreeDataProvider<Transa
         
         <div class="transaction-details">
           ${detailsHtml}
+          ${this.getRecordHtml(transaction)}
         </div>
       </div>
     </body>
@@ -0,0 +1,331 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { TransactionPolicyService } from '../services/transactionPolicyService';
+import { ManifestUtils } from '../utils/manifestUtils';
+import { DecodedTransaction, ManifestDeployment, TransactionUtils } from '../utils/transactionUtils';
+import { getNonce } from '../utils/security';
+
+/**
+ * Decodes pasted transaction bytes: the type, header, body fields and signature map, and the
+ * function call of contract executions using the ABIs in the deployment manifests
+ */
+export class TransactionDecoderPanel {
+  public static currentPanel: TransactionDecoderPanel | undefined;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private hederaService: HederaService,
+    private text: string
+  ) {
+    this._panel = panel;
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.command) {
+          case 'ready':
+            this._panel.webview.postMessage({ command: 'init', text: this.text });
+            if (this.text) {
+              this.decode(this.text);
+            }
+            break;
+
+          case 'decode':
+            this.text = message.text;
+            this.decode(message.text);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Open the decoder, decoding the given bytes if any
+   */
+  public static createOrShow(hederaService: HederaService, text: string = ''): void {
+    if (TransactionDecoderPanel.currentPanel) {
+      const current = TransactionDecoderPanel.currentPanel;
+      current._panel.reveal();
+      if (text) {
+        current.text = text;
+        current._panel.webview.postMessage({ command: 'init', text });
+        current.decode(text);
+      }
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'hivemindTransactionDecoder',
+      'Decode Hedera Transaction',
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    TransactionDecoderPanel.currentPanel = new TransactionDecoderPanel(panel, hederaService, text);
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    TransactionDecoderPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  private decode(text: string): void {
+    try {
+      const decoded = TransactionUtils.decode(TransactionUtils.parseBytes(text), this.getDeployments());
+      this._panel.webview.postMessage({ command: 'decoded', ...this.toView(decoded) });
+    } catch (error) {
+      this._panel.webview.postMessage({ command: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Deployments from every manifest, the connected network's first
+   */
+  private getDeployments(): ManifestDeployment[] {
+    const network = this.hederaService.getCurrentNetwork();
+    try {
+      return ManifestUtils.readAllManifests()
+        .sort((a, b) => Number(b.network === network) - Number(a.network === network))
+        .flatMap(manifest => manifest.deployments.map(record => ({ network: manifest.network, record })));
+    } catch (error) {
+      console.error('Failed to read deployment manifests:', error);
+      return [];
+    }
+  }
+
+  private toView(decoded: DecodedTransaction) {
+    const summary: [string, string][] = [
+      ['Type', `${TransactionPolicyService.TRANSACTION_TYPES[decoded.type]?.label || decoded.type} (${decoded.type})`],
+      ['Transaction ID', decoded.transactionId || '-'],
+      ['Payer', decoded.payerAccountId || '-']
+    ];
+    if (decoded.validStart) {
+      const validEnd = new Date(decoded.validStart.getTime() + decoded.validDurationSeconds * 1000);
+      summary.push(['Valid start', decoded.validStart.toISOString()]);
+      summary.push(['Valid until', `${validEnd.toISOString()} (${decoded.validDurationSeconds}s)`]);
+    }
+    summary.push(['Nodes', decoded.nodeAccountIds.join(', ') || '-']);
+    summary.push(['Max fee', decoded.maxFee || '-']);
+    summary.push(['Memo', decoded.memo || '-']);
+    summary.push(['Size', `${decoded.size} bytes`]);
+
+    const call = decoded.contractCall;
+    return {
+      summary,
+      bodyFields: decoded.bodyFields,
+      signatures: decoded.signatures,
+      contractCall: call && {
+        contractId: call.contractId,
+        selector: call.selector,
+        signature: call.signature,
+        source: call.abiSource
+          ? `${call.matchedBy === 'contractId' ? 'ABI of' : 'Selector matched in'} ${call.abiSource}`
+          : 'No ABI in the deployment manifests has this function',
+        error: call.error,
+        args: (call.args || []).map(arg => ({
+          name: arg.name,
+          type: arg.type,
+          value: typeof arg.value === 'string' ? arg.value : JSON.stringify(arg.value)
+        }))
+      }
+    };
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Decode Hedera Transaction</title>
+      <style>
+        body {
+          padding: 20px;
+          font-family: var(--vscode-font-family);
+          color: var(--vscode-foreground);
+          background-color: var(--vscode-editor-background);
+        }
+
+        h1 {
+          font-size: 20px;
+        }
+
+        h2 {
+          font-size: 16px;
+          margin-top: 24px;
+        }
+
+        textarea {
+          width: 100%;
+          min-height: 100px;
+          box-sizing: border-box;
+          font-family: monospace;
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        .meta {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        table {
+          border-collapse: collapse;
+        }
+
+        td, th {
+          padding: 2px 16px 2px 0;
+          text-align: left;
+          vertical-align: top;
+        }
+
+        td.value {
+          font-family: monospace;
+          word-break: break-all;
+        }
+
+        .ok {
+          color: #3fb950;
+        }
+
+        .invalid, .error-text {
+          color: var(--vscode-errorForeground, #f85149);
+        }
+
+        button {
+          margin-top: 8px;
+          padding: 4px 12px;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+          border: none;
+          cursor: pointer;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>Decode Hedera Transaction</h1>
+      <textarea id="bytes" placeholder="Transaction bytes as base64 or hex, signed or unsigned"></textarea>
+      <button id="decode">Decode</button>
+      <div class="error-text" id="error"></div>
+      <div id="result"></div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        function el(tag, attrs, text) {
+          const node = document.createElement(tag);
+          Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value));
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        function table(rows) {
+          const container = el('table');
+          rows.forEach(([label, value]) => {
+            const row = el('tr');
+            row.appendChild(el('td', {}, label));
+            row.appendChild(el('td', { class: 'value' }, value));
+            container.appendChild(row);
+          });
+          return container;
+        }
+
+        function render(decoded) {
+          const result = document.getElementById('result');
+          result.innerHTML = '';
+
+          result.appendChild(el('h2', {}, 'Transaction'));
+          result.appendChild(table(decoded.summary));
+
+          const call = decoded.contractCall;
+          if (call) {
+            result.appendChild(el('h2', {}, 'Contract Call'));
+            result.appendChild(el('div', { class: 'meta' }, call.source));
+            result.appendChild(table([
+              ['Contract', call.contractId],
+              ['Function', call.signature || call.selector],
+              ...call.args.map(arg => [arg.name + ' (' + arg.type + ')', arg.value])
+            ]));
+            if (call.error) {
+              result.appendChild(el('div', { class: 'error-text' }, call.error));
+            }
+          }
+
+          result.appendChild(el('h2', {}, 'Body'));
+          result.appendChild(decoded.bodyFields.length ? table(decoded.bodyFields) : el('div', { class: 'meta' }, 'No fields set'));
+
+          result.appendChild(el('h2', {}, 'Signatures'));
+          if (decoded.signatures.length === 0) {
+            result.appendChild(el('div', { class: 'meta' }, 'Unsigned'));
+            return;
+          }
+          const signatures = el('table');
+          const header = el('tr');
+          ['', 'Node', 'Key', 'Public key', 'Signature'].forEach(label => header.appendChild(el('th', {}, label)));
+          signatures.appendChild(header);
+          decoded.signatures.forEach(signature => {
+            const row = el('tr');
+            row.appendChild(el('td', { class: signature.valid ? 'ok' : 'invalid', title: signature.valid ? 'Valid' : 'Does not match the body' }, signature.valid ? '✓' : '✗'));
+            row.appendChild(el('td', {}, signature.nodeAccountId));
+            row.appendChild(el('td', {}, signature.keyType));
+            row.appendChild(el('td', { class: 'value' }, signature.publicKey));
+            row.appendChild(el('td', { class: 'value', title: signature.signature }, signature.signature.substring(0, 16) + '…'));
+            signatures.appendChild(row);
+          });
+          result.appendChild(signatures);
+        }
+
+        window.addEventListener('message', event => {
+          const message = event.data;
+          switch (message.command) {
+            case 'init':
+              document.getElementById('bytes').value = message.text;
+              break;
+
+            case 'decoded':
+              document.getElementById('error').textContent = '';
+              render(message);
+              break;
+
+            case 'error':
+              document.getElementById('error').textContent = message.error;
+              document.getElementById('result').innerHTML = '';
+              break;
+          }
+        });
+
+        document.getElementById('decode').addEventListener('click', () => {
+          vscode.postMessage({ command: 'decode', text: document.getElementById('bytes').value });
+        });
+
+        vscode.postMessage({ command: 'ready' });
+      </script>
+    </body>
+    </html>`;
+  }
+}
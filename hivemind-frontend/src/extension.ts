@@ -1,22 +1,43 @@
 import * as vscode from 'vscode';
+import { Transaction } from '@hashgraph/sdk';
 import { AgentExplorerProvider } from './components/agentExplorerProvider';
 import { AuditDashboardProvider } from './components/auditDashboardProvider';
 import { TransactionCenterProvider } from './components/transactionCenterProvider';
+import { TopicExplorerProvider } from './components/topicExplorerProvider';
+import { TokenExplorerProvider } from './components/tokenExplorerProvider';
+import { AccountsProvider } from './components/accountsProvider';
+import { SchedulesProvider } from './components/schedulesProvider';
 import { ChatViewProvider } from './components/chatViewProvider';
 import { NetworkStatusBar } from './components/networkStatusBar';
 import { AgentStatusBar } from './components/agentStatusBar';
 import { SolidityAuditProvider } from './services/solidityAuditProvider';
+import { AddressHoverProvider } from './services/addressHoverProvider';
 import { ApiService } from './services/apiService';
 import { MockApiService } from './services/mockApiService';
 import { HederaService } from './services/hederaService';
+import { CollaborationService } from './services/collaborationService';
+import { CredentialService } from './services/credentialService';
+import { ProfileService } from './services/profileService';
+import { AccountService } from './services/accountService';
+import { OperatorSwitcher } from './components/operatorSwitcher';
+import { DeployWizardPanel } from './components/deployWizardPanel';
+import { ContractInteractionPanel } from './components/contractInteractionPanel';
+import { MultiSigPanel } from './components/multiSigPanel';
+import { TransactionDecoderPanel } from './components/transactionDecoderPanel';
+import { KeyToolkitPanel } from './components/keyToolkitPanel';
 import { ConfigUtils } from './utils/configUtils';
 import { DeploymentUtils } from './utils/deploymentUtils';
-import { SolidityUtils } from './utils/solidityUtils';
+import { KeyUtils } from './utils/keyUtils';
+import { MultiSigUtils } from './utils/multiSigUtils';
+import { AgentPayment } from './utils/agentPaymentUtils';
 import { getWebviewContent } from './utils/webviewUtils';
 
 // Extension activation context
 let apiService: ApiService;
 let hederaService: HederaService;
+let credentialService: CredentialService;
+let profileService: ProfileService;
+let accountService: AccountService;
 let solidityAuditProvider: SolidityAuditProvider;
 let networkStatusBar: NetworkStatusBar;
 let agentStatusBar: AgentStatusBar;
@@ -33,12 +54,34 @@ export async function activate(context: vscode.ExtensionContext) {
   // Use mock API service for testing if in development mode
   const isDevMode = process.env.VSCODE_DEBUG_MODE === 'true';
   apiService = isDevMode ? new MockApiService() : new ApiService(ConfigUtils.getApiBaseUrl());
-  hederaService = new HederaService(context);
+  credentialService = new CredentialService(context);
+
+  // Move any plaintext operator key out of settings before connecting
+  try {
+    if (await credentialService.migrateFromSettings()) {
+      vscode.window.showInformationMessage(
+        'HiveMind moved your Hedera private key from settings into secure storage.'
+      );
+    }
+  } catch (error) {
+    console.error('Failed to migrate Hedera credentials:', error);
+  }
+
+  profileService = new ProfileService(context, credentialService);
+  await profileService.initialize();
+
+  hederaService = new HederaService(context, profileService);
+  const collaborationService = new CollaborationService(context, hederaService, apiService);
+  accountService = new AccountService(context);
 
   // Initialize providers
-  const agentExplorerProvider = new AgentExplorerProvider(hederaService);
+  const agentExplorerProvider = new AgentExplorerProvider(hederaService, collaborationService);
   const auditDashboardProvider = new AuditDashboardProvider(apiService);
-  const transactionCenterProvider = new TransactionCenterProvider(hederaService);
+  const transactionCenterProvider = new TransactionCenterProvider(context, hederaService);
+  const topicExplorerProvider = new TopicExplorerProvider(context, hederaService);
+  const tokenExplorerProvider = new TokenExplorerProvider(hederaService);
+  const accountsProvider = new AccountsProvider(hederaService, accountService, profileService);
+  const schedulesProvider = new SchedulesProvider(context, hederaService);
   const chatViewProvider = new ChatViewProvider(context.extensionUri, apiService);
   solidityAuditProvider = new SolidityAuditProvider(apiService);
 
@@ -46,6 +89,10 @@ export async function activate(context: vscode.ExtensionContext) {
   vscode.window.registerTreeDataProvider('hivemindAgentExplorer', agentExplorerProvider);
   vscode.window.registerTreeDataProvider('hivemindAuditDashboard', auditDashboardProvider);
   vscode.window.registerTreeDataProvider('hivemindTransactionCenter', transactionCenterProvider);
+  vscode.window.registerTreeDataProvider('hivemindTopicExplorer', topicExplorerProvider);
+  vscode.window.registerTreeDataProvider('hivemindTokens', tokenExplorerProvider);
+  vscode.window.registerTreeDataProvider('hivemindAccounts', accountsProvider);
+  vscode.window.registerTreeDataProvider('hivemindSchedules', schedulesProvider);
   
   // Register webview provider
   context.subscriptions.push(
@@ -56,12 +103,38 @@ export async function activate(context: vscode.ExtensionContext) {
   networkStatusBar = new NetworkStatusBar(context);
   agentStatusBar = new AgentStatusBar(context);
 
+  // Operator profile switching
+  new OperatorSwitcher(context, profileService, hederaService);
+
+  // Keep the status bar and connection-dependent views in sync with the client
+  context.subscriptions.push(
+    hederaService.onDidChangeConnection(() => {
+      updateNetworkStatus();
+      agentExplorerProvider.refresh();
+      transactionCenterProvider.refresh();
+    }),
+    // Read-only mode can change with the profile or the settings
+    profileService.onDidChangeProfiles(() => updateNetworkStatus()),
+    hederaService.getTransactionPolicy().onDidChangePolicy(() => updateNetworkStatus())
+  );
+
+  // The initial connection may have completed before the listener was attached
+  updateNetworkStatus();
+
   // Register diagnostic collection
   const diagnosticCollection = vscode.languages.createDiagnosticCollection('hivemind-solidity');
   context.subscriptions.push(diagnosticCollection);
   // Set up diagnostic collection for audit provider
   // solidityAuditProvider.setDiagnosticCollection(diagnosticCollection);
 
+  // Show the converted form of IDs and addresses in contracts and scripts
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(
+      ['solidity', 'typescript', 'typescriptreact'],
+      new AddressHoverProvider()
+    )
+  );
+
   // Register commands
   registerCommands(context);
 
@@ -72,6 +145,22 @@ export async function activate(context: vscode.ExtensionContext) {
   console.log('HiveMind Copilot extension activated');
 }
 
+/**
+ * Show the connection, profile and read-only state in the status bar
+ */
+function updateNetworkStatus() {
+  if (hederaService.isConnected()) {
+    networkStatusBar.setConnected(
+      hederaService.getCurrentNetwork(),
+      hederaService.getAccountId() || '',
+      hederaService.getActiveProfileName() || undefined,
+      hederaService.isReadOnly()
+    );
+  } else {
+    networkStatusBar.setDisconnected();
+  }
+}
+
 /**
  * Register all commands
  */
@@ -81,14 +170,35 @@ function registerCommands(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('hivemind.showAgentHub', () => {
       showAgentHub(context.extensionUri);
     }),
-    vscode.commands.registerCommand('hivemind.auditContract', () => {
-      auditSolidityContract(context, apiService, solidityAuditProvider);
+    // Agent invocations pass the fee payment, and use the result to settle the invocation
+    vscode.commands.registerCommand('hivemind.auditContract', (payment?: AgentPayment) => {
+      return auditSolidityContract(context, apiService, solidityAuditProvider, payment);
     }),
-    vscode.commands.registerCommand('hivemind.generateTests', () => {
-      generateContractTests(context, apiService);
+    vscode.commands.registerCommand('hivemind.generateTests', (payment?: AgentPayment) => {
+      return generateContractTests(context, apiService, payment);
     }),
-    vscode.commands.registerCommand('hivemind.deployContract', () => {
-      deployContract(context, apiService, hederaService);
+    vscode.commands.registerCommand('hivemind.deployContract', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && editor.document.languageId === 'solidity') {
+        await editor.document.save();
+        DeployWizardPanel.createOrShow(context, apiService, hederaService, editor.document.uri.fsPath);
+      } else {
+        vscode.window.showErrorMessage('Please open a Solidity file to deploy');
+      }
+    }),
+    vscode.commands.registerCommand('hivemind.showDeployedContracts', () => {
+      DeploymentUtils.showContractExplorer(hederaService);
+    }),
+    vscode.commands.registerCommand('hivemind.openContractInteraction', async (contractId?: string) => {
+      if (!contractId) {
+        await DeploymentUtils.showContractExplorer(hederaService);
+        return;
+      }
+      try {
+        await ContractInteractionPanel.createOrShow(context, hederaService, contractId);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to open contract: ${error}`);
+      }
     }),
     vscode.commands.registerCommand('hivemind.showAuditDashboard', () => {
       showAuditDashboard(context.extensionUri);
@@ -112,41 +222,17 @@ function registerCommands(context: vscode.ExtensionContext) {
     })
   );
 
-  // Test generation commands
-  context.subscriptions.push(
-    vscode.commands.registerCommand('hivemind.generateTests', async () => {
-      const editor = vscode.window.activeTextEditor;
-      if (editor && editor.document.languageId === 'solidity') {
-        const filePath = editor.document.uri.fsPath;
-        await generateTests(filePath);
-      } else {
-        vscode.window.showErrorMessage('Please open a Solidity file to generate tests');
-      }
-    })
-  );
-
-  // Deployment commands
-  context.subscriptions.push(
-    vscode.commands.registerCommand('hivemind.deployContract', async () => {
-      const editor = vscode.window.activeTextEditor;
-      if (editor && editor.document.languageId === 'solidity') {
-        const filePath = editor.document.uri.fsPath;
-        await DeploymentUtils.deployContract(filePath, apiService, hederaService);
-      } else {
-        vscode.window.showErrorMessage('Please open a Solidity file to deploy');
-      }
-    })
-  );
-
   // Hedera connection commands
   context.subscriptions.push(
     vscode.commands.registerCommand('hivemind.connectHedera', async () => {
       try {
-        await hederaService.connect(
-          ConfigUtils.getHederaNetwork(),
-          ConfigUtils.getHederaAccountId(),
-          ConfigUtils.getHederaPrivateKey()
-        );
+        // Without any profile yet, walk the user through creating one
+        if (!profileService.getActiveProfile()) {
+          await vscode.commands.executeCommand('hivemind.switchOperator');
+          return;
+        }
+
+        await hederaService.connectProfile();
         // networkStatusBar.update();
         vscode.window.showInformationMessage('Connected to Hedera network');
       } catch (error) {
@@ -163,20 +249,103 @@ function registerCommands(context: vscode.ExtensionContext) {
     })
   );
 
+  // Multi-signature commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hivemind.createMultiSigTransaction', async () => {
+      try {
+        const transfer = await promptHbarTransfer();
+        if (transfer) {
+          await MultiSigPanel.exportForSigning(hederaService, accountService, transfer.transaction, transfer.description);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to create multi-sig transaction: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+    vscode.commands.registerCommand('hivemind.openMultiSigTransaction', async (uri?: vscode.Uri) => {
+      try {
+        await MultiSigPanel.open(hederaService, accountService, uri);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to open multi-sig transaction: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+    // Used by panels that build a transaction, such as the contract interaction panel
+    vscode.commands.registerCommand('hivemind.exportForSigning', async (transaction: Transaction, description: string) => {
+      try {
+        await MultiSigPanel.exportForSigning(hederaService, accountService, transaction, description);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to export for signing: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+    vscode.commands.registerCommand('hivemind.createScheduledTransfer', async () => {
+      try {
+        const transfer = await promptHbarTransfer();
+        if (transfer) {
+          await vscode.commands.executeCommand('hivemind.scheduleTransaction', transfer.transaction, transfer.description);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to create scheduled transfer: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+
+  // Decode transaction bytes given as an argument, else the selection in the editor
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hivemind.decodeTransaction', (text?: string) => {
+      const editor = vscode.window.activeTextEditor;
+      const selection = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : '';
+      TransactionDecoderPanel.createOrShow(hederaService, typeof text === 'string' ? text : selection);
+    })
+  );
+
+  // Key and address toolkit, opened on the given ID or address, else the selection
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hivemind.openKeyToolkit', (address?: string) => {
+      const editor = vscode.window.activeTextEditor;
+      const selection = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection).trim() : '';
+      KeyToolkitPanel.createOrShow(hederaService, typeof address === 'string' ? address : selection);
+    }),
+    vscode.commands.registerCommand('hivemind.copyAddressAs', async (value?: string) => {
+      try {
+        const text = typeof value === 'string' ? value : await vscode.window.showInputBox({
+          prompt: 'Account or contract ID, or EVM address',
+          placeHolder: '0.0.1234 or 0x…'
+        });
+        if (!text) {
+          return;
+        }
+
+        const address = KeyUtils.parseAddress(text);
+        const evmAddress = address.longZeroAddress || address.evmAddress!;
+        const options = [
+          ...(address.entityId ? [{ label: address.entityId, description: 'ID' }] : []),
+          { label: evmAddress, description: 'EVM address' },
+          { label: evmAddress.toLowerCase(), description: 'EVM address, lowercase' },
+          { label: `address(${evmAddress})`, description: 'Solidity' }
+        ];
+
+        const choice = await vscode.window.showQuickPick(options, { placeHolder: 'Copy as' });
+        if (choice) {
+          await vscode.env.clipboard.writeText(choice.label);
+          vscode.window.showInformationMessage(`Copied ${choice.label}`);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to convert address: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+
   // Configuration commands
   context.subscriptions.push(
     vscode.commands.registerCommand('hivemind.configureSettings', async () => {
-      await ConfigUtils.showConfigurationUI();
+      await ConfigUtils.showConfigurationUI(profileService);
       
       // Update services with new configuration
       apiService.setBaseUrl(ConfigUtils.getApiBaseUrl());
-      hederaService.updateConfig(
-        ConfigUtils.getHederaAccountId(),
-        ConfigUtils.getHederaPrivateKey(),
-        ConfigUtils.getHederaNetwork(),
-        ConfigUtils.getHederaTopicId(),
-        ConfigUtils.getRpcUrl()
-      );
+      try {
+        await hederaService.updateConfig();
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to reconnect to Hedera: ${error}`);
+      }
       
       // Update UI
       // networkStatusBar.update();
@@ -203,6 +372,53 @@ function registerCommands(context: vscode.ExtensionContext) {
   );
 }
 
+/**
+ * Ask for an HBAR transfer from an account that needs several signatures, e.g. a treasury.
+ * Returns undefined if the user cancels.
+ */
+async function promptHbarTransfer(): Promise<{ transaction: Transaction; description: string } | undefined> {
+  if (!hederaService.isConnected()) {
+    throw new Error('Not connected to Hedera network');
+  }
+
+  const accountIdPattern = /^\d+\.\d+\.\d+$/;
+  const from = await vscode.window.showInputBox({
+    prompt: 'Account to transfer HBAR from',
+    placeHolder: '0.0.1234',
+    validateInput: value => accountIdPattern.test(value.trim()) ? null : 'Enter an account ID, e.g. 0.0.1234'
+  });
+  if (!from) {
+    return undefined;
+  }
+
+  const to = await vscode.window.showInputBox({
+    prompt: 'Account to transfer HBAR to',
+    placeHolder: '0.0.5678',
+    validateInput: value => accountIdPattern.test(value.trim()) ? null : 'Enter an account ID, e.g. 0.0.5678'
+  });
+  if (!to) {
+    return undefined;
+  }
+
+  const amount = await vscode.window.showInputBox({
+    prompt: 'HBAR to transfer',
+    validateInput: value => Number(value) > 0 ? null : 'Enter an amount over 0'
+  });
+  if (!amount) {
+    return undefined;
+  }
+
+  const memo = await vscode.window.showInputBox({ prompt: 'Transaction memo (optional)' });
+  if (memo === undefined) {
+    return undefined;
+  }
+
+  return {
+    transaction: MultiSigUtils.buildHbarTransfer(from.trim(), to.trim(), Number(amount), memo),
+    description: `Transfer ${amount} HBAR from ${from.trim()} to ${to.trim()}`
+  };
+}
+
 /**
  * Show Agent Hub webview panel
  */
@@ -244,7 +460,8 @@ function showAgentHub(extensionUri: vscode.Uri) {
           analyzeCode(message.code, message.language);
           break;
         case 'useAgent':
-          useAgent(message.agentId, message.prompt);
+          // The Agent Explorer asks for the capability and handles the fee payment
+          vscode.commands.executeCommand('hivemindAgentExplorer.useAgent', message.agentId);
           break;
         case 'connectHedera':
           vscode.commands.executeCommand('hivemind.connectHedera');
@@ -388,78 +605,6 @@ async function analyzeCode(code: string, language: string) {
   }
 }
 
-/**
- * Use a specific agent for a task
- */
-async function useAgent(agentId: string, prompt: string) {
-  try {
-    vscode.window.withProgress({
-      location: vscode.ProgressLocation.Notification,
-      title: 'Using agent...',
-      cancellable: false
-    }, async (progress) => {
-      const result = await hederaService.useAgent(agentId, prompt);
-      
-      if (result.success) {
-        if (agentHubPanel) {
-          agentHubPanel.webview.postMessage({ 
-            command: 'agentResponse', 
-            response: result.response 
-          });
-        }
-      } else {
-        vscode.window.showErrorMessage(`Failed to use agent: ${result.error}`);
-      }
-    });
-  } catch (error) {
-    vscode.window.showErrorMessage(`Error using agent: ${error}`);
-  }
-}
-
-/**
- * Generate tests for a Solidity contract
- */
-async function generateTests(filePath: string) {
-  try {
-    vscode.window.withProgress({
-      location: vscode.ProgressLocation.Notification,
-      title: 'Generating tests...',
-      cancellable: false
-    }, async (progress) => {
-      // Read file content
-      const fileContent = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
-      const code = Buffer.from(fileContent).toString('utf8');
-      
-      // Extract contract name
-      const contractName = SolidityUtils.extractContractName(filePath);
-      
-      // Generate tests
-      const result = await apiService.generateTests(code);
-      
-      if (result.success) {
-        // Create test file
-        const testFilePath = filePath.replace('.sol', '.test.js');
-        const testFileUri = vscode.Uri.file(testFilePath);
-        
-        await vscode.workspace.fs.writeFile(
-          testFileUri,
-          Buffer.from(result.tests, 'utf8')
-        );
-        
-        // Open test file
-        const document = await vscode.workspace.openTextDocument(testFileUri);
-        await vscode.window.showTextDocument(document);
-        
-        vscode.window.showInformationMessage('Tests generated successfully');
-      } else {
-        vscode.window.showErrorMessage(`Failed to generate tests: ${result.error}`);
-      }
-    });
-  } catch (error) {
-    vscode.window.showErrorMessage(`Error generating tests: ${error}`);
-  }
-}
-
 /**
  * Fix a vulnerability in the code
  */
@@ -656,35 +801,46 @@ function generateHtmlReport(vulnerabilities: any[]): string {
 /**
  * Audit a Solidity contract
  */
-async function auditSolidityContract(context: vscode.ExtensionContext, apiService: any, solidityAuditProvider: any) {
+async function auditSolidityContract(
+  context: vscode.ExtensionContext,
+  apiService: any,
+  solidityAuditProvider: any,
+  payment?: AgentPayment
+): Promise<boolean> {
   const editor = vscode.window.activeTextEditor;
   if (!editor || editor.document.languageId !== 'solidity') {
     vscode.window.showErrorMessage('Please open a Solidity file to audit');
-    return;
+    return false;
   }
 
   try {
     const code = editor.document.getText();
-    await solidityAuditProvider.auditContract(code);
+    await solidityAuditProvider.auditContract(code, payment);
     vscode.window.showInformationMessage('Contract audit completed');
+    return true;
   } catch (error) {
     vscode.window.showErrorMessage(`Audit failed: ${error}`);
+    return false;
   }
 }
 
 /**
  * Generate tests for a contract
  */
-async function generateContractTests(context: vscode.ExtensionContext, apiService: any) {
+async function generateContractTests(
+  context: vscode.ExtensionContext,
+  apiService: any,
+  payment?: AgentPayment
+): Promise<boolean> {
   const editor = vscode.window.activeTextEditor;
   if (!editor || editor.document.languageId !== 'solidity') {
     vscode.window.showErrorMessage('Please open a Solidity file to generate tests');
-    return;
+    return false;
   }
 
   try {
     const code = editor.document.getText();
-    const result = await apiService.generateTests(code);
+    const result = await apiService.generateTests(code, payment);
     
     // Create new document with tests
     const testDocument = await vscode.workspace.openTextDocument({
@@ -694,32 +850,10 @@ async function generateContractTests(context: vscode.ExtensionContext, apiServic
     
     await vscode.window.showTextDocument(testDocument);
     vscode.window.showInformationMessage('Tests generated successfully');
+    return true;
   } catch (error) {
     vscode.window.showErrorMessage(`Test generation failed: ${error}`);
-  }
-}
-
-/**
- * Deploy a contract
- */
-async function deployContract(context: vscode.ExtensionContext, apiService: any, hederaService: any) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor || editor.document.languageId !== 'solidity') {
-    vscode.window.showErrorMessage('Please open a Solidity file to deploy');
-    return;
-  }
-
-  try {
-    const code = editor.document.getText();
-    const result = await apiService.deployContract(code);
-    
-    if (result.contractId) {
-      vscode.window.showInformationMessage(`Contract deployed: ${result.contractId}`);
-    } else {
-      vscode.window.showErrorMessage('Deployment failed');
-    }
-  } catch (error) {
-    vscode.window.showErrorMessage(`Deployment failed: ${error}`);
+    return false;
   }
 }
 
@@ -6,12 +6,18 @@ import { AuditDashboardProvider } from '../components/auditDashboardProvider';
 import { TransactionCenterProvider } from '../components/transactionCenterProvider';
 import { ApiService } from '../services/apiService';
 import { HederaService } from '../services/hederaService';
+import { CollaborationService } from '../services/collaborationService';
+import { CredentialService } from '../services/credentialService';
+import { ProfileService } from '../services/profileService';
+import { NetworkUtils } from '../utils/networkUtils';
 import { NetworkStatusBar } from '../components/networkStatusBar';
 import { AgentStatusBar } from '../components/agentStatusBar';
 import { SolidityAuditProvider } from '../services/solidityAuditProvider';
 
 let apiService: ApiService;
 let hederaService: HederaService;
+let credentialService: CredentialService;
+let profileService: ProfileService;
 let networkStatusBar: NetworkStatusBar;
 let agentStatusBar: AgentStatusBar;
 
@@ -20,20 +26,25 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Initialize services
   apiService = new ApiService(); // Will use default configuration
-  hederaService = new HederaService(context);
+  credentialService = new CredentialService(context);
+  await credentialService.migrateFromSettings();
+  profileService = new ProfileService(context, credentialService);
+  await profileService.initialize();
+  hederaService = new HederaService(context, profileService);
   
   // Initialize status bars
   networkStatusBar = new NetworkStatusBar(context);
   agentStatusBar = new AgentStatusBar(context);
   
   // Register tree data providers
-  const agentExplorerProvider = new AgentExplorerProvider(hederaService);
+  const collaborationService = new CollaborationService(context, hederaService, apiService);
+  const agentExplorerProvider = new AgentExplorerProvider(hederaService, collaborationService);
   vscode.window.registerTreeDataProvider('hivemindAgentExplorer', agentExplorerProvider);
   
   const auditDashboardProvider = new AuditDashboardProvider(apiService);
   vscode.window.registerTreeDataProvider('hivemindAuditDashboard', auditDashboardProvider);
   
-  const transactionCenterProvider = new TransactionCenterProvider(hederaService);
+  const transactionCenterProvider = new TransactionCenterProvider(context, hederaService);
   vscode.window.registerTreeDataProvider('hivemindTransactionCenter', transactionCenterProvider);
   
   // Register Solidity audit provider
@@ -181,7 +192,7 @@ export async function activate(context: vscode.ExtensionContext) {
     
     vscode.commands.registerCommand('hivemind.connectHedera', async () => {
       const network = await vscode.window.showQuickPick(
-        ['testnet', 'mainnet'],
+        NetworkUtils.getNetworkNames(),
         { placeHolder: 'Select Hedera network' }
       );
       
@@ -189,43 +200,17 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
       
-      // Check for credentials
-      const config = vscode.workspace.getConfiguration('hivemind');
-      let accountId = config.get<string>('hederaAccountId');
-      let privateKey = config.get<string>('hederaPrivateKey');
+      // Check for credentials, prompting and storing them in SecretStorage if missing
+      const credentials = await credentialService.getCredentials(network)
+        || await credentialService.promptForCredentials(network);
       
-      if (!accountId || !privateKey) {
-        // Prompt for credentials
-        accountId = await vscode.window.showInputBox({
-          prompt: 'Enter your Hedera account ID',
-          placeHolder: '0.0.12345'
-        });
-        
-        if (!accountId) {
-          return;
-        }
-        
-        privateKey = await vscode.window.showInputBox({
-          prompt: 'Enter your Hedera private key',
-          password: true
-        });
-        
-        if (!privateKey) {
-          return;
-        }
-        
-        // Save to configuration
-        await config.update('hederaAccountId', accountId, true);
-        await config.update('hederaPrivateKey', privateKey, true);
+      if (!credentials) {
+        return;
       }
       
       // Connect to network
       try {
-        await hederaService.connect(
-          network as string || 'testnet',
-          accountId || '',
-          privateKey || ''
-        );
+        await hederaService.connect(network, credentials.accountId, credentials.privateKey);
         vscode.window.showInformationMessage(`Connected to Hedera ${network}`);
         
         // Refresh views
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { PrecheckStatusError, PrivateKey, ReceiptStatusError } from '@hashgraph/sdk';
+
+/**
+ * Key algorithms an account can be created with
+ */
+export type AccountKeyType = 'ED25519' | 'ECDSA';
+
+/**
+ * An account created from the Accounts view. The private key is not part of it;
+ * it stays in SecretStorage.
+ */
+export interface ManagedAccount {
+  name: string;
+  network: string;
+  accountId: string;
+  keyType: AccountKeyType;
+  /** DER-encoded public key of the current key */
+  publicKey: string;
+  /** EVM address alias, set for ECDSA accounts */
+  evmAddress?: string;
+  createdAt: string;
+}
+
+interface StoredAccountKey {
+  privateKey: string;
+  /** Replacement key of a rotation that was submitted but not yet confirmed */
+  pendingKey?: string;
+}
+
+/**
+ * Keeps the accounts created from the Accounts view.
+ *
+ * Account metadata is kept in global state per network; the generated private keys are
+ * only ever stored in SecretStorage and are never written to settings or files.
+ */
+export class AccountService {
+  private static readonly ACCOUNTS_KEY = 'hivemind.managedAccounts';
+  private static readonly SECRET_PREFIX = 'hivemind.account.';
+
+  private _onDidChangeAccounts = new vscode.EventEmitter<void>();
+  readonly onDidChangeAccounts: vscode.Event<void> = this._onDidChangeAccounts.event;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.context.subscriptions.push(this._onDidChangeAccounts);
+  }
+
+  /**
+   * Generate a new private key of the given type
+   */
+  static generateKey(keyType: AccountKeyType): PrivateKey {
+    return keyType === 'ECDSA' ? PrivateKey.generateECDSA() : PrivateKey.generateED25519();
+  }
+
+  /**
+   * Get the key type of a private key
+   */
+  static getKeyType(key: PrivateKey): AccountKeyType {
+    return key.type === 'secp256k1' ? 'ECDSA' : 'ED25519';
+  }
+
+  /**
+   * Get the accounts created on a network
+   */
+  public getAccounts(network: string): ManagedAccount[] {
+    return this.getAllAccounts().filter(account => account.network === network);
+  }
+
+  /**
+   * Get an account created on a network
+   */
+  public getAccount(network: string, accountId: string): ManagedAccount | undefined {
+    return this.getAccounts(network).find(account => account.accountId === accountId);
+  }
+
+  /**
+   * Record a created account and store its private key
+   */
+  public async addAccount(account: ManagedAccount, privateKey: PrivateKey): Promise<void> {
+    await this.storeKey(account.network, account.accountId, { privateKey: privateKey.toStringDer() });
+    await this.saveAccounts([
+      ...this.getAllAccounts().filter(a => !(a.network === account.network && a.accountId === account.accountId)),
+      account
+    ]);
+  }
+
+  /**
+   * Get the private key of an account
+   */
+  public async getPrivateKey(network: string, accountId: string): Promise<PrivateKey> {
+    const stored = await this.getStoredKey(network, accountId);
+    if (!stored) {
+      throw new Error(`No private key stored for ${accountId} on ${network}`);
+    }
+    return PrivateKey.fromStringDer(stored.privateKey);
+  }
+
+  /**
+   * Get the key of a rotation that was not confirmed, e.g. because it timed out or VS Code closed
+   * while it was submitted. The account's key on the network is either the stored key or this one.
+   */
+  public async getPendingKey(network: string, accountId: string): Promise<PrivateKey | undefined> {
+    const stored = await this.getStoredKey(network, accountId);
+    return stored?.pendingKey ? PrivateKey.fromStringDer(stored.pendingKey) : undefined;
+  }
+
+  /**
+   * Replace the key of an account. The new key is stored before `submit` runs, so it can't be
+   * lost once the network has accepted it, and becomes the account key when `submit` succeeds.
+   * It is only discarded when the network rejected the update; after any other failure, such as
+   * a timeout, it stays pending until the mirror node shows which key the account has.
+   */
+  public async rotateKey<T>(account: ManagedAccount, newKey: PrivateKey, submit: () => Promise<T>): Promise<T> {
+    const current = await this.getPrivateKey(account.network, account.accountId);
+    await this.storeKey(account.network, account.accountId, {
+      privateKey: current.toStringDer(),
+      pendingKey: newKey.toStringDer()
+    });
+
+    let result: T;
+    try {
+      result = await submit();
+    } catch (error) {
+      if (error instanceof ReceiptStatusError || error instanceof PrecheckStatusError) {
+        await this.storeKey(account.network, account.accountId, { privateKey: current.toStringDer() });
+      }
+      throw error;
+    }
+
+    await this.setKey(account, newKey);
+    return result;
+  }
+
+  /**
+   * Store the key an account has on the network, e.g. whichever of the stored and pending keys
+   * an interrupted rotation left it with
+   */
+  public async setKey(account: ManagedAccount, key: PrivateKey): Promise<void> {
+    await this.storeKey(account.network, account.accountId, { privateKey: key.toStringDer() });
+    await this.saveAccounts(this.getAllAccounts().map(a =>
+      a.network === account.network && a.accountId === account.accountId
+        ? { ...a, keyType: AccountService.getKeyType(key), publicKey: key.publicKey.toStringDer() }
+        : a));
+  }
+
+  /**
+   * Forget an account and delete its private key
+   */
+  public async removeAccount(network: string, accountId: string): Promise<void> {
+    await this.saveAccounts(this.getAllAccounts().filter(a => !(a.network === network && a.accountId === accountId)));
+    await this.context.secrets.delete(this.secretKey(network, accountId));
+  }
+
+  private getAllAccounts(): ManagedAccount[] {
+    return [...(this.context.globalState.get<ManagedAccount[]>(AccountService.ACCOUNTS_KEY) || [])];
+  }
+
+  private async saveAccounts(accounts: ManagedAccount[]): Promise<void> {
+    await this.context.globalState.update(AccountService.ACCOUNTS_KEY, accounts);
+    this._onDidChangeAccounts.fire();
+  }
+
+  private async getStoredKey(network: string, accountId: string): Promise<StoredAccountKey | undefined> {
+    const stored = await this.context.secrets.get(this.secretKey(network, accountId));
+    if (!stored) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error(`Failed to read the stored key of ${accountId}:`, error);
+      return undefined;
+    }
+  }
+
+  private async storeKey(network: string, accountId: string, key: StoredAccountKey): Promise<void> {
+    await this.context.secrets.store(this.secretKey(network, accountId), JSON.stringify(key));
+  }
+
+  private secretKey(network: string, accountId: string): string {
+    return `${AccountService.SECRET_PREFIX}${network}.${accountId}`;
+  }
+}
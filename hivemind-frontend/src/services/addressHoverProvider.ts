@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { KeyUtils } from '../utils/keyUtils';
+
+/**
+ * Shows the other form of the account or contract ID or EVM address under the cursor: the
+ * long-zero address of a 0.0.x ID, or the ID a long-zero address encodes
+ */
+export class AddressHoverProvider implements vscode.HoverProvider {
+  // Wider than a match so that hashes and version numbers aren't read as addresses and IDs
+  private static readonly HEX_PATTERN = /0x[0-9a-fA-F]+/;
+  private static readonly DOTTED_PATTERN = /\d+(\.\d+)+/;
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const range = document.getWordRangeAtPosition(position, AddressHoverProvider.HEX_PATTERN)
+      || document.getWordRangeAtPosition(position, AddressHoverProvider.DOTTED_PATTERN);
+    if (!range) {
+      return undefined;
+    }
+
+    const text = document.getText(range);
+    // Only 0.0.x IDs: other shards and realms aren't in use, and 1.2.3 is more likely a version
+    if (!/^0x[0-9a-fA-F]{40}$/.test(text) && !/^0\.0\.\d+$/.test(text)) {
+      return undefined;
+    }
+
+    let address;
+    try {
+      address = KeyUtils.parseAddress(text);
+    } catch (error) {
+      return undefined;
+    }
+
+    const markdown = new vscode.MarkdownString();
+    // Command links are trusted so that the toolkit can be opened from the hover
+    markdown.isTrusted = true;
+
+    if (address.entityId && text.startsWith('0x')) {
+      markdown.appendMarkdown(`**${address.entityId}**\n\n`);
+    } else if (address.longZeroAddress) {
+      markdown.appendMarkdown(`**${address.longZeroAddress}**\n\n`);
+    } else {
+      markdown.appendMarkdown(`**${address.evmAddress}**\n\n`);
+      markdown.appendMarkdown('Not a long-zero address: an ECDSA account alias or a CREATE2 contract. Look it up in the toolkit to find its ID.\n\n');
+    }
+
+    const evmAddress = address.longZeroAddress || address.evmAddress!;
+    if (text.startsWith('0x') && text !== evmAddress) {
+      markdown.appendMarkdown(`Checksummed: \`${evmAddress}\`\n\n`);
+    }
+
+    const argument = encodeURIComponent(JSON.stringify([text]));
+    markdown.appendMarkdown(
+      `[Copy as…](command:hivemind.copyAddressAs?${argument}) · [Open in Key & Address Toolkit](command:hivemind.openKeyToolkit?${argument})`
+    );
+
+    return new vscode.Hover(markdown, range);
+  }
+}
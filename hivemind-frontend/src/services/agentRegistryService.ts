@@ -0,0 +1,243 @@
+import { Hbar } from '@hashgraph/sdk';
+import { FormatTypes, Interface } from '@ethersproject/abi';
+import { MirrorContractLog, MirrorNodeService } from './mirrorNodeService';
+import { AbiEntry, AbiUtils } from '../utils/abiUtils';
+import { RegistryUtils } from '../utils/registryUtils';
+
+/**
+ * An agent as recorded in hivemind/contracts/AgentRegistry.sol
+ */
+export interface RegistryAgent {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: string[];
+  /** Owner EVM address */
+  owner: string;
+  /** Owner account ID when the owner is a long-zero address */
+  ownerAccountId?: string;
+  /** Fee per use in tinybars, as a decimal string */
+  feeTinybars: string;
+  /** Fee formatted for display, e.g. "1 ℏ" */
+  fee: string;
+  active: boolean;
+}
+
+/**
+ * A registry event seen through the mirror node
+ */
+export interface RegistryEvent {
+  name: 'AgentRegistered' | 'AgentUpdated' | 'AgentDeactivated';
+  agentId: string;
+  /** Consensus timestamp of the log */
+  timestamp: string;
+}
+
+/**
+ * Reads the agent marketplace from the AgentRegistry contract through the mirror node.
+ *
+ * Agents are cached for a TTL. `pollEvents` reads registry logs emitted since the
+ * last poll and updates only the affected agents.
+ */
+export class AgentRegistryService {
+  // Subset of hivemind/contracts/AgentRegistry.sol
+  static readonly ABI = [
+    'function registerAgent(string agentId, string name, string description, string[] capabilities, uint256 fee)',
+    'function updateAgent(string agentId, string name, string description, string[] capabilities, uint256 fee)',
+    'function deactivateAgent(string agentId)',
+    'function getAllAgentIds() view returns (string[])',
+    'function getAgentDetails(string agentId) view returns (string name, string description, string[] capabilities, address owner, uint256 fee, bool active)',
+    'event AgentRegistered(string agentId, string name, address owner)',
+    'event AgentUpdated(string agentId, string name, address owner)',
+    'event AgentDeactivated(string agentId)'
+  ];
+
+  static readonly DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+  private static readonly registryInterface = new Interface(AgentRegistryService.ABI);
+
+  private readonly address: string;
+  private agents: Map<string, RegistryAgent> | null = null;
+  private loadedAt = 0;
+  private loading: Promise<Map<string, RegistryAgent>> | null = null;
+  // Consensus timestamp of the last registry log already applied
+  private logCursor: string | null = null;
+
+  /**
+   * @param registryAddress Contract ID (0.0.x) or EVM address of the registry
+   */
+  constructor(
+    private mirrorNode: MirrorNodeService,
+    registryAddress: string,
+    private cacheTtlMs: number = AgentRegistryService.DEFAULT_CACHE_TTL_MS
+  ) {
+    this.address = AbiUtils.toEvmAddress(registryAddress);
+  }
+
+  /**
+   * Get the registry EVM address
+   */
+  public getAddress(): string {
+    return this.address;
+  }
+
+  /**
+   * Get the registry contract ID, looking it up on the mirror node for non long-zero addresses
+   */
+  public async getContractId(): Promise<string> {
+    const accountId = RegistryUtils.toLongZeroAccountId(this.address);
+    if (accountId) {
+      return accountId;
+    }
+    return (await this.mirrorNode.getContract(this.address)).contract_id;
+  }
+
+  /**
+   * Get all agents, including inactive ones, from the cache or the registry
+   */
+  public async getAgents(forceRefresh = false): Promise<RegistryAgent[]> {
+    const stale = Date.now() - this.loadedAt > this.cacheTtlMs;
+
+    if (!this.agents || stale || forceRefresh) {
+      this.loading = this.loading || this.load().finally(() => {
+        this.loading = null;
+      });
+      this.agents = await this.loading;
+    }
+
+    return Array.from(this.agents.values());
+  }
+
+  /**
+   * Get one agent, reading it from the registry if it isn't cached
+   */
+  public async getAgent(agentId: string): Promise<RegistryAgent | undefined> {
+    const cached = this.agents?.get(agentId);
+    if (cached) {
+      return cached;
+    }
+
+    const agent = await this.fetchAgent(agentId);
+    return agent.owner === RegistryUtils.ZERO_ADDRESS ? undefined : agent;
+  }
+
+  /**
+   * Drop the cache so the next read goes to the registry
+   */
+  public invalidate(): void {
+    this.agents = null;
+    this.loadedAt = 0;
+  }
+
+  /**
+   * Read registry events emitted since the last poll and apply them to the cache.
+   * Returns the events, oldest first.
+   */
+  public async pollEvents(): Promise<RegistryEvent[]> {
+    if (this.logCursor === null) {
+      await this.initializeCursor();
+      return [];
+    }
+
+    const logs = await this.mirrorNode.getContractLogs(this.address, {
+      order: 'asc',
+      params: { timestamp: `gt:${this.logCursor}` }
+    });
+
+    const events: RegistryEvent[] = [];
+    for (const log of logs) {
+      this.logCursor = log.timestamp;
+      const event = AgentRegistryService.decodeEvent(log);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    // Re-read each changed agent once; the details reflect the latest event
+    if (this.agents) {
+      const changed = Array.from(new Set(events.map(event => event.agentId)));
+      const agents = await Promise.all(changed.map(agentId => this.fetchAgent(agentId)));
+      for (const agent of agents) {
+        this.agents.set(agent.id, agent);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Decode a registry log, or undefined for logs of other events
+   */
+  static decodeEvent(log: Pick<MirrorContractLog, 'topics' | 'data' | 'timestamp'>): RegistryEvent | undefined {
+    try {
+      const parsed = this.registryInterface.parseLog({ topics: log.topics, data: log.data || '0x' });
+      return {
+        name: parsed.name as RegistryEvent['name'],
+        agentId: parsed.args.agentId,
+        timestamp: log.timestamp
+      };
+    } catch (error) {
+      // Not an AgentRegistry event
+      return undefined;
+    }
+  }
+
+  /**
+   * Decode the result of getAgentDetails
+   */
+  static decodeAgentDetails(agentId: string, result: string): RegistryAgent {
+    const details = this.registryInterface.decodeFunctionResult('getAgentDetails', result);
+    const owner = (details.owner as string).toLowerCase();
+    const feeTinybars = details.fee.toString();
+
+    return {
+      id: agentId,
+      name: details.name,
+      description: details.description,
+      capabilities: [...details.capabilities],
+      owner,
+      ownerAccountId: RegistryUtils.toLongZeroAccountId(owner),
+      feeTinybars,
+      fee: Hbar.fromTinybars(feeTinybars).toString(),
+      active: details.active
+    };
+  }
+
+  /**
+   * Get the registry ABI as JSON entries for AbiUtils
+   */
+  static getAbi(): AbiEntry[] {
+    return JSON.parse(this.registryInterface.format(FormatTypes.json) as string);
+  }
+
+  private async load(): Promise<Map<string, RegistryAgent>> {
+    // Start watching from the current log so no event between load and poll is missed
+    if (this.logCursor === null) {
+      await this.initializeCursor();
+    }
+
+    const idsResult = await this.mirrorNode.callContract(
+      this.address,
+      RegistryUtils.encodeFunctionData(AgentRegistryService.registryInterface, 'getAllAgentIds')
+    );
+    const [agentIds] = AgentRegistryService.registryInterface.decodeFunctionResult('getAllAgentIds', idsResult);
+
+    const agents = await Promise.all((agentIds as string[]).map(agentId => this.fetchAgent(agentId)));
+    this.loadedAt = Date.now();
+
+    return new Map(agents.map(agent => [agent.id, agent]));
+  }
+
+  private async fetchAgent(agentId: string): Promise<RegistryAgent> {
+    const result = await this.mirrorNode.callContract(
+      this.address,
+      RegistryUtils.encodeFunctionData(AgentRegistryService.registryInterface, 'getAgentDetails', [agentId])
+    );
+    return AgentRegistryService.decodeAgentDetails(agentId, result);
+  }
+
+  private async initializeCursor(): Promise<void> {
+    const [latest] = await this.mirrorNode.getContractLogs(this.address, { order: 'desc', limit: 1 });
+    this.logCursor = latest ? latest.timestamp : '0';
+  }
+}
@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import axios, { AxiosInstance } from 'axios';
+import { CompilerSettings } from '../utils/manifestUtils';
+import { AgentPayment } from '../utils/agentPaymentUtils';
 
 export class ApiService {
+  static readonly DEFAULT_COMPILER_SETTINGS: CompilerSettings = { optimize: true, optimizerRuns: 200 };
+
   private client: AxiosInstance;
   private baseUrl: string;
 
@@ -68,10 +72,16 @@ export class ApiService {
   /**
    * Compile a Solidity contract
    */
-  public async compileContract(code: string, contractName?: string): Promise<any> {
+  public async compileContract(
+    code: string,
+    contractName?: string,
+    settings: CompilerSettings = ApiService.DEFAULT_COMPILER_SETTINGS
+  ): Promise<any> {
     const response = await this.client.post('/api/v1/compile', {
       code,
-      contract_name: contractName
+      contract_name: contractName,
+      optimize: settings.optimize,
+      optimizer_runs: settings.optimizerRuns
     });
     
     return response.data;
@@ -92,9 +102,10 @@ export class ApiService {
   /**
    * Run a security audit on Solidity code
    */
-  public async auditContract(code: string): Promise<any> {
+  public async auditContract(code: string, payment?: AgentPayment): Promise<any> {
     const response = await this.client.post('/api/v1/audit', {
-      code
+      code,
+      ...ApiService.getPaymentFields(payment)
     });
     
     return response.data;
@@ -103,11 +114,12 @@ export class ApiService {
   /**
    * Generate tests for a smart contract
    */
-  public async generateTests(code: string): Promise<any> {
+  public async generateTests(code: string, payment?: AgentPayment): Promise<any> {
     const response = await this.client.post('/api/v1/analyze', {
       code,
       language: 'solidity',
-      generate_tests: true
+      generate_tests: true,
+      ...ApiService.getPaymentFields(payment)
     });
     
     return response.data;
@@ -116,9 +128,14 @@ export class ApiService {
   /**
    * Establish collaboration between agents for contract analysis
    */
-  public async collaborateOnContract(contractAddress: string): Promise<any> {
+  public async collaborateOnContract(
+    contractAddress: string,
+    topic?: { topicId: string; jobId: string }
+  ): Promise<any> {
     const response = await this.client.post('/api/v1/collaborate', {
-      contract_address: contractAddress
+      contract_address: contractAddress,
+      topic_id: topic?.topicId,
+      job_id: topic?.jobId
     });
     
     return response.data;
@@ -191,4 +208,17 @@ export class ApiService {
       throw error;
     }
   }
+
+  /**
+   * Request fields identifying the agent and the fee payment behind a request
+   */
+  private static getPaymentFields(payment?: AgentPayment): any {
+    if (!payment) {
+      return {};
+    }
+    return {
+      agent_id: payment.agentId,
+      payment_transaction_id: payment.transactionId
+    };
+  }
 }
@@ -0,0 +1,330 @@
+import { PublicKey } from '@hashgraph/sdk';
+
+export type CollaborationMessageType = 'request' | 'claim' | 'progress' | 'result' | 'dispute';
+
+/**
+ * A job posted by the requester; always the first message of a collaboration topic
+ */
+export interface CollaborationRequestPayload {
+  title: string;
+  capability: string;
+  description: string;
+  contractAddress?: string;
+  /** Agents invited to claim the job; any agent may claim it when empty */
+  agentIds?: string[];
+}
+
+export interface CollaborationClaimPayload {
+  agentId: string;
+}
+
+export interface CollaborationProgressPayload {
+  agentId: string;
+  note: string;
+  percent?: number;
+}
+
+export interface CollaborationFinding {
+  title: string;
+  severity: string;
+  description?: string;
+}
+
+export interface CollaborationResultPayload {
+  agentId: string;
+  summary: string;
+  findings?: CollaborationFinding[];
+}
+
+export interface CollaborationDisputePayload {
+  reason: string;
+  /** Sequence number of the disputed result message */
+  resultSequenceNumber?: number;
+}
+
+export interface CollaborationPayloads {
+  request: CollaborationRequestPayload;
+  claim: CollaborationClaimPayload;
+  progress: CollaborationProgressPayload;
+  result: CollaborationResultPayload;
+  dispute: CollaborationDisputePayload;
+}
+
+/**
+ * The participant who signed a message
+ */
+export interface CollaborationSender {
+  accountId: string;
+  /** DER-encoded public key the signature is checked against */
+  publicKey: string;
+}
+
+/**
+ * A signed collaboration message as submitted to the job topic
+ */
+export interface CollaborationEnvelope<T extends CollaborationMessageType = CollaborationMessageType> {
+  protocol: string;
+  version: number;
+  type: T;
+  jobId: string;
+  sender: CollaborationSender;
+  /** ISO time the sender created the message; consensus time is authoritative */
+  timestamp: string;
+  payload: CollaborationPayloads[T];
+  /** Hex signature over the canonical JSON of every other field */
+  signature: string;
+}
+
+/**
+ * A topic message after verification
+ */
+export interface CollaborationMessage {
+  sequenceNumber: number;
+  consensusTimestamp: string;
+  envelope: CollaborationEnvelope;
+  /** The signature is valid and the key belongs to the sender account */
+  verified: boolean;
+  /** Why the message was not applied to the job */
+  rejected?: string;
+}
+
+export type CollaborationStatus = 'open' | 'claimed' | 'completed' | 'disputed';
+
+/**
+ * Job state rebuilt from the messages of its topic
+ */
+export interface CollaborationJob {
+  jobId: string;
+  topicId: string;
+  status: CollaborationStatus;
+  request?: CollaborationRequestPayload;
+  requester?: CollaborationSender;
+  claimant?: CollaborationSender & { agentId: string };
+  messages: CollaborationMessage[];
+  /** Sequence number of the last topic message read */
+  lastSequenceNumber: number;
+}
+
+/**
+ * The HiveMind collaboration protocol over HCS.
+ *
+ * Each job has its own topic. The requester posts a `request`, one agent `claim`s it and
+ * posts `progress` and a `result`, and the requester may `dispute` the result, after which
+ * the claimant can post a new one. Every envelope is signed with the sender's key; messages
+ * with bad signatures or from the wrong participant are kept for display but not applied.
+ */
+export class CollaborationProtocol {
+  static readonly PROTOCOL = 'hivemind-collab';
+  static readonly VERSION = 1;
+  static readonly TOPIC_MEMO_PREFIX = `${CollaborationProtocol.PROTOCOL}:v${CollaborationProtocol.VERSION}:`;
+
+  private static readonly MESSAGE_TYPES: CollaborationMessageType[] = ['request', 'claim', 'progress', 'result', 'dispute'];
+
+  /**
+   * Create the empty state of a job
+   */
+  static createJob(jobId: string, topicId: string): CollaborationJob {
+    return { jobId, topicId, status: 'open', messages: [], lastSequenceNumber: 0 };
+  }
+
+  /**
+   * Create and sign an envelope
+   *
+   * @param sign Signs bytes with the private key of `sender.publicKey`
+   */
+  static async createEnvelope<T extends CollaborationMessageType>(
+    type: T,
+    jobId: string,
+    sender: CollaborationSender,
+    payload: CollaborationPayloads[T],
+    sign: (message: Uint8Array) => Promise<Uint8Array>
+  ): Promise<CollaborationEnvelope<T>> {
+    const unsigned = {
+      protocol: CollaborationProtocol.PROTOCOL,
+      version: CollaborationProtocol.VERSION,
+      type,
+      jobId,
+      sender,
+      timestamp: new Date().toISOString(),
+      payload
+    };
+    const signature = await sign(CollaborationProtocol.getSigningBytes(unsigned));
+
+    return { ...unsigned, signature: Buffer.from(signature).toString('hex') };
+  }
+
+  /**
+   * Get the bytes a signature covers: the canonical JSON of the envelope without its signature
+   */
+  static getSigningBytes(envelope: Omit<CollaborationEnvelope, 'signature'> & { signature?: string }): Uint8Array {
+    const { signature, ...unsigned } = envelope;
+    return Buffer.from(CollaborationProtocol.canonicalize(unsigned), 'utf8');
+  }
+
+  /**
+   * JSON with object keys sorted, so signer and verifier serialize identically
+   */
+  static canonicalize(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => CollaborationProtocol.canonicalize(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${CollaborationProtocol.canonicalize(value[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Check the envelope signature against the sender's public key
+   */
+  static verifySignature(envelope: CollaborationEnvelope): boolean {
+    try {
+      return PublicKey.fromString(envelope.sender.publicKey).verify(
+        CollaborationProtocol.getSigningBytes(envelope),
+        Buffer.from(envelope.signature, 'hex')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Parse a topic message, or undefined if it isn't a collaboration envelope of a supported version
+   */
+  static parse(text: string): CollaborationEnvelope | undefined {
+    let envelope: any;
+    try {
+      envelope = JSON.parse(text);
+    } catch (error) {
+      return undefined;
+    }
+
+    const valid = envelope
+      && envelope.protocol === CollaborationProtocol.PROTOCOL
+      && envelope.version === CollaborationProtocol.VERSION
+      && CollaborationProtocol.MESSAGE_TYPES.includes(envelope.type)
+      && typeof envelope.jobId === 'string'
+      && typeof envelope.sender?.accountId === 'string'
+      && typeof envelope.sender?.publicKey === 'string'
+      && typeof envelope.signature === 'string'
+      && envelope.payload && typeof envelope.payload === 'object';
+
+    return valid ? envelope : undefined;
+  }
+
+  /**
+   * Verify a message and apply it to the job. The message is recorded either way.
+   *
+   * @param keyMatchesAccount Whether the sender's public key is the key of the sender account
+   */
+  static apply(
+    job: CollaborationJob,
+    envelope: CollaborationEnvelope,
+    sequenceNumber: number,
+    consensusTimestamp: string,
+    keyMatchesAccount = true
+  ): CollaborationMessage {
+    const message: CollaborationMessage = {
+      sequenceNumber,
+      consensusTimestamp,
+      envelope,
+      verified: keyMatchesAccount && CollaborationProtocol.verifySignature(envelope)
+    };
+
+    job.lastSequenceNumber = Math.max(job.lastSequenceNumber, sequenceNumber);
+    job.messages.push(message);
+
+    if (!keyMatchesAccount) {
+      message.rejected = `Key does not belong to ${envelope.sender.accountId}`;
+    } else if (!message.verified) {
+      message.rejected = 'Invalid signature';
+    } else if (envelope.jobId !== job.jobId) {
+      message.rejected = `Message is for job ${envelope.jobId}`;
+    } else {
+      message.rejected = CollaborationProtocol.transition(job, envelope);
+    }
+
+    return message;
+  }
+
+  /**
+   * Whether two senders are the same participant
+   */
+  static isSameSender(a: CollaborationSender | undefined, b: CollaborationSender | undefined): boolean {
+    return !!a && !!b && a.accountId === b.accountId && a.publicKey === b.publicKey;
+  }
+
+  /**
+   * Get the result messages applied to the job, oldest first
+   */
+  static getResults(job: CollaborationJob): CollaborationMessage[] {
+    return job.messages.filter(message => message.envelope.type === 'result' && !message.rejected);
+  }
+
+  /**
+   * Apply a verified message to the job state; returns why it was rejected, if it was
+   */
+  private static transition(job: CollaborationJob, envelope: CollaborationEnvelope): string | undefined {
+    if (envelope.type === 'request') {
+      if (job.request) {
+        return 'The job already has a request';
+      }
+      job.request = envelope.payload as CollaborationRequestPayload;
+      job.requester = envelope.sender;
+      job.status = 'open';
+      return undefined;
+    }
+
+    if (!job.request) {
+      return 'No request has been posted yet';
+    }
+
+    switch (envelope.type) {
+      case 'claim': {
+        const { agentId } = envelope.payload as CollaborationClaimPayload;
+        const invited = job.request.agentIds || [];
+        if (job.status !== 'open') {
+          return 'The job has already been claimed';
+        }
+        if (invited.length > 0 && !invited.includes(agentId)) {
+          return `Agent ${agentId} was not invited to this job`;
+        }
+        job.claimant = { ...envelope.sender, agentId };
+        job.status = 'claimed';
+        return undefined;
+      }
+
+      case 'progress':
+        if (!CollaborationProtocol.isSameSender(envelope.sender, job.claimant)) {
+          return 'Only the agent that claimed the job can report progress';
+        }
+        return job.status === 'claimed' || job.status === 'disputed' ? undefined : `Progress is not expected on a ${job.status} job`;
+
+      case 'result':
+        if (!CollaborationProtocol.isSameSender(envelope.sender, job.claimant)) {
+          return 'Only the agent that claimed the job can post a result';
+        }
+        if (job.status !== 'claimed' && job.status !== 'disputed') {
+          return `A result is not expected on a ${job.status} job`;
+        }
+        job.status = 'completed';
+        return undefined;
+
+      case 'dispute':
+        if (!CollaborationProtocol.isSameSender(envelope.sender, job.requester)) {
+          return 'Only the requester can dispute a result';
+        }
+        if (job.status !== 'completed') {
+          return 'There is no result to dispute';
+        }
+        job.status = 'disputed';
+        return undefined;
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,352 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { PublicKey } from '@hashgraph/sdk';
+import { HederaService } from './hederaService';
+import { ApiService } from './apiService';
+import { TopicMessageAssembler } from './topicMessageAssembler';
+import {
+  CollaborationJob,
+  CollaborationMessageType,
+  CollaborationPayloads,
+  CollaborationProtocol,
+  CollaborationRequestPayload,
+  CollaborationSender
+} from './collaborationProtocol';
+
+/**
+ * A collaboration topic followed in this VS Code profile
+ */
+interface CollaborationRecord {
+  network: string;
+  topicId: string;
+  jobId: string;
+  addedAt: string;
+}
+
+/**
+ * The operator's part in a job
+ */
+export type CollaborationRole = 'requester' | 'claimant' | 'observer';
+
+/**
+ * Runs HiveMind collaborations over HCS: one topic per job, polled through the mirror node.
+ *
+ * Followed topics are kept in global state per network. Job state is rebuilt from the
+ * topic messages each session, so every participant sees the same history.
+ */
+export class CollaborationService {
+  private static readonly RECORDS_KEY = 'hivemind.collaborations';
+
+  private jobs = new Map<string, CollaborationJob>();
+  // Chunks of large envelopes waiting for the rest of their message, per topic
+  private assemblers = new Map<string, TopicMessageAssembler>();
+  // Account ID to the raw public key the mirror node reports, or null for key lists
+  private accountKeys = new Map<string, string | null>();
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+
+  private _onDidChangeJobs = new vscode.EventEmitter<void>();
+  readonly onDidChangeJobs: vscode.Event<void> = this._onDidChangeJobs.event;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private hederaService: HederaService,
+    private apiService: ApiService
+  ) {
+    this.context.subscriptions.push(
+      this._onDidChangeJobs,
+      { dispose: () => this.stopWatcher() },
+      this.hederaService.onDidChangeConnection(connected => {
+        if (connected) {
+          this.load();
+        } else {
+          this.stopWatcher();
+          this.jobs.clear();
+          this._onDidChangeJobs.fire();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('hivemind.collaborationPollInterval') && this.hederaService.isConnected()) {
+          this.startWatcher();
+        }
+      })
+    );
+
+    if (this.hederaService.isConnected()) {
+      this.load();
+    }
+  }
+
+  /**
+   * Get the followed jobs on the current network, newest first
+   */
+  public getJobs(): CollaborationJob[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+
+  /**
+   * Get a followed job by its topic ID
+   */
+  public getJob(topicId: string): CollaborationJob | undefined {
+    return this.jobs.get(topicId);
+  }
+
+  /**
+   * Get the operator's part in a job
+   */
+  public getRole(job: CollaborationJob): CollaborationRole {
+    const sender = this.getSender();
+    if (CollaborationProtocol.isSameSender(sender, job.requester)) {
+      return 'requester';
+    }
+    if (CollaborationProtocol.isSameSender(sender, job.claimant)) {
+      return 'claimant';
+    }
+    return 'observer';
+  }
+
+  /**
+   * Create a topic for a new job, post the request and follow the topic
+   */
+  public async startCollaboration(request: CollaborationRequestPayload): Promise<CollaborationJob> {
+    const jobId = randomBytes(8).toString('hex');
+    const memo = `${CollaborationProtocol.TOPIC_MEMO_PREFIX}${jobId}`;
+    const { topicId, transactionId } = await this.hederaService.createTopic(memo);
+
+    vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+      id: transactionId,
+      type: 'TOPIC_CREATE',
+      timestamp: new Date(),
+      status: 'SUCCESS',
+      details: { topicId, memo }
+    });
+
+    const job = await this.follow(topicId, jobId);
+
+    await this.send(job, 'request', request);
+
+    // Let the HiveMind backend agents know where to pick the job up
+    if (request.contractAddress) {
+      try {
+        await this.apiService.collaborateOnContract(request.contractAddress, { topicId, jobId });
+      } catch (error) {
+        console.error('Failed to notify the backend of the collaboration:', error);
+      }
+    }
+
+    return job;
+  }
+
+  /**
+   * Follow an existing collaboration topic, e.g. one shared by a requester
+   */
+  public async joinCollaboration(topicId: string): Promise<CollaborationJob> {
+    const existing = this.jobs.get(topicId);
+    if (existing) {
+      return existing;
+    }
+
+    // A large request is chunked, and other messages may land between its chunks
+    const [first] = await this.hederaService.getMirrorNode().getTopicMessages(topicId, { limit: 1 });
+    const firstKey = first && TopicMessageAssembler.getChunkKey(first);
+    const leading = firstKey
+      ? await this.hederaService.getMirrorNode().getTopicMessages(topicId, { limit: first.chunk_info!.total * 5 })
+      : first ? [first] : [];
+    const request = new TopicMessageAssembler().add(leading)
+      .find(message => !firstKey || message.chunks?.initialTransactionId === firstKey);
+    const envelope = request && CollaborationProtocol.parse(request.text);
+    if (!envelope || envelope.type !== 'request') {
+      throw new Error(`Topic ${topicId} does not start with a HiveMind collaboration request`);
+    }
+
+    const job = await this.follow(topicId, envelope.jobId);
+    await this.pollJob(job);
+    this._onDidChangeJobs.fire();
+    return job;
+  }
+
+  /**
+   * Stop following a job. The topic and its messages stay on the network.
+   */
+  public async stopFollowing(topicId: string): Promise<void> {
+    this.jobs.delete(topicId);
+    this.assemblers.delete(topicId);
+    const records = this.getRecords().filter(record =>
+      !(record.network === this.hederaService.getCurrentNetwork() && record.topicId === topicId));
+    await this.context.globalState.update(CollaborationService.RECORDS_KEY, records);
+    this._onDidChangeJobs.fire();
+  }
+
+  /**
+   * Sign a message with the operator key and submit it to the job topic
+   */
+  public async send<T extends CollaborationMessageType>(
+    job: CollaborationJob,
+    type: T,
+    payload: CollaborationPayloads[T]
+  ): Promise<string> {
+    const envelope = await CollaborationProtocol.createEnvelope(
+      type,
+      job.jobId,
+      this.getSender(),
+      payload,
+      message => this.hederaService.signMessage(message)
+    );
+    const transactionId = await this.hederaService.submitMessage(job.topicId, envelope);
+
+    vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+      id: transactionId,
+      type: 'TOPIC_MESSAGE',
+      timestamp: new Date(),
+      status: 'SUCCESS',
+      details: {
+        topicId: job.topicId,
+        memo: `Collaboration ${type} for job ${job.jobId}`
+      }
+    });
+
+    // The mirror node lags consensus by a few seconds; the watcher picks the message up
+    await this.pollJob(job).catch(error => console.error('Failed to read collaboration messages:', error));
+    this._onDidChangeJobs.fire();
+    return transactionId;
+  }
+
+  private getSender(): CollaborationSender {
+    const accountId = this.hederaService.getAccountId();
+    const publicKey = this.hederaService.getOperatorPublicKey();
+    if (!accountId || !publicKey) {
+      throw new Error('Not connected to Hedera');
+    }
+    return { accountId, publicKey };
+  }
+
+  private getRecords(): CollaborationRecord[] {
+    return [...(this.context.globalState.get<CollaborationRecord[]>(CollaborationService.RECORDS_KEY) || [])];
+  }
+
+  private async follow(topicId: string, jobId: string): Promise<CollaborationJob> {
+    const job = CollaborationProtocol.createJob(jobId, topicId);
+    this.jobs.set(topicId, job);
+
+    const records = this.getRecords();
+    records.push({ network: this.hederaService.getCurrentNetwork(), topicId, jobId, addedAt: new Date().toISOString() });
+    await this.context.globalState.update(CollaborationService.RECORDS_KEY, records);
+
+    this.startWatcher();
+    return job;
+  }
+
+  /**
+   * Rebuild the followed jobs of the current network from their topics
+   */
+  private load(): void {
+    const network = this.hederaService.getCurrentNetwork();
+    this.jobs.clear();
+    this.assemblers.clear();
+    this.accountKeys.clear();
+
+    for (const record of this.getRecords().filter(r => r.network === network)) {
+      this.jobs.set(record.topicId, CollaborationProtocol.createJob(record.jobId, record.topicId));
+    }
+
+    this._onDidChangeJobs.fire();
+    this.startWatcher();
+    this.pollAll();
+  }
+
+  /**
+   * Read new messages of every followed job
+   */
+  private async pollAll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    let changed = false;
+    try {
+      for (const job of this.jobs.values()) {
+        try {
+          changed = (await this.pollJob(job)) || changed;
+        } catch (error) {
+          console.error(`Failed to read collaboration topic ${job.topicId}:`, error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    if (changed) {
+      this._onDidChangeJobs.fire();
+    }
+  }
+
+  /**
+   * Read messages after the job's last sequence number; returns whether any were read.
+   * Chunked envelopes are applied once all their chunks are read.
+   */
+  private async pollJob(job: CollaborationJob): Promise<boolean> {
+    const received = await this.hederaService.getMirrorNode().getTopicMessages(job.topicId, {
+      afterSequenceNumber: job.lastSequenceNumber
+    });
+    if (received.length === 0) {
+      return false;
+    }
+
+    // Assemble into a copy so the batch can be read again if a key lookup fails
+    const assembler = (this.assemblers.get(job.topicId) || new TopicMessageAssembler()).clone();
+    const envelopes = assembler.add(received)
+      .map(message => ({ message, envelope: CollaborationProtocol.parse(message.text) }))
+      .filter(({ envelope }) => envelope !== undefined);
+
+    // Lookups throw before anything is applied, so the whole batch is retried next poll
+    const keyMatches: boolean[] = [];
+    for (const { envelope } of envelopes) {
+      keyMatches.push(await this.isAccountKey(envelope!.sender));
+    }
+
+    envelopes.forEach(({ message, envelope }, index) => {
+      CollaborationProtocol.apply(job, envelope!, message.sequenceNumber, message.consensusTimestamp, keyMatches[index]);
+    });
+
+    this.assemblers.set(job.topicId, assembler);
+    job.lastSequenceNumber = Math.max(job.lastSequenceNumber, received[received.length - 1].sequence_number);
+    return true;
+  }
+
+  /**
+   * Check the sender's public key is the key of the sender account on the mirror node.
+   * Accounts with key lists or threshold keys can't be matched to a single key.
+   */
+  private async isAccountKey(sender: CollaborationSender): Promise<boolean> {
+    if (!this.accountKeys.has(sender.accountId)) {
+      const account = await this.hederaService.getMirrorNode().getAccount(sender.accountId);
+      const key = account.key && account.key._type !== 'ProtobufEncoded' ? account.key.key.toLowerCase() : null;
+      this.accountKeys.set(sender.accountId, key);
+    }
+
+    try {
+      return PublicKey.fromString(sender.publicKey).toStringRaw() === this.accountKeys.get(sender.accountId);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private startWatcher(): void {
+    this.stopWatcher();
+
+    const interval = vscode.workspace.getConfiguration('hivemind').get<number>('collaborationPollInterval', 5);
+    if (!interval || interval <= 0 || this.jobs.size === 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.pollAll(), interval * 1000);
+  }
+
+  private stopWatcher(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
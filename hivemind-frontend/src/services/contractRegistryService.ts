@@ -0,0 +1,237 @@
+import * as crypto from 'crypto';
+import { Interface } from '@ethersproject/abi';
+import { MirrorNodeService } from './mirrorNodeService';
+import { TopicMessage, TopicMessageAssembler } from './topicMessageAssembler';
+import { AbiEntry, AbiUtils } from '../utils/abiUtils';
+import { RegistryUtils } from '../utils/registryUtils';
+
+/**
+ * Where deployed contracts are registered: an HCS topic or a ContractRegistry contract
+ */
+export type ContractRegistryLocation =
+  | { kind: 'topic'; topicId: string }
+  | { kind: 'contract'; address: string };
+
+/**
+ * A contract as recorded in the registry
+ */
+export interface ContractRegistration {
+  contractId: string;
+  name: string;
+  /** SHA-256 hex of the ABI JSON */
+  abiHash: string;
+  /** SHA-256 hex of the Solidity source */
+  sourceHash: string;
+  /** Account ID of the registrant, or its EVM address when it is not a long-zero address */
+  owner: string;
+  network: string;
+  /** Consensus timestamp of the registration */
+  registeredAt: string;
+}
+
+/**
+ * Registry record sent to a topic; keys are short to keep the message in one chunk
+ */
+export interface ContractRecordMessage {
+  t: 'hivemind.contract';
+  id: string;
+  n: string;
+  abi: string;
+  src: string;
+  own: string;
+  net: string;
+}
+
+/**
+ * ABI sent to a topic once, then referenced by hash from every record using it
+ */
+export interface AbiMessage {
+  t: 'hivemind.abi';
+  h: string;
+  abi: AbiEntry[];
+}
+
+/**
+ * Resolves contract registrations and their ABIs through the mirror node.
+ *
+ * A topic registry is read from the start once and then incrementally. The first record
+ * for a contract wins; later records only replace it when paid for by the same owner, and
+ * records whose owner isn't the paying account are ignored. ABIs are only accepted when
+ * they match their hash.
+ */
+export class ContractRegistryService {
+  // Subset of hivemind/contracts/ContractRegistry.sol
+  static readonly ABI = [
+    'function registerContract(address contractAddress, string name, bytes32 abiHash, bytes32 sourceHash, string network)',
+    'function publishAbi(string abi) returns (bytes32)',
+    'function hasAbi(bytes32 abiHash) view returns (bool)',
+    'function getAbi(bytes32 abiHash) view returns (string)',
+    'function getContract(address contractAddress) view returns (string name, bytes32 abiHash, bytes32 sourceHash, address owner, string network, uint256 registeredAt)'
+  ];
+
+  static readonly registryInterface = new Interface(ContractRegistryService.ABI);
+
+  // Topic registry state, built up as messages are read
+  private registrations = new Map<string, ContractRegistration>();
+  private abis = new Map<string, AbiEntry[]>();
+  private assembler = new TopicMessageAssembler();
+  private cursor = 0;
+  private syncing: Promise<void> | null = null;
+
+  constructor(
+    private mirrorNode: MirrorNodeService,
+    private location: ContractRegistryLocation
+  ) {}
+
+  /**
+   * Get where contracts are registered
+   */
+  public getLocation(): ContractRegistryLocation {
+    return this.location;
+  }
+
+  /**
+   * Get the registration of a contract, or undefined if it isn't registered
+   *
+   * @param contractId Contract ID (0.0.x)
+   */
+  public async getRegistration(contractId: string): Promise<ContractRegistration | undefined> {
+    if (this.location.kind === 'topic') {
+      await this.sync();
+      return this.registrations.get(contractId);
+    }
+
+    const result = await this.mirrorNode.callContract(
+      this.location.address,
+      RegistryUtils.encodeFunctionData(ContractRegistryService.registryInterface, 'getContract', [AbiUtils.toEvmAddress(contractId)])
+    );
+    return ContractRegistryService.decodeContractDetails(contractId, result);
+  }
+
+  /**
+   * Get a published ABI by hash, or undefined if it isn't published
+   */
+  public async getAbi(abiHash: string): Promise<AbiEntry[] | undefined> {
+    if (this.location.kind === 'topic') {
+      await this.sync();
+      return this.abis.get(abiHash);
+    }
+
+    const result = await this.mirrorNode.callContract(
+      this.location.address,
+      RegistryUtils.encodeFunctionData(ContractRegistryService.registryInterface, 'getAbi', [`0x${abiHash}`])
+    );
+    const [json] = ContractRegistryService.registryInterface.decodeFunctionResult('getAbi', result);
+    if (!json) {
+      return undefined;
+    }
+
+    // The contract checks the hash on publish, but the mirror node is trusted no further than the topic
+    const abi = JSON.parse(json);
+    return ContractRegistryService.hashAbi(abi) === abiHash ? abi : undefined;
+  }
+
+  /**
+   * Read topic messages sent since the last sync
+   */
+  private async sync(): Promise<void> {
+    if (this.location.kind !== 'topic') {
+      return;
+    }
+
+    const topicId = this.location.topicId;
+    this.syncing = this.syncing || (async () => {
+      const messages = await this.mirrorNode.getTopicMessages(topicId, { afterSequenceNumber: this.cursor });
+      for (const message of this.assembler.add(messages)) {
+        this.apply(message);
+      }
+      if (messages.length > 0) {
+        this.cursor = messages[messages.length - 1].sequence_number;
+      }
+    })().finally(() => {
+      this.syncing = null;
+    });
+
+    await this.syncing;
+  }
+
+  private apply(message: TopicMessage): void {
+    const json = message.json;
+
+    if (json?.t === 'hivemind.abi' && Array.isArray(json.abi)) {
+      if (ContractRegistryService.hashAbi(json.abi) === json.h) {
+        this.abis.set(json.h, json.abi);
+      }
+      return;
+    }
+
+    if (json?.t !== 'hivemind.contract' || typeof json.id !== 'string' || json.own !== message.payerAccountId) {
+      return;
+    }
+
+    const existing = this.registrations.get(json.id);
+    if (existing && existing.owner !== json.own) {
+      return;
+    }
+
+    this.registrations.set(json.id, {
+      contractId: json.id,
+      name: String(json.n || ''),
+      abiHash: String(json.abi || ''),
+      sourceHash: String(json.src || ''),
+      owner: json.own,
+      network: String(json.net || ''),
+      registeredAt: message.consensusTimestamp
+    });
+  }
+
+  /**
+   * Hash an ABI as it is published: SHA-256 hex of its JSON
+   */
+  static hashAbi(abi: AbiEntry[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(abi), 'utf8').digest('hex');
+  }
+
+  /**
+   * Create the topic record of a registration
+   */
+  static createRecordMessage(registration: Omit<ContractRegistration, 'registeredAt'>): ContractRecordMessage {
+    return {
+      t: 'hivemind.contract',
+      id: registration.contractId,
+      n: registration.name,
+      abi: registration.abiHash,
+      src: registration.sourceHash,
+      own: registration.owner,
+      net: registration.network
+    };
+  }
+
+  /**
+   * Create the topic message publishing an ABI
+   */
+  static createAbiMessage(abi: AbiEntry[]): AbiMessage {
+    return { t: 'hivemind.abi', h: this.hashAbi(abi), abi };
+  }
+
+  /**
+   * Decode the result of getContract, or undefined when the contract isn't registered
+   */
+  static decodeContractDetails(contractId: string, result: string): ContractRegistration | undefined {
+    const details = this.registryInterface.decodeFunctionResult('getContract', result);
+    const owner = (details.owner as string).toLowerCase();
+    if (owner === RegistryUtils.ZERO_ADDRESS) {
+      return undefined;
+    }
+
+    return {
+      contractId,
+      name: details.name,
+      abiHash: (details.abiHash as string).slice(2),
+      sourceHash: (details.sourceHash as string).slice(2),
+      owner: RegistryUtils.toLongZeroAccountId(owner) || owner,
+      network: details.network,
+      registeredAt: `${details.registeredAt.toString()}.000000000`
+    };
+  }
+}
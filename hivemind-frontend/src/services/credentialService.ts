@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+
+/**
+ * Operator credentials for a single operator profile
+ */
+export interface OperatorCredentials {
+  profile: string;
+  accountId: string;
+  privateKey: string;
+}
+
+/**
+ * Stores Hedera operator credentials in VS Code SecretStorage.
+ *
+ * Keys are kept out of settings.json so they never travel through Settings Sync
+ * or end up committed with workspace settings. Credentials are held per operator
+ * profile; profiles created before named profiles existed are named after their network.
+ */
+export class CredentialService {
+  private static readonly SECRET_PREFIX = 'hivemind.operator.';
+  private static readonly PROFILES_KEY = 'hivemind.operatorNetworks';
+  private static readonly LEGACY_KEY_SETTING = 'hederaPrivateKey';
+
+  private _onDidChangeCredentials = new vscode.EventEmitter<string>();
+  readonly onDidChangeCredentials: vscode.Event<string> = this._onDidChangeCredentials.event;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.context.subscriptions.push(
+      this._onDidChangeCredentials,
+      this.context.secrets.onDidChange(event => {
+        if (event.key.startsWith(CredentialService.SECRET_PREFIX)) {
+          this._onDidChangeCredentials.fire(event.key.substring(CredentialService.SECRET_PREFIX.length));
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the operator credentials stored for a profile
+   */
+  public async getCredentials(profile: string): Promise<OperatorCredentials | undefined> {
+    const stored = await this.context.secrets.get(this.secretKey(profile));
+    if (!stored) {
+      return undefined;
+    }
+
+    try {
+      const { accountId, privateKey } = JSON.parse(stored);
+      return { profile, accountId, privateKey };
+    } catch (error) {
+      console.error(`Failed to read stored credentials for ${profile}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store operator credentials for a profile, replacing any existing ones
+   */
+  public async storeCredentials(profile: string, accountId: string, privateKey: string): Promise<void> {
+    await this.context.secrets.store(
+      this.secretKey(profile),
+      JSON.stringify({ accountId, privateKey })
+    );
+
+    const profiles = this.getStoredProfiles();
+    if (!profiles.includes(profile)) {
+      await this.context.globalState.update(CredentialService.PROFILES_KEY, [...profiles, profile]);
+    }
+  }
+
+  /**
+   * Remove the operator credentials stored for a profile
+   */
+  public async deleteCredentials(profile: string): Promise<void> {
+    await this.context.secrets.delete(this.secretKey(profile));
+    await this.context.globalState.update(
+      CredentialService.PROFILES_KEY,
+      this.getStoredProfiles().filter(p => p !== profile)
+    );
+  }
+
+  /**
+   * Get the profiles that have stored operator credentials.
+   * SecretStorage cannot enumerate its keys, so the list is kept in global state.
+   */
+  public getStoredProfiles(): string[] {
+    return this.context.globalState.get<string[]>(CredentialService.PROFILES_KEY) || [];
+  }
+
+  /**
+   * Move a plaintext private key from settings into SecretStorage and scrub it
+   * from every configuration scope it was written to. The key is stored under a
+   * profile named after the configured network.
+   *
+   * Returns true if a key was migrated.
+   */
+  public async migrateFromSettings(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('hivemind');
+    const inspected = config.inspect<string>(CredentialService.LEGACY_KEY_SETTING);
+
+    if (!inspected) {
+      return false;
+    }
+
+    const privateKey = inspected.workspaceFolderValue || inspected.workspaceValue || inspected.globalValue;
+    let migrated = false;
+
+    if (privateKey) {
+      const accountId = config.get<string>('hederaAccountId') || '';
+      const network = config.get<string>('hederaNetwork') || config.get<string>('defaultNetwork') || 'testnet';
+
+      // Never overwrite a key the user already stored securely
+      if (!(await this.getCredentials(network))) {
+        await this.storeCredentials(network, accountId, privateKey);
+        migrated = true;
+      }
+    }
+
+    // Scrub the plaintext key from all scopes, even if it was already migrated
+    const scopes: [string | undefined, vscode.ConfigurationTarget][] = [
+      [inspected.globalValue, vscode.ConfigurationTarget.Global],
+      [inspected.workspaceValue, vscode.ConfigurationTarget.Workspace],
+      [inspected.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder]
+    ];
+
+    for (const [value, target] of scopes) {
+      if (value === undefined) {
+        continue;
+      }
+
+      try {
+        await config.update(CredentialService.LEGACY_KEY_SETTING, undefined, target);
+      } catch (error) {
+        console.error('Failed to remove plaintext private key from settings:', error);
+      }
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Prompt for operator credentials and store them for a profile
+   */
+  public async promptForCredentials(profile: string, accountId?: string): Promise<OperatorCredentials | undefined> {
+    const newAccountId = await vscode.window.showInputBox({
+      prompt: `Enter Hedera account ID for ${profile}`,
+      value: accountId || '',
+      placeHolder: '0.0.12345',
+      ignoreFocusOut: true
+    });
+
+    if (!newAccountId) {
+      return undefined;
+    }
+
+    const privateKey = await vscode.window.showInputBox({
+      prompt: `Enter Hedera private key for ${newAccountId} (stored in the OS keychain)`,
+      password: true,
+      placeHolder: 'Enter your private key',
+      ignoreFocusOut: true
+    });
+
+    if (!privateKey) {
+      return undefined;
+    }
+
+    await this.storeCredentials(profile, newAccountId, privateKey);
+    return { profile, accountId: newAccountId, privateKey };
+  }
+
+  private secretKey(profile: string): string {
+    return `${CredentialService.SECRET_PREFIX}${profile}`;
+  }
+}
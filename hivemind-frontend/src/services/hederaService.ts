@@ -2,44 +2,164 @@ import * as vscode from 'vscode';
 import { 
   Client, 
   AccountId, 
+  AccountCreateTransaction,
+  AccountUpdateTransaction,
   PrivateKey, 
+  PublicKey,
+  AccountBalanceQuery,
+  ScheduleCreateTransaction,
+  ScheduleSignTransaction,
   TopicId, 
   TopicMessageSubmitTransaction,
   TopicCreateTransaction,
   ContractCallQuery,
-  ContractFunctionParameters,
+  ContractFunctionResult,
   ContractId,
   ContractCreateTransaction,
   ContractExecuteTransaction,
   FileCreateTransaction,
+  FileAppendTransaction,
+  FileContentsQuery,
+  FileDeleteTransaction,
   FileId,
-  Hbar
+  Hbar,
+  Long,
+  TokenAssociateTransaction,
+  TokenCreateTransaction,
+  TokenDissociateTransaction,
+  TokenSupplyType,
+  TokenType,
+  Timestamp,
+  Transaction,
+  TransactionId,
+  TransactionReceipt,
+  TransactionResponse,
+  TransferTransaction
 } from '@hashgraph/sdk';
+import { OperatorProfile, ProfileService } from './profileService';
+import { PolicyContext, PolicyOperation, TransactionPolicyService } from './transactionPolicyService';
+import { NetworkUtils } from '../utils/networkUtils';
+import { ConfigUtils } from '../utils/configUtils';
+import { ManifestUtils } from '../utils/manifestUtils';
+import { MirrorNodeService } from './mirrorNodeService';
+import { AgentRegistryService, RegistryAgent, RegistryEvent } from './agentRegistryService';
+import { ContractRegistration, ContractRegistryService } from './contractRegistryService';
+import { AbiEntry, AbiUtils } from '../utils/abiUtils';
+import { RegistryUtils } from '../utils/registryUtils';
+import { TokenCreateOptions, TokenKeyName, TokenUtils } from '../utils/tokenUtils';
+import { MultiSigUtils } from '../utils/multiSigUtils';
+import * as crypto from 'crypto';
+
+/**
+ * Options for deploying a contract
+ */
+export interface DeployOptions {
+  gas?: number;
+  /** HBAR transferred to the contract on creation */
+  initialBalance?: number;
+  /** Public key allowed to update or delete the contract; 'operator' uses the operator key */
+  adminKey?: string;
+  memo?: string;
+  /** Auto-renew period in seconds */
+  autoRenewPeriod?: number;
+  autoRenewAccountId?: string;
+  /** Called as the deploy advances; increment is a share of 100 for vscode progress */
+  onProgress?: (message: string, increment: number) => void;
+  /** Called with each transaction the deploy submits and its Transaction Center type, e.g. FILE_CREATE */
+  onSubmitted?: (transactionId: string, type: string) => void;
+}
+
+/**
+ * Identifiers of a newly deployed contract
+ */
+export interface DeployResult {
+  contractId: string;
+  evmAddress: string;
+  transactionId: string;
+}
+
+/**
+ * Outcome of a token operation
+ */
+export interface TokenOperationResult {
+  tokenId: string;
+  /** One per transaction; NFTs are minted and burned in batches */
+  transactionIds: string[];
+  /** Serial numbers of the NFTs minted */
+  serials?: string[];
+  /** Supply after a mint or burn, in the smallest unit */
+  totalSupply?: string;
+}
 
 export class HederaService {
+  // Bytes per file transaction; keeps each transaction under the 6 KB limit
+  static readonly FILE_CHUNK_SIZE = 4096;
+  // Largest initcode plus constructor arguments sent inline with ContractCreateTransaction
+  static readonly INLINE_INITCODE_LIMIT = 4096;
+  static readonly DEFAULT_DEPLOY_GAS = 500000;
+  // Bytes per topic message transaction, the HCS limit
+  static readonly TOPIC_CHUNK_SIZE = 1024;
+  // Chunks a single topic message may be split into
+  static readonly MAX_TOPIC_CHUNKS = 100;
+  // Largest ABI JSON sent to a ContractRegistry contract; calldata shares the 6 KB transaction limit
+  static readonly REGISTRY_ABI_LIMIT = 4096;
+  static readonly REGISTRY_REGISTER_GAS = 300000;
+
   private client: Client | null = null;
   private accountId: string | null = null;
-  private privateKey: string | null = null;
   private network: string = 'testnet';
   private connected: boolean = false;
+  private activeProfile: string | null = null;
+  private mirrorNode: MirrorNodeService | null = null;
+  private policy: TransactionPolicyService;
+  private agentRegistry: AgentRegistryService | null = null;
+  private agentRegistryKey: string | null = null;
+  private contractRegistry: ContractRegistryService | null = null;
+  private contractRegistryKey: string | null = null;
+  private registryTimer: NodeJS.Timeout | undefined;
+  private registryPolling = false;
+  private operatorEvmAddresses: { accountId: string; addresses: string[] } | null = null;
+
+  private _onDidChangeConnection = new vscode.EventEmitter<boolean>();
+  readonly onDidChangeConnection: vscode.Event<boolean> = this._onDidChangeConnection.event;
+
+  private _onDidChangeAgents = new vscode.EventEmitter<RegistryEvent[]>();
+  /** Fires with the registry events seen, or an empty list when the registry settings change */
+  readonly onDidChangeAgents: vscode.Event<RegistryEvent[]> = this._onDidChangeAgents.event;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private profileService: ProfileService
+  ) {
+    this.context.subscriptions.push(
+      this._onDidChangeConnection,
+      this._onDidChangeAgents,
+      { dispose: () => this.stopRegistryWatcher() },
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('hivemind.contractRegistryAddress')
+          || event.affectsConfiguration('hivemind.agentRegistryAddresses')
+          || event.affectsConfiguration('hivemind.agentRegistryCacheTtl')) {
+          this.agentRegistry = null;
+          this._onDidChangeAgents.fire([]);
+        }
+        if (event.affectsConfiguration('hivemind.agentRegistryPollInterval') && this.connected) {
+          this.startRegistryWatcher();
+        }
+      })
+    );
+    this.policy = new TransactionPolicyService(context);
 
-  constructor(private context: vscode.ExtensionContext) {
     // Try to initialize from stored credentials
     this.initializeFromStoredCredentials();
   }
 
   /**
-   * Initialize from stored credentials if available
+   * Initialize from the active operator profile if available
    */
   private async initializeFromStoredCredentials(): Promise<void> {
     try {
-      const config = vscode.workspace.getConfiguration('hivemind');
-      const accountId = config.get<string>('hederaAccountId');
-      const privateKey = config.get<string>('hederaPrivateKey');
-      const network = config.get<string>('defaultNetwork') || 'testnet';
-
-      if (accountId && privateKey) {
-        await this.connect(network, accountId, privateKey);
+      if (this.profileService.getActiveProfile()) {
+        await this.connectProfile();
       }
     } catch (error) {
       console.error('Failed to initialize from stored credentials:', error);
@@ -49,34 +169,64 @@ export class HederaService {
   /**
    * Connect to Hedera network
    */
-  public async connect(network: string, accountId: string, privateKey: string): Promise<boolean> {
+  public async connect(
+    network: string,
+    accountId: string,
+    privateKey: string,
+    maxTransactionFee?: number
+  ): Promise<boolean> {
     try {
-      // Create client based on network
-      if (network === 'testnet') {
-        this.client = Client.forTestnet();
-      } else if (network === 'mainnet') {
-        this.client = Client.forMainnet();
-      } else {
-        throw new Error(`Invalid network: ${network}`);
+      // Close any previous client before replacing it
+      if (this.client) {
+        this.client.close();
+        this.client = null;
       }
 
+      // Create client based on network (built-in, local node or custom definition)
+      this.client = NetworkUtils.createClient(network);
+
       // Set operator
       this.client.setOperator(accountId, privateKey);
+
+      if (maxTransactionFee) {
+        this.client.setDefaultMaxTransactionFee(new Hbar(maxTransactionFee));
+      }
       
-      // Store credentials
+      // Keep the account for display; the key stays with the client and SecretStorage
       this.accountId = accountId;
-      this.privateKey = privateKey;
       this.network = network;
+      this.mirrorNode = new MirrorNodeService(NetworkUtils.getMirrorNodeUrl(network));
+      this.agentRegistry = null;
       this.connected = true;
+      this.startRegistryWatcher();
+      this._onDidChangeConnection.fire(true);
       
       return true;
     } catch (error) {
       console.error('Failed to connect to Hedera:', error);
       this.connected = false;
+      this.activeProfile = null;
+      this.stopRegistryWatcher();
+      this._onDidChangeConnection.fire(false);
       throw error;
     }
   }
 
+  /**
+   * Connect using a named operator profile, or the active profile if none is given
+   */
+  public async connectProfile(name?: string): Promise<boolean> {
+    const profile = name ? this.profileService.getProfile(name) : this.profileService.getActiveProfile();
+
+    if (!profile) {
+      throw new Error(name ? `Operator profile not found: ${name}` : 'No operator profile selected');
+    }
+
+    const privateKey = await this.profileService.resolvePrivateKey(profile);
+    this.activeProfile = profile.name;
+    return this.connect(profile.network, profile.accountId, privateKey, profile.maxTransactionFee);
+  }
+
   /**
    * Disconnect from Hedera network
    */
@@ -86,6 +236,9 @@ export class HederaService {
       this.client = null;
     }
     this.connected = false;
+    this.activeProfile = null;
+    this.stopRegistryWatcher();
+    this._onDidChangeConnection.fire(false);
   }
 
   /**
@@ -95,6 +248,13 @@ export class HederaService {
     return this.connected && this.client !== null;
   }
 
+  /**
+   * Get the name of the operator profile in use, if connected through one
+   */
+  public getActiveProfileName(): string | null {
+    return this.activeProfile;
+  }
+
   /**
    * Get current network
    */
@@ -102,10 +262,91 @@ export class HederaService {
     return this.network;
   }
 
+  /**
+   * Get the mirror node client for the current network
+   */
+  public getMirrorNode(): MirrorNodeService {
+    if (!this.mirrorNode) {
+      this.mirrorNode = new MirrorNodeService(NetworkUtils.getMirrorNodeUrl(this.network));
+    }
+    return this.mirrorNode;
+  }
+
+  /**
+   * Get the mirror node REST URL for the current network
+   */
+  public getMirrorNodeUrl(): string {
+    return NetworkUtils.getMirrorNodeUrl(this.network);
+  }
+
+  /**
+   * Get the JSON-RPC relay URL for the current network
+   */
+  public getJsonRpcRelayUrl(): string {
+    return NetworkUtils.getJsonRpcRelayUrl(this.network);
+  }
+
+  /**
+   * Get the transaction policy applied to every transaction
+   */
+  public getTransactionPolicy(): TransactionPolicyService {
+    return this.policy;
+  }
+
+  /**
+   * Whether the connected operator may only run queries
+   */
+  public isReadOnly(): boolean {
+    return this.policy.getEffectivePolicy(this.getActiveProfile()).readOnly;
+  }
+
+  /**
+   * Submit a transaction once the transaction policy allows it
+   *
+   * @param confirmed The transaction is part of an operation confirmed with confirmOperation
+   * @param scheduledTransaction The transaction a ScheduleCreateTransaction wraps
+   */
+  private async execute(transaction: Transaction, confirmed = false, scheduledTransaction?: Transaction): Promise<TransactionResponse> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const context = this.getPolicyContext();
+    const cost = await this.policy.authorize(transaction, context, { confirmed, scheduledTransaction });
+    const response = await transaction.execute(this.client);
+    this.policy.recordSpend(context, cost);
+
+    return response;
+  }
+
+  /**
+   * Confirm several transactions at once so the user is asked a single time
+   */
+  private async confirmOperation(operation: PolicyOperation): Promise<void> {
+    await this.policy.confirmOperation(operation, this.getPolicyContext());
+  }
+
+  /**
+   * Get the operator profile in use, if connected through one
+   */
+  public getActiveProfile(): OperatorProfile | undefined {
+    return this.activeProfile ? this.profileService.getProfile(this.activeProfile) : undefined;
+  }
+
+  private getPolicyContext(): PolicyContext {
+    return {
+      network: this.network,
+      accountId: this.accountId || '',
+      profile: this.getActiveProfile(),
+      mirrorNode: this.getMirrorNode(),
+      defaultMaxFee: this.client?.defaultMaxTransactionFee
+    };
+  }
+
   /**
    * Create a new HCS topic
    */
-  public async createTopic(memo: string): Promise<string> {
+  public async createTopic(memo: string): Promise<{ topicId: string; transactionId: string }> {
     if (!this.client) {
       throw new Error('Not connected to Hedera');
     }
@@ -115,11 +356,11 @@ export class HederaService {
       const transaction = new TopicCreateTransaction()
         .setTopicMemo(memo);
       
-      const txResponse = await transaction.execute(this.client);
+      const txResponse = await this.execute(transaction);
       const receipt = await txResponse.getReceipt(this.client);
       const topicId = receipt.topicId!.toString();
       
-      return topicId;
+      return { topicId, transactionId: txResponse.transactionId.toString() };
     } catch (error) {
       console.error('Failed to create topic:', error);
       throw error;
@@ -127,59 +368,135 @@ export class HederaService {
   }
 
   /**
-   * Submit a message to a topic
+   * Get the operator's public key, DER-encoded
+   */
+  public getOperatorPublicKey(): string | null {
+    return this.client?.operatorPublicKey?.toStringDer() || null;
+  }
+
+  /**
+   * Sign arbitrary bytes with the key of the active operator profile, e.g. a collaboration message
+   */
+  public async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const profile = this.getActiveProfile();
+    if (!this.client || !profile) {
+      throw new Error('Not connected to Hedera');
+    }
+    const privateKey = await this.profileService.resolvePrivateKey(profile);
+    return PrivateKey.fromString(privateKey).sign(message);
+  }
+
+  /**
+   * Submit a message to a topic. Strings are sent as they are; anything else as JSON.
+   *
+   * Messages over 1 KB are split into chunks that carry the initial transaction ID, their
+   * number and the total, so readers can reassemble them. Returns the first chunk's
+   * transaction ID, which identifies the whole message.
    */
-  public async submitMessage(topicId: string, message: any): Promise<string> {
+  public async submitMessage(topicId: string, message: any, confirmed = false): Promise<string> {
     if (!this.client) {
       throw new Error('Not connected to Hedera');
     }
 
     try {
-      // Convert message to JSON string
-      const messageJson = JSON.stringify(message);
-      
+      const contents = Buffer.from(typeof message === 'string' ? message : JSON.stringify(message), 'utf8');
+      const chunkCount = HederaService.getTopicChunkCount(contents.length);
+      if (chunkCount > HederaService.MAX_TOPIC_CHUNKS) {
+        throw new Error(
+          `Message of ${contents.length} bytes needs ${chunkCount} chunks; topic messages are limited to ${HederaService.MAX_TOPIC_CHUNKS}`
+        );
+      }
+
       // Submit message to topic
       const transaction = new TopicMessageSubmitTransaction()
         .setTopicId(TopicId.fromString(topicId))
-        .setMessage(messageJson);
-      
-      const txResponse = await transaction.execute(this.client);
-      const receipt = await txResponse.getReceipt(this.client);
-      const transactionId = txResponse.transactionId.toString();
-      
-      return transactionId;
+        .setChunkSize(HederaService.TOPIC_CHUNK_SIZE)
+        .setMaxChunks(chunkCount)
+        .setMessage(contents);
+
+      if (chunkCount === 1) {
+        const txResponse = await this.execute(transaction, confirmed);
+        await txResponse.getReceipt(this.client);
+        return txResponse.transactionId.toString();
+      }
+
+      if (!confirmed) {
+        await this.confirmOperation({
+          description: `a ${chunkCount}-chunk topic message`,
+          transactionTypes: Array(chunkCount).fill('consensusSubmitMessage')
+        });
+      }
+
+      const responses = await this.executeChunks(transaction, chunkCount);
+      for (let index = 0; index < responses.length; index++) {
+        try {
+          await responses[index].getReceipt(this.client);
+        } catch (error) {
+          throw new Error(
+            `Chunk ${index + 1} of ${chunkCount} failed, so topic ${topicId} holds an incomplete message ` +
+            `(${responses[0].transactionId.toString()}): ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }
+
+      return responses[0].transactionId.toString();
     } catch (error) {
       console.error('Failed to submit message:', error);
       throw error;
     }
   }
 
+  /**
+   * Get the number of chunks a topic message of the given size is split into
+   */
+  private static getTopicChunkCount(size: number): number {
+    return Math.max(1, Math.ceil(size / HederaService.TOPIC_CHUNK_SIZE));
+  }
+
+  /**
+   * Submit every chunk of a topic message once the policy allows all of them together;
+   * the chunks share the type and fee of the first
+   */
+  private async executeChunks(transaction: TopicMessageSubmitTransaction, chunkCount: number): Promise<TransactionResponse[]> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const context = this.getPolicyContext();
+    const cost = await this.policy.authorize(transaction, context, { confirmed: true, chunkCount });
+
+    try {
+      const responses = await transaction.executeAll(this.client);
+      this.policy.recordSpend(context, cost);
+      return responses;
+    } catch (error) {
+      // Chunks go out one after another; the ones before the failure are on the topic
+      throw new Error(
+        `The ${chunkCount}-chunk message was only partly submitted, so readers will see it as incomplete: ` +
+        `${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
   /**
    * Call a contract method (read-only)
+   *
+   * @param functionParameters The selector followed by the encoded arguments, see AbiUtils.encodeFunctionCall
    */
   public async callContractMethod(
     contractId: string, 
-    method: string, 
-    params: ContractFunctionParameters | null = null,
+    functionParameters: Uint8Array,
     gas: number = 100000
-  ): Promise<any> {
+  ): Promise<ContractFunctionResult> {
     if (!this.client) {
       throw new Error('Not connected to Hedera');
     }
 
     try {
-      // Create query
-      let query = new ContractCallQuery()
+      const query = new ContractCallQuery()
         .setContractId(ContractId.fromString(contractId))
         .setGas(gas)
-        .setFunction(method);
-      
-      // Add parameters if provided
-      if (params) {
-        // Convert ContractFunctionParameters to bytes for the query
-        const paramBytes = new Uint8Array(0); // Placeholder - in real implementation, serialize params
-        query = query.setFunctionParameters(paramBytes);
-      }
+        .setFunctionParameters(functionParameters);
       
       // Execute query
       const response = await query.execute(this.client);
@@ -191,6 +508,51 @@ export class HederaService {
     }
   }
 
+  /**
+   * Execute a state-changing contract method.
+   * Resolves with the record's function result even when the contract reverts.
+   *
+   * @param functionParameters The selector followed by the encoded arguments, see AbiUtils.encodeFunctionCall
+   */
+  public async executeContractMethod(
+    contractId: string,
+    functionParameters: Uint8Array,
+    gas: number = 100000,
+    payableAmount?: number,
+    confirmed = false
+  ): Promise<{ transactionId: string; status: string; result: ContractFunctionResult | null }> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    try {
+      let transaction = new ContractExecuteTransaction()
+        .setContractId(ContractId.fromString(contractId))
+        .setGas(gas)
+        .setFunctionParameters(functionParameters);
+
+      if (payableAmount) {
+        transaction = transaction.setPayableAmount(new Hbar(payableAmount));
+      }
+
+      const response = await this.execute(transaction, confirmed);
+
+      // Fetch the record without failing on a revert so the revert data can be decoded
+      const record = await response.getRecordQuery()
+        .setValidateReceiptStatus(false)
+        .execute(this.client);
+
+      return {
+        transactionId: response.transactionId.toString(),
+        status: record.receipt.status.toString(),
+        result: record.contractFunctionResult
+      };
+    } catch (error) {
+      console.error('Failed to execute contract method:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get account balance
    */
@@ -200,10 +562,9 @@ export class HederaService {
     }
 
     try {
-      const accountBalance = await new (this.client as any).AccountBalanceQuery()
+      const balance = await new AccountBalanceQuery()
         .setAccountId(AccountId.fromString(this.accountId))
         .execute(this.client);
-      const balance = accountBalance;
       return balance.hbars.toString();
     } catch (error) {
       console.error('Failed to get account balance:', error);
@@ -219,37 +580,266 @@ export class HederaService {
   }
 
   /**
-   * Deploy a smart contract to Hedera
+   * Create an account for a new key, funded from the operator. ECDSA accounts also get the
+   * key's EVM address as their alias, so the new key signs the creation.
    */
-  public async deployContract(bytecode: string, constructorParams?: any): Promise<string> {
+  public async createAccount(
+    key: PrivateKey,
+    options: { initialBalanceHbar: number; memo?: string }
+  ): Promise<{ accountId: string; transactionId: string; evmAddress?: string }> {
     if (!this.client) {
       throw new Error('Not connected to Hedera');
     }
 
     try {
-      // First create a file with the bytecode
-      const fileCreateTx = new FileCreateTransaction()
-        .setContents(bytecode);
-      
-      const fileResponse = await fileCreateTx.execute(this.client);
-      const fileReceipt = await fileResponse.getReceipt(this.client);
-      const fileId = fileReceipt.fileId!;
+      const ecdsa = key.type === 'secp256k1';
+      const transaction = new AccountCreateTransaction()
+        .setInitialBalance(new Hbar(options.initialBalanceHbar))
+        .setAccountMemo(options.memo || '');
+      if (ecdsa) {
+        transaction.setECDSAKeyWithAlias(key.publicKey);
+      } else {
+        transaction.setKeyWithoutAlias(key.publicKey);
+      }
+      await transaction.freezeWith(this.client).sign(key);
+
+      const { transactionId, receipt } = await this.executeForReceipt(transaction);
+      return {
+        accountId: receipt.accountId!.toString(),
+        transactionId,
+        evmAddress: ecdsa ? `0x${key.publicKey.toEvmAddress()}` : undefined
+      };
+    } catch (error) {
+      console.error('Failed to create account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Transfer HBAR from the operator to an account. Returns the transaction ID.
+   */
+  public async transferHbar(accountId: string, amountHbar: number, memo?: string): Promise<string> {
+    if (!this.client || !this.accountId) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const amount = new Hbar(amountHbar);
+    const transaction = new TransferTransaction()
+      .addHbarTransfer(this.accountId, amount.negated())
+      .addHbarTransfer(accountId, amount)
+      .setTransactionMemo(memo || '');
+
+    const { transactionId } = await this.executeForReceipt(transaction);
+    return transactionId;
+  }
+
+  /**
+   * Replace the key of an account with AccountUpdateTransaction; the current and new keys both sign.
+   * The operator pays the fee. Returns the transaction ID.
+   */
+  public async rotateAccountKey(accountId: string, currentKey: PrivateKey, newKey: PrivateKey): Promise<string> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    try {
+      const transaction = new AccountUpdateTransaction()
+        .setAccountId(accountId)
+        .setKey(newKey.publicKey)
+        .freezeWith(this.client);
+      await transaction.sign(currentKey);
+      await transaction.sign(newKey);
+
+      const { transactionId } = await this.executeForReceipt(transaction);
+      return transactionId;
+    } catch (error) {
+      console.error('Failed to rotate account key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Freeze a transaction for offline signing. It is paid by `payerAccountId` and valid for
+   * the longest allowed duration from `validStart`, which has to leave co-signers enough time.
+   */
+  public prepareForSigning<T extends Transaction>(transaction: T, payerAccountId: string, validStart: Date): T {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    return transaction
+      .setTransactionId(TransactionId.withValidStart(AccountId.fromString(payerAccountId), Timestamp.fromDate(validStart)))
+      .setTransactionValidDuration(MultiSigUtils.MAX_VALID_DURATION_SECONDS)
+      .freezeWith(this.client);
+  }
+
+  /**
+   * Add the operator's signature to a frozen transaction
+   */
+  public async signWithOperator<T extends Transaction>(transaction: T): Promise<T> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    return transaction.signWithOperator(this.client);
+  }
+
+  /**
+   * Submit a transaction signed offline. Returns the transaction ID.
+   */
+  public async submitSignedTransaction(transaction: Transaction): Promise<string> {
+    try {
+      const { transactionId } = await this.executeForReceipt(transaction);
+      return transactionId;
+    } catch (error) {
+      console.error('Failed to submit signed transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Wrap a transaction in a ScheduleCreateTransaction so the keys it needs can approve it on the
+   * network. The operator's signature on the creation counts towards the scheduled transaction,
+   * which runs as soon as every required key has signed, or at expiry with `waitForExpiry`.
+   */
+  public async createSchedule(
+    transaction: Transaction,
+    options: { memo?: string; payerAccountId?: string; expirationTime?: Date; waitForExpiry?: boolean } = {}
+  ): Promise<{ scheduleId: string; transactionId: string; scheduledTransactionId: string }> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
 
-      // Then create the contract
+    try {
+      const schedule = new ScheduleCreateTransaction()
+        .setScheduledTransaction(transaction)
+        .setScheduleMemo(options.memo || '');
+      if (options.payerAccountId) {
+        schedule.setPayerAccountId(AccountId.fromString(options.payerAccountId));
+      }
+      if (options.expirationTime) {
+        schedule.setExpirationTime(Timestamp.fromDate(options.expirationTime));
+      }
+      if (options.waitForExpiry) {
+        schedule.setWaitForExpiry(true);
+      }
+
+      const { transactionId, receipt } = await this.executeForReceipt(schedule, false, transaction);
+      return {
+        scheduleId: receipt.scheduleId!.toString(),
+        transactionId,
+        scheduledTransactionId: receipt.scheduledTransactionId!.toString()
+      };
+    } catch (error) {
+      console.error('Failed to create schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add the operator's signature to a schedule with ScheduleSignTransaction. Returns the transaction ID.
+   */
+  public async signSchedule(scheduleId: string): Promise<string> {
+    try {
+      const transaction = new ScheduleSignTransaction().setScheduleId(scheduleId);
+      const { transactionId } = await this.executeForReceipt(transaction);
+      return transactionId;
+    } catch (error) {
+      console.error('Failed to sign schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deploy a smart contract to Hedera.
+   *
+   * Small contracts are created with inline initcode; larger ones are uploaded
+   * to a file in chunks first, since a single transaction is capped at 6 KB.
+   */
+  public async deployContract(
+    bytecode: string,
+    constructorParams?: Uint8Array | null,
+    options: DeployOptions = {}
+  ): Promise<DeployResult> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const hex = bytecode.trim().replace(/^0x/, '');
+    if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length % 2 !== 0) {
+      throw new Error('Bytecode must be a hex string');
+    }
+
+    const report = options.onProgress || (() => undefined);
+    const submitted = options.onSubmitted || (() => undefined);
+
+    try {
       let contractCreateTx = new ContractCreateTransaction()
-        .setBytecodeFileId(fileId)
-        .setGas(500000)
-        .setInitialBalance(Hbar.fromTinybars(0));
+        .setGas(options.gas || HederaService.DEFAULT_DEPLOY_GAS)
+        .setInitialBalance(new Hbar(options.initialBalance || 0));
+
+      if (options.adminKey) {
+        const adminKey = options.adminKey === 'operator'
+          ? this.client.operatorPublicKey
+          : PublicKey.fromString(options.adminKey);
+        if (adminKey) {
+          contractCreateTx = contractCreateTx.setAdminKey(adminKey);
+        }
+      }
+      if (options.memo) {
+        contractCreateTx = contractCreateTx.setContractMemo(options.memo);
+      }
+      if (options.autoRenewPeriod) {
+        contractCreateTx = contractCreateTx.setAutoRenewPeriod(options.autoRenewPeriod);
+      }
+      if (options.autoRenewAccountId) {
+        contractCreateTx = contractCreateTx.setAutoRenewAccountId(options.autoRenewAccountId);
+      }
+
+      const initcodeSize = hex.length / 2 + (constructorParams ? constructorParams.length : 0);
+      const inline = initcodeSize <= HederaService.INLINE_INITCODE_LIMIT;
+      let fileId: FileId | null = null;
+
+      // Ask once for the whole deploy rather than for every file chunk
+      await this.confirmOperation({
+        description: 'a contract deploy',
+        transactionTypes: [
+          ...(inline ? [] : this.getUploadTransactionTypes(hex.length)),
+          'contractCreateInstance'
+        ],
+        transferredHbar: options.initialBalance || 0,
+        gas: options.gas || HederaService.DEFAULT_DEPLOY_GAS
+      });
+
+      if (inline) {
+        report('Using inline initcode', 50);
+        contractCreateTx = contractCreateTx.setBytecode(Buffer.from(hex, 'hex'));
+      } else {
+        fileId = await this.uploadFile(hex, (message, increment) => report(message, increment * 0.8), true, submitted);
+        contractCreateTx = contractCreateTx.setBytecodeFileId(fileId);
+      }
 
       if (constructorParams) {
         contractCreateTx = contractCreateTx.setConstructorParameters(constructorParams);
       }
 
-      const contractResponse = await contractCreateTx.execute(this.client);
+      report('Creating contract', 10);
+      const contractResponse = await this.execute(contractCreateTx, true);
+      submitted(contractResponse.transactionId.toString(), 'CONTRACT_DEPLOY');
       const contractReceipt = await contractResponse.getReceipt(this.client);
-      const contractId = contractReceipt.contractId!.toString();
+      const contractId = contractReceipt.contractId!;
+
+      // The bytecode file is only needed for the create transaction
+      if (fileId) {
+        await this.deleteFile(fileId, true, submitted);
+      }
 
-      return contractId;
+      report('Contract created', 10);
+      return {
+        contractId: contractId.toString(),
+        evmAddress: `0x${contractId.toSolidityAddress()}`,
+        transactionId: contractResponse.transactionId.toString()
+      };
     } catch (error) {
       console.error('Failed to deploy contract:', error);
       throw error;
@@ -257,28 +847,173 @@ export class HederaService {
   }
 
   /**
-   * Register a contract in the registry
+   * Upload contents to a new file owned by the operator key.
+   *
+   * The first chunk goes into the FileCreateTransaction and each remaining chunk
+   * into its own FileAppendTransaction. The stored contents are then checked
+   * against a SHA-384 hash of the local contents.
+   *
+   * @param confirmed The upload is part of an operation the user already confirmed
+   * @param onSubmitted Called with each transaction the upload submits and its Transaction Center type
+   */
+  public async uploadFile(
+    contents: string | Uint8Array,
+    onProgress?: (message: string, increment: number) => void,
+    confirmed = false,
+    onSubmitted?: (transactionId: string, type: string) => void
+  ): Promise<FileId> {
+    if (!this.client || !this.client.operatorPublicKey) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const data = typeof contents === 'string' ? Buffer.from(contents, 'utf8') : Buffer.from(contents);
+    const chunkSize = HederaService.FILE_CHUNK_SIZE;
+    const chunkCount = Math.max(1, Math.ceil(data.length / chunkSize));
+    const report = onProgress || (() => undefined);
+    const increment = 90 / chunkCount;
+
+    if (!confirmed) {
+      await this.confirmOperation({
+        description: `a ${chunkCount}-chunk file upload`,
+        transactionTypes: this.getUploadTransactionTypes(data.length)
+      });
+    }
+
+    report(`Uploading bytecode chunk 1/${chunkCount}`, 0);
+    const fileResponse = await this.execute(
+      new FileCreateTransaction()
+        .setKeys([this.client.operatorPublicKey])
+        .setContents(data.subarray(0, chunkSize)),
+      true
+    );
+    onSubmitted?.(fileResponse.transactionId.toString(), 'FILE_CREATE');
+    const fileReceipt = await fileResponse.getReceipt(this.client);
+    const fileId = fileReceipt.fileId!;
+    report(`Uploaded bytecode chunk 1/${chunkCount}`, increment);
+
+    try {
+      for (let index = 1; index < chunkCount; index++) {
+        report(`Uploading bytecode chunk ${index + 1}/${chunkCount}`, 0);
+        const appendResponse = await this.execute(
+          new FileAppendTransaction()
+            .setFileId(fileId)
+            .setChunkSize(chunkSize)
+            .setMaxChunks(1)
+            .setContents(data.subarray(index * chunkSize, (index + 1) * chunkSize)),
+          true
+        );
+        onSubmitted?.(appendResponse.transactionId.toString(), 'FILE_APPEND');
+        await appendResponse.getReceipt(this.client);
+        report(`Uploaded bytecode chunk ${index + 1}/${chunkCount}`, increment);
+      }
+
+      report('Verifying file contents', 0);
+      const stored = await new FileContentsQuery()
+        .setFileId(fileId)
+        .execute(this.client);
+
+      const expectedHash = crypto.createHash('sha384').update(data).digest('hex');
+      const storedHash = crypto.createHash('sha384').update(stored).digest('hex');
+      if (expectedHash !== storedHash) {
+        throw new Error(`Contents of file ${fileId.toString()} do not match the uploaded data (${stored.length} of ${data.length} bytes stored)`);
+      }
+      report('File contents verified', 10);
+
+      return fileId;
+    } catch (error) {
+      await this.deleteFile(fileId, true, onSubmitted);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the transaction types of uploading and later deleting a file of the given size
+   */
+  private getUploadTransactionTypes(size: number): string[] {
+    const chunkCount = Math.max(1, Math.ceil(size / HederaService.FILE_CHUNK_SIZE));
+    return ['fileCreate', ...Array(chunkCount - 1).fill('fileAppend'), 'fileDelete'];
+  }
+
+  /**
+   * Delete a file owned by the operator, logging rather than throwing on failure
    */
-  public async registerContract(contractId: string, metadata: any): Promise<string> {
+  private async deleteFile(
+    fileId: FileId,
+    confirmed = false,
+    onSubmitted?: (transactionId: string, type: string) => void
+  ): Promise<void> {
     if (!this.client) {
+      return;
+    }
+
+    try {
+      const response = await this.execute(
+        new FileDeleteTransaction().setFileId(fileId),
+        confirmed
+      );
+      onSubmitted?.(response.transactionId.toString(), 'FILE_DELETE');
+      await response.getReceipt(this.client);
+    } catch (error) {
+      console.error(`Failed to delete file ${fileId.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Get the registry deployed contracts are recorded in, or undefined if none is configured
+   */
+  public getContractRegistry(): ContractRegistryService | undefined {
+    const location = ConfigUtils.getDeploymentRegistry();
+    if (!location) {
+      return undefined;
+    }
+
+    const key = `${this.network}:${location.kind === 'topic' ? location.topicId : location.address}`;
+    if (!this.contractRegistry || this.contractRegistryKey !== key) {
+      this.contractRegistry = new ContractRegistryService(this.getMirrorNode(), location);
+      this.contractRegistryKey = key;
+    }
+    return this.contractRegistry;
+  }
+
+  /**
+   * Register a deployed contract in the configured registry with its name, ABI hash, source hash,
+   * owner and network. The ABI itself is published once per hash.
+   * Returns the transaction ID of the record, or undefined if no registry is configured.
+   */
+  public async registerContract(
+    contractId: string,
+    contract: { name: string; abi: AbiEntry[]; sourceHash: string }
+  ): Promise<string | undefined> {
+    if (!this.client || !this.accountId) {
       throw new Error('Not connected to Hedera');
     }
 
+    const registry = this.getContractRegistry();
+    if (!registry) {
+      return undefined;
+    }
+
     try {
-      // This would typically call a registry contract method
-      // For now, simulate registration
-      const registrationData = {
+      const registration = {
         contractId,
-        metadata,
-        timestamp: Date.now(),
-        owner: this.accountId
+        name: contract.name,
+        abiHash: ContractRegistryService.hashAbi(contract.abi),
+        sourceHash: contract.sourceHash,
+        owner: this.accountId,
+        network: this.network
       };
 
-      // Submit to HCS topic for registry updates
-      const topicId = '0.0.registry'; // This would be configured
-      const transactionId = await this.submitMessage(topicId, registrationData);
-      
-      return transactionId;
+      // Another deployment of the same source already published the ABI
+      const published = await registry.getAbi(registration.abiHash).catch(error => {
+        console.error('Failed to look up the ABI in the contract registry:', error);
+        return undefined;
+      });
+      const abi = published ? undefined : contract.abi;
+
+      const location = registry.getLocation();
+      return location.kind === 'topic'
+        ? await this.registerInTopic(location.topicId, registration, abi)
+        : await this.registerInContract(location.address, registration, abi);
     } catch (error) {
       console.error('Failed to register contract:', error);
       throw error;
@@ -286,128 +1021,585 @@ export class HederaService {
   }
 
   /**
-   * Get contract information
+   * Send the ABI, if given, and the compact record of a registration to a registry topic
+   */
+  private async registerInTopic(
+    topicId: string,
+    registration: Omit<ContractRegistration, 'registeredAt'>,
+    abi?: AbiEntry[]
+  ): Promise<string> {
+    const messages = [
+      ...(abi ? [JSON.stringify(ContractRegistryService.createAbiMessage(abi))] : []),
+      JSON.stringify(ContractRegistryService.createRecordMessage(registration))
+    ];
+
+    await this.confirmOperation({
+      description: 'a contract registration',
+      transactionTypes: messages.flatMap(message =>
+        Array(HederaService.getTopicChunkCount(Buffer.byteLength(message, 'utf8'))).fill('consensusSubmitMessage'))
+    });
+
+    let transactionId = '';
+    for (const message of messages) {
+      transactionId = await this.submitMessage(topicId, message, true);
+    }
+    return transactionId;
+  }
+
+  /**
+   * Publish the ABI, if given, and register a contract with a ContractRegistry contract
+   */
+  private async registerInContract(
+    address: string,
+    registration: Omit<ContractRegistration, 'registeredAt'>,
+    abi?: AbiEntry[]
+  ): Promise<string> {
+    const registryId = address.startsWith('0x')
+      ? (await this.getMirrorNode().getContract(address)).contract_id
+      : address;
+
+    const calls: { method: string; functionParameters: Uint8Array; gas: number }[] = [];
+    if (abi) {
+      const json = JSON.stringify(abi);
+      const size = Buffer.byteLength(json, 'utf8');
+      if (size > HederaService.REGISTRY_ABI_LIMIT) {
+        throw new Error(
+          `ABI of ${size} bytes is too large for a registry contract (limit ${HederaService.REGISTRY_ABI_LIMIT}); ` +
+          'register contracts in a topic with hivemind.hederaTopicId instead'
+        );
+      }
+      // Storing a string costs about 22k gas per 32-byte word
+      calls.push({
+        method: 'publishAbi',
+        functionParameters: HederaService.encodeRegistryCall('publishAbi', [json]),
+        gas: 100000 + 25000 * Math.ceil(size / 32)
+      });
+    }
+    calls.push({
+      method: 'registerContract',
+      functionParameters: HederaService.encodeRegistryCall('registerContract', [
+        AbiUtils.toEvmAddress(registration.contractId),
+        registration.name,
+        `0x${registration.abiHash}`,
+        `0x${registration.sourceHash}`,
+        registration.network
+      ]),
+      gas: HederaService.REGISTRY_REGISTER_GAS
+    });
+
+    await this.confirmOperation({
+      description: 'a contract registration',
+      transactionTypes: calls.map(() => 'contractCall'),
+      gas: calls.reduce((sum, call) => sum + call.gas, 0)
+    });
+
+    let transactionId = '';
+    for (const call of calls) {
+      const execution = await this.executeContractMethod(registryId, call.functionParameters, call.gas, undefined, true);
+      if (execution.status !== 'SUCCESS') {
+        throw new Error(`Registry ${call.method} failed with status ${execution.status} (${execution.transactionId})`);
+      }
+      transactionId = execution.transactionId;
+    }
+    return transactionId;
+  }
+
+  private static encodeRegistryCall(name: string, args: any[]): Uint8Array {
+    return new Uint8Array(Buffer.from(RegistryUtils.encodeFunctionData(ContractRegistryService.registryInterface, name, args).substring(2), 'hex'));
+  }
+
+  /**
+   * Look a contract up in the configured registry, with its ABI when published and matching its hash.
+   * Registry errors are logged rather than thrown, since the registry only adds to the mirror node data.
+   */
+  private async resolveRegisteredContract(
+    contractId: string
+  ): Promise<{ registration: ContractRegistration; abi?: AbiEntry[] } | undefined> {
+    const registry = this.getContractRegistry();
+    if (!registry) {
+      return undefined;
+    }
+
+    try {
+      const registration = await registry.getRegistration(contractId);
+      if (!registration || registration.network !== this.network) {
+        return undefined;
+      }
+      return { registration, abi: await registry.getAbi(registration.abiHash) };
+    } catch (error) {
+      console.error(`Failed to look up ${contractId} in the contract registry:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get contract information. The name and ABI come from the deployment manifest when recorded,
+   * else from the contract registry.
    */
   public async getContractInfo(contractId: string): Promise<any> {
     if (!this.client) {
       throw new Error('Not connected to Hedera');
     }
 
+    const deployment = ManifestUtils.findDeployment(this.network, contractId);
+
     try {
-      // This would typically query the contract registry
-      // For now, return mock data
+      const contract = await this.getMirrorNode().getContract(contractId);
+      const registered = deployment?.abi ? undefined : await this.resolveRegisteredContract(contract.contract_id);
+
       return {
-        contractId,
-        name: `Contract ${contractId}`,
-        description: `Smart contract deployed at ${contractId}`,
-        owner: this.accountId,
-        deployedAt: Date.now() - 86400000, // 1 day ago
+        contractId: contract.contract_id,
+        evmAddress: contract.evm_address,
+        name: deployment?.contractName || registered?.registration.name || contract.memo || `Contract ${contract.contract_id}`,
+        description: contract.memo,
+        fileId: contract.file_id,
+        adminKey: contract.admin_key?.key || null,
+        abi: deployment?.abi || registered?.abi,
+        sourceFile: deployment?.sourceFile,
+        sourceHash: deployment?.sourceHash || registered?.registration.sourceHash,
+        registration: registered?.registration,
+        deployedAt: MirrorNodeService.timestampToDate(contract.created_timestamp).getTime(),
+        deleted: contract.deleted,
         verified: false
       };
     } catch (error) {
+      // The mirror node lags consensus by a few seconds; a fresh deployment is still usable from the manifest
+      if (deployment) {
+        return {
+          contractId: deployment.contractId,
+          evmAddress: deployment.evmAddress,
+          name: deployment.contractName,
+          abi: deployment.abi,
+          sourceFile: deployment.sourceFile,
+          sourceHash: deployment.sourceHash,
+          deployedAt: new Date(deployment.deployedAt).getTime(),
+          deleted: false,
+          verified: false
+        };
+      }
       console.error('Failed to get contract info:', error);
       throw error;
     }
   }
 
   /**
-   * Get list of deployed contracts
+   * Get contracts recorded in the workspace deployment manifest for the current network
    */
   public async getDeployedContracts(): Promise<any[]> {
-    if (!this.client) {
+    try {
+      const manifest = ManifestUtils.readManifest(this.network);
+
+      return manifest.deployments.map(deployment => ({
+        contractId: deployment.contractId,
+        evmAddress: deployment.evmAddress,
+        name: deployment.contractName,
+        sourceFile: deployment.sourceFile,
+        transactionId: deployment.transactionId,
+        deployer: deployment.deployer,
+        deployedAt: new Date(deployment.deployedAt).getTime()
+      }));
+    } catch (error) {
+      console.error('Failed to get deployed contracts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a token with the operator as treasury. Keys set to 'operator' use the operator key.
+   */
+  public async createToken(options: TokenCreateOptions): Promise<TokenOperationResult> {
+    if (!this.client || !this.accountId) {
       throw new Error('Not connected to Hedera');
     }
 
     try {
-      // This would typically query the contract registry
-      // For now, return mock data
-      return [
-        {
-          contractId: '0.0.contract1',
-          name: 'Token Contract',
-          description: 'ERC20 token implementation',
-          deployedAt: Date.now() - 172800000 // 2 days ago
-        },
-        {
-          contractId: '0.0.contract2',
-          name: 'NFT Contract',
-          description: 'ERC721 NFT implementation',
-          deployedAt: Date.now() - 86400000 // 1 day ago
+      const operatorKey = this.client.operatorPublicKey!;
+      const keys = new Map<TokenKeyName, PublicKey>();
+      for (const [name, value] of Object.entries(options.keys) as [TokenKeyName, string][]) {
+        if (value) {
+          keys.set(name, value === 'operator' ? operatorKey : PublicKey.fromString(value));
         }
-      ];
+      }
+
+      // The admin key signs the creation, and only the operator key is available here
+      const adminKey = keys.get('admin');
+      if (adminKey && adminKey.toStringRaw() !== operatorKey.toStringRaw()) {
+        throw new Error('The admin key must be the operator key, since it has to sign the token creation');
+      }
+
+      const transaction = new TokenCreateTransaction()
+        .setTokenName(options.name)
+        .setTokenSymbol(options.symbol)
+        .setTokenType(options.type === 'nft' ? TokenType.NonFungibleUnique : TokenType.FungibleCommon)
+        .setDecimals(options.decimals)
+        .setInitialSupply(Long.fromString(options.initialSupply))
+        .setSupplyType(options.supplyType === 'finite' ? TokenSupplyType.Finite : TokenSupplyType.Infinite)
+        .setTreasuryAccountId(this.accountId)
+        .setFreezeDefault(!!options.freezeDefault)
+        .setCustomFees(TokenUtils.toCustomFees(options.customFees || []));
+
+      if (options.memo) {
+        transaction.setTokenMemo(options.memo);
+      }
+      if (options.supplyType === 'finite' && options.maxSupply) {
+        transaction.setMaxSupply(Long.fromString(options.maxSupply));
+      }
+
+      const setters: { [name in TokenKeyName]: (key: PublicKey) => TokenCreateTransaction } = {
+        admin: key => transaction.setAdminKey(key),
+        kyc: key => transaction.setKycKey(key),
+        freeze: key => transaction.setFreezeKey(key),
+        wipe: key => transaction.setWipeKey(key),
+        supply: key => transaction.setSupplyKey(key),
+        feeSchedule: key => transaction.setFeeScheduleKey(key),
+        pause: key => transaction.setPauseKey(key),
+        metadata: key => transaction.setMetadataKey(key)
+      };
+      keys.forEach((key, name) => setters[name](key));
+
+      const { transactionId, receipt } = await this.executeForReceipt(transaction);
+      return { tokenId: receipt.tokenId!.toString(), transactionIds: [transactionId] };
     } catch (error) {
-      console.error('Failed to get deployed contracts:', error);
+      console.error('Failed to create token:', error);
       throw error;
     }
   }
 
   /**
-   * Use a specific agent for a task
+   * Mint fungible tokens in the smallest unit, or NFTs with one metadata entry each.
+   * NFTs are minted in batches of 10, confirmed once for all batches.
    */
-  public async useAgent(agentId: string, prompt: string): Promise<any> {
+  public async mintToken(
+    tokenId: string,
+    mint: { amount: string } | { metadata: Uint8Array[] }
+  ): Promise<TokenOperationResult> {
     if (!this.client) {
       throw new Error('Not connected to Hedera');
     }
 
     try {
-      // This would typically call the agent's contract method
-      // For now, return mock response
-      return {
-        success: true,
-        response: `Agent ${agentId} processed: ${prompt}`,
-        agentId,
-        timestamp: Date.now()
-      };
+      if ('amount' in mint) {
+        const transaction = TokenUtils.buildOperation(tokenId, { type: 'mint', amount: mint.amount });
+        const { transactionId, receipt } = await this.executeForReceipt(transaction);
+        return { tokenId, transactionIds: [transactionId], totalSupply: receipt.totalSupply?.toString() };
+      }
+
+      const batches = TokenUtils.toBatches(mint.metadata);
+      return await this.executeBatches(tokenId, 'mint', batches.length, async (index, confirmed) => {
+        const transaction = TokenUtils.buildOperation(tokenId, { type: 'mint', metadata: batches[index] });
+        return this.executeForReceipt(transaction, confirmed);
+      });
     } catch (error) {
-      console.error('Failed to use agent:', error);
+      console.error('Failed to mint token:', error);
       throw error;
     }
   }
 
   /**
-   * Update configuration
+   * Burn fungible tokens in the smallest unit, or NFTs by serial number, from the treasury.
+   * NFTs are burned in batches of 10, confirmed once for all batches.
    */
-  public updateConfig(accountId: string, privateKey: string, network: string, topicId?: string, rpcUrl?: string): void {
-    this.accountId = accountId;
-    this.privateKey = privateKey;
-    this.network = network;
-    
-    // Reconnect with new configuration if currently connected
+  public async burnToken(
+    tokenId: string,
+    burn: { amount: string } | { serials: number[] }
+  ): Promise<TokenOperationResult> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    try {
+      if ('amount' in burn) {
+        const transaction = TokenUtils.buildOperation(tokenId, { type: 'burn', amount: burn.amount });
+        const { transactionId, receipt } = await this.executeForReceipt(transaction);
+        return { tokenId, transactionIds: [transactionId], totalSupply: receipt.totalSupply?.toString() };
+      }
+
+      const batches = TokenUtils.toBatches(burn.serials);
+      return await this.executeBatches(tokenId, 'burn', batches.length, async (index, confirmed) => {
+        const transaction = TokenUtils.buildOperation(tokenId, { type: 'burn', serials: batches[index] });
+        return this.executeForReceipt(transaction, confirmed);
+      });
+    } catch (error) {
+      console.error('Failed to burn token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Associate the operator account with a token so it can hold it
+   */
+  public async associateToken(tokenId: string): Promise<TokenOperationResult> {
+    if (!this.client || !this.accountId) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const transaction = new TokenAssociateTransaction()
+      .setAccountId(this.accountId)
+      .setTokenIds([tokenId]);
+    const { transactionId } = await this.executeForReceipt(transaction);
+    return { tokenId, transactionIds: [transactionId] };
+  }
+
+  /**
+   * Dissociate the operator account from a token; its balance must be zero
+   */
+  public async dissociateToken(tokenId: string): Promise<TokenOperationResult> {
+    if (!this.client || !this.accountId) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const transaction = new TokenDissociateTransaction()
+      .setAccountId(this.accountId)
+      .setTokenIds([tokenId]);
+    const { transactionId } = await this.executeForReceipt(transaction);
+    return { tokenId, transactionIds: [transactionId] };
+  }
+
+  /**
+   * Grant or revoke KYC for an account with the token's KYC key
+   */
+  public async setTokenKyc(tokenId: string, accountId: string, granted: boolean): Promise<TokenOperationResult> {
+    const transaction = TokenUtils.buildOperation(tokenId, { type: granted ? 'grantKyc' : 'revokeKyc', accountId });
+    const { transactionId } = await this.executeForReceipt(transaction);
+    return { tokenId, transactionIds: [transactionId] };
+  }
+
+  /**
+   * Freeze or unfreeze an account's balance with the token's freeze key
+   */
+  public async setTokenFrozen(tokenId: string, accountId: string, frozen: boolean): Promise<TokenOperationResult> {
+    const transaction = TokenUtils.buildOperation(tokenId, { type: frozen ? 'freeze' : 'unfreeze', accountId });
+    const { transactionId } = await this.executeForReceipt(transaction);
+    return { tokenId, transactionIds: [transactionId] };
+  }
+
+  /**
+   * Pause or unpause every operation on a token with its pause key
+   */
+  public async setTokenPaused(tokenId: string, paused: boolean): Promise<TokenOperationResult> {
+    const transaction = TokenUtils.buildOperation(tokenId, { type: paused ? 'pause' : 'unpause' });
+    const { transactionId } = await this.executeForReceipt(transaction);
+    return { tokenId, transactionIds: [transactionId] };
+  }
+
+  /**
+   * Submit a transaction and wait for a successful receipt
+   */
+  private async executeForReceipt(
+    transaction: Transaction,
+    confirmed = false,
+    scheduledTransaction?: Transaction
+  ): Promise<{ transactionId: string; receipt: TransactionReceipt }> {
+    if (!this.client) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const response = await this.execute(transaction, confirmed, scheduledTransaction);
+    // Throws a ReceiptStatusError carrying the transaction ID when the transaction fails
+    const receipt = await response.getReceipt(this.client);
+    return { transactionId: response.transactionId.toString(), receipt };
+  }
+
+  /**
+   * Run the NFT mint or burn batches of one operation, asking once for all of them
+   */
+  private async executeBatches(
+    tokenId: string,
+    operation: 'mint' | 'burn',
+    batchCount: number,
+    executeBatch: (index: number, confirmed: boolean) => Promise<{ transactionId: string; receipt: TransactionReceipt }>
+  ): Promise<TokenOperationResult> {
+    if (batchCount > 1) {
+      await this.confirmOperation({
+        description: `an NFT ${operation} in ${batchCount} batches`,
+        transactionTypes: Array(batchCount).fill(operation === 'mint' ? 'tokenMint' : 'tokenBurn')
+      });
+    }
+
+    const result: TokenOperationResult = { tokenId, transactionIds: [], serials: [] };
+    for (let index = 0; index < batchCount; index++) {
+      try {
+        const { transactionId, receipt } = await executeBatch(index, batchCount > 1);
+        result.transactionIds.push(transactionId);
+        result.serials!.push(...receipt.serials.map(serial => serial.toString()));
+        result.totalSupply = receipt.totalSupply?.toString();
+      } catch (error) {
+        if (index === 0) {
+          throw error;
+        }
+        // Earlier batches went through; say which, so the NFTs aren't minted or burned twice
+        throw new Error(
+          `Batch ${index + 1} of ${batchCount} failed after ${result.transactionIds.join(', ')} succeeded: ` +
+          `${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Transfer an agent's fee to its owner, or to the escrow account when one is configured.
+   * Returns the transfer transaction ID; throws if the transfer does not succeed.
+   */
+  public async payAgentFee(agent: RegistryAgent, memo: string, confirmed = false): Promise<string> {
+    if (!this.client || !this.accountId) {
+      throw new Error('Not connected to Hedera');
+    }
+
+    const amount = Hbar.fromTinybars(agent.feeTinybars);
+    const transaction = new TransferTransaction()
+      .addHbarTransfer(this.accountId, amount.negated())
+      .addHbarTransfer(this.getAgentFeeRecipient(agent), amount)
+      .setTransactionMemo(memo);
+
+    const txResponse = await this.execute(transaction, confirmed);
+    // Throws a ReceiptStatusError carrying the transaction ID when the transfer fails
+    await txResponse.getReceipt(this.client);
+
+    return txResponse.transactionId.toString();
+  }
+
+  /**
+   * Get the account agent fees are paid to: hivemind.agentPaymentEscrowAccount, else the agent owner
+   */
+  public getAgentFeeRecipient(agent: RegistryAgent): string {
+    const escrow = ConfigUtils.getAgentPaymentEscrowAccount(this.network);
+    if (escrow) {
+      return escrow;
+    }
+    return agent.ownerAccountId || AccountId.fromEvmAddress(0, 0, agent.owner).toString();
+  }
+
+  /**
+   * Apply edited settings: the topic and network now come from the active profile
+   */
+  public async updateConfig(): Promise<void> {
+    // Reconnect with the (possibly edited) active profile if currently connected
     if (this.connected) {
-      this.disconnect();
-      this.connect(network, accountId, privateKey);
+      await this.connectProfile();
+    }
+  }
+
+  /**
+   * Get the AgentRegistry reader for the current network, or undefined if no registry is configured
+   */
+  public getAgentRegistry(): AgentRegistryService | undefined {
+    const address = ConfigUtils.getContractRegistryAddress(this.network);
+    if (!address) {
+      return undefined;
+    }
+
+    const key = `${this.network}:${address}`;
+    if (!this.agentRegistry || this.agentRegistryKey !== key) {
+      const ttlSeconds = vscode.workspace.getConfiguration('hivemind').get<number>('agentRegistryCacheTtl', 300);
+      this.agentRegistry = new AgentRegistryService(this.getMirrorNode(), address, ttlSeconds * 1000);
+      this.agentRegistryKey = key;
     }
+    return this.agentRegistry;
   }
 
   /**
-   * Get list of agents from registry
+   * Get the active agents of the configured AgentRegistry contract, read via the mirror node
    */
-  public async getAgents(): Promise<any[]> {
+  public async getAgents(forceRefresh = false): Promise<RegistryAgent[]> {
     if (!this.client) {
       throw new Error('Not connected to Hedera');
     }
 
-    // This would typically call a contract method to get registered agents
-    // For now, return mock data
-    return [
-      {
-        id: '0.0.12345',
-        name: 'Security Auditor',
-        capabilities: ['audit', 'vulnerability-detection'],
-        fee: '1.0 HBAR'
-      },
-      {
-        id: '0.0.12346',
-        name: 'Test Generator',
-        capabilities: ['test-generation', 'fuzzing'],
-        fee: '0.5 HBAR'
-      },
-      {
-        id: '0.0.12347',
-        name: 'Gas Optimizer',
-        capabilities: ['optimization', 'gas-analysis'],
-        fee: '0.8 HBAR'
+    const registry = this.getAgentRegistry();
+    if (!registry) {
+      return [];
+    }
+
+    const agents = await registry.getAgents(forceRefresh);
+    return agents.filter(agent => agent.active);
+  }
+
+  /**
+   * Get the registry agents owned by the operator, including inactive ones
+   */
+  public async getMyAgents(forceRefresh = false): Promise<RegistryAgent[]> {
+    const registry = this.getAgentRegistry();
+    if (!this.client || !this.accountId || !registry) {
+      return [];
+    }
+
+    const owners = await this.getOperatorEvmAddresses();
+    const agents = await registry.getAgents(forceRefresh);
+    return agents.filter(agent => owners.includes(agent.owner));
+  }
+
+  /**
+   * Reload agents from the registry and notify the views, e.g. after publishing an agent
+   */
+  public refreshAgents(): void {
+    this.getAgentRegistry()?.invalidate();
+    this._onDidChangeAgents.fire([]);
+  }
+
+  /**
+   * Get the addresses the operator appears as in msg.sender: the long-zero address
+   * and, for ECDSA accounts, the EVM address alias
+   */
+  private async getOperatorEvmAddresses(): Promise<string[]> {
+    if (!this.accountId) {
+      return [];
+    }
+
+    if (this.operatorEvmAddresses?.accountId === this.accountId) {
+      return this.operatorEvmAddresses.addresses;
+    }
+
+    const addresses = [`0x${AccountId.fromString(this.accountId).toSolidityAddress()}`];
+    try {
+      const account = await this.getMirrorNode().getAccount(this.accountId);
+      if (account.evm_address) {
+        addresses.push(account.evm_address.toLowerCase());
       }
-    ];
+      this.operatorEvmAddresses = { accountId: this.accountId, addresses };
+    } catch (error) {
+      // Try the alias again next time
+      console.error('Failed to read the operator EVM address:', error);
+    }
+
+    return addresses;
+  }
+
+  /**
+   * Poll the registry for AgentRegistered/AgentUpdated/AgentDeactivated events while connected
+   */
+  private startRegistryWatcher(): void {
+    this.stopRegistryWatcher();
+
+    const interval = vscode.workspace.getConfiguration('hivemind').get<number>('agentRegistryPollInterval', 15);
+    if (!interval || interval <= 0) {
+      return;
+    }
+
+    this.registryTimer = setInterval(async () => {
+      const registry = this.getAgentRegistry();
+      if (!registry || this.registryPolling) {
+        return;
+      }
+
+      this.registryPolling = true;
+      try {
+        const events = await registry.pollEvents();
+        if (events.length > 0) {
+          this._onDidChangeAgents.fire(events);
+        }
+      } catch (error) {
+        console.error('Failed to poll agent registry events:', error);
+      } finally {
+        this.registryPolling = false;
+      }
+    }, interval * 1000);
+  }
+
+  private stopRegistryWatcher(): void {
+    if (this.registryTimer) {
+      clearInterval(this.registryTimer);
+      this.registryTimer = undefined;
+    }
   }
 }
@@ -0,0 +1,667 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+/**
+ * Token balance entry returned by the mirror node
+ */
+export interface MirrorTokenBalance {
+  token_id: string;
+  balance: number;
+}
+
+/**
+ * Account as returned by /api/v1/accounts/{id}
+ */
+export interface MirrorAccount {
+  account: string;
+  alias: string | null;
+  evm_address: string | null;
+  balance: {
+    balance: number;
+    timestamp: string;
+    tokens: MirrorTokenBalance[];
+  };
+  created_timestamp: string | null;
+  expiry_timestamp: string | null;
+  auto_renew_period: number | null;
+  key: { _type: string; key: string } | null;
+  memo: string;
+  deleted: boolean;
+  max_automatic_token_associations: number;
+  receiver_sig_required: boolean | null;
+}
+
+/**
+ * Balance entry as returned by /api/v1/balances
+ */
+export interface MirrorBalance {
+  account: string;
+  balance: number;
+  tokens: MirrorTokenBalance[];
+}
+
+/**
+ * HBAR transfer within a transaction
+ */
+export interface MirrorTransfer {
+  account: string;
+  amount: number;
+  is_approval: boolean;
+}
+
+/**
+ * Transaction as returned by /api/v1/transactions
+ */
+export interface MirrorTransaction {
+  transaction_id: string;
+  transaction_hash: string;
+  consensus_timestamp: string;
+  valid_start_timestamp: string;
+  name: string;
+  result: string;
+  charged_tx_fee: number;
+  max_fee: string;
+  memo_base64: string;
+  entity_id: string | null;
+  node: string | null;
+  scheduled: boolean;
+  nonce: number;
+  transfers: MirrorTransfer[];
+  token_transfers?: { token_id: string; account: string; amount: number }[];
+  nft_transfers?: { token_id: string; serial_number: number; sender_account_id: string | null; receiver_account_id: string | null }[];
+}
+
+/**
+ * Contract as returned by /api/v1/contracts
+ */
+export interface MirrorContract {
+  contract_id: string;
+  evm_address: string;
+  admin_key: { _type: string; key: string } | null;
+  auto_renew_account: string | null;
+  auto_renew_period: number;
+  created_timestamp: string;
+  deleted: boolean;
+  expiration_timestamp: string | null;
+  file_id: string | null;
+  memo: string;
+  max_automatic_token_associations: number;
+  bytecode?: string;
+  runtime_bytecode?: string;
+}
+
+/**
+ * Contract log as returned by the mirror node
+ */
+export interface MirrorContractLog {
+  address: string;
+  contract_id: string;
+  data: string;
+  index: number;
+  topics: string[];
+  root_contract_id: string | null;
+  timestamp: string;
+  block_hash?: string;
+  block_number?: number;
+  transaction_hash?: string;
+  transaction_index?: number;
+}
+
+/**
+ * Contract execution result as returned by /api/v1/contracts/results
+ */
+export interface MirrorContractResult {
+  contract_id: string;
+  from: string;
+  to: string | null;
+  address: string;
+  amount: number;
+  block_number: number;
+  call_result: string;
+  error_message: string | null;
+  function_parameters: string;
+  gas_limit: number;
+  gas_used: number;
+  hash: string;
+  result: string;
+  status: string;
+  timestamp: string;
+  logs?: MirrorContractLog[];
+}
+
+/**
+ * Topic message as returned by /api/v1/topics/{id}/messages
+ */
+export interface MirrorTopicMessage {
+  consensus_timestamp: string;
+  topic_id: string;
+  message: string;
+  payer_account_id: string;
+  running_hash: string;
+  running_hash_version: number;
+  sequence_number: number;
+  chunk_info: {
+    initial_transaction_id: {
+      account_id: string;
+      nonce: number;
+      scheduled: boolean;
+      transaction_valid_start: string;
+    };
+    number: number;
+    total: number;
+  } | null;
+}
+
+/**
+ * Topic as returned by /api/v1/topics/{id}
+ */
+export interface MirrorTopic {
+  topic_id: string;
+  memo: string;
+  admin_key: { _type: string; key: string } | null;
+  submit_key: { _type: string; key: string } | null;
+  auto_renew_account: string | null;
+  auto_renew_period: number | null;
+  created_timestamp: string | null;
+  deleted: boolean;
+}
+
+/**
+ * Custom fees of a token as returned by /api/v1/tokens/{id}
+ */
+export interface MirrorCustomFees {
+  created_timestamp: string;
+  fixed_fees: {
+    all_collectors_are_exempt: boolean;
+    amount: number;
+    collector_account_id: string;
+    denominating_token_id: string | null;
+  }[];
+  fractional_fees?: {
+    all_collectors_are_exempt: boolean;
+    amount: { numerator: number; denominator: number };
+    collector_account_id: string;
+    denominating_token_id: string;
+    maximum: number | null;
+    minimum: number;
+    net_of_transfers: boolean;
+  }[];
+  royalty_fees?: {
+    all_collectors_are_exempt: boolean;
+    amount: { numerator: number; denominator: number };
+    collector_account_id: string;
+    fallback_fee: { amount: number; denominating_token_id: string | null } | null;
+  }[];
+}
+
+/**
+ * Token as returned by /api/v1/tokens/{id}; amounts are strings in the smallest unit
+ */
+export interface MirrorToken {
+  token_id: string;
+  name: string;
+  symbol: string;
+  type: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE';
+  decimals: string;
+  initial_supply: string;
+  total_supply: string;
+  max_supply: string;
+  supply_type: 'INFINITE' | 'FINITE';
+  treasury_account_id: string;
+  memo: string;
+  admin_key: { _type: string; key: string } | null;
+  kyc_key: { _type: string; key: string } | null;
+  freeze_key: { _type: string; key: string } | null;
+  wipe_key: { _type: string; key: string } | null;
+  supply_key: { _type: string; key: string } | null;
+  fee_schedule_key: { _type: string; key: string } | null;
+  pause_key: { _type: string; key: string } | null;
+  metadata_key?: { _type: string; key: string } | null;
+  freeze_default: boolean;
+  pause_status: 'NOT_APPLICABLE' | 'PAUSED' | 'UNPAUSED';
+  custom_fees: MirrorCustomFees;
+  created_timestamp: string;
+  deleted: boolean | null;
+}
+
+/**
+ * Token an account is associated with, as returned by /api/v1/accounts/{id}/tokens
+ */
+export interface MirrorTokenRelationship {
+  token_id: string;
+  /** Balance in the smallest unit, or the number of NFTs */
+  balance: number;
+  decimals: number;
+  automatic_association: boolean;
+  freeze_status: 'NOT_APPLICABLE' | 'FROZEN' | 'UNFROZEN';
+  kyc_status: 'NOT_APPLICABLE' | 'GRANTED' | 'REVOKED';
+  created_timestamp: string;
+}
+
+/**
+ * NFT as returned by /api/v1/accounts/{id}/nfts
+ */
+export interface MirrorNft {
+  token_id: string;
+  serial_number: number;
+  account_id: string;
+  /** Base64 metadata */
+  metadata: string;
+  created_timestamp: string;
+  deleted: boolean;
+}
+
+/**
+ * Schedule as returned by /api/v1/schedules
+ */
+export interface MirrorSchedule {
+  schedule_id: string;
+  creator_account_id: string;
+  payer_account_id: string;
+  admin_key: { _type: string; key: string } | null;
+  consensus_timestamp: string;
+  /** Seconds.nanos, or null for the network's default expiry after creation */
+  expiration_time: string | null;
+  executed_timestamp: string | null;
+  deleted: boolean;
+  memo: string;
+  signatures: {
+    consensus_timestamp: string;
+    /** Base64 public key, usually in full */
+    public_key_prefix: string;
+    signature: string;
+    type: string;
+  }[];
+  /** Base64 SchedulableTransactionBody */
+  transaction_body: string;
+  wait_for_expiry: boolean;
+}
+
+/**
+ * Gas price per transaction type as returned by /api/v1/network/fees
+ */
+export interface MirrorNetworkFee {
+  /** Tinybars per unit of gas */
+  gas: number;
+  transaction_type: string;
+}
+
+/**
+ * HBAR to USD cent exchange rate as returned by /api/v1/network/exchangerate
+ */
+export interface MirrorExchangeRate {
+  cent_equivalent: number;
+  hbar_equivalent: number;
+  expiration_time: number;
+}
+
+/**
+ * Options shared by list endpoints
+ */
+export interface MirrorListOptions {
+  /** Maximum number of items to return across all pages */
+  limit?: number;
+  order?: 'asc' | 'desc';
+  /** Extra query parameters passed through to the mirror node */
+  params?: { [key: string]: string | number | boolean };
+}
+
+interface MirrorPage {
+  links?: { next: string | null };
+  [key: string]: any;
+}
+
+/**
+ * Typed client for the Hedera mirror node REST API.
+ *
+ * Follows `links.next` for pagination and retries rate-limited (429) and
+ * transient (5xx) responses with backoff, honouring Retry-After.
+ */
+export class MirrorNodeService {
+  private static readonly PAGE_SIZE = 100;
+  private static readonly MAX_RETRIES = 4;
+  private static readonly BASE_DELAY_MS = 500;
+
+  private client: AxiosInstance;
+
+  constructor(private baseUrl: string) {
+    this.client = axios.create({
+      baseURL: baseUrl.replace(/\/+$/, ''),
+      timeout: 15000,
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+  }
+
+  /**
+   * Update the mirror node base URL
+   */
+  public setBaseUrl(url: string): void {
+    this.baseUrl = url;
+    this.client.defaults.baseURL = url.replace(/\/+$/, '');
+  }
+
+  /**
+   * Get the mirror node base URL
+   */
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Get an account by ID, EVM address or alias
+   */
+  public async getAccount(accountId: string): Promise<MirrorAccount> {
+    return this.get<MirrorAccount>(`/api/v1/accounts/${encodeURIComponent(accountId)}`, { transactions: false });
+  }
+
+  /**
+   * Get the HBAR and token balances of an account
+   */
+  public async getBalance(accountId: string): Promise<MirrorBalance | undefined> {
+    const page = await this.get<MirrorPage>('/api/v1/balances', { 'account.id': accountId });
+    return (page.balances || [])[0];
+  }
+
+  /**
+   * List transactions, optionally filtered by account and type
+   */
+  public async getTransactions(
+    options: MirrorListOptions & { accountId?: string; transactionType?: string; result?: 'success' | 'fail' } = {}
+  ): Promise<MirrorTransaction[]> {
+    const params: { [key: string]: string | number | boolean } = { ...options.params };
+    if (options.accountId) {
+      params['account.id'] = options.accountId;
+    }
+    if (options.transactionType) {
+      params.transactiontype = options.transactionType;
+    }
+    if (options.result) {
+      params.result = options.result;
+    }
+
+    return this.list<MirrorTransaction>('/api/v1/transactions', 'transactions', { ...options, params });
+  }
+
+  /**
+   * Get all records of a transaction (the first is the parent transaction)
+   */
+  public async getTransaction(transactionId: string): Promise<MirrorTransaction[]> {
+    const id = MirrorNodeService.toMirrorTransactionId(transactionId);
+    const page = await this.get<MirrorPage>(`/api/v1/transactions/${encodeURIComponent(id)}`);
+    return page.transactions || [];
+  }
+
+  /**
+   * Get a contract by ID or EVM address
+   */
+  public async getContract(contractId: string): Promise<MirrorContract> {
+    return this.get<MirrorContract>(`/api/v1/contracts/${encodeURIComponent(contractId)}`);
+  }
+
+  /**
+   * List contracts
+   */
+  public async getContracts(options: MirrorListOptions = {}): Promise<MirrorContract[]> {
+    return this.list<MirrorContract>('/api/v1/contracts', 'contracts', options);
+  }
+
+  /**
+   * List execution results of a contract
+   */
+  public async getContractResults(contractId: string, options: MirrorListOptions = {}): Promise<MirrorContractResult[]> {
+    return this.list<MirrorContractResult>(
+      `/api/v1/contracts/${encodeURIComponent(contractId)}/results`,
+      'results',
+      options
+    );
+  }
+
+  /**
+   * Get the execution result of a contract transaction by transaction ID or hash
+   */
+  public async getContractResult(transactionIdOrHash: string): Promise<MirrorContractResult> {
+    const id = transactionIdOrHash.startsWith('0x')
+      ? transactionIdOrHash
+      : MirrorNodeService.toMirrorTransactionId(transactionIdOrHash);
+    return this.get<MirrorContractResult>(`/api/v1/contracts/results/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * List logs emitted by a contract, optionally filtered by topic0
+   */
+  public async getContractLogs(
+    contractId: string,
+    options: MirrorListOptions & { topic0?: string } = {}
+  ): Promise<MirrorContractLog[]> {
+    const params = { ...options.params };
+    if (options.topic0) {
+      params.topic0 = options.topic0;
+    }
+
+    return this.list<MirrorContractLog>(
+      `/api/v1/contracts/${encodeURIComponent(contractId)}/results/logs`,
+      'logs',
+      { ...options, params }
+    );
+  }
+
+  /**
+   * Get a topic by ID
+   */
+  public async getTopic(topicId: string): Promise<MirrorTopic> {
+    return this.get<MirrorTopic>(`/api/v1/topics/${encodeURIComponent(topicId)}`);
+  }
+
+  /**
+   * Get a token by ID
+   */
+  public async getToken(tokenId: string): Promise<MirrorToken> {
+    return this.get<MirrorToken>(`/api/v1/tokens/${encodeURIComponent(tokenId)}`);
+  }
+
+  /**
+   * List the tokens an account is associated with, with its balance and KYC and freeze status
+   */
+  public async getAccountTokens(accountId: string, options: MirrorListOptions = {}): Promise<MirrorTokenRelationship[]> {
+    return this.list<MirrorTokenRelationship>(`/api/v1/accounts/${encodeURIComponent(accountId)}/tokens`, 'tokens', options);
+  }
+
+  /**
+   * List the NFTs an account owns, optionally of one token
+   */
+  public async getAccountNfts(
+    accountId: string,
+    options: MirrorListOptions & { tokenId?: string } = {}
+  ): Promise<MirrorNft[]> {
+    const params = { ...options.params };
+    if (options.tokenId) {
+      params['token.id'] = options.tokenId;
+    }
+
+    return this.list<MirrorNft>(`/api/v1/accounts/${encodeURIComponent(accountId)}/nfts`, 'nfts', { ...options, params });
+  }
+
+  /**
+   * List schedules, optionally only those created by an account
+   */
+  public async getSchedules(options: MirrorListOptions & { accountId?: string } = {}): Promise<MirrorSchedule[]> {
+    const params = { ...options.params };
+    if (options.accountId) {
+      params['account.id'] = options.accountId;
+    }
+
+    return this.list<MirrorSchedule>('/api/v1/schedules', 'schedules', { ...options, params });
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  public async getSchedule(scheduleId: string): Promise<MirrorSchedule> {
+    return this.get<MirrorSchedule>(`/api/v1/schedules/${encodeURIComponent(scheduleId)}`);
+  }
+
+  /**
+   * List messages of a topic, optionally only those after a sequence number
+   */
+  public async getTopicMessages(
+    topicId: string,
+    options: MirrorListOptions & { afterSequenceNumber?: number } = {}
+  ): Promise<MirrorTopicMessage[]> {
+    const params = { ...options.params };
+    if (options.afterSequenceNumber !== undefined) {
+      params.sequencenumber = `gt:${options.afterSequenceNumber}`;
+    }
+
+    return this.list<MirrorTopicMessage>(
+      `/api/v1/topics/${encodeURIComponent(topicId)}/messages`,
+      'messages',
+      { order: 'asc', ...options, params }
+    );
+  }
+
+  /**
+   * Run a read-only contract call through the mirror node (no fees, no signature)
+   */
+  public async callContract(to: string, data: string, from?: string, gas: number = 15000000): Promise<string> {
+    const response = await this.request<{ result: string }>({
+      method: 'post',
+      url: '/api/v1/contracts/call',
+      data: {
+        to,
+        data,
+        from,
+        gas,
+        estimate: false,
+        block: 'latest'
+      }
+    });
+    return response.result;
+  }
+
+  /**
+   * Estimate the gas of a call, or of a deploy when `to` is omitted and `data` is the initcode
+   */
+  public async estimateGas(data: string, to?: string, from?: string): Promise<number> {
+    const response = await this.request<{ result: string }>({
+      method: 'post',
+      url: '/api/v1/contracts/call',
+      data: {
+        to,
+        data,
+        from,
+        estimate: true,
+        block: 'latest'
+      }
+    });
+    return parseInt(response.result, 16);
+  }
+
+  /**
+   * Get the current gas price per transaction type
+   */
+  public async getNetworkFees(): Promise<MirrorNetworkFee[]> {
+    const response = await this.get<{ fees: MirrorNetworkFee[] }>('/api/v1/network/fees');
+    return response.fees || [];
+  }
+
+  /**
+   * Get the current HBAR exchange rate
+   */
+  public async getExchangeRate(): Promise<MirrorExchangeRate> {
+    const response = await this.get<{ current_rate: MirrorExchangeRate }>('/api/v1/network/exchangerate');
+    return response.current_rate;
+  }
+
+  /**
+   * Convert an SDK transaction ID (0.0.1@123.456) to mirror node form (0.0.1-123-456)
+   */
+  static toMirrorTransactionId(transactionId: string): string {
+    const [account, timestamp] = transactionId.split('@');
+    if (!timestamp) {
+      return transactionId;
+    }
+    return `${account}-${timestamp.replace('.', '-')}`;
+  }
+
+  /**
+   * Convert a mirror node transaction ID (0.0.1-123-456) to SDK form (0.0.1@123.456)
+   */
+  static toSdkTransactionId(transactionId: string): string {
+    const match = transactionId.match(/^(\d+\.\d+\.\d+)-(\d+)-(\d+)$/);
+    return match ? `${match[1]}@${match[2]}.${match[3]}` : transactionId;
+  }
+
+  /**
+   * Convert a mirror node consensus timestamp (seconds.nanos) to a Date
+   */
+  static timestampToDate(timestamp: string): Date {
+    return new Date(Math.floor(parseFloat(timestamp) * 1000));
+  }
+
+  /**
+   * Fetch every page of a list endpoint up to the requested limit
+   */
+  private async list<T>(path: string, key: string, options: MirrorListOptions): Promise<T[]> {
+    const limit = options.limit ?? Number.MAX_SAFE_INTEGER;
+    const items: T[] = [];
+
+    let next: string | null = path;
+    let params: { [key: string]: string | number | boolean } | undefined = {
+      ...options.params,
+      limit: Math.min(limit, MirrorNodeService.PAGE_SIZE),
+      order: options.order || 'desc'
+    };
+
+    while (next && items.length < limit) {
+      const page: MirrorPage = await this.get<MirrorPage>(next, params);
+      items.push(...(page[key] || []));
+
+      // links.next already carries every query parameter
+      next = page.links?.next || null;
+      params = undefined;
+    }
+
+    return items.slice(0, limit);
+  }
+
+  private async get<T>(url: string, params?: { [key: string]: string | number | boolean }): Promise<T> {
+    return this.request<T>({ method: 'get', url, params });
+  }
+
+  private async request<T>(config: { method: 'get' | 'post'; url: string; params?: any; data?: any }): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.request<T>(config);
+        return response.data;
+      } catch (error) {
+        const axiosError = error as AxiosError<any>;
+        const status = axiosError.response?.status;
+        const retryable = status === 429 || (status !== undefined && status >= 500);
+
+        if (!retryable || attempt >= MirrorNodeService.MAX_RETRIES) {
+          throw new Error(this.describeError(config.url, axiosError));
+        }
+
+        await new Promise(resolve => setTimeout(resolve, this.retryDelay(axiosError, attempt)));
+      }
+    }
+  }
+
+  private retryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (!isNaN(retryAfter) && retryAfter > 0) {
+      return retryAfter * 1000;
+    }
+    return MirrorNodeService.BASE_DELAY_MS * Math.pow(2, attempt);
+  }
+
+  private describeError(url: string, error: AxiosError<any>): string {
+    const messages = error.response?.data?._status?.messages;
+    const detail = Array.isArray(messages) && messages.length > 0
+      ? messages.map((m: any) => m.message).join('; ')
+      : error.message;
+    const status = error.response?.status ? ` (${error.response.status})` : '';
+    return `Mirror node request ${url} failed${status}: ${detail}`;
+  }
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import { CredentialService } from './credentialService';
+import { NetworkUtils } from '../utils/networkUtils';
+import { TransactionPolicy } from './transactionPolicyService';
+
+/**
+ * Where an operator profile gets its private key from
+ */
+export type KeySource = 'secretStorage' | 'environment';
+
+/**
+ * A named Hedera operator: network, account, key source and fee defaults
+ */
+export interface OperatorProfile {
+  name: string;
+  network: string;
+  accountId: string;
+  keySource: KeySource;
+  /** Environment variable holding the key when keySource is 'environment' */
+  keyEnvVariable?: string;
+  /** Default max transaction fee in HBAR */
+  maxTransactionFee: number;
+  /** Overrides for the transaction policy settings */
+  policy?: TransactionPolicy;
+}
+
+/**
+ * Manages named operator profiles and the active profile selection.
+ *
+ * Profile metadata is kept in global state; private keys stay in SecretStorage
+ * via CredentialService or are read from the environment.
+ */
+export class ProfileService {
+  private static readonly PROFILES_KEY = 'hivemind.operatorProfiles';
+  private static readonly ACTIVE_PROFILE_KEY = 'hivemind.activeOperatorProfile';
+
+  static readonly DEFAULT_MAX_TRANSACTION_FEE = 2;
+
+  private _onDidChangeProfiles = new vscode.EventEmitter<void>();
+  readonly onDidChangeProfiles: vscode.Event<void> = this._onDidChangeProfiles.event;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private credentialService: CredentialService
+  ) {
+    this.context.subscriptions.push(this._onDidChangeProfiles);
+  }
+
+  /**
+   * Create profiles for credentials stored before named profiles existed
+   */
+  public async initialize(): Promise<void> {
+    const profiles = this.getProfiles();
+    const config = vscode.workspace.getConfiguration('hivemind');
+    let changed = false;
+
+    for (const name of this.credentialService.getStoredProfiles()) {
+      if (profiles.some(p => p.name === name)) {
+        continue;
+      }
+
+      const credentials = await this.credentialService.getCredentials(name);
+      profiles.push({
+        name,
+        network: NetworkUtils.getNetworkDefinition(name) ? name : (config.get<string>('defaultNetwork') || 'testnet'),
+        accountId: credentials?.accountId || '',
+        keySource: 'secretStorage',
+        maxTransactionFee: ProfileService.DEFAULT_MAX_TRANSACTION_FEE
+      });
+      changed = true;
+    }
+
+    if (changed) {
+      await this.context.globalState.update(ProfileService.PROFILES_KEY, profiles);
+    }
+
+    if (!this.getActiveProfile() && profiles.length > 0) {
+      const defaultNetwork = config.get<string>('hederaNetwork') || config.get<string>('defaultNetwork') || 'testnet';
+      const initial = profiles.find(p => p.network === defaultNetwork) || profiles[0];
+      await this.setActiveProfile(initial.name);
+    }
+  }
+
+  /**
+   * Get all operator profiles
+   */
+  public getProfiles(): OperatorProfile[] {
+    return [...(this.context.globalState.get<OperatorProfile[]>(ProfileService.PROFILES_KEY) || [])];
+  }
+
+  /**
+   * Get a profile by name
+   */
+  public getProfile(name: string): OperatorProfile | undefined {
+    return this.getProfiles().find(p => p.name === name);
+  }
+
+  /**
+   * Get the currently selected profile
+   */
+  public getActiveProfile(): OperatorProfile | undefined {
+    const name = this.context.globalState.get<string>(ProfileService.ACTIVE_PROFILE_KEY);
+    return name ? this.getProfile(name) : undefined;
+  }
+
+  /**
+   * Select the active profile
+   */
+  public async setActiveProfile(name: string): Promise<void> {
+    if (!this.getProfile(name)) {
+      throw new Error(`Operator profile not found: ${name}`);
+    }
+
+    await this.context.globalState.update(ProfileService.ACTIVE_PROFILE_KEY, name);
+    this._onDidChangeProfiles.fire();
+  }
+
+  /**
+   * Create or replace a profile. A private key is only stored for SecretStorage profiles.
+   */
+  public async saveProfile(profile: OperatorProfile, privateKey?: string): Promise<void> {
+    if (!profile.name.trim()) {
+      throw new Error('Profile name is required');
+    }
+
+    if (profile.keySource === 'environment' && !profile.keyEnvVariable) {
+      throw new Error('An environment variable name is required for environment key sources');
+    }
+
+    const profiles = this.getProfiles().filter(p => p.name !== profile.name);
+    profiles.push(profile);
+    await this.context.globalState.update(ProfileService.PROFILES_KEY, profiles);
+
+    if (profile.keySource === 'secretStorage') {
+      const existing = await this.credentialService.getCredentials(profile.name);
+      const key = privateKey || existing?.privateKey;
+      if (key) {
+        await this.credentialService.storeCredentials(profile.name, profile.accountId, key);
+      }
+    } else {
+      await this.credentialService.deleteCredentials(profile.name);
+    }
+
+    this._onDidChangeProfiles.fire();
+  }
+
+  /**
+   * Delete a profile and its stored key
+   */
+  public async deleteProfile(name: string): Promise<void> {
+    await this.context.globalState.update(
+      ProfileService.PROFILES_KEY,
+      this.getProfiles().filter(p => p.name !== name)
+    );
+    await this.credentialService.deleteCredentials(name);
+
+    if (this.context.globalState.get<string>(ProfileService.ACTIVE_PROFILE_KEY) === name) {
+      await this.context.globalState.update(ProfileService.ACTIVE_PROFILE_KEY, undefined);
+    }
+
+    this._onDidChangeProfiles.fire();
+  }
+
+  /**
+   * Resolve the private key for a profile from its key source
+   */
+  public async resolvePrivateKey(profile: OperatorProfile): Promise<string> {
+    if (profile.keySource === 'environment') {
+      const key = profile.keyEnvVariable ? process.env[profile.keyEnvVariable] : undefined;
+      if (!key) {
+        throw new Error(`Environment variable ${profile.keyEnvVariable} is not set for profile ${profile.name}`);
+      }
+      return key;
+    }
+
+    const credentials = await this.credentialService.getCredentials(profile.name);
+    if (!credentials || !credentials.privateKey) {
+      throw new Error(`No private key stored for profile ${profile.name}`);
+    }
+    return credentials.privateKey;
+  }
+}
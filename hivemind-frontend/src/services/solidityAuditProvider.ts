@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { ApiService } from './apiService';
+import { AgentPayment } from '../utils/agentPaymentUtils';
 
 /**
  * Provider for Solidity code auditing and diagnostics
@@ -125,9 +126,9 @@ export class SolidityAuditProvider {
   /**
    * Audit a contract and return results
    */
-  async auditContract(code: string): Promise<any> {
+  async auditContract(code: string, payment?: AgentPayment): Promise<any> {
     try {
-      const result = await this.apiService.auditContract(code);
+      const result = await this.apiService.auditContract(code, payment);
       
       // Store vulnerabilities for later retrieval
       const documentUri = vscode.window.activeTextEditor?.document.uri.toString() || 'current';
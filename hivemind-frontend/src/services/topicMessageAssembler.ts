@@ -0,0 +1,154 @@
+import { MirrorTopicMessage } from './mirrorNodeService';
+
+/**
+ * How a message split across several topic transactions was put back together
+ */
+export interface TopicMessageChunks {
+  /** Transaction ID of the first chunk, shared by every chunk */
+  initialTransactionId: string;
+  total: number;
+  /** Sequence numbers of the chunks received, in chunk order */
+  sequenceNumbers: number[];
+  /** Chunk numbers not received yet; empty once the message is complete */
+  missing: number[];
+  /** The chunks reached consensus in a different order than their numbers */
+  outOfOrder: boolean;
+}
+
+/**
+ * A logical topic message decoded for display: a single message, or the chunks of one
+ */
+export interface TopicMessage {
+  /** Sequence number of the message, or of its last chunk */
+  sequenceNumber: number;
+  /** Consensus timestamp of the message, or of its last chunk */
+  consensusTimestamp: string;
+  payerAccountId: string;
+  /** Message contents as UTF-8 text; only the chunks received for an incomplete message */
+  text: string;
+  /** Parsed contents when the complete message is a JSON object or array */
+  json?: any;
+  chunks?: TopicMessageChunks;
+}
+
+/**
+ * Reassembles chunked topic messages from mirror node messages.
+ *
+ * Chunks are grouped by the initial transaction ID in their chunk info and joined in
+ * chunk order, whatever order they reached consensus in, and whichever batch they arrive in.
+ * Duplicate chunks are ignored.
+ */
+export class TopicMessageAssembler {
+  private pending = new Map<string, Map<number, MirrorTopicMessage>>();
+
+  /**
+   * Add mirror node messages; returns the logical messages they complete, by sequence number
+   */
+  public add(messages: MirrorTopicMessage[]): TopicMessage[] {
+    const completed: TopicMessage[] = [];
+
+    for (const message of messages) {
+      const key = TopicMessageAssembler.getChunkKey(message);
+      if (!key) {
+        completed.push(TopicMessageAssembler.decode([message]));
+        continue;
+      }
+
+      const chunks = this.pending.get(key) || new Map<number, MirrorTopicMessage>();
+      if (!chunks.has(message.chunk_info!.number)) {
+        chunks.set(message.chunk_info!.number, message);
+      }
+      this.pending.set(key, chunks);
+
+      if (chunks.size === message.chunk_info!.total) {
+        this.pending.delete(key);
+        completed.push(TopicMessageAssembler.decode(Array.from(chunks.values())));
+      }
+    }
+
+    return completed.sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+  }
+
+  /**
+   * Get the messages still missing chunks, by sequence number
+   */
+  public getIncomplete(): TopicMessage[] {
+    return Array.from(this.pending.values())
+      .map(chunks => TopicMessageAssembler.decode(Array.from(chunks.values())))
+      .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+  }
+
+  /**
+   * Copy the assembler with its incomplete messages
+   */
+  public clone(): TopicMessageAssembler {
+    const copy = new TopicMessageAssembler();
+    for (const [key, chunks] of this.pending) {
+      copy.pending.set(key, new Map(chunks));
+    }
+    return copy;
+  }
+
+  /**
+   * Decode one message, or the chunks received of a chunked message
+   */
+  static decode(parts: MirrorTopicMessage[]): TopicMessage {
+    const ordered = [...parts].sort((a, b) => (a.chunk_info?.number || 1) - (b.chunk_info?.number || 1));
+    const last = parts.reduce((latest, part) => part.sequence_number > latest.sequence_number ? part : latest);
+    const first = ordered[0];
+
+    // Chunks split bytes, not characters, so join the bytes before decoding
+    const text = Buffer.concat(ordered.map(part => Buffer.from(part.message, 'base64'))).toString('utf8');
+    const decoded: TopicMessage = {
+      sequenceNumber: last.sequence_number,
+      consensusTimestamp: last.consensus_timestamp,
+      payerAccountId: first.payer_account_id,
+      text
+    };
+
+    const total = first.chunk_info?.total || 1;
+    if (total > 1) {
+      const received = new Set(ordered.map(part => part.chunk_info!.number));
+      const sequenceNumbers = ordered.map(part => part.sequence_number);
+      decoded.chunks = {
+        initialTransactionId: TopicMessageAssembler.getChunkKey(first)!,
+        total,
+        sequenceNumbers,
+        missing: Array.from({ length: total }, (_, index) => index + 1).filter(number => !received.has(number)),
+        outOfOrder: sequenceNumbers.some((sequenceNumber, index) => index > 0 && sequenceNumber < sequenceNumbers[index - 1])
+      };
+    }
+
+    if (!decoded.chunks || decoded.chunks.missing.length === 0) {
+      decoded.json = TopicMessageAssembler.parseJson(text);
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Get the initial transaction ID grouping the chunks of a message, or undefined for a single message
+   */
+  static getChunkKey(message: MirrorTopicMessage): string | undefined {
+    if (!message.chunk_info || message.chunk_info.total <= 1) {
+      return undefined;
+    }
+
+    const { account_id, transaction_valid_start, nonce, scheduled } = message.chunk_info.initial_transaction_id;
+    return `${account_id}@${transaction_valid_start}${nonce ? `/${nonce}` : ''}${scheduled ? '?scheduled' : ''}`;
+  }
+
+  private static parseJson(text: string): any {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      // Not JSON after all
+      return undefined;
+    }
+  }
+}
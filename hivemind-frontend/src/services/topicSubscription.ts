@@ -0,0 +1,137 @@
+import { MirrorNodeService } from './mirrorNodeService';
+import { TopicMessage, TopicMessageAssembler } from './topicMessageAssembler';
+
+/**
+ * Streams the messages of a topic by polling the mirror node.
+ *
+ * `start` reads the latest page of messages and then every message after it,
+ * so a topic with a long history doesn't have to be read from the beginning.
+ * Chunked messages are passed on once all their chunks have been read.
+ */
+export class TopicSubscription {
+  static readonly DEFAULT_INTERVAL_MS = 3000;
+  static readonly PAGE_SIZE = 100;
+
+  private lastSequenceNumber: number | null = null;
+  private firstSequenceNumber: number | null = null;
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+  private assembler = new TopicMessageAssembler();
+
+  /**
+   * @param listener Called with each batch of new messages, oldest first, and the chunked
+   * messages still missing chunks
+   * @param onError Called when a poll fails; polling continues
+   */
+  constructor(
+    private mirrorNode: MirrorNodeService,
+    private topicId: string,
+    private listener: (messages: TopicMessage[], incomplete: TopicMessage[]) => void,
+    private onError: (error: unknown) => void = error => console.error('Topic poll failed:', error)
+  ) {}
+
+  /**
+   * Read the latest messages and keep polling for new ones
+   */
+  public async start(intervalMs: number = TopicSubscription.DEFAULT_INTERVAL_MS): Promise<void> {
+    this.stop();
+
+    if (this.lastSequenceNumber === null) {
+      const latest = await this.mirrorNode.getTopicMessages(this.topicId, {
+        order: 'desc',
+        limit: TopicSubscription.PAGE_SIZE
+      });
+      latest.reverse();
+      this.firstSequenceNumber = latest.length > 0 ? latest[0].sequence_number : null;
+      this.lastSequenceNumber = latest.length > 0 ? latest[latest.length - 1].sequence_number : 0;
+      this.listener(this.assembler.add(latest), this.assembler.getIncomplete());
+    }
+
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => this.poll(), intervalMs);
+    }
+  }
+
+  /**
+   * Stop polling. `start` resumes after the last message seen.
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Whether the subscription is polling
+   */
+  public isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Read messages after the last one seen and pass them to the listener
+   */
+  public async poll(): Promise<TopicMessage[]> {
+    if (this.polling || this.lastSequenceNumber === null) {
+      return [];
+    }
+
+    this.polling = true;
+    try {
+      const received = await this.mirrorNode.getTopicMessages(this.topicId, {
+        afterSequenceNumber: this.lastSequenceNumber
+      });
+      if (received.length === 0) {
+        return [];
+      }
+
+      this.lastSequenceNumber = received[received.length - 1].sequence_number;
+      this.firstSequenceNumber = this.firstSequenceNumber ?? received[0].sequence_number;
+      const messages = this.assembler.add(received);
+      this.listener(messages, this.assembler.getIncomplete());
+      return messages;
+    } catch (error) {
+      this.onError(error);
+      return [];
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Read the page of messages before the oldest one seen, oldest first.
+   * These are returned, not passed to the listener; they may complete chunked
+   * messages whose first chunks were not read yet.
+   */
+  public async loadOlder(): Promise<TopicMessage[]> {
+    if (!this.firstSequenceNumber || this.firstSequenceNumber <= 1) {
+      return [];
+    }
+
+    const older = await this.mirrorNode.getTopicMessages(this.topicId, {
+      order: 'desc',
+      limit: TopicSubscription.PAGE_SIZE,
+      params: { sequencenumber: `lt:${this.firstSequenceNumber}` }
+    });
+    older.reverse();
+    if (older.length > 0) {
+      this.firstSequenceNumber = older[0].sequence_number;
+    }
+    return this.assembler.add(older);
+  }
+
+  /**
+   * Get the chunked messages still missing chunks
+   */
+  public getIncomplete(): TopicMessage[] {
+    return this.assembler.getIncomplete();
+  }
+
+  /**
+   * Whether older messages than those seen exist
+   */
+  public hasOlder(): boolean {
+    return !!this.firstSequenceNumber && this.firstSequenceNumber > 1;
+  }
+}
@@ -0,0 +1,427 @@
+import * as vscode from 'vscode';
+import {
+  AccountCreateTransaction,
+  AccountUpdateTransaction,
+  ContractCreateTransaction,
+  ContractDeleteTransaction,
+  ContractExecuteTransaction,
+  ContractUpdateTransaction,
+  FileAppendTransaction,
+  FileCreateTransaction,
+  FileDeleteTransaction,
+  Hbar,
+  ScheduleCreateTransaction,
+  ScheduleSignTransaction,
+  TokenAssociateTransaction,
+  TokenBurnTransaction,
+  TokenCreateTransaction,
+  TokenDissociateTransaction,
+  TokenFreezeTransaction,
+  TokenGrantKycTransaction,
+  TokenMintTransaction,
+  TokenPauseTransaction,
+  TokenRevokeKycTransaction,
+  TokenUnfreezeTransaction,
+  TokenUnpauseTransaction,
+  TopicCreateTransaction,
+  TopicMessageSubmitTransaction,
+  Transaction,
+  TransferTransaction
+} from '@hashgraph/sdk';
+import { OperatorProfile } from './profileService';
+import { MirrorNodeService } from './mirrorNodeService';
+
+/**
+ * Limits applied before a transaction is submitted.
+ * Profile values override the hivemind.transactionPolicy settings.
+ */
+export interface TransactionPolicy {
+  /** Block every transaction; queries still work */
+  readOnly?: boolean;
+  /** Transaction types the profile may submit, e.g. contractCall; all types when unset */
+  allowedTransactionTypes?: string[];
+  /** Cap in HBAR on the value moved plus the fee of one transaction; 0 for no cap */
+  maxTransactionHbar?: number;
+  /** Cap in HBAR on the value moved plus fees during this VS Code session; 0 for no cap */
+  maxSessionHbar?: number;
+}
+
+/**
+ * Who is submitting a transaction and where
+ */
+export interface PolicyContext {
+  network: string;
+  accountId: string;
+  profile?: OperatorProfile;
+  mirrorNode: MirrorNodeService;
+  /** Client default, used when a transaction has no max fee of its own */
+  defaultMaxFee?: Hbar | null;
+}
+
+/**
+ * A group of transactions confirmed together, such as a contract deploy
+ */
+export interface PolicyOperation {
+  description: string;
+  transactionTypes: string[];
+  /** HBAR moved out of the operator account */
+  transferredHbar?: number;
+  gas?: number;
+}
+
+/**
+ * How a transaction is submitted, for authorize
+ */
+export interface AuthorizeOptions {
+  /** Skip the confirmation because confirmOperation already covered it */
+  confirmed?: boolean;
+  /** The transaction a ScheduleCreateTransaction wraps, whose transfers count towards the caps */
+  scheduledTransaction?: Transaction;
+  /** Chunks a chunked transaction is submitted in, each charged the fee of one transaction */
+  chunkCount?: number;
+}
+
+/**
+ * Enforces read-only mode, the transaction type allow-list and HBAR caps, and asks
+ * for a modal confirmation on mainnet. Blocked attempts go to the Transaction Center.
+ */
+export class TransactionPolicyService {
+  // Transaction body types with a label and base fee in USD from the Hedera fee schedule, before gas
+  static readonly TRANSACTION_TYPES: { [type: string]: { label: string; feeUsd: number } } = {
+    contractCreateInstance: { label: 'Contract create', feeUsd: 1.0 },
+    contractCall: { label: 'Contract execute', feeUsd: 0.05 },
+    contractUpdateInstance: { label: 'Contract update', feeUsd: 0.026 },
+    contractDeleteInstance: { label: 'Contract delete', feeUsd: 0.007 },
+    fileCreate: { label: 'File create', feeUsd: 0.05 },
+    fileAppend: { label: 'File append', feeUsd: 0.05 },
+    fileDelete: { label: 'File delete', feeUsd: 0.007 },
+    consensusCreateTopic: { label: 'Topic create', feeUsd: 0.01 },
+    consensusSubmitMessage: { label: 'Topic message', feeUsd: 0.0001 },
+    cryptoTransfer: { label: 'HBAR or token transfer', feeUsd: 0.0001 },
+    cryptoCreateAccount: { label: 'Account create', feeUsd: 0.05 },
+    cryptoUpdateAccount: { label: 'Account update', feeUsd: 0.00022 },
+    tokenCreation: { label: 'Token create', feeUsd: 1.0 },
+    tokenMint: { label: 'Token mint', feeUsd: 0.001 },
+    tokenBurn: { label: 'Token burn', feeUsd: 0.001 },
+    tokenAssociate: { label: 'Token associate', feeUsd: 0.05 },
+    tokenDissociate: { label: 'Token dissociate', feeUsd: 0.05 },
+    tokenGrantKyc: { label: 'Token grant KYC', feeUsd: 0.001 },
+    tokenRevokeKyc: { label: 'Token revoke KYC', feeUsd: 0.001 },
+    tokenFreeze: { label: 'Token freeze', feeUsd: 0.001 },
+    tokenUnfreeze: { label: 'Token unfreeze', feeUsd: 0.001 },
+    tokenPause: { label: 'Token pause', feeUsd: 0.001 },
+    tokenUnpause: { label: 'Token unpause', feeUsd: 0.001 },
+    scheduleCreate: { label: 'Schedule create', feeUsd: 0.01 },
+    scheduleSign: { label: 'Schedule sign', feeUsd: 0.001 }
+  };
+
+  // SDK transaction classes and their body type
+  static readonly TRANSACTION_CLASSES: [new (...args: any[]) => Transaction, string][] = [
+    [ContractCreateTransaction, 'contractCreateInstance'],
+    [ContractExecuteTransaction, 'contractCall'],
+    [ContractUpdateTransaction, 'contractUpdateInstance'],
+    [ContractDeleteTransaction, 'contractDeleteInstance'],
+    [FileCreateTransaction, 'fileCreate'],
+    [FileAppendTransaction, 'fileAppend'],
+    [FileDeleteTransaction, 'fileDelete'],
+    [TopicCreateTransaction, 'consensusCreateTopic'],
+    [TopicMessageSubmitTransaction, 'consensusSubmitMessage'],
+    [TransferTransaction, 'cryptoTransfer'],
+    [AccountCreateTransaction, 'cryptoCreateAccount'],
+    [AccountUpdateTransaction, 'cryptoUpdateAccount'],
+    [TokenCreateTransaction, 'tokenCreation'],
+    [TokenMintTransaction, 'tokenMint'],
+    [TokenBurnTransaction, 'tokenBurn'],
+    [TokenAssociateTransaction, 'tokenAssociate'],
+    [TokenDissociateTransaction, 'tokenDissociate'],
+    [TokenGrantKycTransaction, 'tokenGrantKyc'],
+    [TokenRevokeKycTransaction, 'tokenRevokeKyc'],
+    [TokenFreezeTransaction, 'tokenFreeze'],
+    [TokenUnfreezeTransaction, 'tokenUnfreeze'],
+    [TokenPauseTransaction, 'tokenPause'],
+    [TokenUnpauseTransaction, 'tokenUnpause'],
+    [ScheduleCreateTransaction, 'scheduleCreate'],
+    [ScheduleSignTransaction, 'scheduleSign']
+  ];
+
+  private static readonly CONFIRM_NETWORKS = ['mainnet'];
+  private static readonly FEE_DATA_TTL = 5 * 60 * 1000;
+
+  // HBAR committed per network and account in this session
+  private sessionSpend = new Map<string, number>();
+  private feeData = new Map<string, { hbarPerUsd: number; gasPrices: { [mirrorType: string]: number }; expires: number }>();
+
+  private _onDidChangePolicy = new vscode.EventEmitter<void>();
+  readonly onDidChangePolicy: vscode.Event<void> = this._onDidChangePolicy.event;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.context.subscriptions.push(
+      this._onDidChangePolicy,
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('hivemind.transactionPolicy')) {
+          this._onDidChangePolicy.fire();
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the policy for a profile, falling back to the settings
+   */
+  public getEffectivePolicy(profile?: OperatorProfile): Required<TransactionPolicy> {
+    const config = vscode.workspace.getConfiguration('hivemind.transactionPolicy');
+    const policy = profile?.policy || {};
+
+    return {
+      readOnly: policy.readOnly ?? config.get<boolean>('readOnly', false),
+      allowedTransactionTypes: policy.allowedTransactionTypes || [],
+      maxTransactionHbar: policy.maxTransactionHbar ?? config.get<number>('maxTransactionHbar', 100),
+      maxSessionHbar: policy.maxSessionHbar ?? config.get<number>('maxSessionHbar', 1000)
+    };
+  }
+
+  /**
+   * Whether transactions on a network need a modal confirmation
+   */
+  public requiresConfirmation(network: string): boolean {
+    return TransactionPolicyService.CONFIRM_NETWORKS.includes(network);
+  }
+
+  /**
+   * Get the HBAR committed by an account on a network in this session
+   */
+  public getSessionSpend(network: string, accountId: string): number {
+    return this.sessionSpend.get(`${network}:${accountId}`) || 0;
+  }
+
+  /**
+   * Forget the HBAR committed in this session
+   */
+  public resetSessionSpend(): void {
+    this.sessionSpend.clear();
+    this._onDidChangePolicy.fire();
+  }
+
+  /**
+   * Check a transaction against the policy and confirm it on mainnet.
+   * Returns the HBAR it commits, all chunks included, to pass to recordSpend once submitted.
+   */
+  public async authorize(transaction: Transaction, context: PolicyContext, options: AuthorizeOptions = {}): Promise<number> {
+    const type = TransactionPolicyService.getTransactionType(transaction);
+    const policy = this.getEffectivePolicy(context.profile);
+
+    if (policy.readOnly) {
+      this.block(context, type, 'Read-only mode is on');
+    }
+
+    if (policy.allowedTransactionTypes.length > 0 && !policy.allowedTransactionTypes.includes(type)) {
+      this.block(context, type, `${this.getTypeLabel(type)} transactions are not allowed for this profile`);
+    }
+
+    const transferred = TransactionPolicyService.getTransferredHbar(transaction, context.accountId, options.scheduledTransaction);
+    const gas = transaction instanceof ContractCreateTransaction || transaction instanceof ContractExecuteTransaction
+      ? transaction.gas?.toNumber()
+      : undefined;
+    const estimatedFee = await this.estimateFee([type], gas, context.mirrorNode, context.network);
+    const maxFee = (transaction.maxTransactionFee || context.defaultMaxFee)?.toBigNumber().toNumber();
+    const cost = transferred + (estimatedFee ?? maxFee ?? 0);
+    // Each chunk is a transaction of its own; the session cap has to cover all of them
+    const total = cost * (options.chunkCount || 1);
+
+    this.checkCaps(context, type, policy, cost, total);
+
+    if (!options.confirmed && this.requiresConfirmation(context.network)) {
+      const approved = await this.confirm(context, this.getTypeLabel(type), transferred, estimatedFee, maxFee);
+      if (!approved) {
+        this.block(context, type, 'Declined at confirmation');
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * Confirm a group of transactions once, e.g. the file and create transactions of a deploy.
+   * The transactions are still authorized one by one, without asking again.
+   */
+  public async confirmOperation(operation: PolicyOperation, context: PolicyContext): Promise<void> {
+    const type = operation.transactionTypes[operation.transactionTypes.length - 1];
+    const policy = this.getEffectivePolicy(context.profile);
+
+    if (policy.readOnly) {
+      this.block(context, type, 'Read-only mode is on');
+    }
+
+    const denied = operation.transactionTypes.find(t =>
+      policy.allowedTransactionTypes.length > 0 && !policy.allowedTransactionTypes.includes(t)
+    );
+    if (denied) {
+      this.block(context, denied, `${this.getTypeLabel(denied)} transactions are not allowed for this profile`);
+    }
+
+    const transferred = operation.transferredHbar || 0;
+    const estimatedFee = await this.estimateFee(operation.transactionTypes, operation.gas, context.mirrorNode, context.network);
+    this.checkCaps(context, type, { ...policy, maxTransactionHbar: 0 }, transferred + (estimatedFee || 0));
+
+    if (this.requiresConfirmation(context.network)) {
+      const approved = await this.confirm(context, operation.description, transferred, estimatedFee);
+      if (!approved) {
+        this.block(context, type, 'Declined at confirmation');
+      }
+    }
+  }
+
+  /**
+   * Add HBAR committed by a submitted transaction to the session total
+   */
+  public recordSpend(context: PolicyContext, amount: number): void {
+    const key = `${context.network}:${context.accountId}`;
+    this.sessionSpend.set(key, (this.sessionSpend.get(key) || 0) + amount);
+  }
+
+  /**
+   * Estimate the fee in HBAR for a set of transaction types: USD base fees at the current
+   * exchange rate plus the gas limit at the current gas price. Undefined if the mirror node
+   * can't provide rates or a type has no known base fee.
+   */
+  public async estimateFee(
+    transactionTypes: string[],
+    gas: number | undefined,
+    mirrorNode: MirrorNodeService,
+    network: string
+  ): Promise<number | undefined> {
+    if (transactionTypes.some(type => !TransactionPolicyService.TRANSACTION_TYPES[type])) {
+      return undefined;
+    }
+
+    try {
+      const rates = await this.getFeeData(mirrorNode, network);
+      const baseUsd = transactionTypes.reduce((sum, type) => sum + TransactionPolicyService.TRANSACTION_TYPES[type].feeUsd, 0);
+      const gasPrice = rates.gasPrices[transactionTypes.includes('contractCreateInstance') ? 'ContractCreate' : 'ContractCall'] || 0;
+      return baseUsd * rates.hbarPerUsd + ((gas || 0) * gasPrice) / 1e8;
+    } catch (error) {
+      console.error('Failed to estimate transaction fee:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the transaction body type of a transaction, e.g. contractCall or cryptoTransfer
+   */
+  static getTransactionType(transaction: Transaction): string {
+    const match = TransactionPolicyService.TRANSACTION_CLASSES.find(([transactionClass]) => transaction instanceof transactionClass);
+    return match ? match[1] : 'unknown';
+  }
+
+  /**
+   * Get the HBAR a transaction moves out of an account: contract value, a new account's
+   * initial balance or outgoing transfers, including those of the scheduled transaction
+   * of a ScheduleCreateTransaction, which the SDK has no getter for
+   */
+  static getTransferredHbar(transaction: Transaction, accountId: string, scheduledTransaction?: Transaction): number {
+    if (transaction instanceof ScheduleCreateTransaction) {
+      return scheduledTransaction ? TransactionPolicyService.getTransferredHbar(scheduledTransaction, accountId) : 0;
+    }
+
+    if (transaction instanceof AccountCreateTransaction) {
+      return transaction.initialBalance?.toBigNumber().toNumber() || 0;
+    }
+
+    if (transaction instanceof ContractCreateTransaction) {
+      return transaction.initialBalance?.toBigNumber().toNumber() || 0;
+    }
+
+    if (transaction instanceof ContractExecuteTransaction) {
+      return transaction.payableAmount?.toBigNumber().toNumber() || 0;
+    }
+
+    if (transaction instanceof TransferTransaction) {
+      return transaction.hbarTransfersList
+        .filter(transfer => transfer.accountId.toString() === accountId && transfer.amount.isNegative())
+        .reduce((sum, transfer) => sum - transfer.amount.toBigNumber().toNumber(), 0);
+    }
+
+    return 0;
+  }
+
+  private getTypeLabel(type: string): string {
+    return TransactionPolicyService.TRANSACTION_TYPES[type]?.label || type;
+  }
+
+  private checkCaps(context: PolicyContext, type: string, policy: Required<TransactionPolicy>, cost: number, total = cost): void {
+    if (policy.maxTransactionHbar > 0 && cost > policy.maxTransactionHbar) {
+      this.block(context, type, `Costs about ${cost.toFixed(4)} HBAR, over the ${policy.maxTransactionHbar} HBAR per-transaction cap`);
+    }
+
+    const spent = this.getSessionSpend(context.network, context.accountId);
+    if (policy.maxSessionHbar > 0 && spent + total > policy.maxSessionHbar) {
+      this.block(context, type, `Would bring this session to ${(spent + total).toFixed(4)} HBAR, over the ${policy.maxSessionHbar} HBAR session cap`);
+    }
+  }
+
+  private async confirm(
+    context: PolicyContext,
+    description: string,
+    transferred: number,
+    estimatedFee?: number,
+    maxFee?: number
+  ): Promise<boolean> {
+    const lines = [
+      `Network: ${context.network}`,
+      `Payer: ${context.accountId}${context.profile ? ` (${context.profile.name})` : ''}`,
+      `Transfers: ${transferred} HBAR`,
+      `Estimated fee: ${estimatedFee !== undefined ? `about ${estimatedFee.toFixed(4)} HBAR` : 'unavailable'}`
+        + (maxFee !== undefined ? ` (max ${maxFee} HBAR)` : ''),
+      `Spent this session: ${this.getSessionSpend(context.network, context.accountId).toFixed(4)} HBAR`
+    ];
+
+    const choice = await vscode.window.showWarningMessage(
+      `Submit ${description} on ${context.network}? This spends real HBAR.`,
+      { modal: true, detail: lines.join('\n') },
+      'Submit'
+    );
+
+    return choice === 'Submit';
+  }
+
+  /**
+   * Log a blocked attempt to the Transaction Center and throw
+   */
+  private block(context: PolicyContext, type: string, reason: string): never {
+    vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+      id: `blocked-${Date.now()}`,
+      type: 'POLICY_BLOCKED',
+      timestamp: new Date(),
+      status: 'BLOCKED',
+      details: {
+        transactionType: type,
+        label: this.getTypeLabel(type),
+        reason,
+        network: context.network,
+        accountId: context.accountId,
+        profile: context.profile?.name
+      }
+    });
+
+    throw new Error(`Transaction blocked by policy: ${reason}`);
+  }
+
+  private async getFeeData(
+    mirrorNode: MirrorNodeService,
+    network: string
+  ): Promise<{ hbarPerUsd: number; gasPrices: { [mirrorType: string]: number } }> {
+    const cached = this.feeData.get(network);
+    if (cached && cached.expires > Date.now()) {
+      return cached;
+    }
+
+    const [rate, fees] = await Promise.all([mirrorNode.getExchangeRate(), mirrorNode.getNetworkFees()]);
+    const data = {
+      hbarPerUsd: (rate.hbar_equivalent / rate.cent_equivalent) * 100,
+      gasPrices: Object.fromEntries(fees.map(fee => [fee.transaction_type, fee.gas])),
+      expires: Date.now() + TransactionPolicyService.FEE_DATA_TTL
+    };
+    this.feeData.set(network, data);
+    return data;
+  }
+}
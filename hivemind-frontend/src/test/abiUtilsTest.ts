@@ -0,0 +1,181 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { defaultAbiCoder, Interface } from '@ethersproject/abi';
+import { AbiEntry, AbiUtils } from '../utils/abiUtils';
+
+const TRANSFER: AbiEntry = {
+    type: 'function',
+    name: 'transfer',
+    stateMutability: 'nonpayable',
+    inputs: [
+        { name: 'to', type: 'address' },
+        { name: 'amount', type: 'uint256' }
+    ]
+};
+
+const SUBMIT_ORDER: AbiEntry = {
+    type: 'function',
+    name: 'submitOrder',
+    stateMutability: 'nonpayable',
+    inputs: [
+        {
+            name: 'order',
+            type: 'tuple',
+            components: [
+                { name: 'id', type: 'bytes32' },
+                { name: 'amounts', type: 'uint64[]' },
+                { name: 'flags', type: 'bool[2]' }
+            ]
+        }
+    ]
+};
+
+const TOKEN_ABI: AbiEntry[] = [
+    {
+        type: 'function',
+        name: 'getOrder',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [
+            { name: 'owner', type: 'address' },
+            {
+                name: 'order',
+                type: 'tuple',
+                components: [
+                    { name: 'id', type: 'uint256' },
+                    { name: 'tags', type: 'string[]' }
+                ]
+            }
+        ]
+    },
+    {
+        type: 'event',
+        name: 'Transfer',
+        anonymous: false,
+        inputs: [
+            { name: 'from', type: 'address', indexed: true },
+            { name: 'to', type: 'address', indexed: true },
+            { name: 'value', type: 'uint256', indexed: false }
+        ]
+    },
+    {
+        type: 'error',
+        name: 'InsufficientBalance',
+        inputs: [
+            { name: 'available', type: 'uint256' },
+            { name: 'required', type: 'uint256' }
+        ]
+    }
+];
+
+/**
+ * Test suite for ABI parameter conversion and encoding
+ */
+export async function runAbiUtilsTests() {
+    console.log('Running ABI Encoding Tests...');
+
+    // Test 1: Selector and arguments for a simple call
+    try {
+        const hex = Buffer.from(AbiUtils.encodeFunctionCall(TRANSFER, ['0.0.1234', '1000'])).toString('hex');
+        assert.equal(hex.substring(0, 8), 'a9059cbb', 'Selector should match transfer(address,uint256)');
+        assert.equal(hex.substring(8, 72), '00000000000000000000000000000000000000000000000000000000000004d2');
+        assert.equal(hex.substring(72), '00000000000000000000000000000000000000000000000000000000000003e8');
+        console.log('✅ Test 1 Passed: Simple call is encoded with selector');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Simple call encoding', error);
+    }
+
+    // Test 2: Tuples with nested arrays and bytesN
+    try {
+        const order = JSON.stringify({ id: `0x${'ab'.repeat(32)}`, amounts: [1, '2'], flags: [true, false] });
+        const encoded = AbiUtils.encodeFunctionCall(SUBMIT_ORDER, [order]);
+        assert.equal(AbiUtils.getSignature(SUBMIT_ORDER), 'submitOrder((bytes32,uint64[],bool[2]))');
+        assert.equal(encoded.length, 4 + 32 * 8, 'Encoded tuple should have the expected size');
+        console.log('✅ Test 2 Passed: Tuples and nested arrays are encoded');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Tuple encoding', error);
+    }
+
+    // Test 3: Constructor arguments have no selector
+    try {
+        const constructor: AbiEntry = { type: 'constructor', inputs: [{ name: 'supply', type: 'uint8' }] };
+        const encoded = AbiUtils.encodeParameters(constructor, ['255']);
+        assert.equal(encoded.length, 32);
+        console.log('✅ Test 3 Passed: Constructor arguments are encoded without a selector');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Constructor encoding', error);
+    }
+
+    // Test 4: Invalid values are rejected with the parameter name
+    try {
+        assert.throws(() => AbiUtils.convertParam('256', { name: 'small', type: 'uint8' }), /"small" \(uint8\) must be between 0 and 255/);
+        assert.throws(() => AbiUtils.convertParam('-129', { name: 'n', type: 'int8' }), /between -128 and 127/);
+        assert.throws(() => AbiUtils.convertParam('0x12', { name: 'id', type: 'bytes4' }), /exactly 4 bytes/);
+        assert.throws(() => AbiUtils.convertParam('maybe', { name: 'flag', type: 'bool' }), /true or false/);
+        assert.throws(() => AbiUtils.convertParam('0.0', { name: 'to', type: 'address' }), /not an account ID/);
+        assert.throws(() => AbiUtils.convertParam('[1, 2]', { name: 'pair', type: 'uint8[3]' }), /exactly 3 elements/);
+        assert.throws(() => AbiUtils.convertParam(JSON.stringify({ id: `0x${'00'.repeat(32)}` }), SUBMIT_ORDER.inputs![0]), /missing field "amounts"/);
+        assert.throws(() => AbiUtils.convertParam('[1,', { name: 'list', type: 'uint256[]' }), /must be JSON/);
+        console.log('✅ Test 4 Passed: Invalid values produce clear errors');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Validation errors', error);
+    }
+
+    // Test 5: Hedera IDs and EVM addresses
+    try {
+        assert.equal(AbiUtils.toEvmAddress('0.0.1234'), '0x00000000000000000000000000000000000004d2');
+        assert.equal(AbiUtils.toEvmAddress('0xABCDEFabcdefABCDEFabcdefABCDEFabcdefABCD'), '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd');
+        console.log('✅ Test 5 Passed: Addresses accept 0.0.x and 0x forms');
+    } catch (error) {
+        console.error('❌ Test 5 Failed: Address conversion', error);
+    }
+
+    // Test 6: Return values with tuples and dynamic arrays
+    try {
+        const owner = '0x00000000000000000000000000000000000004d2';
+        const data = defaultAbiCoder.encode(['address', 'tuple(uint256,string[])'], [owner, [7, ['a', 'b']]]);
+        const outputs = AbiUtils.decodeOutputs(TOKEN_ABI[0], data);
+        assert.equal(outputs[0].value, owner);
+        assert.deepEqual(outputs[1].value, { id: '7', tags: ['a', 'b'] });
+        assert.equal(outputs[1].type, '(uint256,string[])');
+        console.log('✅ Test 6 Passed: Return values are decoded');
+    } catch (error) {
+        console.error('❌ Test 6 Failed: Return value decoding', error);
+    }
+
+    // Test 7: Event logs are decoded by topic
+    try {
+        const iface = new Interface(TOKEN_ABI as any);
+        const log = iface.encodeEventLog(iface.getEvent('Transfer'), [
+            '0x00000000000000000000000000000000000004d2',
+            '0x00000000000000000000000000000000000004d3',
+            500
+        ]);
+        const event = AbiUtils.decodeLog(TOKEN_ABI, log.topics, log.data);
+        assert.equal(event.name, 'Transfer');
+        assert.equal(event.args[2].value, '500');
+
+        const unknown = AbiUtils.decodeLog(TOKEN_ABI, [`0x${'11'.repeat(32)}`], '0x');
+        assert.equal(unknown.name, 'Unknown event');
+        console.log('✅ Test 7 Passed: Events are decoded');
+    } catch (error) {
+        console.error('❌ Test 7 Failed: Event decoding', error);
+    }
+
+    // Test 8: Revert reasons
+    try {
+        const iface = new Interface(TOKEN_ABI as any);
+        const reason = `0x08c379a0${defaultAbiCoder.encode(['string'], ['Not owner']).substring(2)}`;
+        const panic = `0x4e487b71${defaultAbiCoder.encode(['uint256'], [0x11]).substring(2)}`;
+        const custom = iface.encodeErrorResult('InsufficientBalance', [1, 2]);
+        assert.equal(AbiUtils.decodeRevert(TOKEN_ABI, reason), 'Reverted: Not owner');
+        assert.equal(AbiUtils.decodeRevert(TOKEN_ABI, panic), 'Panic 0x11: arithmetic overflow or underflow');
+        assert.equal(AbiUtils.decodeRevert(TOKEN_ABI, custom), 'Reverted with InsufficientBalance(available="1", required="2")');
+        assert.equal(AbiUtils.decodeRevert(TOKEN_ABI, '0x'), 'Reverted without a reason');
+        console.log('✅ Test 8 Passed: Revert data is decoded');
+    } catch (error) {
+        console.error('❌ Test 8 Failed: Revert decoding', error);
+    }
+
+    console.log('ABI Encoding Tests Completed');
+}
@@ -0,0 +1,185 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { Interface } from '@ethersproject/abi';
+import { AgentRegistryService } from '../services/agentRegistryService';
+import { MirrorNodeService } from '../services/mirrorNodeService';
+import { startMirrorStandIn } from './mirrorStandIn';
+
+const registryInterface = new Interface(AgentRegistryService.ABI);
+const OWNER = '0x00000000000000000000000000000000000004d2';
+// Long-zero address of the registry, 0.0.1001
+const REGISTRY_ADDRESS = '0x00000000000000000000000000000000000003e9';
+
+interface StandInAgent {
+    name: string;
+    description: string;
+    capabilities: string[];
+    owner: string;
+    fee: number;
+    active: boolean;
+}
+
+/**
+ * Start a mirror node stand-in that answers AgentRegistry calls from an in-memory
+ * registry and serves the logs pushed to `logs`
+ */
+async function startRegistryStandIn() {
+    const state = {
+        agents: new Map<string, StandInAgent>(),
+        logs: [] as { topics: string[]; data: string; timestamp: string }[],
+        calls: 0
+    };
+
+    const { server, url } = await startMirrorStandIn({
+        '/api/v1/contracts/call': (requestUrl, body) => {
+            state.calls++;
+            const call = registryInterface.parseTransaction({ data: body.data });
+            if (call.name === 'getAllAgentIds') {
+                return { result: registryInterface.encodeFunctionResult('getAllAgentIds', [Array.from(state.agents.keys())]) };
+            }
+            const agent = state.agents.get(call.args.agentId);
+            return {
+                result: registryInterface.encodeFunctionResult('getAgentDetails', agent
+                    ? [agent.name, agent.description, agent.capabilities, agent.owner, agent.fee, agent.active]
+                    : ['', '', [], '0x0000000000000000000000000000000000000000', 0, false])
+            };
+        },
+        [`/api/v1/contracts/${REGISTRY_ADDRESS}/results/logs`]: requestUrl => {
+            const after = (requestUrl.searchParams.get('timestamp') || 'gt:0').replace('gt:', '');
+            const order = requestUrl.searchParams.get('order');
+            let logs = state.logs.filter(log => Number(log.timestamp) > Number(after));
+            if (order === 'desc') {
+                logs = logs.reverse();
+            }
+            const limit = Number(requestUrl.searchParams.get('limit') || logs.length);
+            return { logs: logs.slice(0, limit), links: { next: null } };
+        }
+    });
+
+    return { server, url, state };
+}
+
+function eventLog(name: string, args: any[], timestamp: string) {
+    const log = registryInterface.encodeEventLog(registryInterface.getEvent(name), args);
+    return { topics: log.topics, data: log.data, timestamp };
+}
+
+/**
+ * Test suite for the AgentRegistry reader
+ */
+export async function runAgentRegistryTests() {
+    console.log('Running Agent Registry Tests...');
+
+    const { server, url, state } = await startRegistryStandIn();
+    const mirrorNode = new MirrorNodeService(url);
+    state.agents.set('auditor', {
+        name: 'Auditor',
+        description: 'Finds vulnerabilities',
+        capabilities: ['audit', 'gas-analysis'],
+        owner: OWNER,
+        fee: 150000000,
+        active: true
+    });
+    state.logs.push(eventLog('AgentRegistered', ['auditor', 'Auditor', OWNER], '1700000000.000000001'));
+
+    const registry = new AgentRegistryService(mirrorNode, '0.0.1001');
+
+    // Test 1: Agent details are decoded
+    try {
+        const [agent] = await registry.getAgents();
+        assert.equal(agent.id, 'auditor');
+        assert.equal(agent.name, 'Auditor');
+        assert.deepEqual(agent.capabilities, ['audit', 'gas-analysis']);
+        assert.equal(agent.owner, OWNER);
+        assert.equal(agent.ownerAccountId, '0.0.1234');
+        assert.equal(agent.feeTinybars, '150000000');
+        assert.equal(agent.fee, '1.5 ℏ');
+        assert.equal(agent.active, true);
+        console.log('✅ Test 1 Passed: Agent details are decoded');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Agent decoding', error);
+    }
+
+    // Test 2: Agents are cached until the TTL expires
+    try {
+        const calls = state.calls;
+        await registry.getAgents();
+        assert.equal(state.calls, calls, 'A cached read should not call the registry');
+
+        const uncached = new AgentRegistryService(mirrorNode, '0.0.1001', 0);
+        await uncached.getAgents();
+        const afterFirst = state.calls;
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await uncached.getAgents();
+        assert.ok(state.calls > afterFirst, 'An expired cache should call the registry again');
+        console.log('✅ Test 2 Passed: Agents are cached for the TTL');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Cache TTL', error);
+    }
+
+    // Test 3: Registry events update the cached agents
+    try {
+        state.agents.get('auditor')!.name = 'Auditor v2';
+        state.agents.set('tester', {
+            name: 'Tester',
+            description: 'Writes tests',
+            capabilities: ['test-generation'],
+            owner: OWNER,
+            fee: 0,
+            active: true
+        });
+        state.logs.push(eventLog('AgentUpdated', ['auditor', 'Auditor v2', OWNER], '1700000001.000000001'));
+        state.logs.push(eventLog('AgentRegistered', ['tester', 'Tester', OWNER], '1700000002.000000001'));
+
+        const events = await registry.pollEvents();
+        assert.deepEqual(events.map(event => `${event.name}:${event.agentId}`), ['AgentUpdated:auditor', 'AgentRegistered:tester']);
+
+        const calls = state.calls;
+        const agents = await registry.getAgents();
+        assert.equal(state.calls, calls, 'Events should update the cache without a full reload');
+        assert.equal(agents.find(agent => agent.id === 'auditor')?.name, 'Auditor v2');
+        assert.ok(agents.some(agent => agent.id === 'tester'));
+
+        assert.equal((await registry.pollEvents()).length, 0, 'Events should only be returned once');
+        console.log('✅ Test 3 Passed: Registry events update the cache');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Registry events', error);
+    }
+
+    // Test 4: Deactivated agents and foreign logs
+    try {
+        state.agents.get('tester')!.active = false;
+        state.logs.push(eventLog('AgentDeactivated', ['tester'], '1700000003.000000001'));
+        state.logs.push({ topics: [`0x${'ab'.repeat(32)}`], data: '0x', timestamp: '1700000004.000000001' });
+
+        const events = await registry.pollEvents();
+        assert.equal(events.length, 1, 'Logs of other events should be skipped');
+        assert.equal((await registry.getAgents()).find(agent => agent.id === 'tester')?.active, false);
+        assert.equal(await registry.getAgent('missing'), undefined);
+        console.log('✅ Test 4 Passed: Deactivations are applied and foreign logs skipped');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Deactivation', error);
+    }
+
+    server.close();
+
+    // Test 5: Live registry on hedera-local-node, when HIVEMIND_LOCAL_AGENT_REGISTRY is set
+    const localRegistry = process.env.HIVEMIND_LOCAL_AGENT_REGISTRY;
+    if (!localRegistry) {
+        console.log('⏭️  Test 5 Skipped: set HIVEMIND_LOCAL_AGENT_REGISTRY to a deployed AgentRegistry on hedera-local-node');
+        return;
+    }
+
+    try {
+        const local = new AgentRegistryService(
+            new MirrorNodeService(process.env.HIVEMIND_LOCAL_MIRROR_NODE || 'http://localhost:5551'),
+            localRegistry
+        );
+        const agents = await local.getAgents();
+        agents.forEach(agent => assert.match(agent.feeTinybars, /^\d+$/));
+        await local.pollEvents();
+        console.log(`✅ Test 5 Passed: Read ${agents.length} agents from the local registry`);
+    } catch (error) {
+        console.error('❌ Test 5 Failed: Local registry', error);
+    }
+}
@@ -0,0 +1,142 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { PrivateKey } from '@hashgraph/sdk';
+import {
+    CollaborationJob,
+    CollaborationMessageType,
+    CollaborationPayloads,
+    CollaborationProtocol
+} from '../services/collaborationProtocol';
+
+const requesterKey = PrivateKey.generateED25519();
+const agentKey = PrivateKey.generateECDSA();
+const strangerKey = PrivateKey.generateED25519();
+
+const requester = { accountId: '0.0.1001', publicKey: requesterKey.publicKey.toStringDer() };
+const agent = { accountId: '0.0.1002', publicKey: agentKey.publicKey.toStringDer() };
+const stranger = { accountId: '0.0.1003', publicKey: strangerKey.publicKey.toStringDer() };
+
+/**
+ * Sign an envelope and apply it as the next topic message, the way the mirror node would deliver it
+ */
+async function post<T extends CollaborationMessageType>(
+    job: CollaborationJob,
+    type: T,
+    sender: typeof requester,
+    key: PrivateKey,
+    payload: CollaborationPayloads[T]
+) {
+    const envelope = await CollaborationProtocol.createEnvelope(type, job.jobId, sender, payload, async bytes => key.sign(bytes));
+    const parsed = CollaborationProtocol.parse(JSON.stringify(envelope));
+    assert.ok(parsed, 'A created envelope should parse');
+    return CollaborationProtocol.apply(job, parsed!, job.lastSequenceNumber + 1, '1700000000.000000001');
+}
+
+/**
+ * Test suite for the HCS collaboration protocol
+ */
+export async function runCollaborationProtocolTests() {
+    console.log('Running Collaboration Protocol Tests...');
+
+    // Test 1: Envelopes are signed and verified, with ED25519 and ECDSA keys
+    try {
+        const envelope = await CollaborationProtocol.createEnvelope(
+            'claim', 'job-1', agent, { agentId: 'auditor' }, async bytes => agentKey.sign(bytes)
+        );
+        assert.equal(envelope.protocol, 'hivemind-collab');
+        assert.equal(envelope.version, 1);
+        assert.equal(CollaborationProtocol.verifySignature(envelope), true);
+
+        // Key order in the received JSON doesn't matter
+        const reordered = JSON.parse(JSON.stringify({ signature: envelope.signature, payload: envelope.payload, ...envelope }));
+        assert.equal(CollaborationProtocol.verifySignature(reordered), true);
+
+        assert.equal(CollaborationProtocol.verifySignature({ ...envelope, payload: { agentId: 'impostor' } }), false);
+        assert.equal(CollaborationProtocol.verifySignature({ ...envelope, sender: stranger }), false);
+        console.log('✅ Test 1 Passed: Envelopes are signed and verified');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Signatures', error);
+    }
+
+    // Test 2: Only envelopes of this protocol version are parsed
+    try {
+        const envelope = await CollaborationProtocol.createEnvelope(
+            'request', 'job-1', requester, { title: 'Audit', capability: 'audit', description: '' }, async bytes => requesterKey.sign(bytes)
+        );
+        assert.ok(CollaborationProtocol.parse(JSON.stringify(envelope)));
+        assert.equal(CollaborationProtocol.parse(JSON.stringify({ ...envelope, version: 2 })), undefined);
+        assert.equal(CollaborationProtocol.parse(JSON.stringify({ ...envelope, type: 'cancel' })), undefined);
+        assert.equal(CollaborationProtocol.parse('{"hello":"world"}'), undefined);
+        assert.equal(CollaborationProtocol.parse('not json'), undefined);
+        console.log('✅ Test 2 Passed: Only supported envelopes are parsed');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Parsing', error);
+    }
+
+    // Test 3: A job runs from request to completed
+    try {
+        const job = CollaborationProtocol.createJob('job-2', '0.0.5000');
+        await post(job, 'request', requester, requesterKey, {
+            title: 'Audit vault', capability: 'audit', description: 'Check withdrawals', agentIds: ['auditor']
+        });
+        assert.equal(job.status, 'open');
+
+        const uninvited = await post(job, 'claim', stranger, strangerKey, { agentId: 'tester' });
+        assert.match(uninvited.rejected || '', /not invited/);
+
+        await post(job, 'claim', agent, agentKey, { agentId: 'auditor' });
+        assert.equal(job.status, 'claimed');
+        assert.equal(job.claimant?.agentId, 'auditor');
+
+        const hijack = await post(job, 'result', stranger, strangerKey, { agentId: 'auditor', summary: 'All good' });
+        assert.match(hijack.rejected || '', /Only the agent/);
+
+        await post(job, 'progress', agent, agentKey, { agentId: 'auditor', note: 'Halfway', percent: 50 });
+        await post(job, 'result', agent, agentKey, {
+            agentId: 'auditor', summary: 'One issue', findings: [{ severity: 'high', title: 'Reentrancy' }]
+        });
+        assert.equal(job.status, 'completed');
+        assert.equal(CollaborationProtocol.getResults(job).length, 1);
+        assert.equal(job.messages.length, 6);
+        assert.equal(job.lastSequenceNumber, 6);
+        console.log('✅ Test 3 Passed: Job lifecycle');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Job lifecycle', error);
+    }
+
+    // Test 4: Disputes, forged messages and keys that don't belong to the account
+    try {
+        const job = CollaborationProtocol.createJob('job-3', '0.0.5001');
+        await post(job, 'request', requester, requesterKey, { title: 'Tests', capability: 'test-generation', description: '' });
+        await post(job, 'claim', agent, agentKey, { agentId: 'tester' });
+        await post(job, 'result', agent, agentKey, { agentId: 'tester', summary: 'Done' });
+
+        const agentDispute = await post(job, 'dispute', agent, agentKey, { reason: 'Changed my mind' });
+        assert.match(agentDispute.rejected || '', /Only the requester/);
+
+        await post(job, 'dispute', requester, requesterKey, { reason: 'Missing edge cases', resultSequenceNumber: 3 });
+        assert.equal(job.status, 'disputed');
+        await post(job, 'result', agent, agentKey, { agentId: 'tester', summary: 'Added edge cases' });
+        assert.equal(job.status, 'completed');
+
+        // Signed by the stranger but claiming to be the requester
+        const forged = await CollaborationProtocol.createEnvelope(
+            'dispute', job.jobId, requester, { reason: 'Forged' }, async bytes => strangerKey.sign(bytes)
+        );
+        const forgedMessage = CollaborationProtocol.apply(job, forged, 7, '1700000000.000000002');
+        assert.equal(forgedMessage.verified, false);
+        assert.equal(forgedMessage.rejected, 'Invalid signature');
+        assert.equal(job.status, 'completed');
+
+        // Validly signed, but the key is not the key of the claimed account
+        const stolen = await CollaborationProtocol.createEnvelope(
+            'dispute', job.jobId, requester, { reason: 'Stolen' }, async bytes => requesterKey.sign(bytes)
+        );
+        const stolenMessage = CollaborationProtocol.apply(job, stolen, 8, '1700000000.000000003', false);
+        assert.match(stolenMessage.rejected || '', /does not belong/);
+        assert.equal(job.status, 'completed');
+        console.log('✅ Test 4 Passed: Disputes and rejected messages');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Disputes', error);
+    }
+}
@@ -0,0 +1,186 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { Interface } from '@ethersproject/abi';
+import { ContractRegistryService } from '../services/contractRegistryService';
+import { MirrorNodeService, MirrorTopicMessage } from '../services/mirrorNodeService';
+import { AbiEntry } from '../utils/abiUtils';
+import { startMirrorStandIn } from './mirrorStandIn';
+
+const registryInterface = new Interface(ContractRegistryService.ABI);
+const TOPIC_ID = '0.0.8000';
+const REGISTRY_ADDRESS = '0x0000000000000000000000000000000000001f40';
+const OWNER = '0x00000000000000000000000000000000000003e9';
+
+const ABI: AbiEntry[] = [
+    { type: 'function', name: 'get', inputs: [], outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view' }
+];
+
+/**
+ * Start a mirror node stand-in that serves the messages pushed to `messages` for one topic
+ * and answers ContractRegistry calls from `contracts` and `abis`
+ */
+async function startRegistryStandIn() {
+    const state = {
+        messages: [] as MirrorTopicMessage[],
+        contracts: new Map<string, any[]>(),
+        abis: new Map<string, string>(),
+        topicRequests: 0
+    };
+
+    const { server, url } = await startMirrorStandIn({
+        [`/api/v1/topics/${TOPIC_ID}/messages`]: requestUrl => {
+            state.topicRequests++;
+            const after = Number((requestUrl.searchParams.get('sequencenumber') || 'gt:0').replace('gt:', ''));
+            return {
+                messages: state.messages.filter(message => message.sequence_number > after),
+                links: { next: null }
+            };
+        },
+        '/api/v1/contracts/call': (requestUrl, body) => {
+            const call = registryInterface.parseTransaction({ data: body.data });
+            const result = call.name === 'getAbi'
+                ? registryInterface.encodeFunctionResult('getAbi', [state.abis.get(call.args.abiHash) || ''])
+                : registryInterface.encodeFunctionResult('getContract', state.contracts.get(call.args.contractAddress.toLowerCase())
+                    || ['', `0x${'00'.repeat(32)}`, `0x${'00'.repeat(32)}`, '0x0000000000000000000000000000000000000000', '', 0]);
+            return { result };
+        }
+    });
+
+    return { server, url, state };
+}
+
+function topicMessage(
+    sequenceNumber: number,
+    contents: any,
+    payer: string,
+    chunk?: { number: number; total: number }
+): MirrorTopicMessage {
+    return {
+        consensus_timestamp: `1700000000.${String(sequenceNumber).padStart(9, '0')}`,
+        topic_id: TOPIC_ID,
+        message: Buffer.from(typeof contents === 'string' ? contents : JSON.stringify(contents)).toString('base64'),
+        payer_account_id: payer,
+        running_hash: '',
+        running_hash_version: 3,
+        sequence_number: sequenceNumber,
+        chunk_info: chunk ? {
+            initial_transaction_id: {
+                account_id: payer,
+                nonce: 0,
+                scheduled: false,
+                transaction_valid_start: '1700000000.000000000'
+            },
+            number: chunk.number,
+            total: chunk.total
+        } : null
+    };
+}
+
+function record(contractId: string, name: string, owner: string) {
+    return ContractRegistryService.createRecordMessage({
+        contractId,
+        name,
+        abiHash: ContractRegistryService.hashAbi(ABI),
+        sourceHash: 'ab'.repeat(32),
+        owner,
+        network: 'testnet'
+    });
+}
+
+/**
+ * Test suite for the contract registry reader
+ */
+export async function runContractRegistryTests() {
+    console.log('Running Contract Registry Tests...');
+
+    const { server, url, state } = await startRegistryStandIn();
+    const mirrorNode = new MirrorNodeService(url);
+    const abiHash = ContractRegistryService.hashAbi(ABI);
+
+    // Test 1: Records stay compact and ABIs are addressed by hash
+    try {
+        const message = JSON.stringify(record('0.0.5005', 'Counter', '0.0.1001'));
+        assert.ok(Buffer.byteLength(message) < 1024, 'A record should fit in one topic message');
+        assert.equal(ContractRegistryService.createAbiMessage(ABI).h, abiHash);
+        assert.match(abiHash, /^[0-9a-f]{64}$/);
+        console.log('✅ Test 1 Passed: Records and ABI messages are created');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Messages', error);
+    }
+
+    // Test 2: A topic registry resolves records and reassembles chunked ABIs
+    const topicRegistry = new ContractRegistryService(mirrorNode, { kind: 'topic', topicId: TOPIC_ID });
+    try {
+        const abiMessage = Buffer.from(JSON.stringify(ContractRegistryService.createAbiMessage(ABI)));
+        const middle = Math.floor(abiMessage.length / 2);
+        state.messages.push(
+            topicMessage(1, abiMessage.subarray(middle).toString(), '0.0.1001', { number: 2, total: 2 }),
+            topicMessage(2, abiMessage.subarray(0, middle).toString(), '0.0.1001', { number: 1, total: 2 }),
+            topicMessage(3, record('0.0.5005', 'Counter', '0.0.1001'), '0.0.1001')
+        );
+
+        const registration = await topicRegistry.getRegistration('0.0.5005');
+        assert.equal(registration?.name, 'Counter');
+        assert.equal(registration?.owner, '0.0.1001');
+        assert.equal(registration?.network, 'testnet');
+        assert.equal(registration?.registeredAt, '1700000000.000000003');
+        assert.deepEqual(await topicRegistry.getAbi(registration!.abiHash), ABI);
+        assert.equal(await topicRegistry.getRegistration('0.0.5006'), undefined);
+        console.log('✅ Test 2 Passed: Topic registrations are resolved');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Topic registry', error);
+    }
+
+    // Test 3: Spoofed owners, takeovers and ABIs not matching their hash are ignored
+    try {
+        state.messages.push(
+            topicMessage(4, record('0.0.5007', 'Spoofed', '0.0.1001'), '0.0.2002'),
+            topicMessage(5, record('0.0.5005', 'Takeover', '0.0.2002'), '0.0.2002'),
+            topicMessage(6, record('0.0.5005', 'Counter v2', '0.0.1001'), '0.0.1001'),
+            topicMessage(7, { t: 'hivemind.abi', h: 'cd'.repeat(32), abi: ABI }, '0.0.2002')
+        );
+
+        assert.equal(await topicRegistry.getRegistration('0.0.5007'), undefined, 'The owner must pay for the record');
+        assert.equal((await topicRegistry.getRegistration('0.0.5005'))?.name, 'Counter v2', 'Only the owner may update a record');
+        assert.equal(await topicRegistry.getAbi('cd'.repeat(32)), undefined);
+        console.log('✅ Test 3 Passed: Untrusted messages are ignored');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Untrusted messages', error);
+    }
+
+    // Test 4: Later reads only fetch new messages
+    try {
+        const requests = state.topicRequests;
+        state.messages.push(topicMessage(8, record('0.0.5008', 'Token', '0.0.2002'), '0.0.2002'));
+        assert.equal((await topicRegistry.getRegistration('0.0.5008'))?.owner, '0.0.2002');
+        assert.equal(state.topicRequests, requests + 1);
+        console.log('✅ Test 4 Passed: Topic registry is read incrementally');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Incremental reads', error);
+    }
+
+    // Test 5: A registry contract resolves registrations and verifies the ABI hash
+    try {
+        const contractRegistry = new ContractRegistryService(mirrorNode, { kind: 'contract', address: REGISTRY_ADDRESS });
+        state.contracts.set('0x000000000000000000000000000000000000138d', [
+            'Counter', `0x${abiHash}`, `0x${'ab'.repeat(32)}`, OWNER, 'testnet', 1700000000
+        ]);
+        state.abis.set(`0x${abiHash}`, JSON.stringify(ABI));
+        state.abis.set(`0x${'cd'.repeat(32)}`, JSON.stringify(ABI));
+
+        const registration = await contractRegistry.getRegistration('0.0.5005');
+        assert.equal(registration?.name, 'Counter');
+        assert.equal(registration?.abiHash, abiHash);
+        assert.equal(registration?.sourceHash, 'ab'.repeat(32));
+        assert.equal(registration?.owner, '0.0.1001');
+        assert.equal(registration?.registeredAt, '1700000000.000000000');
+        assert.deepEqual(await contractRegistry.getAbi(abiHash), ABI);
+        assert.equal(await contractRegistry.getAbi('cd'.repeat(32)), undefined, 'An ABI under the wrong hash should be rejected');
+        assert.equal(await contractRegistry.getRegistration('0.0.5006'), undefined);
+        console.log('✅ Test 5 Passed: Contract registrations are resolved');
+    } catch (error) {
+        console.error('❌ Test 5 Failed: Contract registry', error);
+    }
+
+    server.close();
+}
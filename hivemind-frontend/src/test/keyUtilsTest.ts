@@ -0,0 +1,106 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { PrivateKey, PublicKey } from '@hashgraph/sdk';
+import { KeyUtils } from '../utils/keyUtils';
+
+/**
+ * Test suite for the key and address toolkit
+ */
+export async function runKeyUtilsTests() {
+    console.log('Running Key Utils Tests...');
+
+    // Test 1: DER and raw keys are parsed, and ambiguous raw keys need a hint
+    try {
+        const ed25519 = PrivateKey.generateED25519();
+        const ecdsa = PrivateKey.generateECDSA();
+
+        const fromDer = KeyUtils.parseKey(ed25519.toStringDer());
+        assert.ok(fromDer instanceof PrivateKey);
+        assert.equal(fromDer.toStringRaw(), ed25519.toStringRaw());
+
+        const publicFromDer = KeyUtils.parseKey(`0x${ecdsa.publicKey.toStringDer()}`);
+        assert.ok(publicFromDer instanceof PublicKey);
+        assert.equal(KeyUtils.describeKey(publicFromDer).keyType, 'ECDSA');
+
+        const compressed = KeyUtils.parseKey(ecdsa.publicKey.toStringRaw());
+        assert.ok(compressed instanceof PublicKey);
+        assert.equal(compressed.toStringRaw(), ecdsa.publicKey.toStringRaw());
+
+        assert.throws(() => KeyUtils.parseKey(ecdsa.toStringRaw()), /choose which/);
+        const ecdsaRaw = KeyUtils.parseKey(ecdsa.toStringRaw(), 'ecdsaPrivate');
+        assert.equal(KeyUtils.describeKey(ecdsaRaw).publicKeyRaw, ecdsa.publicKey.toStringRaw());
+        assert.ok(KeyUtils.parseKey(ed25519.publicKey.toStringRaw(), 'ed25519Public') instanceof PublicKey);
+
+        assert.ok(KeyUtils.parseKey(ed25519.publicKey.toStringDer()) instanceof PublicKey);
+        assert.ok(KeyUtils.parseKey(ecdsa.toStringDer()) instanceof PrivateKey);
+        assert.throws(() => KeyUtils.parseKey('3030' + '00'.repeat(46)), /Not a DER-encoded/);
+
+        assert.throws(() => KeyUtils.parseKey('04' + 'ab'.repeat(64)), /Uncompressed/);
+        assert.throws(() => KeyUtils.parseKey('abc'), /DER or raw hex/);
+        assert.throws(() => KeyUtils.parseKey('ab'.repeat(20)), /32 or 33 bytes/);
+        console.log('✅ Test 1 Passed: Keys are parsed');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Key parsing', error);
+    }
+
+    // Test 2: Keys are described in every format, with the alias address of ECDSA keys
+    try {
+        const ecdsa = PrivateKey.generateECDSA();
+        const details = KeyUtils.describeKey(ecdsa);
+        assert.equal(details.keyType, 'ECDSA');
+        assert.equal(details.privateKeyDer, ecdsa.toStringDer());
+        assert.equal(details.publicKeyRaw, ecdsa.publicKey.toStringRaw());
+        assert.equal(details.evmAddress!.toLowerCase(), `0x${ecdsa.publicKey.toEvmAddress()}`);
+        assert.equal(details.evmAddress, KeyUtils.toChecksumAddress(details.evmAddress!));
+
+        const ed25519 = KeyUtils.describeKey(PrivateKey.generateED25519().publicKey);
+        assert.equal(ed25519.keyType, 'ED25519');
+        assert.equal(ed25519.privateKeyDer, undefined);
+        assert.equal(ed25519.evmAddress, undefined);
+        console.log('✅ Test 2 Passed: Keys are described');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Key description', error);
+    }
+
+    // Test 3: Mnemonics derive the same key for the same index and passphrase
+    try {
+        const words = await KeyUtils.generateMnemonic(12);
+        assert.equal(words.split(' ').length, 12);
+        assert.equal((await KeyUtils.generateMnemonic(24)).split(' ').length, 24);
+
+        const first = await KeyUtils.fromMnemonic(words, 'ECDSA');
+        const again = await KeyUtils.fromMnemonic(`  ${words.toUpperCase().split(' ').join('\n')} `, 'ECDSA', 0);
+        assert.equal(again.toStringRaw(), first.toStringRaw());
+        assert.equal(first.publicKey.type, 'secp256k1');
+        assert.notEqual((await KeyUtils.fromMnemonic(words, 'ECDSA', 1)).toStringRaw(), first.toStringRaw());
+        assert.notEqual((await KeyUtils.fromMnemonic(words, 'ECDSA', 0, 'passphrase')).toStringRaw(), first.toStringRaw());
+        assert.equal((await KeyUtils.fromMnemonic(words, 'ED25519')).publicKey.type, 'ED25519');
+
+        await assert.rejects(KeyUtils.fromMnemonic('not a mnemonic', 'ED25519'));
+        console.log('✅ Test 3 Passed: Keys are derived from mnemonics');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Mnemonic derivation', error);
+    }
+
+    // Test 4: IDs convert to and from long-zero addresses
+    try {
+        assert.deepEqual(KeyUtils.parseAddress(' 0.0.1234 '), {
+            entityId: '0.0.1234',
+            longZeroAddress: '0x00000000000000000000000000000000000004d2'
+        });
+        assert.deepEqual(KeyUtils.parseAddress('0x00000000000000000000000000000000000004d2'), {
+            entityId: '0.0.1234',
+            longZeroAddress: '0x00000000000000000000000000000000000004d2'
+        });
+
+        const alias = '0x' + 'ab'.repeat(20);
+        assert.deepEqual(KeyUtils.parseAddress(alias.toUpperCase().replace('0X', '0x')), { evmAddress: '0xABaBaBaBABabABabAbAbABAbABabababaBaBABaB' });
+        assert.equal(KeyUtils.isLongZero(alias), false);
+
+        assert.throws(() => KeyUtils.parseAddress('0.0.x'), /not an ID/);
+        assert.throws(() => KeyUtils.parseAddress('0x1234'), /not an ID/);
+        console.log('✅ Test 4 Passed: Addresses are converted');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Address conversion', error);
+    }
+}
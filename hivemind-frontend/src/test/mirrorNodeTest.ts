@@ -0,0 +1,82 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { MirrorNodeService } from '../services/mirrorNodeService';
+import { startMirrorStandIn } from './mirrorStandIn';
+
+/**
+ * Test suite for the mirror node client
+ */
+export async function runMirrorNodeTests() {
+    console.log('Running Mirror Node Client Tests...');
+
+    // Serves paginated transactions and rate-limits the first balance request
+    let balanceRequests = 0;
+    const { server, url } = await startMirrorStandIn({
+        '/api/v1/transactions': requestUrl => {
+            const page = requestUrl.searchParams.get('page') || '1';
+            const transactions = page === '1'
+                ? [{ transaction_id: '0.0.2-1700000000-000000001', name: 'CRYPTOTRANSFER', result: 'SUCCESS' }]
+                : [{ transaction_id: '0.0.2-1700000000-000000002', name: 'CONTRACTCALL', result: 'SUCCESS' }];
+            const next = page === '1' ? '/api/v1/transactions?account.id=0.0.2&page=2' : null;
+            return { transactions, links: { next } };
+        },
+        '/api/v1/balances': (requestUrl, body, res) => {
+            balanceRequests++;
+            if (balanceRequests === 1) {
+                res.statusCode = 429;
+                res.setHeader('Retry-After', '0');
+                return { _status: { messages: [{ message: 'Too Many Requests' }] } };
+            }
+            return { balances: [{ account: '0.0.2', balance: 100000000, tokens: [] }], links: { next: null } };
+        }
+    });
+    const mirrorNode = new MirrorNodeService(url);
+
+    // Test 1: Pagination follows links.next
+    try {
+        const transactions = await mirrorNode.getTransactions({ accountId: '0.0.2' });
+        assert.equal(transactions.length, 2, 'Both pages should be returned');
+        assert.equal(transactions[1].name, 'CONTRACTCALL');
+        console.log('✅ Test 1 Passed: Pagination follows links.next');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Pagination', error);
+    }
+
+    // Test 2: Limit stops pagination early
+    try {
+        const transactions = await mirrorNode.getTransactions({ accountId: '0.0.2', limit: 1 });
+        assert.equal(transactions.length, 1, 'Only one transaction should be returned');
+        console.log('✅ Test 2 Passed: Limit is respected');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Limit', error);
+    }
+
+    // Test 3: Rate-limited requests are retried
+    try {
+        const balance = await mirrorNode.getBalance('0.0.2');
+        assert.equal(balance?.balance, 100000000);
+        console.log('✅ Test 3 Passed: 429 responses are retried');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Rate-limit retry', error);
+    }
+
+    // Test 4: Errors carry the mirror node message
+    try {
+        await assert.rejects(mirrorNode.getContract('0.0.404'), /Not found/);
+        console.log('✅ Test 4 Passed: Mirror node errors are descriptive');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Error messages', error);
+    }
+
+    // Test 5: Transaction ID conversion
+    try {
+        assert.equal(MirrorNodeService.toMirrorTransactionId('0.0.2@1700000000.000000001'), '0.0.2-1700000000-000000001');
+        assert.equal(MirrorNodeService.toSdkTransactionId('0.0.2-1700000000-000000001'), '0.0.2@1700000000.000000001');
+        console.log('✅ Test 5 Passed: Transaction IDs convert between formats');
+    } catch (error) {
+        console.error('❌ Test 5 Failed: Transaction ID conversion', error);
+    }
+
+    server.close();
+    console.log('Mirror Node Client Tests Completed');
+}
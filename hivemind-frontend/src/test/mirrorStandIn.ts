@@ -0,0 +1,34 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Answers one mirror node path with the JSON it returns. POST bodies arrive parsed; set the
+ * status or headers on `res` for anything other than a 200.
+ */
+export type StandInRoute = (url: URL, body: any, res: http.ServerResponse) => any;
+
+/**
+ * Start a minimal mirror node stand-in that serves a route table keyed by path, e.g.
+ * `/api/v1/contracts/call`, and answers every other path with the mirror node's 404
+ */
+export async function startMirrorStandIn(routes: { [path: string]: StandInRoute }): Promise<{ server: http.Server; url: string }> {
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            res.setHeader('Content-Type', 'application/json');
+            const route = routes[url.pathname];
+            if (!route) {
+                res.statusCode = 404;
+                res.end(JSON.stringify({ _status: { messages: [{ message: 'Not found' }] } }));
+                return;
+            }
+            res.end(JSON.stringify(route(url, body ? JSON.parse(body) : undefined, res)));
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    return { server, url: `http://127.0.0.1:${port}` };
+}
@@ -0,0 +1,135 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { AccountId, KeyList, PrivateKey, Timestamp, Transaction, TransactionId, TransferTransaction } from '@hashgraph/sdk';
+import { MultiSigUtils } from '../utils/multiSigUtils';
+import { field } from './protobufField';
+
+function frozenTransfer(amountHbar: number, validStart = new Date()): TransferTransaction {
+    return MultiSigUtils.buildHbarTransfer('0.0.1001', '0.0.2002', amountHbar, 'treasury payout')
+        .setTransactionId(TransactionId.withValidStart(AccountId.fromString('0.0.1001'), Timestamp.fromDate(validStart)))
+        .setNodeAccountIds([new AccountId(3), new AccountId(4)])
+        .setTransactionValidDuration(MultiSigUtils.MAX_VALID_DURATION_SECONDS)
+        .freeze();
+}
+
+/**
+ * Test suite for offline multi-signature transactions
+ */
+export async function runMultiSigUtilsTests() {
+    console.log('Running Multi-Sig Utils Tests...');
+
+    const keys = [PrivateKey.generateED25519(), PrivateKey.generateED25519(), PrivateKey.generateECDSA()];
+    const raw = keys.map(key => key.publicKey.toStringRaw().toLowerCase());
+
+    // Test 1: Mirror node keys are decoded, including protobuf threshold keys
+    try {
+        assert.deepEqual(MultiSigUtils.fromMirrorKey({ _type: 'ED25519', key: raw[0].toUpperCase() }), {
+            type: 'key', keyType: 'ED25519', publicKey: raw[0]
+        });
+
+        const ed25519 = (index: number) => field(2, Buffer.from(raw[index], 'hex'));
+        const keyList = Buffer.concat([field(1, ed25519(0)), field(1, ed25519(1)), field(1, field(7, Buffer.from(raw[2], 'hex')))]);
+        const thresholdKey = field(5, Buffer.concat([Buffer.from([0x08, 2]), field(2, keyList)]));
+        assert.deepEqual(MultiSigUtils.fromMirrorKey({ _type: 'ProtobufEncoded', key: thresholdKey.toString('hex') }), {
+            type: 'threshold',
+            threshold: 2,
+            keys: [
+                { type: 'key', keyType: 'ED25519', publicKey: raw[0] },
+                { type: 'key', keyType: 'ED25519', publicKey: raw[1] },
+                { type: 'key', keyType: 'ECDSA', publicKey: raw[2] }
+            ]
+        });
+
+        // A key list needs all its keys; contract keys keep their ID
+        const contract = field(8, Buffer.from([0x18, 0xe9, 0x07]));
+        const nested = field(6, Buffer.concat([field(1, ed25519(0)), field(1, contract)]));
+        assert.deepEqual(MultiSigUtils.fromMirrorKey({ _type: 'ProtobufEncoded', key: nested.toString('hex') }), {
+            type: 'threshold',
+            threshold: 2,
+            keys: [{ type: 'key', keyType: 'ED25519', publicKey: raw[0] }, { type: 'contract', contractId: '0.0.1001' }]
+        });
+
+        assert.throws(() => MultiSigUtils.fromMirrorKey({ _type: 'RSA_3072', key: '00' }), /Unsupported key type/);
+        assert.throws(() => MultiSigUtils.fromMirrorKey({ _type: 'ProtobufEncoded', key: '2a40' }), /Truncated/);
+        console.log('✅ Test 1 Passed: Mirror node keys are decoded');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Mirror node keys', error);
+    }
+
+    // Test 2: Thresholds are evaluated against the keys that signed
+    try {
+        const requirement = MultiSigUtils.fromSdkKey(KeyList.of(...keys.map(key => key.publicKey)).setThreshold(2));
+        assert.equal(MultiSigUtils.evaluate(requirement, new Set([raw[0]])).satisfied, false);
+
+        const status = MultiSigUtils.evaluate(requirement, new Set([raw[0], raw[2]]));
+        assert.equal(status.satisfied, true);
+        assert.deepEqual(status.children!.map(child => child.satisfied), [true, false, true]);
+
+        const withContract = { type: 'threshold' as const, threshold: 1, keys: [{ type: 'contract' as const, contractId: '0.0.5' }] };
+        assert.equal(MultiSigUtils.evaluate(withContract, new Set(raw)).satisfied, false, 'Contracts cannot sign offline');
+        assert.equal(MultiSigUtils.describeKey(requirement), `2 of (ED25519 ${raw[0]}, ED25519 ${raw[1]}, ECDSA ${raw[2]})`);
+        console.log('✅ Test 2 Passed: Thresholds are evaluated');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Threshold evaluation', error);
+    }
+
+    // Test 3: Signatures collected in parallel are merged and verified
+    try {
+        const original = frozenTransfer(5);
+        const bytes = original.toBytes();
+
+        const first = Transaction.fromBytes(bytes);
+        await first.sign(keys[0]);
+        const second = Transaction.fromBytes(bytes);
+        await second.sign(keys[2]);
+
+        const merged = MultiSigUtils.mergeSignatures(first, second);
+        assert.equal(merged.added, 1);
+        assert.deepEqual(MultiSigUtils.getSignatures(merged.transaction).signed.sort(), [raw[0], raw[2]].sort());
+        assert.deepEqual(MultiSigUtils.getSignatures(first).signed, [raw[0]], 'The target is left as it was');
+        assert.equal(MultiSigUtils.mergeSignatures(merged.transaction, second).added, 0, 'Known signatures are skipped');
+
+        // Same transaction ID, different body
+        const tampered = frozenTransfer(500, original.transactionId!.validStart!.toDate());
+        await tampered.sign(keys[1]);
+        assert.throws(() => MultiSigUtils.mergeSignatures(first, tampered), /different transaction/);
+
+        const other = frozenTransfer(5, new Date(Date.now() + 1000));
+        await other.sign(keys[1]);
+        assert.throws(() => MultiSigUtils.mergeSignatures(first, other), /Signatures are for/);
+        console.log('✅ Test 3 Passed: Signatures are merged');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Signature merging', error);
+    }
+
+    // Test 4: Files round-trip and describe what is signed
+    try {
+        const transaction = frozenTransfer(5, new Date('2026-01-01T00:00:00Z'));
+        await transaction.sign(keys[0]);
+        const file = MultiSigUtils.createFile(transaction, { network: 'testnet', description: 'Payout', createdBy: '0.0.1001' });
+
+        const parsed = MultiSigUtils.parseFile(JSON.stringify(file));
+        assert.equal(parsed.file.description, 'Payout');
+        assert.ok(parsed.transaction instanceof TransferTransaction);
+        assert.equal(parsed.transaction.transactionId!.toString(), transaction.transactionId!.toString());
+        assert.deepEqual(MultiSigUtils.getSignatures(parsed.transaction), { signed: [raw[0]], invalid: [] });
+
+        const { start, end } = MultiSigUtils.getValidityWindow(parsed.transaction);
+        assert.equal(start.toISOString(), '2026-01-01T00:00:00.000Z');
+        assert.equal(end.getTime() - start.getTime(), 180000);
+
+        // The payer is also the sender, so it is only listed once
+        assert.deepEqual(MultiSigUtils.getSignerRequirements(parsed.transaction), [{ role: 'Fee payer', accountId: '0.0.1001' }]);
+        const rows = new Map(MultiSigUtils.describe(parsed.transaction));
+        assert.equal(rows.get('Nodes'), '0.0.3, 0.0.4');
+        assert.equal(rows.get('Memo'), 'treasury payout');
+        assert.equal(rows.get('To'), '0.0.2002: 5 ℏ');
+
+        assert.throws(() => MultiSigUtils.parseFile('{'), /invalid JSON/);
+        assert.throws(() => MultiSigUtils.parseFile(JSON.stringify({ ...file, format: 'other' })), /Not a multi-sig/);
+        assert.throws(() => MultiSigUtils.parseFile(JSON.stringify({ ...file, version: 2 })), /Unsupported multi-sig file version 2/);
+        console.log('✅ Test 4 Passed: Files are read and described');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Multi-sig files', error);
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * Encode a length-delimited protobuf field, for messages under 128 bytes
+ */
+export function field(number: number, bytes: Buffer): Buffer {
+    const tag = (number << 3) | 2;
+    const tagBytes = tag < 128 ? [tag] : [(tag & 0x7f) | 0x80, tag >> 7];
+    return Buffer.concat([Buffer.from([...tagBytes, bytes.length]), bytes]);
+}
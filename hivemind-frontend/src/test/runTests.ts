@@ -1,5 +1,18 @@
 import * as vscode from 'vscode';
 import { runChatTests } from './chatTest';
+import { runMirrorNodeTests } from './mirrorNodeTest';
+import { runAbiUtilsTests } from './abiUtilsTest';
+import { runAgentRegistryTests } from './agentRegistryTest';
+import { runCollaborationProtocolTests } from './collaborationProtocolTest';
+import { runTopicSubscriptionTests } from './topicSubscriptionTest';
+import { runContractRegistryTests } from './contractRegistryTest';
+import { runTokenUtilsTests } from './tokenUtilsTest';
+import { runMultiSigUtilsTests } from './multiSigUtilsTest';
+import { runScheduleUtilsTests } from './scheduleUtilsTest';
+import { runTransactionUtilsTests } from './transactionUtilsTest';
+import { runKeyUtilsTests } from './keyUtilsTest';
+import { runTransactionHistoryUtilsTests } from './transactionHistoryUtilsTest';
+import { runTransactionPolicyTests } from './transactionPolicyTest';
 
 /**
  * Main test runner for HiveMind Copilot extension
@@ -11,6 +24,45 @@ export async function runAllTests() {
         // Run chat interface tests
         await runChatTests();
         
+        // Run mirror node client tests
+        await runMirrorNodeTests();
+        
+        // Run ABI encoding tests
+        await runAbiUtilsTests();
+        
+        // Run agent registry tests
+        await runAgentRegistryTests();
+        
+        // Run collaboration protocol tests
+        await runCollaborationProtocolTests();
+        
+        // Run topic subscription tests
+        await runTopicSubscriptionTests();
+        
+        // Run contract registry tests
+        await runContractRegistryTests();
+        
+        // Run token studio tests
+        await runTokenUtilsTests();
+        
+        // Run multi-signature tests
+        await runMultiSigUtilsTests();
+        
+        // Run scheduled transaction tests
+        await runScheduleUtilsTests();
+        
+        // Run transaction decoder tests
+        await runTransactionUtilsTests();
+        
+        // Run key and address toolkit tests
+        await runKeyUtilsTests();
+        
+        // Run transaction history tests
+        await runTransactionHistoryUtilsTests();
+        
+        // Run transaction policy tests
+        await runTransactionPolicyTests();
+        
         console.log('All tests completed');
     } catch (error) {
         console.error('Test execution failed:', error);
@@ -0,0 +1,94 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { MirrorSchedule } from '../services/mirrorNodeService';
+import { ScheduleUtils } from '../utils/scheduleUtils';
+import { field } from './protobufField';
+
+function schedule(overrides: Partial<MirrorSchedule> = {}): MirrorSchedule {
+    return {
+        schedule_id: '0.0.5005',
+        creator_account_id: '0.0.1001',
+        payer_account_id: '0.0.1001',
+        admin_key: null,
+        consensus_timestamp: '1767225600.000000000',
+        expiration_time: null,
+        executed_timestamp: null,
+        deleted: false,
+        memo: 'Mint 100 HIVE',
+        signatures: [],
+        transaction_body: '',
+        wait_for_expiry: false,
+        ...overrides
+    };
+}
+
+/**
+ * Test suite for scheduled transactions
+ */
+export async function runScheduleUtilsTests() {
+    console.log('Running Schedule Utils Tests...');
+
+    const created = Date.parse('2026-01-01T00:00:00Z');
+
+    // Test 1: The scheduled transaction type is read from the body
+    try {
+        // transactionFee = 100, memo, then a token mint
+        const tokenMint = field(29, field(1, Buffer.from([0x18, 0xe9, 0x07])));
+        const body = Buffer.concat([Buffer.from([0x08, 100]), field(2, Buffer.from('memo')), tokenMint]);
+        assert.equal(ScheduleUtils.getScheduledType(body.toString('base64')), 'tokenMint');
+
+        const transfer = field(9, field(1, Buffer.alloc(0)));
+        assert.equal(ScheduleUtils.getScheduledType(transfer.toString('base64')), 'cryptoTransfer');
+        assert.equal(ScheduleUtils.getScheduledType(field(60, Buffer.alloc(0)).toString('base64')), undefined);
+        assert.throws(() => ScheduleUtils.getScheduledType(Buffer.from([0xea, 0x01, 10]).toString('base64')), /Truncated/);
+        console.log('✅ Test 1 Passed: Scheduled transaction types are decoded');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Scheduled transaction types', error);
+    }
+
+    // Test 2: Expiry and state follow the mirror node fields
+    try {
+        assert.equal(ScheduleUtils.getExpiry(schedule()).toISOString(), '2026-01-01T00:30:00.000Z', 'Defaults to 30 minutes');
+        const later = schedule({ expiration_time: '1767312000.000000000' });
+        assert.equal(ScheduleUtils.getExpiry(later).toISOString(), '2026-01-02T00:00:00.000Z');
+
+        assert.equal(ScheduleUtils.getState(schedule(), created + 60000), 'pending');
+        assert.equal(ScheduleUtils.getState(schedule(), created + 30 * 60000), 'expired');
+        assert.equal(ScheduleUtils.getState(later, created + 30 * 60000), 'pending');
+        assert.equal(ScheduleUtils.getState(schedule({ executed_timestamp: '1767225601.000000000' }), created), 'executed');
+        assert.equal(ScheduleUtils.getState(schedule({ deleted: true }), created), 'deleted');
+        console.log('✅ Test 2 Passed: Expiry and state are derived');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Expiry and state', error);
+    }
+
+    // Test 3: Signatories are listed as raw hex keys
+    try {
+        const publicKey = 'aa'.repeat(32);
+        const signed = schedule({
+            signatures: [
+                { consensus_timestamp: '1767225600.000000000', public_key_prefix: Buffer.from(publicKey, 'hex').toString('base64'), signature: '', type: 'ED25519' },
+                { consensus_timestamp: '1767225660.000000000', public_key_prefix: Buffer.from('02' + 'bb'.repeat(32), 'hex').toString('base64'), signature: '', type: 'ECDSA_SECP256K1' }
+            ]
+        });
+        assert.deepEqual(ScheduleUtils.getSignatories(signed), [
+            { keyType: 'ED25519', publicKey },
+            { keyType: 'ECDSA', publicKey: '02' + 'bb'.repeat(32) }
+        ]);
+        console.log('✅ Test 3 Passed: Signatories are listed');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Signatories', error);
+    }
+
+    // Test 4: Countdowns show the two largest units
+    try {
+        const until = new Date(created);
+        assert.equal(ScheduleUtils.formatCountdown(until, created - (2 * 86400 + 4 * 3600 + 59) * 1000), '2d 4h');
+        assert.equal(ScheduleUtils.formatCountdown(until, created - (3600 + 5 * 60) * 1000), '1h 5m');
+        assert.equal(ScheduleUtils.formatCountdown(until, created - 250 * 1000), '4m 10s');
+        assert.equal(ScheduleUtils.formatCountdown(until, created), 'expired');
+        console.log('✅ Test 4 Passed: Countdowns are formatted');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Countdowns', error);
+    }
+}
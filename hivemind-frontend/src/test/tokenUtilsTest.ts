@@ -0,0 +1,148 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { CustomFixedFee, CustomFractionalFee, CustomRoyaltyFee, FeeAssessmentMethod, PrivateKey } from '@hashgraph/sdk';
+import { TokenForm, TokenUtils } from '../utils/tokenUtils';
+
+function tokenForm(overrides: Partial<TokenForm> = {}): TokenForm {
+    return {
+        name: 'Hive Token',
+        symbol: 'HIVE',
+        memo: '',
+        type: 'fungible',
+        decimals: '2',
+        initialSupply: '1000.5',
+        supplyType: 'infinite',
+        maxSupply: '',
+        freezeDefault: false,
+        keys: { admin: 'operator', supply: 'operator' },
+        fees: [],
+        ...overrides
+    };
+}
+
+/**
+ * Test suite for token studio validation and fee building
+ */
+export async function runTokenUtilsTests() {
+    console.log('Running Token Utils Tests...');
+
+    // Test 1: Amounts convert between whole tokens and the smallest unit
+    try {
+        assert.equal(TokenUtils.toSmallestUnit('1.5', 2), '150');
+        assert.equal(TokenUtils.toSmallestUnit('7', 0), '7');
+        assert.equal(TokenUtils.toSmallestUnit('0.10', 1), '1', 'Trailing zeros should not count as decimals');
+        assert.throws(() => TokenUtils.toSmallestUnit('0.123', 2), /more than 2 decimals/);
+        assert.throws(() => TokenUtils.toSmallestUnit('-1', 2), /non-negative/);
+        assert.throws(() => TokenUtils.toSmallestUnit('9223372036854775808', 0), /too large/);
+        assert.equal(TokenUtils.formatAmount('150', 2), '1.5');
+        assert.equal(TokenUtils.formatAmount(5, 3), '0.005');
+        assert.equal(TokenUtils.formatAmount('100', 2), '1');
+        console.log('✅ Test 1 Passed: Amounts are converted');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Amounts', error);
+    }
+
+    // Test 2: Percentages become reduced fractions
+    try {
+        assert.deepEqual(TokenUtils.toFraction('2.5'), { numerator: 1, denominator: 40 });
+        assert.deepEqual(TokenUtils.toFraction('100'), { numerator: 1, denominator: 1 });
+        assert.deepEqual(TokenUtils.toFraction('0.000001'), { numerator: 1, denominator: 100000000 });
+        assert.throws(() => TokenUtils.toFraction('0'), /over 0/);
+        assert.throws(() => TokenUtils.toFraction('101'), /at most 100/);
+        console.log('✅ Test 2 Passed: Percentages are converted');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Percentages', error);
+    }
+
+    // Test 3: A valid form becomes create options
+    try {
+        const publicKey = PrivateKey.generateED25519().publicKey.toString();
+        const options = TokenUtils.parseTokenForm(tokenForm({
+            supplyType: 'finite',
+            maxSupply: '5000',
+            freezeDefault: true,
+            keys: { admin: 'operator', supply: 'operator', freeze: publicKey, kyc: 'none' },
+            fees: [{
+                type: 'fractional', collectorAccountId: '0.0.1001', amount: '', denomination: 'hbar',
+                percentage: '1', minimum: '0.5', maximum: '', netOfTransfers: true, fallbackHbar: ''
+            }]
+        }));
+        assert.equal(options.decimals, 2);
+        assert.equal(options.initialSupply, '100050');
+        assert.equal(options.maxSupply, '500000');
+        assert.deepEqual(options.keys, { admin: 'operator', supply: 'operator', freeze: publicKey });
+        assert.equal(options.memo, undefined);
+        assert.deepEqual(options.customFees, [{
+            type: 'fractional', collectorAccountId: '0.0.1001', numerator: 1, denominator: 100,
+            minimum: '50', maximum: undefined, netOfTransfers: true
+        }]);
+        console.log('✅ Test 3 Passed: Forms are parsed');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Form parsing', error);
+    }
+
+    // Test 4: Invalid forms are rejected with the field at fault
+    try {
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ symbol: ' ' })), /Symbol/);
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ name: 'x'.repeat(101) })), /Name/);
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ decimals: '19' })), /Decimals/);
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ supplyType: 'finite', maxSupply: '10' })), /exceed the max supply/);
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ keys: { kyc: 'not-a-key' } })), /KYC key/);
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ type: 'nft', keys: {} })), /supply key/);
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ freezeDefault: true })), /freeze key/);
+        const royalty = {
+            type: 'royalty' as const, collectorAccountId: '0.0.1001', amount: '', denomination: 'hbar',
+            percentage: '5', minimum: '', maximum: '', netOfTransfers: false, fallbackHbar: ''
+        };
+        assert.throws(() => TokenUtils.parseTokenForm(tokenForm({ fees: [royalty] })), /Fee 1: royalty fees only apply to NFTs/);
+        assert.throws(
+            () => TokenUtils.parseTokenForm(tokenForm({ fees: Array(11).fill({ ...royalty, type: 'fixed', amount: '1' }) })),
+            /at most 10 custom fees/
+        );
+        console.log('✅ Test 4 Passed: Invalid forms are rejected');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Form validation', error);
+    }
+
+    // Test 5: NFTs get their custom fees, metadata and batches
+    try {
+        const options = TokenUtils.parseTokenForm(tokenForm({
+            type: 'nft',
+            decimals: '2',
+            initialSupply: '50',
+            fees: [{
+                type: 'royalty', collectorAccountId: '0.0.1001', amount: '', denomination: 'hbar',
+                percentage: '5', minimum: '', maximum: '', netOfTransfers: false, fallbackHbar: '1'
+            }, {
+                type: 'fixed', collectorAccountId: '0.0.1002', amount: '3', denomination: '0.0.4004',
+                percentage: '', minimum: '', maximum: '', netOfTransfers: false, fallbackHbar: ''
+            }]
+        }));
+        assert.equal(options.decimals, 0, 'NFTs have no decimals');
+        assert.equal(options.initialSupply, '0', 'NFTs start with no supply');
+
+        const [royalty, fixed] = TokenUtils.toCustomFees(options.customFees!);
+        assert.ok(royalty instanceof CustomRoyaltyFee);
+        assert.equal((royalty as CustomRoyaltyFee).numerator.toNumber(), 1);
+        assert.equal((royalty as CustomRoyaltyFee).denominator.toNumber(), 20);
+        assert.equal((royalty as CustomRoyaltyFee).fallbackFee?.amount.toString(), '100000000');
+        assert.ok(fixed instanceof CustomFixedFee);
+        assert.equal((fixed as CustomFixedFee).amount.toString(), '3');
+        assert.equal((fixed as CustomFixedFee).denominatingTokenId?.toString(), '0.0.4004');
+
+        const [fractional] = TokenUtils.toCustomFees([{
+            type: 'fractional', collectorAccountId: '0.0.1001', numerator: 1, denominator: 100, netOfTransfers: true
+        }]);
+        assert.equal((fractional as CustomFractionalFee).assessmentMethod, FeeAssessmentMethod.Exclusive);
+
+        const metadata = TokenUtils.encodeNftMetadata(['ipfs://one', '', '  ipfs://two  ']);
+        assert.deepEqual(metadata.map(entry => Buffer.from(entry).toString()), ['ipfs://one', 'ipfs://two']);
+        assert.throws(() => TokenUtils.encodeNftMetadata(['x'.repeat(101)]), /NFT 1 is 101 bytes/);
+        assert.throws(() => TokenUtils.encodeNftMetadata(['', ' ']), /at least one NFT/);
+        assert.deepEqual(TokenUtils.toBatches([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+        assert.equal(TokenUtils.toBatches(Array(25).fill(0)).length, 3);
+        console.log('✅ Test 5 Passed: NFT fees and metadata are built');
+    } catch (error) {
+        console.error('❌ Test 5 Failed: NFT fees and metadata', error);
+    }
+}
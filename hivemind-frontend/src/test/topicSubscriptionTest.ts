@@ -0,0 +1,238 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { MirrorNodeService, MirrorTopicMessage } from '../services/mirrorNodeService';
+import { TopicSubscription } from '../services/topicSubscription';
+import { TopicMessage, TopicMessageAssembler } from '../services/topicMessageAssembler';
+import { startMirrorStandIn } from './mirrorStandIn';
+
+const TOPIC_ID = '0.0.7000';
+
+/**
+ * Start a mirror node stand-in that serves the messages pushed to `messages` for one topic,
+ * honouring the sequence number filter, order and limit
+ */
+async function startTopicStandIn() {
+    const state = { messages: [] as MirrorTopicMessage[], requests: 0 };
+
+    const { server, url } = await startMirrorStandIn({
+        [`/api/v1/topics/${TOPIC_ID}/messages`]: requestUrl => {
+            state.requests++;
+            const [operator, value] = (requestUrl.searchParams.get('sequencenumber') || 'gt:0').split(':');
+            let messages = state.messages.filter(message =>
+                operator === 'lt' ? message.sequence_number < Number(value) : message.sequence_number > Number(value));
+            if (requestUrl.searchParams.get('order') === 'desc') {
+                messages = messages.reverse();
+            }
+            const limit = Number(requestUrl.searchParams.get('limit') || messages.length);
+            return { messages: messages.slice(0, limit), links: { next: null } };
+        }
+    });
+
+    return { server, url, state };
+}
+
+function topicMessage(
+    sequenceNumber: number,
+    contents: string | Buffer,
+    chunk?: { number: number; total: number; validStart?: string }
+): MirrorTopicMessage {
+    return {
+        consensus_timestamp: `1700000000.${String(sequenceNumber).padStart(9, '0')}`,
+        topic_id: TOPIC_ID,
+        message: Buffer.from(contents).toString('base64'),
+        payer_account_id: '0.0.1001',
+        running_hash: '',
+        running_hash_version: 3,
+        sequence_number: sequenceNumber,
+        chunk_info: chunk ? {
+            initial_transaction_id: {
+                account_id: '0.0.1001',
+                nonce: 0,
+                scheduled: false,
+                transaction_valid_start: chunk.validStart || '1700000000.000000000'
+            },
+            number: chunk.number,
+            total: chunk.total
+        } : null
+    };
+}
+
+/**
+ * Test suite for topic subscriptions over the mirror node
+ */
+export async function runTopicSubscriptionTests() {
+    console.log('Running Topic Subscription Tests...');
+
+    // Test 1: Messages are decoded, with JSON parsed
+    try {
+        const json = TopicMessageAssembler.decode([topicMessage(1, ' {"type":"ping","n":1}')]);
+        assert.equal(json.sequenceNumber, 1);
+        assert.equal(json.consensusTimestamp, '1700000000.000000001');
+        assert.equal(json.payerAccountId, '0.0.1001');
+        assert.deepEqual(json.json, { type: 'ping', n: 1 });
+
+        const text = TopicMessageAssembler.decode([topicMessage(2, '{not json')]);
+        assert.equal(text.text, '{not json');
+        assert.equal(text.json, undefined);
+        assert.equal(TopicMessageAssembler.decode([topicMessage(3, '42')]).json, undefined, 'Only objects and arrays count as JSON');
+        assert.equal(TopicMessageAssembler.decode([topicMessage(5, 'whole', { number: 1, total: 1 })]).chunks, undefined);
+        console.log('✅ Test 1 Passed: Messages are decoded');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Decoding', error);
+    }
+
+    // Test 2: Chunks are joined by chunk number, across batches and multi-byte characters
+    try {
+        const payload = Buffer.from(JSON.stringify({ abi: 'é'.repeat(700) }), 'utf8');
+        const parts = [payload.subarray(0, 1001), payload.subarray(1001)];
+        const assembler = new TopicMessageAssembler();
+
+        assert.deepEqual(assembler.add([topicMessage(10, parts[1], { number: 2, total: 2 }), topicMessage(11, 'between')])
+            .map(message => message.text), ['between']);
+        const [partial] = assembler.getIncomplete();
+        assert.deepEqual(partial.chunks?.missing, [1]);
+        assert.equal(partial.json, undefined, 'An incomplete message should not be parsed');
+
+        const [joined] = assembler.add([topicMessage(12, parts[0], { number: 1, total: 2 })]);
+        assert.deepEqual(joined.json, { abi: 'é'.repeat(700) });
+        assert.equal(joined.sequenceNumber, 12);
+        assert.equal(joined.chunks?.initialTransactionId, '0.0.1001@1700000000.000000000');
+        assert.deepEqual(joined.chunks?.sequenceNumbers, [12, 10]);
+        assert.equal(joined.chunks?.outOfOrder, true);
+        assert.equal(assembler.getIncomplete().length, 0);
+
+        // Duplicate chunks don't complete a message, and messages with other initial transactions stay apart
+        const other = new TopicMessageAssembler();
+        other.add([
+            topicMessage(20, 'a', { number: 1, total: 2 }),
+            topicMessage(21, 'a', { number: 1, total: 2 }),
+            topicMessage(22, 'x', { number: 1, total: 2, validStart: '1700000001.000000000' })
+        ]);
+        assert.equal(other.getIncomplete().length, 2);
+        assert.deepEqual(other.add([topicMessage(23, 'b', { number: 2, total: 2 })]).map(message => message.text), ['ab']);
+        console.log('✅ Test 2 Passed: Chunked messages are reassembled');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Reassembly', error);
+    }
+
+    const { server, url, state } = await startTopicStandIn();
+    const mirrorNode = new MirrorNodeService(url);
+    for (let i = 1; i <= 150; i++) {
+        state.messages.push(topicMessage(i, `message ${i}`));
+    }
+
+    const batches: TopicMessage[][] = [];
+    let incomplete: TopicMessage[] = [];
+    const subscription = new TopicSubscription(mirrorNode, TOPIC_ID, (messages, pending) => {
+        batches.push(messages);
+        incomplete = pending;
+    });
+
+    // Test 3: Starting reads only the latest page, oldest first
+    try {
+        await subscription.start(0);
+        assert.equal(batches.length, 1);
+        assert.equal(batches[0].length, TopicSubscription.PAGE_SIZE);
+        assert.equal(batches[0][0].sequenceNumber, 51);
+        assert.equal(batches[0][batches[0].length - 1].sequenceNumber, 150);
+        assert.equal(subscription.hasOlder(), true);
+        assert.equal(subscription.isRunning(), false, 'An interval of 0 should not poll');
+        console.log('✅ Test 3 Passed: Starting reads the latest messages');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Start', error);
+    }
+
+    // Test 4: Polling passes on only the new messages
+    try {
+        state.messages.push(topicMessage(151, 'new 151'), topicMessage(152, 'new 152'));
+        const polled = await subscription.poll();
+        assert.deepEqual(polled.map(message => message.sequenceNumber), [151, 152]);
+        assert.equal(batches.length, 2);
+
+        assert.equal((await subscription.poll()).length, 0);
+        assert.equal(batches.length, 2, 'An empty poll should not call the listener');
+        console.log('✅ Test 4 Passed: Polling reads new messages once');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Polling', error);
+    }
+
+    // Test 5: Older messages are paged in backwards
+    try {
+        const older = await subscription.loadOlder();
+        assert.equal(older.length, 50);
+        assert.equal(older[0].sequenceNumber, 1);
+        assert.equal(older[older.length - 1].sequenceNumber, 50);
+        assert.equal(subscription.hasOlder(), false);
+        assert.equal((await subscription.loadOlder()).length, 0);
+        console.log('✅ Test 5 Passed: Older messages are loaded');
+    } catch (error) {
+        console.error('❌ Test 5 Failed: Load older', error);
+    }
+
+    // Test 6: The interval polls until stopped
+    try {
+        const received: number[] = [];
+        const live = new TopicSubscription(mirrorNode, TOPIC_ID, messages => received.push(...messages.map(m => m.sequenceNumber)));
+
+        await live.start(20);
+        state.messages.push(topicMessage(153, 'live'));
+        await new Promise(resolve => setTimeout(resolve, 100));
+        live.stop();
+        assert.equal(live.isRunning(), false);
+        assert.ok(received.includes(153), 'The interval should pick up new messages');
+
+        const requests = state.requests;
+        state.messages.push(topicMessage(154, 'after stop'));
+        await new Promise(resolve => setTimeout(resolve, 60));
+        assert.equal(state.requests, requests, 'A stopped subscription should not poll');
+        console.log('✅ Test 6 Passed: Live polling starts and stops');
+    } catch (error) {
+        console.error('❌ Test 6 Failed: Live polling', error);
+    }
+
+    // Test 7: Failed polls are reported and retried from the same message
+    try {
+        const errors: unknown[] = [];
+        const flaky = new MirrorNodeService(url);
+        const received: number[] = [];
+        const subscription = new TopicSubscription(
+            flaky,
+            TOPIC_ID,
+            messages => received.push(...messages.map(m => m.sequenceNumber)),
+            error => errors.push(error)
+        );
+        await subscription.start(0);
+        received.length = 0;
+
+        state.messages.push(topicMessage(155, 'retried'));
+        flaky.setBaseUrl(`${url}/missing`);
+        assert.deepEqual(await subscription.poll(), []);
+        assert.equal(errors.length, 1);
+
+        flaky.setBaseUrl(url);
+        await subscription.poll();
+        assert.deepEqual(received, [155]);
+        console.log('✅ Test 7 Passed: Failed polls are reported and retried');
+    } catch (error) {
+        console.error('❌ Test 7 Failed: Poll errors', error);
+    }
+
+    // Test 8: A chunked message is passed on once its last chunk is polled
+    try {
+        state.messages.push(topicMessage(156, '{"part":', { number: 1, total: 2, validStart: '1700000002.000000000' }));
+        assert.deepEqual((await subscription.poll()).map(message => message.sequenceNumber), [153, 154, 155]);
+        assert.equal(incomplete.length, 1);
+        assert.deepEqual(incomplete[0].chunks?.missing, [2]);
+
+        state.messages.push(topicMessage(157, '"two"}', { number: 2, total: 2, validStart: '1700000002.000000000' }));
+        const [joined] = await subscription.poll();
+        assert.deepEqual(joined.json, { part: 'two' });
+        assert.equal(joined.chunks?.outOfOrder, false);
+        assert.equal(incomplete.length, 0);
+        console.log('✅ Test 8 Passed: Chunked messages are streamed whole');
+    } catch (error) {
+        console.error('❌ Test 8 Failed: Chunked streaming', error);
+    }
+
+    server.close();
+}
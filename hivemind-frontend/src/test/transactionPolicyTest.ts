@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import {
+    AccountCreateTransaction,
+    ContractExecuteTransaction,
+    Hbar,
+    ScheduleCreateTransaction,
+    TokenUpdateTransaction,
+    TopicMessageSubmitTransaction,
+    TransferTransaction
+} from '@hashgraph/sdk';
+import { MirrorNodeService } from '../services/mirrorNodeService';
+import { OperatorProfile } from '../services/profileService';
+import { PolicyContext, TransactionPolicy, TransactionPolicyService } from '../services/transactionPolicyService';
+import { startMirrorStandIn } from './mirrorStandIn';
+
+const OPERATOR = '0.0.1001';
+
+function transfer(operatorHbar: number, otherHbar = 0): TransferTransaction {
+    return new TransferTransaction()
+        .addHbarTransfer(OPERATOR, new Hbar(-operatorHbar))
+        .addHbarTransfer('0.0.3003', new Hbar(-otherHbar))
+        .addHbarTransfer('0.0.2002', new Hbar(operatorHbar + otherHbar));
+}
+
+/**
+ * Test suite for the transaction policy
+ */
+export async function runTransactionPolicyTests() {
+    console.log('Running Transaction Policy Tests...');
+
+    // 20 HBAR to the USD: a transfer's 0.0001 USD base fee is 0.002 HBAR
+    const { server, url } = await startMirrorStandIn({
+        '/api/v1/network/exchangerate': () => ({ current_rate: { cent_equivalent: 5, hbar_equivalent: 1, expiration_time: 0 } }),
+        '/api/v1/network/fees': () => ({ fees: [{ gas: 0, transaction_type: 'ContractCall' }] })
+    });
+    const mirrorNode = new MirrorNodeService(url);
+
+    // Every field is set on the profile, so the settings don't apply
+    const context = (policy: TransactionPolicy): PolicyContext => {
+        const profile: OperatorProfile = {
+            name: 'policy-test',
+            network: 'testnet',
+            accountId: OPERATOR,
+            keySource: 'environment',
+            maxTransactionFee: 2,
+            policy: { readOnly: false, allowedTransactionTypes: [], maxTransactionHbar: 0, maxSessionHbar: 0, ...policy }
+        };
+        return { network: 'testnet', accountId: OPERATOR, profile, mirrorNode };
+    };
+    const newService = () => new TransactionPolicyService({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+
+    // Test 1: Read-only mode blocks writes
+    try {
+        await assert.rejects(newService().authorize(transfer(1), context({ readOnly: true })), /Read-only mode is on/);
+        console.log('✅ Test 1 Passed: Read-only mode blocks writes');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Read-only mode', error);
+    }
+
+    // Test 2: The allow-list rejects other types, including ones the policy doesn't know
+    try {
+        const service = newService();
+        const allowed = context({ allowedTransactionTypes: ['cryptoTransfer'] });
+        await assert.rejects(service.authorize(new ContractExecuteTransaction().setGas(100000), allowed), /Contract execute transactions are not allowed/);
+        await assert.rejects(service.authorize(new TokenUpdateTransaction(), allowed), /unknown transactions are not allowed/);
+        assert.ok(await service.authorize(transfer(1), allowed) > 1);
+        console.log('✅ Test 2 Passed: The allow-list is enforced');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Allow-list', error);
+    }
+
+    // Test 3: Per-transaction and session caps, with every chunk of a message counted up front
+    try {
+        const service = newService();
+        await assert.rejects(service.authorize(transfer(11), context({ maxTransactionHbar: 10 })), /per-transaction cap/);
+
+        const capped = context({ maxTransactionHbar: 10, maxSessionHbar: 15 });
+        const cost = await service.authorize(transfer(8), capped);
+        assert.ok(Math.abs(cost - 8.002) < 1e-9);
+        service.recordSpend(capped, cost);
+        assert.equal(service.getSessionSpend('testnet', OPERATOR), cost);
+        await assert.rejects(service.authorize(transfer(8), capped), /session cap/);
+
+        const message = new TopicMessageSubmitTransaction().setTopicId('0.0.7000').setMessage('hello');
+        const chunked = context({ maxSessionHbar: 0.005 });
+        const fresh = newService();
+        const twoChunks = await fresh.authorize(message, chunked, { chunkCount: 2 });
+        assert.ok(Math.abs(twoChunks - 0.004) < 1e-9);
+        await assert.rejects(fresh.authorize(message, chunked, { chunkCount: 3 }), /session cap/);
+        console.log('✅ Test 3 Passed: Caps are enforced');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Caps', error);
+    }
+
+    // Test 4: Only HBAR leaving the operator account counts, including a scheduled transfer
+    try {
+        assert.equal(TransactionPolicyService.getTransferredHbar(transfer(5, 2), OPERATOR), 5);
+        assert.equal(TransactionPolicyService.getTransferredHbar(transfer(5, 2), '0.0.2002'), 0);
+
+        const inner = transfer(5);
+        const schedule = new ScheduleCreateTransaction().setScheduledTransaction(inner);
+        assert.equal(TransactionPolicyService.getTransferredHbar(schedule, OPERATOR, inner), 5);
+        assert.equal(TransactionPolicyService.getTransferredHbar(schedule, OPERATOR), 0);
+
+        const call = new ContractExecuteTransaction().setContractId('0.0.5005').setGas(100000).setPayableAmount(new Hbar(3));
+        assert.equal(TransactionPolicyService.getTransferredHbar(call, OPERATOR), 3);
+        const account = new AccountCreateTransaction().setInitialBalance(new Hbar(4));
+        assert.equal(TransactionPolicyService.getTransferredHbar(account, OPERATOR), 4);
+        console.log('✅ Test 4 Passed: Transferred HBAR is counted');
+    } catch (error) {
+        console.error('❌ Test 4 Failed: Transferred HBAR', error);
+    }
+
+    // Test 5: Every known transaction class maps to a type with a fee
+    try {
+        for (const [transactionClass, type] of TransactionPolicyService.TRANSACTION_CLASSES) {
+            assert.equal(TransactionPolicyService.getTransactionType(new transactionClass()), type, transactionClass.name);
+            assert.ok(TransactionPolicyService.TRANSACTION_TYPES[type], type);
+        }
+        assert.equal(TransactionPolicyService.getTransactionType(new TokenUpdateTransaction()), 'unknown');
+        console.log('✅ Test 5 Passed: Transaction types are identified');
+    } catch (error) {
+        console.error('❌ Test 5 Failed: Transaction types', error);
+    }
+
+    server.close();
+}
@@ -0,0 +1,136 @@
+import * as assertModule from 'assert';
+const assert: typeof assertModule.strict = assertModule.strict;
+import { AccountId, ContractExecuteTransaction, ContractFunctionParameters, Hbar, PrivateKey, Timestamp, TransactionId, TransferTransaction } from '@hashgraph/sdk';
+import { AbiEntry } from '../utils/abiUtils';
+import { DeploymentRecord } from '../utils/manifestUtils';
+import { TransactionUtils } from '../utils/transactionUtils';
+
+const validStart = new Date('2026-01-01T00:00:00Z');
+
+function transactionId(): TransactionId {
+    return TransactionId.withValidStart(AccountId.fromString('0.0.1001'), Timestamp.fromDate(validStart));
+}
+
+function deployment(contractId: string, abi: AbiEntry[]): DeploymentRecord {
+    return {
+        contractName: 'Token',
+        sourceFile: 'contracts/Token.sol',
+        sourceHash: '',
+        compiler: { optimize: true, optimizerRuns: 200 },
+        abi,
+        contractId,
+        evmAddress: '',
+        transactionId: '',
+        deployer: '0.0.1001',
+        deployedAt: validStart.toISOString()
+    };
+}
+
+/**
+ * Test suite for decoding transaction bytes
+ */
+export async function runTransactionUtilsTests() {
+    console.log('Running Transaction Utils Tests...');
+
+    // Test 1: Bytes are read from hex or base64
+    try {
+        const bytes = Buffer.from([0x0a, 0xff, 0x10, 0x3e]);
+        assert.deepEqual(Buffer.from(TransactionUtils.parseBytes('0aff103e')), bytes);
+        assert.deepEqual(Buffer.from(TransactionUtils.parseBytes(' 0x0AFF\n103E ')), bytes);
+        assert.deepEqual(Buffer.from(TransactionUtils.parseBytes(`"${bytes.toString('base64')}"`)), bytes);
+        assert.throws(() => TransactionUtils.parseBytes('  '), /base64 or hex/);
+        assert.throws(() => TransactionUtils.parseBytes('0x0af'), /even number/);
+        assert.throws(() => TransactionUtils.parseBytes('not bytes!'), /must be base64 or hex/);
+        console.log('✅ Test 1 Passed: Bytes are parsed');
+    } catch (error) {
+        console.error('❌ Test 1 Failed: Byte parsing', error);
+    }
+
+    // Test 2: A signed transfer is decoded with its header, body and signature map
+    try {
+        const key = PrivateKey.generateED25519();
+        const transfer = new TransferTransaction()
+            .addHbarTransfer('0.0.1001', new Hbar(-5))
+            .addHbarTransfer('0.0.2002', new Hbar(5))
+            .setTransactionMemo('payout')
+            .setMaxTransactionFee(new Hbar(2))
+            .setTransactionId(transactionId())
+            .setNodeAccountIds([new AccountId(3), new AccountId(4)])
+            .freeze();
+        await transfer.sign(key);
+
+        const decoded = TransactionUtils.decode(transfer.toBytes());
+        assert.equal(decoded.type, 'cryptoTransfer');
+        assert.equal(decoded.payerAccountId, '0.0.1001');
+        assert.equal(decoded.validStart!.toISOString(), validStart.toISOString());
+        assert.deepEqual(decoded.nodeAccountIds, ['0.0.3', '0.0.4']);
+        assert.equal(decoded.maxFee, '2 ℏ');
+        assert.equal(decoded.memo, 'payout');
+
+        const fields = new Map(decoded.bodyFields);
+        assert.equal(fields.get('transfers.accountAmounts[0].accountID'), '0.0.1001');
+        assert.equal(fields.get('transfers.accountAmounts[0].amount'), '-500000000');
+        assert.equal(fields.get('transfers.accountAmounts[1].accountID'), '0.0.2002');
+
+        const raw = key.publicKey.toStringRaw().toLowerCase();
+        assert.deepEqual(decoded.signatures.map(signature => [signature.nodeAccountId, signature.publicKey, signature.valid]), [
+            ['0.0.3', raw, true],
+            ['0.0.4', raw, true]
+        ]);
+
+        // A signature altered in transit no longer verifies
+        const bytes = Buffer.from(transfer.toBytes());
+        const signature = Buffer.from(decoded.signatures[0].signature, 'hex');
+        bytes[bytes.indexOf(signature)] ^= 0xff;
+        assert.deepEqual(TransactionUtils.decode(bytes).signatures.map(entry => entry.valid), [false, true]);
+
+        assert.throws(() => TransactionUtils.decode(Buffer.from('not a transaction')), /Not a Hedera transaction/);
+        console.log('✅ Test 2 Passed: Transfers are decoded');
+    } catch (error) {
+        console.error('❌ Test 2 Failed: Transfer decoding', error);
+    }
+
+    // Test 3: Contract calls are decoded with a manifest ABI
+    try {
+        const abi: AbiEntry[] = [{
+            type: 'function',
+            name: 'transfer',
+            inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+            outputs: [{ name: '', type: 'bool' }],
+            stateMutability: 'nonpayable'
+        }];
+        const call = new ContractExecuteTransaction()
+            .setContractId('0.0.5005')
+            .setGas(100000)
+            .setFunction('transfer', new ContractFunctionParameters().addAddress('0x' + '11'.repeat(20)).addUint256(42))
+            .setTransactionId(transactionId())
+            .setNodeAccountIds([new AccountId(3)])
+            .freeze()
+            .toBytes();
+
+        const decoded = TransactionUtils.decode(call, [
+            { network: 'mainnet', record: deployment('0.0.7', abi) },
+            { network: 'testnet', record: deployment('0.0.5005', abi) }
+        ]);
+        assert.equal(decoded.type, 'contractCall');
+        assert.equal(new Map(decoded.bodyFields).get('gas'), '100000');
+        assert.deepEqual(decoded.contractCall, {
+            contractId: '0.0.5005',
+            selector: '0xa9059cbb',
+            abiSource: 'Token (0.0.5005) on testnet',
+            matchedBy: 'contractId',
+            signature: 'transfer(address,uint256)',
+            args: [
+                { name: 'to', type: 'address', value: '0x' + '11'.repeat(20) },
+                { name: 'amount', type: 'uint256', value: '42' }
+            ]
+        });
+
+        const bySelector = TransactionUtils.decode(call, [{ network: 'mainnet', record: deployment('0.0.7', abi) }]);
+        assert.equal(bySelector.contractCall!.matchedBy, 'selector');
+        assert.deepEqual(TransactionUtils.decode(call).contractCall, { contractId: '0.0.5005', selector: '0xa9059cbb' });
+        console.log('✅ Test 3 Passed: Contract calls are decoded');
+    } catch (error) {
+        console.error('❌ Test 3 Failed: Contract call decoding', error);
+    }
+}
@@ -0,0 +1,547 @@
+import { AccountId, ContractFunctionResult } from '@hashgraph/sdk';
+import { defaultAbiCoder, FunctionFragment, Interface, ParamType, Result } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+
+/**
+ * A parameter in a Solidity ABI entry
+ */
+export interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+/**
+ * A function, constructor, event or error entry in a Solidity ABI
+ */
+export interface AbiEntry {
+  type: 'function' | 'constructor' | 'event' | 'error' | 'fallback' | 'receive';
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: 'pure' | 'view' | 'nonpayable' | 'payable';
+  anonymous?: boolean;
+}
+
+/**
+ * A decoded value with its ABI name and type. Integers are decimal strings,
+ * tuples are objects keyed by component name.
+ */
+export interface DecodedValue {
+  name: string;
+  type: string;
+  value: any;
+}
+
+/**
+ * A decoded event log. Logs that match no event in the ABI keep their raw topics and data.
+ */
+export interface DecodedEvent {
+  name: string;
+  signature?: string;
+  contractId?: string;
+  args: DecodedValue[];
+  topics?: string[];
+  data?: string;
+}
+
+/**
+ * The decoded outcome of a contract call or execution
+ */
+export interface DecodedContractResult {
+  contractId: string;
+  method: string;
+  transactionId?: string;
+  status: string;
+  gasUsed?: number;
+  outputs: DecodedValue[];
+  events: DecodedEvent[];
+  /** Readable revert reason when the call failed */
+  error?: string;
+}
+
+/**
+ * Utility functions for ABI-driven parameter conversion and encoding
+ */
+export class AbiUtils {
+  private static readonly ERROR_SELECTOR = '0x08c379a0';
+  private static readonly PANIC_SELECTOR = '0x4e487b71';
+
+  // Solidity panic codes, see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+  private static readonly PANIC_CODES: { [code: number]: string } = {
+    0x00: 'generic compiler panic',
+    0x01: 'assertion failed',
+    0x11: 'arithmetic overflow or underflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'invalid enum value',
+    0x22: 'invalid storage byte array encoding',
+    0x31: 'pop() on an empty array',
+    0x32: 'array index out of bounds',
+    0x41: 'out of memory',
+    0x51: 'call to an uninitialized function'
+  };
+
+  /**
+   * Get the canonical signature of a function, event or error, e.g. transfer(address,uint256)
+   */
+  static getSignature(entry: AbiEntry): string {
+    const types = (entry.inputs || []).map(input => ParamType.fromObject(input as any).format('sighash'));
+    return `${entry.name}(${types.join(',')})`;
+  }
+
+  /**
+   * Get the 4-byte selector of a function as a 0x-prefixed hex string
+   */
+  static getSelector(entry: AbiEntry): string {
+    return Interface.getSighash(FunctionFragment.from({ ...entry, type: 'function' } as any));
+  }
+
+  /**
+   * Whether a function only reads state
+   */
+  static isReadOnly(entry: AbiEntry): boolean {
+    return entry.stateMutability === 'view' || entry.stateMutability === 'pure';
+  }
+
+  /**
+   * Decode the return data of a function against its ABI outputs
+   */
+  static decodeOutputs(entry: AbiEntry, data: Uint8Array | string): DecodedValue[] {
+    const outputs = entry.outputs || [];
+    const hex = this.toHex(data);
+
+    if (outputs.length === 0 || hex === '0x') {
+      return [];
+    }
+
+    const types = outputs.map(output => ParamType.fromObject(output as any));
+    const values = defaultAbiCoder.decode(types, hex);
+
+    return outputs.map((output, index) => ({
+      name: output.name || `[${index}]`,
+      type: this.getTypeLabel(output),
+      value: this.formatValue(values[index], output)
+    }));
+  }
+
+  /**
+   * Decode calldata against the functions in an ABI.
+   * Returns undefined when no function has the selector.
+   */
+  static decodeFunctionCall(abi: AbiEntry[], data: Uint8Array | string): { entry: AbiEntry; args: DecodedValue[] } | undefined {
+    const hex = this.toHex(data);
+    const selector = hex.substring(0, 10);
+    const entry = abi.find(item => item.type === 'function' && this.getSelector(item) === selector);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const inputs = entry.inputs || [];
+    const types = inputs.map(input => ParamType.fromObject(input as any));
+    const values = inputs.length > 0 ? defaultAbiCoder.decode(types, `0x${hex.substring(10)}`) : [];
+
+    return {
+      entry,
+      args: inputs.map((input, index) => ({
+        name: input.name || `[${index}]`,
+        type: this.getTypeLabel(input),
+        value: this.formatValue(values[index], input)
+      }))
+    };
+  }
+
+  /**
+   * Decode an event log against the events in an ABI.
+   * Returns the raw topics and data when no event matches.
+   */
+  static decodeLog(abi: AbiEntry[], topics: (Uint8Array | string)[], data: Uint8Array | string): DecodedEvent {
+    const topicHex = topics.map(topic => this.toHex(topic));
+    const dataHex = this.toHex(data);
+
+    try {
+      const iface = new Interface(abi.filter(item => item.type === 'event') as any);
+      const parsed = iface.parseLog({ topics: topicHex, data: dataHex });
+      const inputs = (parsed.eventFragment.inputs || []).map(input => JSON.parse(input.format('json')) as AbiParameter);
+
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        args: inputs.map((input, index) => ({
+          name: input.name || `[${index}]`,
+          type: this.getTypeLabel(input),
+          value: this.formatValue(parsed.args[index], input)
+        }))
+      };
+    } catch (error) {
+      return { name: 'Unknown event', args: [], topics: topicHex, data: dataHex };
+    }
+  }
+
+  /**
+   * Turn revert data into a readable message: Error(string), Panic(uint256)
+   * or a custom error from the ABI, falling back to the raw data
+   */
+  static decodeRevert(abi: AbiEntry[], data: Uint8Array | string | null | undefined): string {
+    const hex = data ? this.toHex(data) : '0x';
+
+    if (hex === '0x') {
+      return 'Reverted without a reason';
+    }
+
+    const selector = hex.substring(0, 10);
+
+    try {
+      if (selector === this.ERROR_SELECTOR) {
+        return `Reverted: ${defaultAbiCoder.decode(['string'], `0x${hex.substring(10)}`)[0]}`;
+      }
+
+      if (selector === this.PANIC_SELECTOR) {
+        const code = (defaultAbiCoder.decode(['uint256'], `0x${hex.substring(10)}`)[0] as BigNumber).toNumber();
+        const reason = this.PANIC_CODES[code] || 'unknown panic code';
+        return `Panic 0x${code.toString(16).padStart(2, '0')}: ${reason}`;
+      }
+
+      const iface = new Interface(abi.filter(item => item.type === 'error') as any);
+      const parsed = iface.parseError(hex);
+      const inputs = (parsed.errorFragment.inputs || []).map(input => JSON.parse(input.format('json')) as AbiParameter);
+      const args = inputs.map((input, index) =>
+        `${input.name || index}=${JSON.stringify(this.formatValue(parsed.args[index], input))}`
+      );
+      return `Reverted with ${parsed.name}(${args.join(', ')})`;
+    } catch (error) {
+      return `Reverted with ${hex}`;
+    }
+  }
+
+  /**
+   * Decode return values and events of an SDK function result
+   */
+  static decodeFunctionResult(
+    abi: AbiEntry[],
+    entry: AbiEntry,
+    result: ContractFunctionResult
+  ): Pick<DecodedContractResult, 'outputs' | 'events' | 'gasUsed' | 'error'> {
+    // Hedera reports revert data as a hex string in errorMessage
+    if (result.errorMessage) {
+      const revertData = /^(0x)?[0-9a-fA-F]*$/.test(result.errorMessage) ? result.errorMessage : null;
+      return {
+        outputs: [],
+        events: [],
+        gasUsed: result.gasUsed ? result.gasUsed.toNumber() : undefined,
+        error: revertData !== null ? this.decodeRevert(abi, revertData) : result.errorMessage
+      };
+    }
+
+    return {
+      outputs: this.decodeOutputs(entry, result.bytes),
+      events: (result.logs || []).map(log => ({
+        ...this.decodeLog(abi, log.topics, log.data),
+        contractId: log.contractId ? log.contractId.toString() : undefined
+      })),
+      gasUsed: result.gasUsed ? result.gasUsed.toNumber() : undefined
+    };
+  }
+
+  /**
+   * Convert user-entered strings to typed values and ABI-encode them for an entry, without a
+   * selector: constructor arguments, or the arguments of a function call.
+   *
+   * The SDK's ContractFunctionParameters has no support for tuples, nested arrays or
+   * bytes1..bytes31, so the bytes are handed to the SDK through `setConstructorParameters`
+   * or, with the selector, `setFunctionParameters`.
+   */
+  static encodeParameters(entry: AbiEntry, rawValues: string[]): Uint8Array {
+    const inputs = entry.inputs || [];
+
+    if (rawValues.length !== inputs.length) {
+      throw new Error(`${entry.name || entry.type} expects ${inputs.length} parameters but received ${rawValues.length}`);
+    }
+
+    const values = inputs.map((input, index) => this.convertParam(rawValues[index], input));
+    const types = inputs.map(input => ParamType.fromObject(input as any));
+    return new Uint8Array(Buffer.from(defaultAbiCoder.encode(types, values).substring(2), 'hex'));
+  }
+
+  /**
+   * Encode a function call from user-entered strings: the selector followed by the arguments
+   */
+  static encodeFunctionCall(entry: AbiEntry, rawValues: string[]): Uint8Array {
+    const selector = Buffer.from(this.getSelector(entry).substring(2), 'hex');
+    return new Uint8Array(Buffer.concat([selector, this.encodeParameters(entry, rawValues)]));
+  }
+
+  /**
+   * Convert a user-entered value to the form expected by the ABI encoder.
+   *
+   * Scalars are entered as plain text; arrays and tuples as JSON
+   * (tuples as an object keyed by component name or a positional array).
+   * Throws an Error naming the parameter when the value is invalid.
+   */
+  static convertParam(raw: string, param: AbiParameter): any {
+    const label = param.name || param.type;
+
+    if (this.isArrayType(param.type) || param.type === 'tuple') {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(raw);
+      } catch (error) {
+        throw new Error(`Parameter "${label}" (${param.type}) must be JSON, e.g. ${this.getPlaceholder(param)}`);
+      }
+      return this.convertValue(parsed, param, label);
+    }
+
+    return this.convertValue(raw, param, label);
+  }
+
+  /**
+   * Get an example value for an input, used as a placeholder in forms
+   */
+  static getPlaceholder(param: AbiParameter): string {
+    const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (arrayMatch) {
+      const element = this.getPlaceholder({ ...param, type: arrayMatch[1] });
+      const quoted = this.isArrayType(arrayMatch[1]) || arrayMatch[1] === 'tuple' ? element : JSON.stringify(element);
+      return `[${quoted}]`;
+    }
+
+    if (param.type === 'tuple') {
+      const fields = (param.components || []).map(component => {
+        const value = this.getPlaceholder(component);
+        const quoted = this.isArrayType(component.type) || component.type === 'tuple' ? value : JSON.stringify(value);
+        return `"${component.name}": ${quoted}`;
+      });
+      return `{${fields.join(', ')}}`;
+    }
+
+    if (param.type === 'address') {
+      return '0.0.1234 or 0x...';
+    }
+    if (param.type === 'bool') {
+      return 'true';
+    }
+    if (param.type === 'string') {
+      return 'text';
+    }
+    if (param.type === 'bytes') {
+      return '0x1234';
+    }
+    if (/^bytes\d+$/.test(param.type)) {
+      return `0x${'00'.repeat(parseInt(param.type.substring(5), 10))}`;
+    }
+    if (/^u?int\d*$/.test(param.type)) {
+      return '0';
+    }
+    return param.type;
+  }
+
+  /**
+   * Convert an account or contract ID (0.0.x) or EVM address to a 0x-prefixed EVM address
+   */
+  static toEvmAddress(value: string): string {
+    const trimmed = value.trim();
+
+    if (/^\d+\.\d+\.\d+$/.test(trimmed)) {
+      return `0x${AccountId.fromString(trimmed).toSolidityAddress()}`;
+    }
+
+    if (/^(0x)?[0-9a-fA-F]{40}$/.test(trimmed)) {
+      return trimmed.startsWith('0x') ? trimmed.toLowerCase() : `0x${trimmed.toLowerCase()}`;
+    }
+
+    throw new Error(`"${value}" is not an account ID (0.0.x) or a 20-byte EVM address`);
+  }
+
+  private static convertValue(value: any, param: AbiParameter, path: string): any {
+    const type = param.type;
+
+    // Arrays: T[] and T[k]
+    const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+    if (arrayMatch) {
+      if (!Array.isArray(value)) {
+        throw new Error(`Parameter "${path}" (${type}) must be an array`);
+      }
+      if (arrayMatch[2] !== '' && value.length !== parseInt(arrayMatch[2], 10)) {
+        throw new Error(`Parameter "${path}" (${type}) must have exactly ${arrayMatch[2]} elements, got ${value.length}`);
+      }
+      const elementParam = { ...param, type: arrayMatch[1] };
+      return value.map((element, index) => this.convertValue(element, elementParam, `${path}[${index}]`));
+    }
+
+    // Tuples (structs): object keyed by component name or positional array
+    if (type === 'tuple') {
+      const components = param.components || [];
+      if (Array.isArray(value)) {
+        if (value.length !== components.length) {
+          throw new Error(`Parameter "${path}" (tuple) must have ${components.length} fields, got ${value.length}`);
+        }
+        return components.map((component, index) =>
+          this.convertValue(value[index], component, `${path}.${component.name || index}`)
+        );
+      }
+      if (value && typeof value === 'object') {
+        return components.map((component, index) => {
+          if (!(component.name in value)) {
+            throw new Error(`Parameter "${path}" (tuple) is missing field "${component.name}"`);
+          }
+          return this.convertValue(value[component.name], component, `${path}.${component.name || index}`);
+        });
+      }
+      throw new Error(`Parameter "${path}" (tuple) must be a JSON object or array`);
+    }
+
+    const text = this.scalarToString(value, type, path);
+
+    // Integers: int8..int256, uint8..uint256
+    const intMatch = type.match(/^(u?)int(\d*)$/);
+    if (intMatch) {
+      return this.convertInteger(text, intMatch[1] === 'u', intMatch[2] ? parseInt(intMatch[2], 10) : 256, type, path);
+    }
+
+    if (type === 'bool') {
+      const normalized = text.trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) {
+        return true;
+      }
+      if (['false', '0', 'no'].includes(normalized)) {
+        return false;
+      }
+      throw new Error(`Parameter "${path}" (bool) must be true or false`);
+    }
+
+    if (type === 'address') {
+      try {
+        return this.toEvmAddress(text);
+      } catch (error) {
+        throw new Error(`Parameter "${path}" (address): ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (type === 'string') {
+      return text;
+    }
+
+    if (type === 'bytes') {
+      return this.convertHex(text, undefined, type, path);
+    }
+
+    const bytesMatch = type.match(/^bytes(\d+)$/);
+    if (bytesMatch) {
+      const size = parseInt(bytesMatch[1], 10);
+      if (size < 1 || size > 32) {
+        throw new Error(`Parameter "${path}" has invalid type ${type}`);
+      }
+      return this.convertHex(text, size, type, path);
+    }
+
+    if (type === 'function') {
+      return this.convertHex(text, 24, type, path);
+    }
+
+    throw new Error(`Parameter "${path}" has unsupported type ${type}`);
+  }
+
+  private static scalarToString(value: any, type: string, path: string): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'boolean') {
+      return String(value);
+    }
+    if (typeof value === 'number') {
+      // JSON numbers beyond 2^53 have already lost precision
+      if (!Number.isSafeInteger(value) && /int/.test(type)) {
+        throw new Error(`Parameter "${path}" (${type}): ${value} is too large for a JSON number, quote it as a string`);
+      }
+      return String(value);
+    }
+    throw new Error(`Parameter "${path}" (${type}) must be a ${type} value`);
+  }
+
+  private static convertInteger(text: string, unsigned: boolean, bits: number, type: string, path: string): string {
+    if (bits < 8 || bits > 256 || bits % 8 !== 0) {
+      throw new Error(`Parameter "${path}" has invalid type ${type}`);
+    }
+
+    const cleaned = text.trim().replace(/_/g, '');
+    let value: bigint;
+    try {
+      if (!/^-?(0x[0-9a-fA-F]+|\d+)$/.test(cleaned)) {
+        throw new Error();
+      }
+      value = cleaned.startsWith('-') ? -BigInt(cleaned.substring(1)) : BigInt(cleaned);
+    } catch (error) {
+      throw new Error(`Parameter "${path}" (${type}) must be an integer, got "${text}"`);
+    }
+
+    const min = unsigned ? BigInt(0) : -(BigInt(1) << BigInt(bits - 1));
+    const max = unsigned ? (BigInt(1) << BigInt(bits)) - BigInt(1) : (BigInt(1) << BigInt(bits - 1)) - BigInt(1);
+
+    if (value < min || value > max) {
+      throw new Error(`Parameter "${path}" (${type}) must be between ${min} and ${max}, got ${value}`);
+    }
+
+    return value.toString();
+  }
+
+  private static convertHex(text: string, size: number | undefined, type: string, path: string): string {
+    const cleaned = text.trim();
+    const hex = cleaned.startsWith('0x') ? cleaned.substring(2) : cleaned;
+
+    if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length % 2 !== 0) {
+      throw new Error(`Parameter "${path}" (${type}) must be hex bytes like 0x1234`);
+    }
+
+    if (size !== undefined && hex.length !== size * 2) {
+      throw new Error(`Parameter "${path}" (${type}) must be exactly ${size} bytes, got ${hex.length / 2}`);
+    }
+
+    return `0x${hex.toLowerCase()}`;
+  }
+
+  private static formatValue(value: any, param: AbiParameter): any {
+    const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (arrayMatch) {
+      const elementParam = { ...param, type: arrayMatch[1] };
+      return Array.from(value as any[]).map(element => this.formatValue(element, elementParam));
+    }
+
+    if (param.type === 'tuple') {
+      const formatted: { [name: string]: any } = {};
+      (param.components || []).forEach((component, index) => {
+        formatted[component.name || String(index)] = this.formatValue((value as Result)[index], component);
+      });
+      return formatted;
+    }
+
+    if (BigNumber.isBigNumber(value)) {
+      return value.toString();
+    }
+
+    if (param.type === 'address' && typeof value === 'string') {
+      return value.toLowerCase();
+    }
+
+    return value;
+  }
+
+  /**
+   * Get the canonical type of a parameter, with tuples spelled out, e.g. (uint256,string[])
+   */
+  static getTypeLabel(param: AbiParameter): string {
+    return ParamType.fromObject(param as any).format('sighash');
+  }
+
+  private static toHex(data: Uint8Array | string): string {
+    if (typeof data === 'string') {
+      return data.startsWith('0x') ? data.toLowerCase() : `0x${data.toLowerCase()}`;
+    }
+    return `0x${Buffer.from(data).toString('hex')}`;
+  }
+
+  private static isArrayType(type: string): boolean {
+    return /\[\d*\]$/.test(type);
+  }
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { HederaService } from '../services/hederaService';
+import { RegistryAgent } from '../services/agentRegistryService';
+
+/**
+ * The payment attached to an agent request
+ */
+export interface AgentPayment {
+  agentId: string;
+  capability: string;
+  /** Fee in tinybars, as a decimal string */
+  amountTinybars: string;
+  /** Transfer transaction ID; absent for agents without a fee */
+  transactionId?: string;
+  recipient?: string;
+}
+
+/**
+ * Utilities for paying agent fees before an agent request is sent
+ */
+export class AgentPaymentUtils {
+  // Hedera transaction memos are limited to 100 bytes
+  private static readonly MAX_MEMO_LENGTH = 100;
+
+  /**
+   * Confirm and pay the agent's fee, then run the request with the payment attached.
+   * The invocation and its payment are recorded in the Transaction Center.
+   *
+   * Returns false without running the request if the payment is declined or fails.
+   *
+   * @param run Sends the agent request; resolves to false if the request failed
+   */
+  static async invoke(
+    hederaService: HederaService,
+    agent: RegistryAgent,
+    capability: string,
+    run: (payment: AgentPayment) => Thenable<boolean | undefined>
+  ): Promise<boolean> {
+    const payment: AgentPayment = {
+      agentId: agent.id,
+      capability,
+      amountTinybars: agent.feeTinybars
+    };
+    const invocation = {
+      id: `agent-invocation-${agent.id}-${Date.now()}`,
+      type: 'AGENT_INVOCATION',
+      timestamp: new Date(),
+      status: 'PENDING',
+      details: {
+        agentId: agent.id,
+        agentName: agent.name,
+        capability,
+        fee: agent.fee,
+        paymentTransactionId: undefined as string | undefined,
+        error: undefined as string | undefined
+      },
+      children: [] as any[]
+    };
+
+    if (agent.feeTinybars !== '0') {
+      const recipient = hederaService.getAgentFeeRecipient(agent);
+      const choice = await vscode.window.showWarningMessage(
+        `Pay ${agent.fee} to ${agent.name} for ${capability}?`,
+        {
+          modal: true,
+          detail: `The fee is transferred from ${hederaService.getAccountId()} to ${recipient} on ` +
+            `${hederaService.getCurrentNetwork()} before the request is sent.`
+        },
+        'Pay and Continue'
+      );
+      if (choice !== 'Pay and Continue') {
+        return false;
+      }
+
+      payment.recipient = recipient;
+      const memo = `HiveMind agent fee: ${agent.id} ${capability}`.slice(0, AgentPaymentUtils.MAX_MEMO_LENGTH);
+      const paymentEntry = {
+        id: '',
+        type: 'AGENT_PAYMENT',
+        timestamp: new Date(),
+        status: 'SUCCESS',
+        details: { agentId: agent.id, recipient, amount: agent.fee, memo, error: undefined as string | undefined }
+      };
+
+      try {
+        // The policy still applies its caps, but the user has already confirmed this transfer
+        paymentEntry.id = await vscode.window.withProgress({
+          location: vscode.ProgressLocation.Notification,
+          title: `Paying ${agent.fee} to ${agent.name}...`,
+          cancellable: false
+        }, () => hederaService.payAgentFee(agent, memo, true));
+      } catch (error: any) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        // Failed receipts carry the transaction ID; blocked or rejected transfers have none
+        if (error?.transactionId) {
+          paymentEntry.id = error.transactionId.toString();
+          paymentEntry.status = 'FAILED';
+          paymentEntry.details.error = message;
+          invocation.children.push(paymentEntry);
+        }
+        invocation.status = 'FAILED';
+        invocation.details.error = `Payment failed: ${message}`;
+        AgentPaymentUtils.record(invocation);
+
+        vscode.window.showErrorMessage(`Payment to ${agent.name} failed, the request was not sent: ${message}`);
+        return false;
+      }
+
+      payment.transactionId = paymentEntry.id;
+      invocation.details.paymentTransactionId = paymentEntry.id;
+      invocation.children.push(paymentEntry);
+    }
+
+    AgentPaymentUtils.record(invocation);
+
+    let succeeded = false;
+    try {
+      succeeded = (await run(payment)) !== false;
+    } catch (error) {
+      invocation.details.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      vscode.commands.executeCommand('hivemindTransactionCenter.updateTransaction', invocation.id, {
+        status: succeeded ? 'SUCCESS' : 'FAILED',
+        details: invocation.details
+      });
+    }
+
+    return succeeded;
+  }
+
+  private static record(invocation: any): void {
+    vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', invocation);
+  }
+}
@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import { ProfileService } from '../services/profileService';
+import { ContractRegistryLocation } from '../services/contractRegistryService';
+import { NetworkUtils } from './networkUtils';
 
 /**
  * Configuration utility functions for HiveMind Copilot
@@ -20,14 +23,6 @@ export class ConfigUtils {
     return config.get<string>('hederaAccountId') || '';
   }
 
-  /**
-   * Get Hedera private key from configuration
-   */
-  static getHederaPrivateKey(): string {
-    const config = vscode.workspace.getConfiguration('hivemind');
-    return config.get<string>('hederaPrivateKey') || '';
-  }
-
   /**
    * Get Hedera network from configuration
    */
@@ -45,11 +40,36 @@ export class ConfigUtils {
   }
 
   /**
-   * Get smart contract registry address from configuration
+   * Get where deployed contracts are registered: the ContractRegistry contract if one is set,
+   * else the Hedera topic, else undefined
    */
-  static getContractRegistryAddress(): string {
+  static getDeploymentRegistry(): ContractRegistryLocation | undefined {
     const config = vscode.workspace.getConfiguration('hivemind');
-    return config.get<string>('contractRegistryAddress') || '';
+    const address = config.get<string>('deploymentRegistryAddress');
+    if (address) {
+      return { kind: 'contract', address };
+    }
+
+    const topicId = this.getHederaTopicId();
+    return topicId ? { kind: 'topic', topicId } : undefined;
+  }
+
+  /**
+   * Get the AgentRegistry contract address, preferring a per-network address if one is set
+   */
+  static getContractRegistryAddress(network?: string): string {
+    const config = vscode.workspace.getConfiguration('hivemind');
+    const perNetwork = config.get<{ [network: string]: string }>('agentRegistryAddresses') || {};
+    return (network && perNetwork[network]) || config.get<string>('contractRegistryAddress') || '';
+  }
+
+  /**
+   * Get the escrow account agent fees are paid to, preferring the entry for the given network
+   */
+  static getAgentPaymentEscrowAccount(network?: string): string {
+    const config = vscode.workspace.getConfiguration('hivemind');
+    const perNetwork = config.get<{ [network: string]: string }>('agentPaymentEscrowAccounts') || {};
+    return (network && perNetwork[network]) || config.get<string>('agentPaymentEscrowAccount') || '';
   }
 
   /**
@@ -57,7 +77,14 @@ export class ConfigUtils {
    */
   static getRpcUrl(): string {
     const config = vscode.workspace.getConfiguration('hivemind');
-    return config.get<string>('rpcUrl') || 'https://testnet.hashio.io/api';
+    const rpcUrl = config.get<string>('rpcUrl');
+    if (rpcUrl) {
+      return rpcUrl;
+    }
+
+    // Fall back to the JSON-RPC relay of the selected network
+    const definition = NetworkUtils.getNetworkDefinition(this.getHederaNetwork());
+    return definition?.jsonRpcRelayUrl || 'https://testnet.hashio.io/api';
   }
 
   /**
@@ -71,12 +98,12 @@ export class ConfigUtils {
   /**
    * Show configuration settings in UI
    */
-  static async showConfigurationUI(): Promise<void> {
+  static async showConfigurationUI(profileService: ProfileService): Promise<void> {
     // Get current settings
     const apiBaseUrl = this.getApiBaseUrl();
-    const hederaAccountId = this.getHederaAccountId();
-    const hederaPrivateKey = this.getHederaPrivateKey();
-    const hederaNetwork = this.getHederaNetwork();
+    const activeProfile = profileService.getActiveProfile();
+    const hederaNetwork = activeProfile?.network || this.getHederaNetwork();
+    const hederaAccountId = activeProfile?.accountId || this.getHederaAccountId();
     const hederaTopicId = this.getHederaTopicId();
     const contractRegistryAddress = this.getContractRegistryAddress();
     const rpcUrl = this.getRpcUrl();
@@ -92,9 +119,22 @@ export class ConfigUtils {
       await this.updateSetting('apiBaseUrl', newApiBaseUrl);
     }
 
+    // Show quick pick for Hedera network
+    const networkOptions = NetworkUtils.getNetworkNames();
+    const newHederaNetwork = await vscode.window.showQuickPick(networkOptions, {
+      placeHolder: 'Select Hedera network',
+      canPickMany: false
+    });
+
+    if (newHederaNetwork !== undefined && newHederaNetwork !== hederaNetwork) {
+      await this.updateSetting('hederaNetwork', newHederaNetwork);
+    }
+
+    const network = newHederaNetwork || hederaNetwork;
+
     // Show input box for Hedera account ID
     const newHederaAccountId = await vscode.window.showInputBox({
-      prompt: 'Enter Hedera account ID',
+      prompt: `Enter Hedera account ID for ${network}`,
       value: hederaAccountId,
       placeHolder: '0.0.12345'
     });
@@ -103,32 +143,37 @@ export class ConfigUtils {
       await this.updateSetting('hederaAccountId', newHederaAccountId);
     }
 
-    // Show input box for Hedera private key
-    const newHederaPrivateKey = await vscode.window.showInputBox({
-      prompt: 'Enter Hedera private key',
-      value: hederaPrivateKey ? '********' : '',
-      password: true,
-      placeHolder: 'Enter your private key'
-    });
-
-    if (newHederaPrivateKey !== undefined && newHederaPrivateKey !== '********') {
-      await this.updateSetting('hederaPrivateKey', newHederaPrivateKey);
-    }
-
-    // Show quick pick for Hedera network
-    const networkOptions = ['mainnet', 'testnet', 'previewnet'];
-    const newHederaNetwork = await vscode.window.showQuickPick(networkOptions, {
-      placeHolder: 'Select Hedera network',
-      canPickMany: false
-    });
-
-    if (newHederaNetwork !== undefined && newHederaNetwork !== hederaNetwork) {
-      await this.updateSetting('hederaNetwork', newHederaNetwork);
+    // Show input box for Hedera private key; it is kept in SecretStorage, never in settings
+    const hasStoredKey = activeProfile?.keySource === 'secretStorage';
+    const newHederaPrivateKey = activeProfile?.keySource === 'environment'
+      ? undefined
+      : await vscode.window.showInputBox({
+        prompt: `Enter Hedera private key for ${network} (stored in the OS keychain)`,
+        value: hasStoredKey ? '********' : '',
+        password: true,
+        placeHolder: 'Enter your private key'
+      });
+
+    const accountId = newHederaAccountId || hederaAccountId;
+    const privateKey = newHederaPrivateKey !== '********' ? newHederaPrivateKey : undefined;
+
+    // Save the edits into the active profile, creating one named after the network if needed
+    if (accountId && (activeProfile || privateKey)) {
+      const profile = {
+        name: activeProfile?.name || network,
+        keySource: 'secretStorage' as const,
+        maxTransactionFee: ProfileService.DEFAULT_MAX_TRANSACTION_FEE,
+        ...activeProfile,
+        network,
+        accountId
+      };
+      await profileService.saveProfile(profile, privateKey);
+      await profileService.setActiveProfile(profile.name);
     }
 
     // Show input box for Hedera topic ID
     const newHederaTopicId = await vscode.window.showInputBox({
-      prompt: 'Enter Hedera topic ID (optional)',
+      prompt: 'Enter Hedera topic ID where deployed contracts are registered (optional)',
       value: hederaTopicId,
       placeHolder: '0.0.12345'
     });
@@ -2,78 +2,290 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ApiService } from '../services/apiService';
-import { HederaService } from '../services/hederaService';
+import { DeployOptions, DeployResult, HederaService } from '../services/hederaService';
 import { SolidityUtils } from './solidityUtils';
+import { AbiEntry, AbiParameter, AbiUtils, DecodedContractResult } from './abiUtils';
+import { ContractResultPanel } from '../components/contractResultPanel';
+import { CompilerSettings, DeploymentRecord, ManifestUtils } from './manifestUtils';
+
+/**
+ * A compiled contract ready to deploy
+ */
+export interface CompiledContract {
+  contractName: string;
+  filePath: string;
+  source: string;
+  compilerSettings: CompilerSettings;
+  abi: AbiEntry[];
+  /** Initcode as hex without 0x */
+  bytecode: string;
+}
+
+/**
+ * Result of a single pre-flight check
+ */
+export interface PreflightCheck {
+  label: string;
+  status: 'ok' | 'warning' | 'error';
+  detail: string;
+}
 
 /**
  * Utility functions for smart contract deployment
  */
 export class DeploymentUtils {
+  static readonly DEFAULT_CALL_GAS = 100000;
+  static readonly MAX_RUNTIME_SIZE = 24576;
+  static readonly MAX_INITCODE_SIZE = 49152;
+
   /**
-   * Deploy a smart contract
+   * Compile one contract of a Solidity file
    */
-  static async deployContract(
+  static async compileContract(
     filePath: string,
+    contractName: string,
     apiService: ApiService,
+    compilerSettings: CompilerSettings = ApiService.DEFAULT_COMPILER_SETTINGS
+  ): Promise<CompiledContract> {
+    // Check if file exists
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    // Check if it's a Solidity file
+    if (!SolidityUtils.isSolidityFile(filePath)) {
+      throw new Error('Only Solidity files can be deployed');
+    }
+
+    const source = fs.readFileSync(filePath, 'utf8');
+    const compilationResult = await apiService.compileContract(source, contractName, compilerSettings);
+
+    if (!compilationResult.success) {
+      const errors = compilationResult.errors?.length ? compilationResult.errors.join('\n') : compilationResult.error;
+      throw new Error(`Compilation failed: ${errors}`);
+    }
+
+    return {
+      contractName,
+      filePath,
+      source,
+      compilerSettings: { ...compilerSettings, version: compilationResult.compiler_version },
+      abi: compilationResult.abi || [],
+      bytecode: (compilationResult.bytecode || '').replace(/^0x/, '')
+    };
+  }
+
+  /**
+   * Encode constructor arguments entered as strings
+   */
+  static encodeConstructorParams(compiled: CompiledContract, values: string[]): Uint8Array | null {
+    const constructor = compiled.abi.find(item => item.type === 'constructor');
+
+    if (!constructor || !constructor.inputs || constructor.inputs.length === 0) {
+      return null;
+    }
+
+    return AbiUtils.encodeParameters(constructor, values);
+  }
+
+  /**
+   * Check a deploy before submitting it: bytecode size, gas, estimated fee, transaction policy and operator balance
+   */
+  static async runPreflightChecks(
+    compiled: CompiledContract,
+    constructorValues: string[],
+    options: DeployOptions,
     hederaService: HederaService
-  ): Promise<any> {
+  ): Promise<PreflightCheck[]> {
+    const checks: PreflightCheck[] = [];
+    const accountId = hederaService.getAccountId();
+
+    if (!hederaService.isConnected() || !accountId) {
+      return [{ label: 'Connection', status: 'error', detail: 'Not connected to Hedera network' }];
+    }
+
+    // Constructor arguments
+    let params: Uint8Array | null = null;
     try {
-      // Check if file exists
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`File not found: ${filePath}`);
-      }
+      params = this.encodeConstructorParams(compiled, constructorValues);
+      checks.push({ label: 'Constructor arguments', status: 'ok', detail: 'All arguments are valid' });
+    } catch (error) {
+      checks.push({ label: 'Constructor arguments', status: 'error', detail: error instanceof Error ? error.message : String(error) });
+    }
 
-      // Check if it's a Solidity file
-      if (!SolidityUtils.isSolidityFile(filePath)) {
-        throw new Error('Only Solidity files can be deployed');
-      }
+    // Initcode size, the bytecode plus the constructor arguments, picks the deploy path as in
+    // HederaService.deployContract: runtime code is capped at 24 KB (EIP-170); initcode is usually close to it
+    const initcodeSize = compiled.bytecode.length / 2 + (params ? params.length : 0);
+    const chunkCount = Math.ceil(compiled.bytecode.length / HederaService.FILE_CHUNK_SIZE);
+    const inline = initcodeSize <= HederaService.INLINE_INITCODE_LIMIT;
+    checks.push({
+      label: 'Bytecode size',
+      status: initcodeSize > DeploymentUtils.MAX_INITCODE_SIZE ? 'error' : initcodeSize > DeploymentUtils.MAX_RUNTIME_SIZE ? 'warning' : 'ok',
+      detail: `${initcodeSize} bytes, ${inline ? 'deployed with inline initcode' : `uploaded in ${chunkCount} file chunks`}`
+        + (initcodeSize > DeploymentUtils.MAX_RUNTIME_SIZE ? `; contracts over ${DeploymentUtils.MAX_RUNTIME_SIZE} bytes may exceed the EVM code size limit` : '')
+    });
 
-      // Read file content
-      const code = fs.readFileSync(filePath, 'utf8');
+    const mirrorNode = hederaService.getMirrorNode();
+    const gas = options.gas || HederaService.DEFAULT_DEPLOY_GAS;
+
+    // Gas estimate from the mirror node, when it can simulate the constructor
+    try {
+      const initcode = `0x${compiled.bytecode}${params ? Buffer.from(params).toString('hex') : ''}`;
+      const estimate = await mirrorNode.estimateGas(initcode, undefined, AbiUtils.toEvmAddress(accountId));
+      checks.push({
+        label: 'Gas',
+        status: gas < estimate ? 'error' : 'ok',
+        detail: `Limit ${gas}, estimated ${estimate}` + (gas < estimate ? '; raise the gas limit' : '')
+      });
+    } catch (error) {
+      checks.push({ label: 'Gas', status: 'warning', detail: `Limit ${gas}; the mirror node could not estimate gas (${error instanceof Error ? error.message : error})` });
+    }
+
+    // Estimated fee: USD base fees converted at the current rate, plus the gas limit at the current gas price
+    const policyService = hederaService.getTransactionPolicy();
+    const transactionTypes = [
+      ...(inline ? [] : ['fileCreate', ...Array(chunkCount - 1).fill('fileAppend'), 'fileDelete']),
+      'contractCreateInstance'
+    ];
+    const network = hederaService.getCurrentNetwork();
+    const estimatedFee = await policyService.estimateFee(transactionTypes, gas, mirrorNode, network);
+    checks.push(estimatedFee !== undefined
+      ? { label: 'Estimated fee', status: 'ok', detail: `About ${estimatedFee.toFixed(4)} HBAR` }
+      : { label: 'Estimated fee', status: 'warning', detail: 'Could not read the exchange rate and gas price from the mirror node' });
+
+    // Transaction policy of the operator profile
+    const policy = policyService.getEffectivePolicy(hederaService.getActiveProfile());
+    const cost = (estimatedFee || 0) + (options.initialBalance || 0);
+    const spent = policyService.getSessionSpend(network, accountId);
+    const denied = transactionTypes.filter(type =>
+      policy.allowedTransactionTypes.length > 0 && !policy.allowedTransactionTypes.includes(type)
+    );
+    if (policy.readOnly) {
+      checks.push({ label: 'Transaction policy', status: 'error', detail: 'Read-only mode is on' });
+    } else if (denied.length > 0) {
+      checks.push({ label: 'Transaction policy', status: 'error', detail: `Not allowed for this profile: ${Array.from(new Set(denied)).join(', ')}` });
+    } else if (policy.maxTransactionHbar > 0 && cost > policy.maxTransactionHbar) {
+      checks.push({ label: 'Transaction policy', status: 'warning', detail: `About ${cost.toFixed(4)} HBAR may exceed the ${policy.maxTransactionHbar} HBAR per-transaction cap` });
+    } else if (policy.maxSessionHbar > 0 && spent + cost > policy.maxSessionHbar) {
+      checks.push({ label: 'Transaction policy', status: 'error', detail: `About ${cost.toFixed(4)} HBAR would exceed the ${policy.maxSessionHbar} HBAR session cap (${spent.toFixed(4)} HBAR spent)` });
+    } else {
+      checks.push({
+        label: 'Transaction policy',
+        status: policyService.requiresConfirmation(network) ? 'warning' : 'ok',
+        detail: policyService.requiresConfirmation(network) ? `You will be asked to confirm the deploy on ${network}` : 'Allowed'
+      });
+    }
+
+    // Operator balance must cover the fee and the initial balance
+    try {
+      const balance = await mirrorNode.getBalance(accountId);
+      const balanceHbar = (balance?.balance || 0) / 1e8;
+      const required = (estimatedFee || 0) + (options.initialBalance || 0);
+      checks.push({
+        label: 'Operator balance',
+        status: balanceHbar < required ? 'error' : 'ok',
+        detail: `${balanceHbar.toFixed(4)} HBAR available, about ${required.toFixed(4)} HBAR needed`
+      });
+    } catch (error) {
+      checks.push({ label: 'Operator balance', status: 'warning', detail: `Could not read the balance of ${accountId} (${error instanceof Error ? error.message : error})` });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Deploy a compiled contract, record it in the manifest and add it to the Transaction Center
+   */
+  static async deployContract(
+    compiled: CompiledContract,
+    constructorValues: string[],
+    hederaService: HederaService,
+    options: DeployOptions = {}
+  ): Promise<DeployResult> {
+    // Transactions already charged, listed under the deploy if it fails
+    const submitted: { id: string; type: string }[] = [];
+
+    try {
+      const constructorParams = this.encodeConstructorParams(compiled, constructorValues);
 
-      // Show progress
       return await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
-        title: 'Deploying smart contract...',
+        title: `Deploying ${compiled.contractName}...`,
         cancellable: false
       }, async (progress) => {
-        // Step 1: Compile contract
-        progress.report({ message: 'Compiling contract...' });
-        
-        // Call API to compile contract
-        const compilationResult = await apiService.compileContract(code);
-        
-        if (!compilationResult.success) {
-          throw new Error(`Compilation failed: ${compilationResult.error}`);
-        }
-        
-        // Step 2: Get constructor parameters if any
-        progress.report({ message: 'Preparing deployment...' });
-        
-        const constructorParams = await this.getConstructorParams(compilationResult.abi);
-        
-        // Step 3: Deploy contract
-        progress.report({ message: 'Deploying to Hedera...' });
-        
-        // Call Hedera service to deploy contract
-        const contractId = await hederaService.deployContract(
-          compilationResult.bytecode,
-          constructorParams
+        // Deploy contract
+        const deployment = await hederaService.deployContract(
+          compiled.bytecode,
+          constructorParams,
+          {
+            ...options,
+            onProgress: (message, increment) => {
+              progress.report({ message: `${message}...`, increment });
+              options.onProgress?.(message, increment);
+            },
+            onSubmitted: (transactionId, type) => {
+              submitted.push({ id: transactionId, type });
+              options.onSubmitted?.(transactionId, type);
+            }
+          }
         );
         
-        // Step 4: Register contract
-        progress.report({ message: 'Registering contract...' });
+        const contractId = deployment.contractId;
         
-        // Extract contract name
-        const contractName = SolidityUtils.extractContractName(filePath);
+        // Record the deployment in the workspace manifest
+        progress.report({ message: 'Recording deployment...' });
         
-        // Register contract
-        const registrationMetadata = {
-          name: contractName,
-          abi: compilationResult.abi,
-          bytecode: compilationResult.bytecode
+        const record: DeploymentRecord = {
+          contractName: compiled.contractName,
+          sourceFile: ManifestUtils.getRelativeSourcePath(compiled.filePath),
+          sourceHash: ManifestUtils.hashSource(compiled.source),
+          compiler: compiled.compilerSettings,
+          abi: compiled.abi,
+          contractId,
+          evmAddress: deployment.evmAddress,
+          transactionId: deployment.transactionId,
+          deployer: hederaService.getAccountId() || '',
+          deployedAt: new Date().toISOString()
         };
-        await hederaService.registerContract(contractId, registrationMetadata);
+        
+        try {
+          ManifestUtils.addDeployment(hederaService.getCurrentNetwork(), record);
+        } catch (error) {
+          // The contract is deployed either way; don't fail the deploy over the manifest
+          console.error('Failed to record deployment:', error);
+          vscode.window.showWarningMessage(`Contract deployed but not recorded in the manifest: ${error}`);
+        }
+        
+        // Register the contract so it can be used without this workspace's manifest
+        const registry = hederaService.getContractRegistry();
+        if (registry) {
+          progress.report({ message: 'Registering contract...' });
+          
+          try {
+            const registrationId = await hederaService.registerContract(contractId, {
+              name: compiled.contractName,
+              abi: compiled.abi,
+              sourceHash: record.sourceHash
+            });
+
+            // A registry topic gets a message; a registry contract gets a call
+            const location = registry.getLocation();
+            if (registrationId) {
+              vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+                id: registrationId,
+                type: location.kind === 'topic' ? 'TOPIC_MESSAGE' : 'CONTRACT_CALL',
+                timestamp: new Date(),
+                status: 'SUCCESS',
+                details: location.kind === 'topic'
+                  ? { topicId: location.topicId, memo: `Register ${compiled.contractName} (${contractId})` }
+                  : { contractId: location.address, function: 'registerContract' }
+              });
+            }
+          } catch (error) {
+            // As with the manifest, the contract is deployed either way
+            vscode.window.showWarningMessage(`Contract deployed but not registered: ${error}`);
+          }
+        }
         
         // Show success message
         vscode.window.showInformationMessage(
@@ -82,81 +294,81 @@ export class DeploymentUtils {
         
         // Add to transaction center
         vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
-          id: `deploy-${Date.now()}`,
+          id: deployment.transactionId,
           type: 'CONTRACT_DEPLOY',
           timestamp: new Date(),
           status: 'SUCCESS',
           details: {
             contractId: contractId,
-            gas: 500000, // Default gas used
-            bytecodeSize: compilationResult.bytecode.length / 2 - 1 // Convert hex to bytes
+            gas: options.gas || HederaService.DEFAULT_DEPLOY_GAS,
+            bytecodeSize: compiled.bytecode.length / 2
           }
         });
         
-        return { contractId, success: true };
+        return deployment;
       });
     } catch (error) {
       console.error('Failed to deploy contract:', error);
+
+      // Transactions submitted before the failure were charged; their records settle each status
+      if (submitted.length > 0) {
+        vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+          id: `contract-deploy-${compiled.contractName}-${Date.now()}`,
+          type: 'CONTRACT_DEPLOY',
+          timestamp: new Date(),
+          status: 'FAILED',
+          details: {
+            contractName: compiled.contractName,
+            gas: options.gas || HederaService.DEFAULT_DEPLOY_GAS,
+            bytecodeSize: compiled.bytecode.length / 2,
+            error: error instanceof Error ? error.message : String(error)
+          },
+          children: submitted.map(({ id, type }) => ({ id, type, timestamp: new Date(), status: 'PENDING', details: { contractName: compiled.contractName } }))
+        });
+      }
+
       vscode.window.showErrorMessage(`Failed to deploy contract: ${error}`);
       throw error;
     }
   }
 
   /**
-   * Get constructor parameters from ABI
+   * Convert a user-entered parameter to the value expected by the ABI encoder.
+   * Throws a descriptive Error when the value does not fit the type.
    */
-  private static async getConstructorParams(abi: any[]): Promise<any[]> {
-    // Find constructor in ABI
-    const constructor = abi.find(item => item.type === 'constructor');
-    
-    if (!constructor || !constructor.inputs || constructor.inputs.length === 0) {
-      return [];
-    }
-    
-    // Get parameters for each input
-    const params: any[] = [];
+  static convertParam(param: string, input: AbiParameter): any {
+    return AbiUtils.convertParam(param, input);
+  }
+
+  /**
+   * Prompt for a value per input, validating each against its ABI type
+   */
+  private static async promptForParams(inputs: AbiParameter[], label: string): Promise<string[] | undefined> {
+    const values: string[] = [];
     
-    for (const input of constructor.inputs) {
-      const param = await vscode.window.showInputBox({
-        prompt: `Enter value for constructor parameter "${input.name}" (${input.type})`,
-        placeHolder: `${input.type} value`
+    for (const input of inputs) {
+      const isJson = input.type === 'tuple' || input.type.endsWith(']');
+      const value = await vscode.window.showInputBox({
+        prompt: `Enter value for ${label} "${input.name}" (${input.type})${isJson ? ' as JSON' : ''}`,
+        placeHolder: AbiUtils.getPlaceholder(input),
+        validateInput: (text: string) => {
+          try {
+            this.convertParam(text, input);
+            return null;
+          } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+          }
+        }
       });
       
-      if (param === undefined) {
-        throw new Error('Deployment cancelled');
+      if (value === undefined) {
+        return undefined;
       }
       
-      // Convert param to appropriate type
-      params.push(this.convertParam(param, input.type));
+      values.push(value);
     }
     
-    return params;
-  }
-
-  /**
-   * Convert parameter to appropriate type
-   */
-  private static convertParam(param: string, type: string): any {
-    if (type.startsWith('uint') || type.startsWith('int')) {
-      return param; // Will be handled by ethers.js
-    } else if (type === 'bool') {
-      return param.toLowerCase() === 'true';
-    } else if (type === 'address') {
-      return param;
-    } else if (type === 'string') {
-      return param;
-    } else if (type.startsWith('bytes')) {
-      return param;
-    } else if (type.endsWith('[]')) {
-      // Array type
-      try {
-        return JSON.parse(param);
-      } catch (error) {
-        throw new Error(`Invalid array format for parameter of type ${type}`);
-      }
-    } else {
-      return param;
-    }
+    return values;
   }
 
   /**
@@ -176,7 +388,7 @@ export class DeploymentUtils {
       }
       
       // Find method in ABI
-      const method = contractInfo.abi.find((item: any) => 
+      const method: AbiEntry | undefined = contractInfo.abi.find((item: AbiEntry) => 
         item.type === 'function' && item.name === methodName
       );
       
@@ -188,7 +400,22 @@ export class DeploymentUtils {
       const params = await this.getMethodParams(method);
       
       // Determine if method is read-only or state-changing
-      const isReadOnly = method.stateMutability === 'view' || method.stateMutability === 'pure';
+      const isReadOnly = AbiUtils.isReadOnly(method);
+      
+      // Payable methods can send HBAR along with the call
+      let payableAmount: number | undefined;
+      if (method.stateMutability === 'payable') {
+        const amount = await vscode.window.showInputBox({
+          prompt: `Enter HBAR to send with ${methodName}`,
+          value: '0',
+          validateInput: (text: string) => isNaN(Number(text)) || Number(text) < 0 ? 'Enter a non-negative amount' : null
+        });
+        
+        if (amount === undefined) {
+          throw new Error('Method call cancelled');
+        }
+        payableAmount = Number(amount);
+      }
       
       // Show progress
       return await vscode.window.withProgress({
@@ -196,36 +423,21 @@ export class DeploymentUtils {
         title: `${isReadOnly ? 'Calling' : 'Executing'} contract method...`,
         cancellable: false
       }, async () => {
-        // Call contract method
-        // Note: For now, we pass null for params since we need to properly convert the array to ContractFunctionParameters
-        const result = await hederaService.callContractMethod(
-          contractId,
-          methodName,
-          null, // TODO: Convert params array to ContractFunctionParameters
-          100000 // gas
-        );
+        const decoded = await this.invokeContractMethod(hederaService, contractId, contractInfo.abi, method, params, {
+          payableAmount
+        });
         
-        // Show success message
-        vscode.window.showInformationMessage(
-          `Contract method ${methodName} ${isReadOnly ? 'called' : 'executed'} successfully!`
-        );
+        ContractResultPanel.show(decoded);
         
-        // Add to transaction center if state-changing
-        if (!isReadOnly) {
-          vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
-            id: result.transactionId,
-            type: 'CONTRACT_CALL',
-            timestamp: new Date(),
-            status: 'SUCCESS',
-            details: {
-              contractId: contractId,
-              function: methodName,
-              gas: result.gasUsed
-            }
-          });
+        if (decoded.error) {
+          vscode.window.showErrorMessage(`Contract method ${methodName} failed: ${decoded.error}`);
+        } else {
+          vscode.window.showInformationMessage(
+            `Contract method ${methodName} ${isReadOnly ? 'called' : 'executed'} successfully!`
+          );
         }
         
-        return result;
+        return decoded;
       });
     } catch (error) {
       console.error('Failed to call contract method:', error);
@@ -235,31 +447,90 @@ export class DeploymentUtils {
   }
 
   /**
-   * Get method parameters from ABI
+   * Query or execute a contract method and decode the outcome against the ABI.
+   * State-changing calls are added to the Transaction Center.
    */
-  private static async getMethodParams(method: any): Promise<any[]> {
-    if (!method.inputs || method.inputs.length === 0) {
-      return [];
+  static async invokeContractMethod(
+    hederaService: HederaService,
+    contractId: string,
+    abi: AbiEntry[],
+    method: AbiEntry,
+    functionParameters: Uint8Array,
+    options: { gas?: number; payableAmount?: number } = {}
+  ): Promise<DecodedContractResult> {
+    const methodName = method.name || '';
+    const gas = options.gas || DeploymentUtils.DEFAULT_CALL_GAS;
+    const decoded: DecodedContractResult = {
+      contractId,
+      method: methodName,
+      status: 'SUCCESS',
+      outputs: [],
+      events: []
+    };
+    
+    if (AbiUtils.isReadOnly(method)) {
+      try {
+        const result = await hederaService.callContractMethod(contractId, functionParameters, gas);
+        Object.assign(decoded, AbiUtils.decodeFunctionResult(abi, method, result));
+      } catch (error: any) {
+        // Reverted queries carry the function result on the precheck error
+        if (!error?.contractFunctionResult) {
+          throw error;
+        }
+        Object.assign(decoded, AbiUtils.decodeFunctionResult(abi, method, error.contractFunctionResult));
+        decoded.error = decoded.error || String(error.status || error);
+      }
+    } else {
+      const execution = await hederaService.executeContractMethod(contractId, functionParameters, gas, options.payableAmount);
+      decoded.transactionId = execution.transactionId;
+      if (execution.result) {
+        Object.assign(decoded, AbiUtils.decodeFunctionResult(abi, method, execution.result));
+      }
+      if (execution.status !== 'SUCCESS') {
+        decoded.error = decoded.error || `Transaction failed with status ${execution.status}`;
+      }
     }
     
-    // Get parameters for each input
-    const params: any[] = [];
+    if (decoded.error) {
+      decoded.status = 'FAILED';
+    }
     
-    for (const input of method.inputs) {
-      const param = await vscode.window.showInputBox({
-        prompt: `Enter value for parameter "${input.name}" (${input.type})`,
-        placeHolder: `${input.type} value`
+    // Add to transaction center if state-changing
+    if (decoded.transactionId) {
+      vscode.commands.executeCommand('hivemindTransactionCenter.addTransaction', {
+        id: decoded.transactionId,
+        type: 'CONTRACT_CALL',
+        timestamp: new Date(),
+        status: decoded.status,
+        details: {
+          contractId: contractId,
+          function: methodName,
+          gas: decoded.gasUsed,
+          outputs: decoded.outputs,
+          events: decoded.events,
+          error: decoded.error
+        }
       });
-      
-      if (param === undefined) {
-        throw new Error('Method call cancelled');
-      }
-      
-      // Convert param to appropriate type
-      params.push(this.convertParam(param, input.type));
     }
     
-    return params;
+    return decoded;
+  }
+
+  /**
+   * Prompt for the method's parameters and encode the call
+   */
+  private static async getMethodParams(method: AbiEntry): Promise<Uint8Array> {
+    if (!method.inputs || method.inputs.length === 0) {
+      return AbiUtils.encodeFunctionCall(method, []);
+    }
+    
+    const values = await this.promptForParams(method.inputs, 'parameter');
+    
+    if (!values) {
+      throw new Error('Method call cancelled');
+    }
+    
+    return AbiUtils.encodeFunctionCall(method, values);
   }
 
   /**
@@ -271,15 +542,17 @@ export class DeploymentUtils {
       const contracts = await hederaService.getDeployedContracts();
       
       if (!contracts || contracts.length === 0) {
-        vscode.window.showInformationMessage('No deployed contracts found');
+        vscode.window.showInformationMessage(
+          `No deployments recorded for ${hederaService.getCurrentNetwork()} in ${ManifestUtils.MANIFEST_DIRECTORY}`
+        );
         return;
       }
       
       // Show quick pick with contracts
       const contractItems = contracts.map(contract => ({
         label: contract.name,
-        description: contract.id,
-        detail: `Deployed at ${new Date(contract.timestamp).toLocaleString()}`
+        description: contract.contractId,
+        detail: `${contract.sourceFile} · deployed ${new Date(contract.deployedAt).toLocaleString()} by ${contract.deployer}`
       }));
       
       const selectedContract = await vscode.window.showQuickPick(contractItems, {
@@ -290,43 +563,9 @@ export class DeploymentUtils {
         return;
       }
       
-      // Get contract info
+      // Open the interaction panel for the contract
       const contractId = (selectedContract as any)?.description || '';
-      const contractInfo = await hederaService.getContractInfo(contractId);
-      
-      if (!contractInfo || !contractInfo.abi) {
-        throw new Error(`Contract ${selectedContract.description} not found or ABI not available`);
-      }
-      
-      // Show methods
-      const methods = contractInfo.abi.filter((item: any) => item.type === 'function');
-      
-      const methodItems = methods.map((method: any) => {
-        const isReadOnly = method.stateMutability === 'view' || method.stateMutability === 'pure';
-        const params = method.inputs.map((input: any) => `${input.type} ${input.name}`).join(', ');
-        
-        return {
-          label: method.name,
-          description: isReadOnly ? 'Read' : 'Write',
-          detail: `${method.name}(${params})`
-        };
-      });
-      
-      const selectedMethod = await vscode.window.showQuickPick(methodItems, {
-        placeHolder: 'Select a method to call'
-      });
-      
-      if (!selectedMethod) {
-        return;
-      }
-      
-      // Call method
-      const methodName = (selectedMethod as any)?.label || '';
-      await this.callContractMethod(
-        contractId,
-        methodName,
-        hederaService
-      );
+      await vscode.commands.executeCommand('hivemind.openContractInteraction', contractId);
     } catch (error) {
       console.error('Failed to show contract explorer:', error);
       vscode.window.showErrorMessage(`Failed to show contract explorer: ${error}`);
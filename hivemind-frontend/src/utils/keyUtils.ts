@@ -0,0 +1,165 @@
+import { AccountId, Mnemonic, PrivateKey, PublicKey } from '@hashgraph/sdk';
+import { getAddress } from '@ethersproject/address';
+
+/**
+ * How to read a 32-byte raw hex key, which fits ED25519 and ECDSA private keys and
+ * ED25519 public keys alike
+ */
+export type RawKeyHint = 'ed25519Private' | 'ecdsaPrivate' | 'ed25519Public';
+
+/**
+ * A key in every format the SDK, the portal and wallets use
+ */
+export interface KeyDetails {
+  keyType: 'ED25519' | 'ECDSA';
+  privateKeyDer?: string;
+  privateKeyRaw?: string;
+  publicKeyDer: string;
+  publicKeyRaw: string;
+  /** Alias address of an account with this ECDSA key */
+  evmAddress?: string;
+}
+
+/**
+ * An account or contract ID and the EVM address it goes by
+ */
+export interface AddressDetails {
+  /** shard.realm.num, known for IDs and long-zero addresses */
+  entityId?: string;
+  /** The EVM address that encodes the ID */
+  longZeroAddress?: string;
+  /** An EVM address that isn't long-zero: an ECDSA alias or a contract created with CREATE2 */
+  evmAddress?: string;
+}
+
+/**
+ * Helpers for the key and address toolkit: generating, deriving and parsing keys, and
+ * converting between 0.0.x IDs and EVM addresses
+ */
+export class KeyUtils {
+  static readonly ENTITY_ID_PATTERN = /^\d+\.\d+\.\d+$/;
+  static readonly EVM_ADDRESS_PATTERN = /^(0x)?[0-9a-fA-F]{40}$/;
+
+  /**
+   * Describe a private or public key
+   */
+  static describeKey(key: PrivateKey | PublicKey): KeyDetails {
+    const publicKey = key instanceof PrivateKey ? key.publicKey : key;
+    const keyType = publicKey.type === 'ED25519' ? 'ED25519' : 'ECDSA';
+
+    return {
+      keyType,
+      ...(key instanceof PrivateKey ? { privateKeyDer: key.toStringDer(), privateKeyRaw: key.toStringRaw() } : {}),
+      publicKeyDer: publicKey.toStringDer(),
+      publicKeyRaw: publicKey.toStringRaw(),
+      evmAddress: keyType === 'ECDSA' ? KeyUtils.toChecksumAddress(publicKey.toEvmAddress()) : undefined
+    };
+  }
+
+  /**
+   * Parse a DER or raw hex key. DER and 33-byte compressed ECDSA public keys are read as they
+   * are; a 32-byte raw key needs a hint.
+   */
+  static parseKey(text: string, hint?: RawKeyHint): PrivateKey | PublicKey {
+    const hex = text.trim().replace(/^0x/i, '');
+    if (!/^([0-9a-fA-F]{2})+$/.test(hex)) {
+      throw new Error('Keys must be DER or raw hex');
+    }
+
+    const length = hex.length / 2;
+    // DER keys are a SEQUENCE (0x30). Public keys hold the algorithm SEQUENCE first, private keys
+    // a version INTEGER; the SDK reads ECDSA public key DER as a private key, so check which first.
+    if (hex.startsWith('30') && length > 33) {
+      const isPublic = hex.substring(4, 6) === '30';
+      try {
+        return isPublic ? PublicKey.fromString(hex) : PrivateKey.fromStringDer(hex);
+      } catch (error) {
+        throw new Error(`Not a DER-encoded ED25519 or ECDSA key: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (length === 33) {
+      return PublicKey.fromStringECDSA(hex);
+    }
+    if (length === 65) {
+      throw new Error('Uncompressed ECDSA public keys are not supported; use the 33-byte compressed form');
+    }
+    if (length !== 32) {
+      throw new Error(`A raw key is 32 or 33 bytes, not ${length}`);
+    }
+
+    switch (hint) {
+      case 'ed25519Private':
+        return PrivateKey.fromStringED25519(hex);
+      case 'ecdsaPrivate':
+        return PrivateKey.fromStringECDSA(hex);
+      case 'ed25519Public':
+        return PublicKey.fromStringED25519(hex);
+      default:
+        throw new Error('A 32-byte raw key can be an ED25519 or ECDSA private key or an ED25519 public key; choose which');
+    }
+  }
+
+  /**
+   * Derive the key at an index from a BIP-39 mnemonic on the standard Hedera derivation path
+   */
+  static async fromMnemonic(words: string, keyType: 'ED25519' | 'ECDSA', index = 0, passphrase = ''): Promise<PrivateKey> {
+    const mnemonic = await Mnemonic.fromString(words.trim().split(/\s+/).join(' ').toLowerCase());
+    return keyType === 'ECDSA'
+      ? mnemonic.toStandardECDSAsecp256k1PrivateKey(passphrase, index)
+      : mnemonic.toStandardEd25519PrivateKey(passphrase, index);
+  }
+
+  /**
+   * Generate a 12 or 24-word BIP-39 mnemonic
+   */
+  static async generateMnemonic(wordCount: 12 | 24): Promise<string> {
+    const mnemonic = wordCount === 12 ? await Mnemonic.generate12() : await Mnemonic.generate();
+    return mnemonic.toString();
+  }
+
+  /**
+   * Convert an ID to its long-zero address, or an EVM address to the ID it encodes when it is
+   * long-zero. Other addresses need the mirror node to find their ID.
+   */
+  static parseAddress(text: string): AddressDetails {
+    const value = text.trim();
+
+    if (KeyUtils.ENTITY_ID_PATTERN.test(value)) {
+      const entityId = AccountId.fromString(value);
+      return {
+        entityId: entityId.toString(),
+        longZeroAddress: KeyUtils.toChecksumAddress(entityId.toSolidityAddress())
+      };
+    }
+
+    if (!KeyUtils.EVM_ADDRESS_PATTERN.test(value)) {
+      throw new Error(`"${value}" is not an ID (0.0.x) or a 20-byte EVM address`);
+    }
+
+    const address = KeyUtils.toChecksumAddress(value);
+    if (!KeyUtils.isLongZero(address)) {
+      return { evmAddress: address };
+    }
+    return {
+      entityId: AccountId.fromSolidityAddress(address).toString(),
+      longZeroAddress: address
+    };
+  }
+
+  /**
+   * Whether an EVM address encodes an ID: a 4-byte shard and 8-byte realm, which are zero on
+   * the public networks, then the 8-byte entity number
+   */
+  static isLongZero(address: string): boolean {
+    return /^(0x)?0{24}/.test(address);
+  }
+
+  /**
+   * Get the EIP-55 checksummed form of an address, which Solidity requires for literals.
+   * The case of the input is ignored, so a literal with a wrong checksum is corrected.
+   */
+  static toChecksumAddress(address: string): string {
+    return getAddress(`0x${address.replace(/^0x/i, '').toLowerCase()}`);
+  }
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { AbiEntry } from './abiUtils';
+
+/**
+ * Compiler settings a contract was built with
+ */
+export interface CompilerSettings {
+  optimize: boolean;
+  optimizerRuns: number;
+  version?: string;
+}
+
+/**
+ * A contract deployment recorded in the manifest
+ */
+export interface DeploymentRecord {
+  contractName: string;
+  /** Source path relative to the workspace folder, with forward slashes */
+  sourceFile: string;
+  /** SHA-256 of the source at deploy time */
+  sourceHash: string;
+  compiler: CompilerSettings;
+  abi: AbiEntry[];
+  contractId: string;
+  evmAddress: string;
+  transactionId: string;
+  deployer: string;
+  /** ISO 8601 timestamp */
+  deployedAt: string;
+}
+
+/**
+ * Contents of .hivemind/deployments/<network>.json
+ */
+export interface DeploymentManifest {
+  network: string;
+  deployments: DeploymentRecord[];
+}
+
+/**
+ * Utility functions for the per-network deployment manifest.
+ *
+ * Manifests live in the workspace so deployments can be shared through git.
+ */
+export class ManifestUtils {
+  static readonly MANIFEST_DIRECTORY = path.join('.hivemind', 'deployments');
+
+  /**
+   * Get the manifest path for a network, or undefined without a workspace
+   */
+  static getManifestPath(network: string, workspaceFolder?: vscode.WorkspaceFolder): string | undefined {
+    const folder = workspaceFolder || this.getWorkspaceFolder();
+    if (!folder) {
+      return undefined;
+    }
+    return path.join(folder.uri.fsPath, this.MANIFEST_DIRECTORY, `${network}.json`);
+  }
+
+  /**
+   * Read the manifest for a network. Returns an empty manifest if none exists yet.
+   */
+  static readManifest(network: string, workspaceFolder?: vscode.WorkspaceFolder): DeploymentManifest {
+    const manifestPath = this.getManifestPath(network, workspaceFolder);
+
+    if (!manifestPath || !fs.existsSync(manifestPath)) {
+      return { network, deployments: [] };
+    }
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as DeploymentManifest;
+      return { network, deployments: Array.isArray(manifest.deployments) ? manifest.deployments : [] };
+    } catch (error) {
+      throw new Error(`Invalid deployment manifest ${manifestPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Read the manifests of every network in the workspace
+   */
+  static readAllManifests(workspaceFolder?: vscode.WorkspaceFolder): DeploymentManifest[] {
+    const folder = workspaceFolder || this.getWorkspaceFolder();
+    const directory = folder ? path.join(folder.uri.fsPath, this.MANIFEST_DIRECTORY) : undefined;
+
+    if (!directory || !fs.existsSync(directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(directory)
+      .filter(name => name.endsWith('.json'))
+      .map(name => this.readManifest(path.basename(name, '.json'), folder));
+  }
+
+  /**
+   * Record a deployment, newest first
+   */
+  static addDeployment(network: string, record: DeploymentRecord, workspaceFolder?: vscode.WorkspaceFolder): string {
+    const manifestPath = this.getManifestPath(network, workspaceFolder);
+    if (!manifestPath) {
+      throw new Error('Open a workspace folder to record deployments');
+    }
+
+    const manifest = this.readManifest(network, workspaceFolder);
+    manifest.deployments = [record, ...manifest.deployments.filter(d => d.contractId !== record.contractId)];
+
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+
+    return manifestPath;
+  }
+
+  /**
+   * Find a deployment by contract ID
+   */
+  static findDeployment(network: string, contractId: string): DeploymentRecord | undefined {
+    return this.readManifest(network).deployments.find(d => d.contractId === contractId);
+  }
+
+  /**
+   * Hash Solidity source the same way for recording and comparison
+   */
+  static hashSource(source: string): string {
+    return crypto.createHash('sha256').update(source, 'utf8').digest('hex');
+  }
+
+  /**
+   * Get a workspace-relative, forward-slash path for a source file
+   */
+  static getRelativeSourcePath(filePath: string): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)) || this.getWorkspaceFolder();
+    const relative = folder ? path.relative(folder.uri.fsPath, filePath) : path.basename(filePath);
+    return relative.split(path.sep).join('/');
+  }
+
+  private static getWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    return vscode.workspace.workspaceFolders?.[0];
+  }
+}
@@ -0,0 +1,451 @@
+import {
+  AccountUpdateTransaction,
+  ContractExecuteTransaction,
+  ContractId,
+  Hbar,
+  Key,
+  KeyList,
+  PublicKey,
+  Transaction,
+  TransferTransaction
+} from '@hashgraph/sdk';
+
+/**
+ * A key that has to sign: a single public key, a threshold of keys (a key list being a
+ * threshold of all its keys) or a contract, which can't sign offline
+ */
+export type KeyRequirement =
+  | { type: 'key'; keyType: 'ED25519' | 'ECDSA'; /** Raw hex, lowercase */ publicKey: string }
+  | { type: 'threshold'; threshold: number; keys: KeyRequirement[] }
+  | { type: 'contract'; contractId: string };
+
+/**
+ * Whether a key requirement is met by the signatures of a transaction
+ */
+export interface KeyStatus {
+  requirement: KeyRequirement;
+  satisfied: boolean;
+  /** Threshold children */
+  children?: KeyStatus[];
+}
+
+/**
+ * An account or key whose signature a transaction needs
+ */
+export interface SignerRequirement {
+  /** e.g. 'Fee payer' or 'HBAR sender' */
+  role: string;
+  accountId?: string;
+  /** Set for keys named by the transaction itself, e.g. the new key of an account update */
+  key?: KeyRequirement;
+}
+
+/**
+ * A transaction passed between co-signers, with the signatures collected so far
+ */
+export interface MultiSigFile {
+  format: 'hivemind.multisig';
+  version: 1;
+  network: string;
+  description: string;
+  createdBy: string;
+  createdAt: string;
+  /** Base64 of the frozen transaction */
+  transaction: string;
+}
+
+/**
+ * Offline multi-signature helpers for HiveMind Copilot
+ */
+export class MultiSigUtils {
+  static readonly FILE_FORMAT = 'hivemind.multisig';
+  static readonly FILE_EXTENSION = 'multisig.json';
+  // The longest a transaction stays valid after its valid start
+  static readonly MAX_VALID_DURATION_SECONDS = 180;
+
+  /**
+   * Build an HBAR transfer between two accounts, to freeze for signing
+   */
+  static buildHbarTransfer(fromAccountId: string, toAccountId: string, amountHbar: number, memo?: string): TransferTransaction {
+    const amount = new Hbar(amountHbar);
+    return new TransferTransaction()
+      .addHbarTransfer(fromAccountId, amount.negated())
+      .addHbarTransfer(toAccountId, amount)
+      .setTransactionMemo(memo || '');
+  }
+
+  /**
+   * Build a contract call, to freeze for signing
+   *
+   * @param functionParameters The selector followed by the encoded arguments, see AbiUtils.encodeFunctionCall
+   */
+  static buildContractCall(
+    contractId: string,
+    functionParameters: Uint8Array,
+    gas: number,
+    payableAmount?: number
+  ): ContractExecuteTransaction {
+    const transaction = new ContractExecuteTransaction()
+      .setContractId(ContractId.fromString(contractId))
+      .setGas(gas)
+      .setFunctionParameters(functionParameters);
+    return payableAmount ? transaction.setPayableAmount(new Hbar(payableAmount)) : transaction;
+  }
+
+  /**
+   * Wrap a frozen transaction in a file for co-signers
+   */
+  static createFile(
+    transaction: Transaction,
+    options: { network: string; description: string; createdBy: string }
+  ): MultiSigFile {
+    return {
+      format: 'hivemind.multisig',
+      version: 1,
+      network: options.network,
+      description: options.description,
+      createdBy: options.createdBy,
+      createdAt: new Date().toISOString(),
+      transaction: Buffer.from(transaction.toBytes()).toString('base64')
+    };
+  }
+
+  /**
+   * Replace the transaction of a file, e.g. after adding a signature
+   */
+  static updateFile(file: MultiSigFile, transaction: Transaction): MultiSigFile {
+    return { ...file, transaction: Buffer.from(transaction.toBytes()).toString('base64') };
+  }
+
+  /**
+   * Parse a multi-sig file and its transaction. Throws if it isn't one.
+   */
+  static parseFile(text: string): { file: MultiSigFile; transaction: Transaction } {
+    let file: MultiSigFile;
+    try {
+      file = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Not a multi-sig transaction file: invalid JSON');
+    }
+
+    if (file?.format !== MultiSigUtils.FILE_FORMAT || typeof file.transaction !== 'string') {
+      throw new Error('Not a multi-sig transaction file');
+    }
+    if (file.version !== 1) {
+      throw new Error(`Unsupported multi-sig file version ${file.version}`);
+    }
+
+    const transaction = Transaction.fromBytes(Buffer.from(file.transaction, 'base64'));
+    if (!transaction.transactionId) {
+      throw new Error('The transaction has no transaction ID');
+    }
+    return { file, transaction };
+  }
+
+  /**
+   * Get the window in which the transaction can be submitted
+   */
+  static getValidityWindow(transaction: Transaction): { start: Date; end: Date } {
+    const start = transaction.transactionId!.validStart!.toDate();
+    return { start, end: new Date(start.getTime() + transaction.transactionValidDuration * 1000) };
+  }
+
+  /**
+   * Get the public keys, raw hex in lowercase, that validly signed the transaction for
+   * every node it can be sent to, and those whose signatures don't verify
+   */
+  static getSignatures(transaction: Transaction): { signed: string[]; invalid: string[] } {
+    const keys = new Map<string, PublicKey>();
+    for (const nodeSignatures of transaction.getSignatures().values()) {
+      for (const pairs of nodeSignatures.values()) {
+        for (const publicKey of pairs.keys()) {
+          keys.set(publicKey.toStringRaw().toLowerCase(), publicKey);
+        }
+      }
+    }
+
+    const signed: string[] = [];
+    const invalid: string[] = [];
+    keys.forEach((publicKey, raw) => (publicKey.verifyTransaction(transaction) ? signed : invalid).push(raw));
+    return { signed, invalid };
+  }
+
+  /**
+   * Add the signatures of another copy of the same transaction, e.g. one a co-signer signed in
+   * parallel. Returns a new transaction, so a rejected copy leaves the target as it was.
+   */
+  static mergeSignatures(target: Transaction, source: Transaction): { transaction: Transaction; added: number } {
+    if (target.transactionId?.toString() !== source.transactionId?.toString()) {
+      throw new Error(`Signatures are for ${source.transactionId}, not ${target.transactionId}`);
+    }
+
+    const transaction = Transaction.fromBytes(target.toBytes());
+    const existing = new Set(MultiSigUtils.getSignatures(target).signed);
+    const sourceSignatures = source.getSignatures();
+    let added = 0;
+
+    for (const raw of MultiSigUtils.getSignatures(source).signed) {
+      if (existing.has(raw)) {
+        continue;
+      }
+      const publicKey = PublicKey.fromString(raw);
+      transaction.addSignature(publicKey, sourceSignatures);
+      // A signature over a different body with the same transaction ID doesn't verify
+      if (!publicKey.verifyTransaction(transaction)) {
+        throw new Error(`The signature of ${raw} is for a different transaction`);
+      }
+      added++;
+    }
+    return { transaction, added };
+  }
+
+  /**
+   * Get the accounts and keys whose signatures a transaction needs: the fee payer, senders of
+   * HBAR, tokens and NFTs, and the current and new key of an account update
+   */
+  static getSignerRequirements(transaction: Transaction): SignerRequirement[] {
+    const requirements: SignerRequirement[] = [
+      { role: 'Fee payer', accountId: transaction.transactionId!.accountId!.toString() }
+    ];
+    const add = (role: string, accountId: string) => {
+      if (!requirements.some(requirement => requirement.accountId === accountId)) {
+        requirements.push({ role, accountId });
+      }
+    };
+
+    if (transaction instanceof TransferTransaction) {
+      transaction.hbarTransfersList
+        .filter(transfer => transfer.amount.isNegative())
+        .forEach(transfer => add('HBAR sender', transfer.accountId.toString()));
+      for (const accounts of transaction.tokenTransfers.values()) {
+        for (const [accountId, amount] of accounts) {
+          if (amount.isNegative()) {
+            add('Token sender', accountId.toString());
+          }
+        }
+      }
+      for (const transfers of transaction.nftTransfers.values()) {
+        transfers.forEach(transfer => add('NFT sender', transfer.sender.toString()));
+      }
+    } else if (transaction instanceof AccountUpdateTransaction && transaction.accountId) {
+      add('Account', transaction.accountId.toString());
+      if (transaction.key) {
+        requirements.push({ role: 'New key', key: MultiSigUtils.fromSdkKey(transaction.key) });
+      }
+    }
+
+    return requirements;
+  }
+
+  /**
+   * Convert an account key from the mirror node, including protobuf-encoded key lists
+   * and threshold keys
+   */
+  static fromMirrorKey(key: { _type: string; key: string }): KeyRequirement {
+    switch (key._type) {
+      case 'ED25519':
+        return { type: 'key', keyType: 'ED25519', publicKey: key.key.toLowerCase() };
+      case 'ECDSA_SECP256K1':
+        return { type: 'key', keyType: 'ECDSA', publicKey: key.key.toLowerCase() };
+      case 'ProtobufEncoded':
+        return MultiSigUtils.decodeProtobufKey(Buffer.from(key.key, 'hex'));
+      default:
+        throw new Error(`Unsupported key type ${key._type}`);
+    }
+  }
+
+  /**
+   * Convert an SDK key
+   */
+  static fromSdkKey(key: Key): KeyRequirement {
+    if (key instanceof PublicKey) {
+      return { type: 'key', keyType: key.type === 'secp256k1' ? 'ECDSA' : 'ED25519', publicKey: key.toStringRaw().toLowerCase() };
+    }
+    if (key instanceof KeyList) {
+      const keys = key.toArray().map(child => MultiSigUtils.fromSdkKey(child));
+      return { type: 'threshold', threshold: key.threshold ?? keys.length, keys };
+    }
+    if (key instanceof ContractId) {
+      return { type: 'contract', contractId: key.toString() };
+    }
+    throw new Error('Unsupported key');
+  }
+
+  /**
+   * Check a key requirement against the keys that signed
+   */
+  static evaluate(requirement: KeyRequirement, signed: Set<string>): KeyStatus {
+    switch (requirement.type) {
+      case 'key':
+        return { requirement, satisfied: signed.has(requirement.publicKey) };
+      case 'contract':
+        return { requirement, satisfied: false };
+      case 'threshold': {
+        const children = requirement.keys.map(key => MultiSigUtils.evaluate(key, signed));
+        return {
+          requirement,
+          satisfied: children.filter(child => child.satisfied).length >= requirement.threshold,
+          children
+        };
+      }
+    }
+  }
+
+  /**
+   * Summarize a transaction for review as label and value rows
+   */
+  static describe(transaction: Transaction): [string, string][] {
+    const rows: [string, string][] = [
+      ['Transaction ID', transaction.transactionId!.toString()],
+      ['Nodes', (transaction.nodeAccountIds || []).map(String).join(', ')]
+    ];
+    if (transaction.maxTransactionFee) {
+      rows.push(['Max fee', transaction.maxTransactionFee.toString()]);
+    }
+    if (transaction.transactionMemo) {
+      rows.push(['Memo', transaction.transactionMemo]);
+    }
+
+    if (transaction instanceof TransferTransaction) {
+      transaction.hbarTransfersList.forEach(transfer =>
+        rows.push([transfer.amount.isNegative() ? 'From' : 'To', `${transfer.accountId}: ${transfer.amount.toString()}`]));
+      for (const [tokenId, accounts] of transaction.tokenTransfers) {
+        for (const [accountId, amount] of accounts) {
+          rows.push([amount.isNegative() ? 'Token from' : 'Token to', `${accountId}: ${amount.toString()} of ${tokenId}`]);
+        }
+      }
+      for (const [tokenId, transfers] of transaction.nftTransfers) {
+        transfers.forEach(transfer =>
+          rows.push(['NFT', `${tokenId} #${transfer.serial}: ${transfer.sender} → ${transfer.recipient}`]));
+      }
+    } else if (transaction instanceof ContractExecuteTransaction) {
+      rows.push(['Contract', String(transaction.contractId)]);
+      rows.push(['Gas', String(transaction.gas)]);
+      if (transaction.payableAmount && !transaction.payableAmount.toTinybars().isZero()) {
+        rows.push(['HBAR sent', transaction.payableAmount.toString()]);
+      }
+      const data = transaction.functionParameters;
+      if (data && data.length >= 4) {
+        rows.push(['Function selector', `0x${Buffer.from(data.subarray(0, 4)).toString('hex')}`]);
+      }
+    } else if (transaction instanceof AccountUpdateTransaction) {
+      rows.push(['Account', String(transaction.accountId)]);
+      if (transaction.key) {
+        rows.push(['New key', MultiSigUtils.describeKey(MultiSigUtils.fromSdkKey(transaction.key))]);
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Describe a key requirement in one line, e.g. `2 of (ED25519 ab12…, ECDSA 03cd…)`
+   */
+  static describeKey(requirement: KeyRequirement): string {
+    switch (requirement.type) {
+      case 'key':
+        return `${requirement.keyType} ${requirement.publicKey}`;
+      case 'contract':
+        return `Contract ${requirement.contractId}`;
+      case 'threshold':
+        return `${requirement.threshold} of (${requirement.keys.map(key => MultiSigUtils.describeKey(key)).join(', ')})`;
+    }
+  }
+
+  /**
+   * Decode a protobuf Key message: ed25519 = 2, thresholdKey = 5, keyList = 6,
+   * ECDSA_secp256k1 = 7, contractID = 1 and delegatable_contract_id = 8
+   */
+  private static decodeProtobufKey(bytes: Uint8Array): KeyRequirement {
+    for (const field of MultiSigUtils.readProtobufFields(bytes)) {
+      const value = field.value as Uint8Array;
+      switch (field.number) {
+        case 2:
+          return { type: 'key', keyType: 'ED25519', publicKey: Buffer.from(value).toString('hex') };
+        case 7:
+          return { type: 'key', keyType: 'ECDSA', publicKey: Buffer.from(value).toString('hex') };
+        case 5: {
+          // ThresholdKey: threshold = 1, keys = 2
+          const fields = MultiSigUtils.readProtobufFields(value);
+          const keyList = fields.find(inner => inner.number === 2)?.value as Uint8Array | undefined;
+          const keys = keyList ? MultiSigUtils.decodeKeyList(keyList) : [];
+          return { type: 'threshold', threshold: Number(fields.find(inner => inner.number === 1)?.value ?? 0), keys };
+        }
+        case 6: {
+          const keys = MultiSigUtils.decodeKeyList(value);
+          return { type: 'threshold', threshold: keys.length, keys };
+        }
+        case 1:
+        case 8: {
+          // ContractID: shardNum = 1, realmNum = 2, contractNum = 3
+          const fields = MultiSigUtils.readProtobufFields(value);
+          const part = (number: number) => Number(fields.find(inner => inner.number === number)?.value ?? 0);
+          return { type: 'contract', contractId: `${part(1)}.${part(2)}.${part(3)}` };
+        }
+      }
+    }
+    throw new Error('Unsupported protobuf key');
+  }
+
+  /**
+   * Decode a protobuf KeyList message: keys = 1
+   */
+  private static decodeKeyList(bytes: Uint8Array): KeyRequirement[] {
+    return MultiSigUtils.readProtobufFields(bytes)
+      .filter(field => field.number === 1)
+      .map(field => MultiSigUtils.decodeProtobufKey(field.value as Uint8Array));
+  }
+
+  /**
+   * Read the top-level varint and length-delimited fields of a protobuf message;
+   * fixed-width fields are skipped
+   */
+  static readProtobufFields(bytes: Uint8Array): { number: number; value: number | Uint8Array }[] {
+    const fields: { number: number; value: number | Uint8Array }[] = [];
+    let offset = 0;
+
+    const readVarint = () => {
+      let value = 0;
+      let scale = 1;
+      for (;;) {
+        if (offset >= bytes.length) {
+          throw new Error('Truncated protobuf message');
+        }
+        const byte = bytes[offset++];
+        value += (byte & 0x7f) * scale;
+        scale *= 128;
+        if (byte < 0x80) {
+          return value;
+        }
+      }
+    };
+
+    while (offset < bytes.length) {
+      const tag = readVarint();
+      const number = Math.floor(tag / 8);
+      switch (tag & 7) {
+        case 0:
+          fields.push({ number, value: readVarint() });
+          break;
+        case 2: {
+          const length = readVarint();
+          if (offset + length > bytes.length) {
+            throw new Error('Truncated protobuf message');
+          }
+          fields.push({ number, value: bytes.subarray(offset, offset + length) });
+          offset += length;
+          break;
+        }
+        case 1:
+          offset += 8;
+          break;
+        case 5:
+          offset += 4;
+          break;
+        default:
+          throw new Error(`Unsupported protobuf wire type ${tag & 7}`);
+      }
+    }
+    return fields;
+  }
+}
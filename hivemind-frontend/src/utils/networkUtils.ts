@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import { Client } from '@hashgraph/sdk';
+
+/**
+ * Connection details for a Hedera network
+ */
+export interface NetworkDefinition {
+  name: string;
+  /** Consensus node address (host:port) to node account ID */
+  nodes: { [address: string]: string };
+  /** Mirror node REST API base URL */
+  mirrorNodeUrl: string;
+  /** Mirror node gRPC endpoint (host:port), used for topic subscriptions */
+  mirrorNodeGrpc?: string;
+  /** JSON-RPC relay URL */
+  jsonRpcRelayUrl: string;
+  builtIn: boolean;
+}
+
+/**
+ * Utility functions for resolving Hedera networks, including hedera-local-node
+ * and user-defined custom networks from the `hivemind.customNetworks` setting
+ */
+export class NetworkUtils {
+  static readonly BUILT_IN_NETWORKS = ['testnet', 'mainnet', 'previewnet', 'local'];
+
+  private static readonly BUILT_IN_DEFINITIONS: { [name: string]: Omit<NetworkDefinition, 'name' | 'builtIn'> } = {
+    mainnet: {
+      nodes: {},
+      mirrorNodeUrl: 'https://mainnet-public.mirrornode.hedera.com',
+      mirrorNodeGrpc: 'mainnet-public.mirrornode.hedera.com:443',
+      jsonRpcRelayUrl: 'https://mainnet.hashio.io/api'
+    },
+    testnet: {
+      nodes: {},
+      mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+      mirrorNodeGrpc: 'testnet.mirrornode.hedera.com:443',
+      jsonRpcRelayUrl: 'https://testnet.hashio.io/api'
+    },
+    previewnet: {
+      nodes: {},
+      mirrorNodeUrl: 'https://previewnet.mirrornode.hedera.com',
+      mirrorNodeGrpc: 'previewnet.mirrornode.hedera.com:443',
+      jsonRpcRelayUrl: 'https://previewnet.hashio.io/api'
+    },
+    // Defaults of hedera-local-node (docker compose)
+    local: {
+      nodes: { '127.0.0.1:50211': '0.0.3' },
+      mirrorNodeUrl: 'http://localhost:5551',
+      mirrorNodeGrpc: '127.0.0.1:5600',
+      jsonRpcRelayUrl: 'http://localhost:7546'
+    }
+  };
+
+  /**
+   * Get the names of all built-in and custom networks
+   */
+  static getNetworkNames(): string[] {
+    return [...this.BUILT_IN_NETWORKS, ...Object.keys(this.getCustomNetworks())];
+  }
+
+  /**
+   * Get the definition of a network by name
+   */
+  static getNetworkDefinition(name: string): NetworkDefinition | undefined {
+    const builtIn = this.BUILT_IN_DEFINITIONS[name];
+    if (builtIn) {
+      return { name, builtIn: true, ...builtIn };
+    }
+
+    const custom = this.getCustomNetworks()[name];
+    if (custom) {
+      return { name, builtIn: false, ...custom };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Create an SDK client for a network
+   */
+  static createClient(name: string): Client {
+    switch (name) {
+      case 'testnet':
+        return Client.forTestnet();
+      case 'mainnet':
+        return Client.forMainnet();
+      case 'previewnet':
+        return Client.forPreviewnet();
+    }
+
+    const definition = this.getNetworkDefinition(name);
+    if (!definition) {
+      throw new Error(`Invalid network: ${name}`);
+    }
+
+    this.validateDefinition(definition);
+
+    const client = Client.forNetwork(definition.nodes);
+    if (definition.mirrorNodeGrpc) {
+      client.setMirrorNetwork(definition.mirrorNodeGrpc);
+    }
+    return client;
+  }
+
+  /**
+   * Get the mirror node REST URL for a network
+   */
+  static getMirrorNodeUrl(name: string): string {
+    const definition = this.getNetworkDefinition(name);
+    if (!definition) {
+      throw new Error(`Invalid network: ${name}`);
+    }
+    return definition.mirrorNodeUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Get the JSON-RPC relay URL for a network
+   */
+  static getJsonRpcRelayUrl(name: string): string {
+    const definition = this.getNetworkDefinition(name);
+    if (!definition) {
+      throw new Error(`Invalid network: ${name}`);
+    }
+    return definition.jsonRpcRelayUrl;
+  }
+
+  /**
+   * Check a network definition for missing or malformed fields
+   */
+  static validateDefinition(definition: NetworkDefinition): void {
+    const nodes = Object.entries(definition.nodes || {});
+
+    if (nodes.length === 0) {
+      throw new Error(`Network ${definition.name} must define at least one consensus node`);
+    }
+
+    for (const [address, accountId] of nodes) {
+      if (!/^[^:\s]+:\d+$/.test(address)) {
+        throw new Error(`Network ${definition.name}: node address "${address}" must be host:port`);
+      }
+      if (!/^\d+\.\d+\.\d+$/.test(accountId)) {
+        throw new Error(`Network ${definition.name}: node account "${accountId}" must be an account ID like 0.0.3`);
+      }
+    }
+
+    if (!definition.mirrorNodeUrl) {
+      throw new Error(`Network ${definition.name} must define a mirrorNodeUrl`);
+    }
+  }
+
+  /**
+   * Read custom network definitions from settings, ignoring any that shadow built-ins
+   */
+  private static getCustomNetworks(): { [name: string]: Omit<NetworkDefinition, 'name' | 'builtIn'> } {
+    const config = vscode.workspace.getConfiguration('hivemind');
+    const custom = config.get<{ [name: string]: any }>('customNetworks') || {};
+    const networks: { [name: string]: Omit<NetworkDefinition, 'name' | 'builtIn'> } = {};
+
+    for (const [name, value] of Object.entries(custom)) {
+      if (this.BUILT_IN_NETWORKS.includes(name) || !value || typeof value !== 'object') {
+        continue;
+      }
+
+      networks[name] = {
+        nodes: value.nodes || {},
+        mirrorNodeUrl: value.mirrorNodeUrl || '',
+        mirrorNodeGrpc: value.mirrorNodeGrpc,
+        jsonRpcRelayUrl: value.jsonRpcRelayUrl || ''
+      };
+    }
+
+    return networks;
+  }
+}
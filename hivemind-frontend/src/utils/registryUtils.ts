@@ -0,0 +1,29 @@
+import { Interface } from '@ethersproject/abi';
+
+/**
+ * Helpers shared by the agent and contract registry services, which call their registry
+ * contracts through the mirror node
+ */
+export class RegistryUtils {
+  // Owner the registries return for entries that aren't registered
+  static readonly ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+  /**
+   * Encode a registry function call as 0x-prefixed calldata
+   */
+  static encodeFunctionData(registryInterface: Interface, name: string, args: any[] = []): string {
+    return registryInterface.encodeFunctionData(name, args);
+  }
+
+  /**
+   * Get the account ID a lowercase long-zero address encodes, or undefined for other addresses
+   * and the zero address
+   */
+  static toLongZeroAccountId(address: string): string | undefined {
+    // Long-zero addresses are 0x followed by 12 zero bytes and the account number
+    if (!/^0x0{24}[0-9a-f]{16}$/.test(address) || address === RegistryUtils.ZERO_ADDRESS) {
+      return undefined;
+    }
+    return `0.0.${BigInt(`0x${address.slice(26)}`).toString()}`;
+  }
+}
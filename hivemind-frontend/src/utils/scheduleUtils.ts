@@ -0,0 +1,125 @@
+import { MirrorNodeService, MirrorSchedule } from '../services/mirrorNodeService';
+import { MultiSigUtils } from './multiSigUtils';
+
+/**
+ * Where a schedule is in its lifecycle
+ */
+export type ScheduleState = 'pending' | 'executed' | 'deleted' | 'expired';
+
+/**
+ * Helpers for Hedera scheduled transactions in HiveMind Copilot
+ */
+export class ScheduleUtils {
+  // The network's default expiry, ledger.schedule.txExpiryTimeSecs
+  static readonly DEFAULT_EXPIRY_SECONDS = 30 * 60;
+  // The furthest a schedule can expire, ledger.schedule.maxExpirationFutureSeconds
+  static readonly MAX_EXPIRY_SECONDS = 62 * 24 * 60 * 60;
+
+  // Transaction types by their field number in SchedulableTransactionBody, named like
+  // TransactionPolicyService.TRANSACTION_TYPES
+  private static readonly SCHEDULABLE_TYPES: { [field: number]: string } = {
+    3: 'contractCall',
+    4: 'contractCreateInstance',
+    5: 'contractUpdateInstance',
+    6: 'contractDeleteInstance',
+    7: 'cryptoCreateAccount',
+    8: 'cryptoDelete',
+    9: 'cryptoTransfer',
+    10: 'cryptoUpdateAccount',
+    11: 'fileAppend',
+    12: 'fileCreate',
+    13: 'fileDelete',
+    14: 'fileUpdate',
+    18: 'consensusCreateTopic',
+    19: 'consensusUpdateTopic',
+    20: 'consensusDeleteTopic',
+    21: 'consensusSubmitMessage',
+    22: 'tokenCreation',
+    23: 'tokenFreeze',
+    24: 'tokenUnfreeze',
+    25: 'tokenGrantKyc',
+    26: 'tokenRevokeKyc',
+    27: 'tokenDeletion',
+    28: 'tokenUpdate',
+    29: 'tokenMint',
+    30: 'tokenBurn',
+    31: 'tokenWipe',
+    32: 'tokenAssociate',
+    33: 'tokenDissociate',
+    34: 'scheduleDelete',
+    35: 'tokenPause',
+    36: 'tokenUnpause',
+    37: 'cryptoApproveAllowance',
+    38: 'cryptoDeleteAllowance'
+  };
+
+  /**
+   * Get the type of a schedule's transaction from its base64 SchedulableTransactionBody,
+   * or undefined for types HiveMind doesn't know
+   */
+  static getScheduledType(transactionBody: string): string | undefined {
+    const fields = MultiSigUtils.readProtobufFields(Buffer.from(transactionBody, 'base64'));
+    for (const field of fields) {
+      const type = ScheduleUtils.SCHEDULABLE_TYPES[field.number];
+      if (type) {
+        return type;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get when a schedule expires; without an expiration time it expires a fixed time after creation
+   */
+  static getExpiry(schedule: MirrorSchedule): Date {
+    if (schedule.expiration_time) {
+      return MirrorNodeService.timestampToDate(schedule.expiration_time);
+    }
+    const created = MirrorNodeService.timestampToDate(schedule.consensus_timestamp);
+    return new Date(created.getTime() + ScheduleUtils.DEFAULT_EXPIRY_SECONDS * 1000);
+  }
+
+  /**
+   * Get whether a schedule is pending, executed, deleted or expired
+   */
+  static getState(schedule: MirrorSchedule, now: number = Date.now()): ScheduleState {
+    if (schedule.executed_timestamp) {
+      return 'executed';
+    }
+    if (schedule.deleted) {
+      return 'deleted';
+    }
+    return ScheduleUtils.getExpiry(schedule).getTime() <= now ? 'expired' : 'pending';
+  }
+
+  /**
+   * Get the keys that signed a schedule as raw hex, with their type
+   */
+  static getSignatories(schedule: MirrorSchedule): { keyType: string; publicKey: string }[] {
+    return schedule.signatures.map(signature => ({
+      keyType: signature.type === 'ECDSA_SECP256K1' ? 'ECDSA' : signature.type,
+      publicKey: Buffer.from(signature.public_key_prefix, 'base64').toString('hex')
+    }));
+  }
+
+  /**
+   * Format the time left until a date, e.g. `2d 4h`, `1h 5m` or `4m 10s`
+   */
+  static formatCountdown(until: Date, now: number = Date.now()): string {
+    const seconds = Math.floor((until.getTime() - now) / 1000);
+    if (seconds <= 0) {
+      return 'expired';
+    }
+
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) {
+      return `${days}d ${hours}h`;
+    }
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m ${seconds % 60}s`;
+  }
+}
@@ -46,6 +46,25 @@ export class SolidityUtils {
     }
   }
 
+  /**
+   * Get the names of the deployable (non-abstract) contracts declared in Solidity source
+   */
+  static extractDeployableContractNames(source: string): string[] {
+    // Ignore declarations inside comments
+    const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+    const contractRegex = /(^|[;}\s])(abstract\s+)?contract\s+(\w+)/g;
+    const names: string[] = [];
+    let match;
+
+    while ((match = contractRegex.exec(code)) !== null) {
+      if (!match[2]) {
+        names.push(match[3]);
+      }
+    }
+
+    return names;
+  }
+
   /**
    * Parse Solidity file to extract imports
    */
@@ -0,0 +1,466 @@
+import {
+  CustomFee,
+  CustomFixedFee,
+  CustomFractionalFee,
+  CustomRoyaltyFee,
+  FeeAssessmentMethod,
+  Hbar,
+  Long,
+  PublicKey,
+  TokenBurnTransaction,
+  TokenFreezeTransaction,
+  TokenGrantKycTransaction,
+  TokenMintTransaction,
+  TokenPauseTransaction,
+  TokenRevokeKycTransaction,
+  TokenUnfreezeTransaction,
+  TokenUnpauseTransaction,
+  Transaction
+} from '@hashgraph/sdk';
+
+/**
+ * Keys a token can be created with
+ */
+export type TokenKeyName = 'admin' | 'kyc' | 'freeze' | 'wipe' | 'supply' | 'feeSchedule' | 'pause' | 'metadata';
+
+/**
+ * A custom fee charged on token transfers. Amounts are strings in the smallest unit of the
+ * token they are paid in, or tinybars for HBAR.
+ */
+export type TokenCustomFeeOptions =
+  | {
+    type: 'fixed';
+    collectorAccountId: string;
+    amount: string;
+    /** Token the fee is paid in, 'self' for the token being created; HBAR when unset */
+    denominatingTokenId?: string;
+  }
+  | {
+    type: 'fractional';
+    collectorAccountId: string;
+    numerator: number;
+    denominator: number;
+    minimum?: string;
+    maximum?: string;
+    /** Charge the fee on top of the amount sent instead of out of it */
+    netOfTransfers?: boolean;
+  }
+  | {
+    type: 'royalty';
+    collectorAccountId: string;
+    numerator: number;
+    denominator: number;
+    /** Charged in tinybars when an NFT is exchanged for nothing fungible */
+    fallbackTinybars?: string;
+  };
+
+/**
+ * Options for creating a token; the operator is the treasury
+ */
+export interface TokenCreateOptions {
+  name: string;
+  symbol: string;
+  memo?: string;
+  type: 'fungible' | 'nft';
+  decimals: number;
+  /** In the smallest unit */
+  initialSupply: string;
+  supplyType: 'infinite' | 'finite';
+  /** In the smallest unit, or the number of NFTs */
+  maxSupply?: string;
+  /** Public key per token key, or 'operator' for the operator key; unset keys are left off the token */
+  keys: { [name in TokenKeyName]?: string };
+  /** Accounts start frozen and need unfreezing before they can transact */
+  freezeDefault?: boolean;
+  customFees?: TokenCustomFeeOptions[];
+}
+
+/**
+ * An operation signed with one of a token's keys. Amounts are in the smallest unit.
+ */
+export type TokenOperation =
+  | { type: 'mint'; amount: string }
+  | { type: 'mint'; metadata: Uint8Array[] }
+  | { type: 'burn'; amount: string }
+  | { type: 'burn'; serials: number[] }
+  | { type: 'grantKyc' | 'revokeKyc' | 'freeze' | 'unfreeze'; accountId: string }
+  | { type: 'pause' | 'unpause' };
+
+/**
+ * A custom fee as entered in the token studio
+ */
+export interface TokenFeeForm {
+  type: 'fixed' | 'fractional' | 'royalty';
+  collectorAccountId: string;
+  /** Fixed fee amount: HBAR, whole tokens when paid in the new token, else the smallest unit */
+  amount: string;
+  /** Fixed fee denomination: 'hbar', 'self' or a token ID */
+  denomination: string;
+  /** Fractional and royalty fees, e.g. 2.5 for 2.5% */
+  percentage: string;
+  /** Fractional fee bounds in whole tokens */
+  minimum: string;
+  maximum: string;
+  netOfTransfers: boolean;
+  /** Royalty fallback fee in HBAR */
+  fallbackHbar: string;
+}
+
+/**
+ * The token studio form, as entered
+ */
+export interface TokenForm {
+  name: string;
+  symbol: string;
+  memo: string;
+  type: 'fungible' | 'nft';
+  decimals: string;
+  /** In whole tokens */
+  initialSupply: string;
+  supplyType: 'infinite' | 'finite';
+  /** In whole tokens, or the number of NFTs */
+  maxSupply: string;
+  freezeDefault: boolean;
+  /** 'none', 'operator' or a public key per token key */
+  keys: { [name in TokenKeyName]?: string };
+  fees: TokenFeeForm[];
+}
+
+/**
+ * Token utility functions for HiveMind Copilot
+ */
+export class TokenUtils {
+  static readonly TOKEN_KEYS: { name: TokenKeyName; label: string; description: string }[] = [
+    { name: 'admin', label: 'Admin key', description: 'Update or delete the token' },
+    { name: 'kyc', label: 'KYC key', description: 'Grant or revoke KYC for accounts' },
+    { name: 'freeze', label: 'Freeze key', description: 'Freeze or unfreeze accounts' },
+    { name: 'wipe', label: 'Wipe key', description: 'Wipe balances from accounts' },
+    { name: 'supply', label: 'Supply key', description: 'Mint and burn' },
+    { name: 'feeSchedule', label: 'Fee schedule key', description: 'Change the custom fees' },
+    { name: 'pause', label: 'Pause key', description: 'Pause or unpause all transfers' },
+    { name: 'metadata', label: 'Metadata key', description: 'Update token and NFT metadata' }
+  ];
+
+  static readonly MAX_CUSTOM_FEES = 10;
+  // Bytes of a name, symbol, memo or NFT metadata
+  static readonly MAX_TEXT_BYTES = 100;
+  // NFTs minted or burned per transaction
+  static readonly MAX_NFT_BATCH = 10;
+  static readonly MAX_DECIMALS = 18;
+
+  private static readonly MAX_INT64 = BigInt('9223372036854775807');
+
+  /**
+   * Convert an amount in whole tokens to the smallest unit, e.g. 1.5 with 2 decimals to 150
+   */
+  static toSmallestUnit(amount: string, decimals: number, label = 'Amount'): string {
+    const trimmed = amount.trim();
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(trimmed);
+    if (!match) {
+      throw new Error(`${label} must be a non-negative number`);
+    }
+
+    const fraction = (match[2] || '').replace(/0+$/, '');
+    if (fraction.length > decimals) {
+      throw new Error(`${label} has more than ${decimals} decimal${decimals === 1 ? '' : 's'}`);
+    }
+
+    const units = BigInt(match[1] + fraction.padEnd(decimals, '0'));
+    if (units > this.MAX_INT64) {
+      throw new Error(`${label} is too large`);
+    }
+    return units.toString();
+  }
+
+  /**
+   * Format an amount in the smallest unit as whole tokens, e.g. 150 with 2 decimals as 1.5
+   */
+  static formatAmount(units: string | number, decimals: number): string {
+    const digits = BigInt(units).toString();
+    if (decimals === 0) {
+      return digits;
+    }
+
+    const padded = digits.padStart(decimals + 1, '0');
+    const whole = padded.slice(0, padded.length - decimals);
+    const fraction = padded.slice(padded.length - decimals).replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole;
+  }
+
+  /**
+   * Convert a percentage such as 2.5 to a reduced fraction such as 1/40
+   */
+  static toFraction(percentage: string, label = 'Percentage'): { numerator: number; denominator: number } {
+    const match = /^(\d+)(?:\.(\d{1,6}))?$/.exec(percentage.trim());
+    if (!match) {
+      throw new Error(`${label} must be a number with at most 6 decimals`);
+    }
+
+    const fraction = match[2] || '';
+    let numerator = Number(match[1] + fraction);
+    let denominator = 100 * 10 ** fraction.length;
+    if (numerator <= 0 || numerator > denominator) {
+      throw new Error(`${label} must be over 0 and at most 100`);
+    }
+
+    const divisor = this.gcd(numerator, denominator);
+    numerator /= divisor;
+    denominator /= divisor;
+    return { numerator, denominator };
+  }
+
+  /**
+   * Check the token studio form and convert it to create options.
+   * Throws a descriptive Error for the first invalid field.
+   */
+  static parseTokenForm(form: TokenForm): TokenCreateOptions {
+    const nft = form.type === 'nft';
+    const name = this.checkText(form.name, 'Name', true);
+    const symbol = this.checkText(form.symbol, 'Symbol', true);
+    const memo = this.checkText(form.memo, 'Memo', false);
+
+    const decimals = nft ? 0 : Number(form.decimals.trim() || '0');
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > this.MAX_DECIMALS) {
+      throw new Error(`Decimals must be a whole number from 0 to ${this.MAX_DECIMALS}`);
+    }
+
+    const initialSupply = nft ? '0' : this.toSmallestUnit(form.initialSupply || '0', decimals, 'Initial supply');
+    let maxSupply: string | undefined;
+    if (form.supplyType === 'finite') {
+      maxSupply = this.toSmallestUnit(form.maxSupply, decimals, 'Max supply');
+      if (BigInt(maxSupply) <= BigInt(0)) {
+        throw new Error('Max supply must be over 0 for a finite supply');
+      }
+      if (BigInt(initialSupply) > BigInt(maxSupply)) {
+        throw new Error('Initial supply cannot exceed the max supply');
+      }
+    }
+
+    const keys: { [name in TokenKeyName]?: string } = {};
+    for (const { name: keyName, label } of this.TOKEN_KEYS) {
+      const value = (form.keys[keyName] || 'none').trim();
+      if (value === 'none' || value === '') {
+        continue;
+      }
+      if (value !== 'operator') {
+        try {
+          PublicKey.fromString(value);
+        } catch (error) {
+          throw new Error(`${label} is not a valid public key`);
+        }
+      }
+      keys[keyName] = value;
+    }
+    if (nft && !keys.supply) {
+      throw new Error('NFTs are minted with the supply key, so set one');
+    }
+    if (form.freezeDefault && !keys.freeze) {
+      throw new Error('Accounts can only start frozen with a freeze key to unfreeze them');
+    }
+
+    if (form.fees.length > this.MAX_CUSTOM_FEES) {
+      throw new Error(`A token can have at most ${this.MAX_CUSTOM_FEES} custom fees`);
+    }
+    const customFees = form.fees.map((fee, index) => this.parseFeeForm(fee, `Fee ${index + 1}`, nft, decimals));
+
+    return {
+      name,
+      symbol,
+      memo: memo || undefined,
+      type: form.type,
+      decimals,
+      initialSupply,
+      supplyType: form.supplyType,
+      maxSupply,
+      keys,
+      freezeDefault: form.freezeDefault,
+      customFees
+    };
+  }
+
+  /**
+   * Build the SDK custom fees of a token
+   */
+  static toCustomFees(fees: TokenCustomFeeOptions[]): CustomFee[] {
+    return fees.map(fee => {
+      switch (fee.type) {
+        case 'fixed': {
+          const fixed = new CustomFixedFee().setFeeCollectorAccountId(fee.collectorAccountId);
+          if (!fee.denominatingTokenId) {
+            return fixed.setHbarAmount(Hbar.fromTinybars(fee.amount));
+          }
+          fixed.setAmount(Long.fromString(fee.amount));
+          return fee.denominatingTokenId === 'self'
+            ? fixed.setDenominatingTokenToSameToken()
+            : fixed.setDenominatingTokenId(fee.denominatingTokenId);
+        }
+
+        case 'fractional':
+          return new CustomFractionalFee()
+            .setFeeCollectorAccountId(fee.collectorAccountId)
+            .setNumerator(fee.numerator)
+            .setDenominator(fee.denominator)
+            .setMin(Long.fromString(fee.minimum || '0'))
+            .setMax(Long.fromString(fee.maximum || '0'))
+            .setAssessmentMethod(fee.netOfTransfers ? FeeAssessmentMethod.Exclusive : FeeAssessmentMethod.Inclusive);
+
+        case 'royalty': {
+          const royalty = new CustomRoyaltyFee()
+            .setFeeCollectorAccountId(fee.collectorAccountId)
+            .setNumerator(fee.numerator)
+            .setDenominator(fee.denominator);
+          if (fee.fallbackTinybars) {
+            royalty.setFallbackFee(new CustomFixedFee().setHbarAmount(Hbar.fromTinybars(fee.fallbackTinybars)));
+          }
+          return royalty;
+        }
+      }
+    });
+  }
+
+  /**
+   * Build the transaction of a token operation. NFT mints and burns must fit in one batch.
+   */
+  static buildOperation(tokenId: string, operation: TokenOperation): Transaction {
+    switch (operation.type) {
+      case 'mint':
+        return 'amount' in operation
+          ? new TokenMintTransaction().setTokenId(tokenId).setAmount(Long.fromString(operation.amount))
+          : new TokenMintTransaction().setTokenId(tokenId).setMetadata(operation.metadata);
+      case 'burn':
+        return 'amount' in operation
+          ? new TokenBurnTransaction().setTokenId(tokenId).setAmount(Long.fromString(operation.amount))
+          : new TokenBurnTransaction().setTokenId(tokenId).setSerials(operation.serials);
+      case 'grantKyc':
+        return new TokenGrantKycTransaction().setTokenId(tokenId).setAccountId(operation.accountId);
+      case 'revokeKyc':
+        return new TokenRevokeKycTransaction().setTokenId(tokenId).setAccountId(operation.accountId);
+      case 'freeze':
+        return new TokenFreezeTransaction().setTokenId(tokenId).setAccountId(operation.accountId);
+      case 'unfreeze':
+        return new TokenUnfreezeTransaction().setTokenId(tokenId).setAccountId(operation.accountId);
+      case 'pause':
+        return new TokenPauseTransaction().setTokenId(tokenId);
+      case 'unpause':
+        return new TokenUnpauseTransaction().setTokenId(tokenId);
+    }
+  }
+
+  /**
+   * Encode NFT metadata, one NFT per entry, checking each fits the 100-byte limit
+   */
+  static encodeNftMetadata(entries: string[]): Uint8Array[] {
+    const metadata = entries.map(entry => entry.trim()).filter(Boolean).map(entry => Buffer.from(entry, 'utf8'));
+    if (metadata.length === 0) {
+      throw new Error('Enter metadata for at least one NFT');
+    }
+
+    const tooLong = metadata.findIndex(entry => entry.length > this.MAX_TEXT_BYTES);
+    if (tooLong >= 0) {
+      throw new Error(`Metadata of NFT ${tooLong + 1} is ${metadata[tooLong].length} bytes; the limit is ${this.MAX_TEXT_BYTES}`);
+    }
+    return metadata;
+  }
+
+  /**
+   * Split items into batches of at most `size`, e.g. NFTs per mint transaction
+   */
+  static toBatches<T>(items: T[], size: number = TokenUtils.MAX_NFT_BATCH): T[][] {
+    const batches: T[][] = [];
+    for (let index = 0; index < items.length; index += size) {
+      batches.push(items.slice(index, index + size));
+    }
+    return batches;
+  }
+
+  private static parseFeeForm(fee: TokenFeeForm, label: string, nft: boolean, decimals: number): TokenCustomFeeOptions {
+    const collectorAccountId = fee.collectorAccountId.trim();
+    if (!this.isEntityId(collectorAccountId)) {
+      throw new Error(`${label}: enter the collector account ID (0.0.x)`);
+    }
+
+    switch (fee.type) {
+      case 'fixed': {
+        const denomination = (fee.denomination || 'hbar').trim();
+        let amount: string;
+        if (denomination === 'hbar') {
+          amount = this.toSmallestUnit(fee.amount, 8, `${label} amount`);
+        } else if (denomination === 'self') {
+          if (nft) {
+            throw new Error(`${label}: NFT fees can't be paid in the NFT itself`);
+          }
+          amount = this.toSmallestUnit(fee.amount, decimals, `${label} amount`);
+        } else if (this.isEntityId(denomination)) {
+          amount = this.toSmallestUnit(fee.amount, 0, `${label} amount`);
+        } else {
+          throw new Error(`${label}: pay the fee in HBAR, the new token or a token ID (0.0.x)`);
+        }
+        if (BigInt(amount) <= BigInt(0)) {
+          throw new Error(`${label} amount must be over 0`);
+        }
+        return {
+          type: 'fixed',
+          collectorAccountId,
+          amount,
+          denominatingTokenId: denomination === 'hbar' ? undefined : denomination
+        };
+      }
+
+      case 'fractional': {
+        if (nft) {
+          throw new Error(`${label}: fractional fees only apply to fungible tokens`);
+        }
+        const minimum = fee.minimum.trim() ? this.toSmallestUnit(fee.minimum, decimals, `${label} minimum`) : undefined;
+        const maximum = fee.maximum.trim() ? this.toSmallestUnit(fee.maximum, decimals, `${label} maximum`) : undefined;
+        if (minimum && maximum && BigInt(minimum) > BigInt(maximum)) {
+          throw new Error(`${label}: the minimum cannot exceed the maximum`);
+        }
+        return {
+          type: 'fractional',
+          collectorAccountId,
+          ...this.toFraction(fee.percentage, `${label} percentage`),
+          minimum,
+          maximum,
+          netOfTransfers: fee.netOfTransfers
+        };
+      }
+
+      case 'royalty': {
+        if (!nft) {
+          throw new Error(`${label}: royalty fees only apply to NFTs`);
+        }
+        const fallbackTinybars = fee.fallbackHbar.trim()
+          ? this.toSmallestUnit(fee.fallbackHbar, 8, `${label} fallback fee`)
+          : undefined;
+        return {
+          type: 'royalty',
+          collectorAccountId,
+          ...this.toFraction(fee.percentage, `${label} percentage`),
+          fallbackTinybars
+        };
+      }
+
+      default:
+        throw new Error(`${label}: unknown fee type ${fee.type}`);
+    }
+  }
+
+  private static checkText(value: string, label: string, required: boolean): string {
+    const trimmed = (value || '').trim();
+    if (required && !trimmed) {
+      throw new Error(`${label} is required`);
+    }
+    if (Buffer.byteLength(trimmed, 'utf8') > this.MAX_TEXT_BYTES) {
+      throw new Error(`${label} is longer than ${this.MAX_TEXT_BYTES} bytes`);
+    }
+    return trimmed;
+  }
+
+  private static isEntityId(value: string): boolean {
+    return /^\d+\.\d+\.\d+$/.test(value);
+  }
+
+  private static gcd(a: number, b: number): number {
+    return b === 0 ? a : this.gcd(b, a % b);
+  }
+}
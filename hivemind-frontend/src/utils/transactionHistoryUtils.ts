@@ -0,0 +1,99 @@
+import { MirrorContractResult, MirrorTransaction } from '../services/mirrorNodeService';
+
+/**
+ * A Transaction Center entry as kept in workspace state
+ */
+export interface TransactionHistoryEntry {
+  /** Transaction ID, or a local ID for entries that aren't transactions, e.g. blocked ones */
+  id: string;
+  type: string;
+  /** A Date when added, an ISO string once restored from workspace state */
+  timestamp: Date | string;
+  status: string;
+  details: any;
+  children?: TransactionHistoryEntry[];
+  /** Result code of the record, e.g. SUCCESS or CONTRACT_REVERT_EXECUTED */
+  result?: string;
+  /** Fee charged, in tinybars */
+  fee?: number;
+  gasUsed?: number;
+  /** The transaction's record from the mirror node */
+  record?: MirrorTransaction;
+  /** Set on the operator's transactions listed from the mirror node, which aren't stored */
+  source?: 'mirror';
+}
+
+/**
+ * Helpers for the Transaction Center history, stored per network and operator
+ */
+export class TransactionHistoryUtils {
+  // Entries kept per network and operator; older ones are still listed from the mirror node
+  static readonly MAX_ENTRIES = 200;
+
+  // Mirror node transaction names that have a contract result with the gas used
+  private static readonly CONTRACT_TRANSACTIONS = ['CONTRACTCALL', 'CONTRACTCREATEINSTANCE', 'ETHEREUMTRANSACTION'];
+
+  /**
+   * Get the key of the history of an operator on a network
+   */
+  static getScope(network: string, accountId: string | null): string {
+    return `${network}:${accountId || ''}`;
+  }
+
+  /**
+   * Whether an ID is an SDK transaction ID, e.g. 0.0.1001@1767225600.000000000
+   */
+  static isTransactionId(id: string): boolean {
+    return /^\d+\.\d+\.\d+@\d+\.\d+/.test(id);
+  }
+
+  /**
+   * Get entries with their nested ones, e.g. the payments of agent invocations
+   */
+  static flatten(entries: TransactionHistoryEntry[]): TransactionHistoryEntry[] {
+    return entries.flatMap(entry => [entry, ...(entry.children || [])]);
+  }
+
+  /**
+   * Whether an entry is a submitted transaction whose record hasn't been read yet
+   */
+  static needsRecord(entry: TransactionHistoryEntry): boolean {
+    return entry.source !== 'mirror' && !entry.record && TransactionHistoryUtils.isTransactionId(entry.id);
+  }
+
+  /**
+   * Whether a record has a contract result to read the gas used from
+   */
+  static hasContractResult(record: MirrorTransaction): boolean {
+    return TransactionHistoryUtils.CONTRACT_TRANSACTIONS.includes(record.name);
+  }
+
+  /**
+   * Get the record of the submitted transaction among the records with its ID, which also
+   * include the child records of contract calls and scheduled transactions
+   */
+  static getParentRecord(records: MirrorTransaction[]): MirrorTransaction | undefined {
+    return records.find(record => record.nonce === 0 && !record.scheduled) || records[0];
+  }
+
+  /**
+   * Store a record on an entry, settling its status with the result that reached consensus
+   */
+  static applyRecord(entry: TransactionHistoryEntry, record: MirrorTransaction, contractResult?: MirrorContractResult): void {
+    entry.record = record;
+    entry.result = record.result;
+    entry.status = record.result === 'SUCCESS' ? 'SUCCESS' : 'FAILED';
+    entry.fee = record.charged_tx_fee;
+    if (contractResult) {
+      entry.gasUsed = contractResult.gas_used;
+    }
+  }
+
+  /**
+   * Add an entry to a history, newest first, replacing an entry with the same ID and dropping
+   * the oldest beyond the limit
+   */
+  static add(entries: TransactionHistoryEntry[], entry: TransactionHistoryEntry): TransactionHistoryEntry[] {
+    return [entry, ...entries.filter(existing => existing.id !== entry.id)].slice(0, TransactionHistoryUtils.MAX_ENTRIES);
+  }
+}
@@ -0,0 +1,256 @@
+import { ContractExecuteTransaction, Transaction } from '@hashgraph/sdk';
+import { proto } from '@hashgraph/proto';
+import { AbiUtils, DecodedValue } from './abiUtils';
+import { DeploymentRecord } from './manifestUtils';
+
+/**
+ * A signature in a transaction's signature map, checked against the body signed for its node
+ */
+export interface TransactionSignature {
+  nodeAccountId: string;
+  transactionId: string;
+  keyType: string;
+  /** Raw public key, lowercase hex */
+  publicKey: string;
+  signature: string;
+  valid: boolean;
+}
+
+/**
+ * A contract call decoded with an ABI from the deployment manifests
+ */
+export interface DecodedContractCall {
+  contractId: string;
+  selector: string;
+  /** The deployment whose ABI decoded the call, e.g. `Token (0.0.1234) on testnet` */
+  abiSource?: string;
+  /** Whether the deployment is the called contract or only has a function with the selector */
+  matchedBy?: 'contractId' | 'selector';
+  signature?: string;
+  args?: DecodedValue[];
+  error?: string;
+}
+
+/**
+ * The contents of signed or unsigned transaction bytes
+ */
+export interface DecodedTransaction {
+  /** Body type, e.g. contractCall or cryptoTransfer */
+  type: string;
+  transactionId?: string;
+  payerAccountId?: string;
+  validStart?: Date;
+  validDurationSeconds: number;
+  nodeAccountIds: string[];
+  maxFee?: string;
+  memo: string;
+  /** Fields of the type-specific body as [path, value] rows, e.g. `gas`, `contractID` */
+  bodyFields: [string, string][];
+  signatures: TransactionSignature[];
+  contractCall?: DecodedContractCall;
+  size: number;
+}
+
+/**
+ * A deployment from the manifest of a network
+ */
+export interface ManifestDeployment {
+  network: string;
+  record: DeploymentRecord;
+}
+
+/**
+ * Helpers to read Hedera transaction bytes pasted in reviews or chat
+ */
+export class TransactionUtils {
+  // Protobuf entity IDs and the field holding their number
+  private static readonly ENTITY_NUMBERS = ['accountNum', 'contractNum', 'tokenNum', 'topicNum', 'fileNum', 'scheduleNum'];
+
+  /**
+   * Read transaction bytes from base64 or hex text, ignoring whitespace and quotes
+   */
+  static parseBytes(text: string): Uint8Array {
+    const compact = text.replace(/[\s"'`]/g, '');
+    if (!compact) {
+      throw new Error('Paste transaction bytes as base64 or hex');
+    }
+
+    // Even-length hex is also valid base64; transaction bytes are far more often pasted as hex
+    if (/^0x/i.test(compact) || (/^[0-9a-fA-F]+$/.test(compact) && compact.length % 2 === 0)) {
+      const hex = compact.replace(/^0x/i, '');
+      if (!/^([0-9a-fA-F]{2})+$/.test(hex)) {
+        throw new Error('Hex bytes must be an even number of hex digits');
+      }
+      return new Uint8Array(Buffer.from(hex, 'hex'));
+    }
+
+    if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(compact)) {
+      throw new Error('Transaction bytes must be base64 or hex');
+    }
+    return new Uint8Array(Buffer.from(compact.replace(/-/g, '+').replace(/_/g, '/'), 'base64'));
+  }
+
+  /**
+   * Decode transaction bytes, as produced by `Transaction.toBytes`. Contract calls are decoded
+   * with the first deployment that is the called contract, else one with a matching function.
+   */
+  static decode(bytes: Uint8Array, deployments: ManifestDeployment[] = []): DecodedTransaction {
+    let transaction: Transaction;
+    try {
+      transaction = Transaction.fromBytes(bytes);
+    } catch (error) {
+      throw new Error(`Not a Hedera transaction: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // The SDK has no getter for the type-specific body; decode the body signed for the first node
+    const [first] = transaction.signableNodeBodyBytesList;
+    const body = proto.TransactionBody.decode(first.signableTransactionBodyBytes);
+    const type = body.data || 'unknown';
+    const bodyFields: [string, string][] = [];
+    TransactionUtils.flattenProtobuf(body[type as keyof proto.TransactionBody], '', bodyFields);
+
+    const transactionId = transaction.transactionId;
+    return {
+      type,
+      transactionId: transactionId?.toString(),
+      payerAccountId: transactionId?.accountId?.toString(),
+      validStart: transactionId?.validStart?.toDate(),
+      validDurationSeconds: transaction.transactionValidDuration,
+      nodeAccountIds: (transaction.nodeAccountIds || []).map(String),
+      maxFee: transaction.maxTransactionFee?.toString(),
+      memo: transaction.transactionMemo,
+      bodyFields,
+      signatures: TransactionUtils.getSignatures(transaction),
+      contractCall: transaction instanceof ContractExecuteTransaction
+        ? TransactionUtils.decodeContractCall(transaction, deployments)
+        : undefined,
+      size: bytes.length
+    };
+  }
+
+  /**
+   * List every signature with the node copy it signs; a signature is valid when it verifies
+   * against the body bytes of that copy
+   */
+  static getSignatures(transaction: Transaction): TransactionSignature[] {
+    const signatureMap = transaction.getSignatures();
+    const signatures: TransactionSignature[] = [];
+
+    for (const { nodeAccountId, transactionId, signableTransactionBodyBytes } of transaction.signableNodeBodyBytesList) {
+      const pairs = signatureMap.get(nodeAccountId)?.get(transactionId);
+      for (const [publicKey, signature] of pairs || []) {
+        signatures.push({
+          nodeAccountId: nodeAccountId.toString(),
+          transactionId: transactionId.toString(),
+          keyType: publicKey.type === 'ED25519' ? 'ED25519' : 'ECDSA',
+          publicKey: publicKey.toStringRaw().toLowerCase(),
+          signature: Buffer.from(signature).toString('hex'),
+          valid: publicKey.verify(signableTransactionBodyBytes, signature)
+        });
+      }
+    }
+
+    return signatures;
+  }
+
+  /**
+   * Flatten a protobuf message into [path, value] rows: entity IDs become `0.0.x`, bytes hex,
+   * durations seconds and timestamps ISO dates. Unset and empty fields are left out.
+   */
+  static flattenProtobuf(value: any, path: string, rows: [string, string][]): void {
+    if (value === null || value === undefined || value === '') {
+      return;
+    }
+
+    const scalar = TransactionUtils.formatScalar(value, path);
+    if (scalar !== undefined) {
+      rows.push([path, scalar]);
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => TransactionUtils.flattenProtobuf(item, `${path}[${index}]`, rows));
+      return;
+    }
+
+    for (const [key, field] of Object.entries(value)) {
+      TransactionUtils.flattenProtobuf(field, path ? `${path}.${key}` : key, rows);
+    }
+  }
+
+  private static formatScalar(value: any, path: string): string | undefined {
+    if (typeof value !== 'object') {
+      return String(value);
+    }
+    if (value instanceof Uint8Array) {
+      return `0x${Buffer.from(value).toString('hex')}`;
+    }
+    // Long from protobufjs
+    if (typeof value.low === 'number' && typeof value.high === 'number' && typeof value.unsigned === 'boolean') {
+      return value.toString();
+    }
+
+    const keys = Object.keys(value).filter(key => value[key] !== null && value[key] !== undefined);
+    const numberField = TransactionUtils.ENTITY_NUMBERS.find(key => keys.includes(key));
+    if (numberField) {
+      return `${value.shardNum || 0}.${value.realmNum || 0}.${value[numberField]}`;
+    }
+    // IDs given as an alias or EVM address instead of a number
+    const addressField = ['alias', 'evmAddress'].find(key => value[key] instanceof Uint8Array && value[key].length > 0);
+    if (addressField && keys.every(key => [addressField, 'shardNum', 'realmNum'].includes(key))) {
+      return `0x${Buffer.from(value[addressField]).toString('hex')}`;
+    }
+
+    // Duration has seconds; Timestamp has seconds and nanos
+    if (keys.includes('seconds') && keys.every(key => key === 'seconds' || key === 'nanos')) {
+      const seconds = Number(value.seconds.toString());
+      if (!keys.includes('nanos') && !/time|expir|start/i.test(path)) {
+        return `${seconds}s`;
+      }
+      return new Date(seconds * 1000 + Math.floor(Number(value.nanos || 0) / 1e6)).toISOString();
+    }
+
+    return undefined;
+  }
+
+  private static decodeContractCall(transaction: ContractExecuteTransaction, deployments: ManifestDeployment[]): DecodedContractCall {
+    const contractId = String(transaction.contractId);
+    const data = transaction.functionParameters || new Uint8Array();
+    const selector = `0x${Buffer.from(data.subarray(0, 4)).toString('hex')}`;
+    const decoded: DecodedContractCall = { contractId, selector };
+
+    if (data.length < 4) {
+      return decoded;
+    }
+
+    const candidates = [
+      ...deployments.filter(({ record }) => record.contractId === contractId).map(deployment => ({ deployment, matchedBy: 'contractId' as const })),
+      ...deployments.filter(({ record }) => record.contractId !== contractId).map(deployment => ({ deployment, matchedBy: 'selector' as const }))
+    ];
+
+    for (const { deployment, matchedBy } of candidates) {
+      try {
+        const call = AbiUtils.decodeFunctionCall(deployment.record.abi || [], data);
+        if (call) {
+          return {
+            ...decoded,
+            abiSource: `${deployment.record.contractName} (${deployment.record.contractId}) on ${deployment.network}`,
+            matchedBy,
+            signature: AbiUtils.getSignature(call.entry),
+            args: call.args
+          };
+        }
+      } catch (error) {
+        // The selector matched but the arguments don't fit the ABI
+        return {
+          ...decoded,
+          abiSource: `${deployment.record.contractName} (${deployment.record.contractId}) on ${deployment.network}`,
+          matchedBy,
+          error: `Failed to decode the arguments: ${error instanceof Error ? error.message : error}`
+        };
+      }
+    }
+
+    return decoded;
+  }
+}
@@ -297,73 +297,8 @@ async function useAgent(
   panel: vscode.WebviewPanel,
   hederaService: any
 ): Promise<void> {
-  try {
-    const { agentId } = message;
-    
-    // Get agent details
-    const agents = await hederaService.getAgents();
-    const agent = agents.find((a: any) => a.id === agentId);
-    
-    if (!agent) {
-      vscode.window.showErrorMessage(`Agent ${agentId} not found`);
-      return;
-    }
-    
-    // Show agent capabilities and ask what to do
-    const action = await vscode.window.showQuickPick(
-      agent.capabilities.map((cap: string) => ({
-        label: cap,
-        description: `Use ${agent.name} for ${cap}`
-      })),
-      {
-        placeHolder: `What would you like ${agent.name} to do?`
-      }
-    );
-    
-    if (!action) {
-      return;
-    }
-    
-    // Handle different capabilities
-    const capability = (action as any)?.label || '';
-    switch (capability) {
-      case 'audit':
-        vscode.commands.executeCommand('hivemind.auditContract');
-        break;
-        
-      case 'test-generation':
-      case 'fuzzing':
-        vscode.commands.executeCommand('hivemind.generateTests');
-        break;
-        
-      case 'optimization':
-      case 'gas-analysis':
-        const editor = vscode.window.activeTextEditor;
-        if (!editor || editor.document.languageId !== 'solidity') {
-          vscode.window.showInformationMessage('Please open a Solidity file to optimize.');
-          return;
-        }
-        
-        // Show optimization in progress
-        vscode.window.withProgress({
-          location: vscode.ProgressLocation.Notification,
-          title: `Optimizing with ${agent.name}...`,
-          cancellable: false
-        }, async (progress) => {
-          // This would call the API to optimize the contract
-          // For now, just show a message
-          await new Promise(resolve => setTimeout(resolve, 2000));
-          vscode.window.showInformationMessage(`Optimization with ${agent.name} completed.`);
-        });
-        break;
-        
-      default:
-        vscode.window.showInformationMessage(`Using ${agent.name} for ${capability}`);
-    }
-  } catch (error) {
-    console.error('Failed to use agent:', error);
-    vscode.window.showErrorMessage(`Failed to use agent: ${error}`);
-  }
+  // The Agent Explorer asks for the capability and handles the fee payment
+  await vscode.commands.executeCommand('hivemindAgentExplorer.useAgent', message.agentId);
 }
 
 /**
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title ContractRegistry
+ * @dev A registry of contracts deployed with HiveMind, so their ABI can be found from their address
+ */
+contract ContractRegistry {
+    struct ContractRecord {
+        string name;
+        bytes32 abiHash;
+        bytes32 sourceHash;
+        address owner;
+        string network;
+        uint256 registeredAt;
+    }
+
+    mapping(address => ContractRecord) public records;
+    // ABI JSON by its SHA-256 hash; shared by every contract built from the same source
+    mapping(bytes32 => string) private abis;
+
+    event ContractRegistered(address contractAddress, string name, address owner);
+    event AbiPublished(bytes32 abiHash);
+
+    /**
+     * @dev Register a contract, or update a registration made from the same account
+     * @param contractAddress EVM address of the contract
+     * @param name Contract name
+     * @param abiHash SHA-256 of the ABI JSON, published with publishAbi
+     * @param sourceHash SHA-256 of the Solidity source
+     * @param network Network the contract was deployed on, e.g. testnet
+     */
+    function registerContract(
+        address contractAddress,
+        string memory name,
+        bytes32 abiHash,
+        bytes32 sourceHash,
+        string memory network
+    ) public {
+        require(contractAddress != address(0), "Contract address cannot be empty");
+        require(
+            records[contractAddress].owner == address(0) || records[contractAddress].owner == msg.sender,
+            "Contract registered by another account"
+        );
+
+        records[contractAddress] = ContractRecord({
+            name: name,
+            abiHash: abiHash,
+            sourceHash: sourceHash,
+            owner: msg.sender,
+            network: network,
+            registeredAt: block.timestamp
+        });
+
+        emit ContractRegistered(contractAddress, name, msg.sender);
+    }
+
+    /**
+     * @dev Store an ABI under its SHA-256 hash; publishing the same ABI again is a no-op
+     * @param abi ABI JSON
+     * @return abiHash SHA-256 of the ABI JSON
+     */
+    function publishAbi(string memory abi) public returns (bytes32 abiHash) {
+        abiHash = sha256(bytes(abi));
+        if (bytes(abis[abiHash]).length == 0) {
+            abis[abiHash] = abi;
+            emit AbiPublished(abiHash);
+        }
+    }
+
+    /**
+     * @dev Whether an ABI has been published
+     * @param abiHash SHA-256 of the ABI JSON
+     */
+    function hasAbi(bytes32 abiHash) public view returns (bool) {
+        return bytes(abis[abiHash]).length > 0;
+    }
+
+    /**
+     * @dev Get a published ABI
+     * @param abiHash SHA-256 of the ABI JSON
+     * @return ABI JSON, empty if not published
+     */
+    function getAbi(bytes32 abiHash) public view returns (string memory) {
+        return abis[abiHash];
+    }
+
+    /**
+     * @dev Get a contract registration
+     * @param contractAddress EVM address of the contract
+     * @return name Contract name
+     * @return abiHash SHA-256 of the ABI JSON
+     * @return sourceHash SHA-256 of the Solidity source
+     * @return owner Account that registered the contract, zero if not registered
+     * @return network Network the contract was deployed on
+     * @return registeredAt Consensus time of the last registration
+     */
+    function getContract(address contractAddress) public view returns (
+        string memory name,
+        bytes32 abiHash,
+        bytes32 sourceHash,
+        address owner,
+        string memory network,
+        uint256 registeredAt
+    ) {
+        ContractRecord storage record = records[contractAddress];
+        return (
+            record.name,
+            record.abiHash,
+            record.sourceHash,
+            record.owner,
+            record.network,
+            record.registeredAt
+        );
+    }
+}
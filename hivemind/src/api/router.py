@@ -25,6 +25,9 @@ class CodeAnalysisRequest(BaseModel):
     code: str
     language: str = "solidity"
     generate_tests: bool = False
+    # Set when the request is an agent invocation paid for with an HBAR transfer
+    agent_id: Optional[str] = None
+    payment_transaction_id: Optional[str] = None
 
 class CodeAnalysisResponse(BaseModel):
     """Response model for code analysis"""
@@ -50,6 +53,9 @@ class ContractDeploymentResponse(BaseModel):
 class SecurityAuditRequest(BaseModel):
     """Request model for security audit"""
     code: str
+    # Set when the request is an agent invocation paid for with an HBAR transfer
+    agent_id: Optional[str] = None
+    payment_transaction_id: Optional[str] = None
 
 class SecurityAuditResponse(BaseModel):
     """Response model for security audit"""
@@ -59,6 +65,9 @@ class SecurityAuditResponse(BaseModel):
 class AgentCollaborationRequest(BaseModel):
     """Request model for agent collaboration"""
     contract_address: str
+    # HCS topic of the collaboration job, when started from the extension
+    topic_id: Optional[str] = None
+    job_id: Optional[str] = None
 
 class AgentCollaborationResponse(BaseModel):
     """Response model for agent collaboration"""